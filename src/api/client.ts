@@ -2,6 +2,23 @@ import { RpcClient, RpcSerialization } from "@effect/rpc";
 import { FetchHttpClient } from "@effect/platform";
 import { Layer, Effect, ManagedRuntime } from "effect";
 import { ApiGroup } from "./procedures";
+import type {
+  CreateLookupTable,
+  CreateSnapshot,
+  CreateSnapshotFromDiff,
+  CrosswalkFilter,
+  DestinationFileFormat,
+  ErrorCategory,
+  FailureGroupRequest,
+  ImportRowCorrectionsRequest,
+  LookupCrosswalkRequest,
+  RowEdits,
+  RowFilter,
+  RowStatus,
+  SnapshotDiffRequest,
+  SourceFileUpload,
+  UpdateLookupTable,
+} from "./schemas";
 
 // ---------------------
 // Client Layer
@@ -115,6 +132,14 @@ export const getQueryDefinition = (environmentId: string, path: string) =>
 export const getQuerySampleKeys = (environmentId: string, path: string) =>
   withClient((client) => client.queries.sampleKeys({ environmentId, path }));
 
+// ---------------------
+// Source File Functions
+// ---------------------
+
+/** Read an uploaded file's columns and first rows */
+export const previewSourceFile = (upload: SourceFileUpload) =>
+  withClient((client) => client.sourceFiles.preview(upload));
+
 // ---------------------
 // Trace Functions
 // ---------------------
@@ -144,14 +169,24 @@ export const exportTraces = () => withClient((client) => client.traces.export())
 /** Create a new migration job */
 export const createJob = (data: {
   name: string;
-  mode: "query" | "datasource";
+  mode: "query" | "datasource" | "file";
   sourceEnvironmentId: string;
   sourceQueryPath?: string;
+  queryParameters?: Array<{ propertyName: string; value: string }>;
   sourceEntityType?: string;
+  sourceFile?: SourceFileUpload;
+  sourceSnapshotId?: string;
   destEnvironmentId: string;
   destEntityType: string;
-  destType?: "bo_entity" | "custom_endpoint";
+  destType?: "bo_entity" | "custom_endpoint" | "file";
+  destFileFormat?: DestinationFileFormat;
+  writeMode?: "insert" | "update" | "upsert";
+  dryRun?: boolean;
   mappings: Array<{ sourceProperty: string; destinationProperty: string | null }>;
+  parentLink?: { parentJobId: string; sourceProperty: string; parentKeyProperty: string };
+  sourceKeyProperty?: string;
+  rowFilter?: RowFilter;
+  watermarkColumn?: string;
 }) => withClient((client) => client.jobs.create(data));
 
 /** List all jobs */
@@ -163,20 +198,60 @@ export const getJob = (jobId: string) => withClient((client) => client.jobs.get(
 /** Run a queued job */
 export const runJob = (jobId: string) => withClient((client) => client.jobs.run({ jobId }));
 
+/** Create a delta run of a job (rows newer than its saved watermark) and start it */
+export const runDelta = (jobId: string) => withClient((client) => client.jobs.runDelta({ jobId }));
+
+/** List the runs of a job (its first run and every delta run), oldest first */
+export const listJobRuns = (jobId: string) => withClient((client) => client.jobs.runs({ jobId }));
+
 /** Retry failed rows for a job */
 export const retryFailedRows = (jobId: string) =>
   withClient((client) => client.jobs.retry({ jobId }));
 
-/** Retry a single failed row */
-export const retrySingleRow = (rowId: string) =>
-  withClient((client) => client.jobs.retrySingleRow({ rowId }));
+/** Group a job's failed rows by error category and normalized message */
+export const listFailureGroups = (jobId: string) =>
+  withClient((client) => client.jobs.failureGroups({ jobId }));
+
+/** Retry the failed rows of one failure group */
+export const retryFailureGroup = (request: FailureGroupRequest) =>
+  withClient((client) => client.jobs.retryFailureGroup(request));
+
+/** Mark the failed rows of one failure group as skipped */
+export const skipFailureGroup = (request: FailureGroupRequest) =>
+  withClient((client) => client.jobs.skipFailureGroup(request));
+
+/** Export a job's failed rows (source and transformed values) as CSV */
+export const exportFailedRows = (jobId: string) =>
+  withClient((client) => client.jobs.exportFailedRows({ jobId }));
+
+/** Apply an edited failed rows export to the rows' stored payloads and edits */
+export const importRowCorrections = (request: ImportRowCorrectionsRequest) =>
+  withClient((client) => client.jobs.importRowCorrections(request));
+
+/** Re-fetch the source batches whose fetch failed during a job's run */
+export const retryFailedBatches = (jobId: string) =>
+  withClient((client) => client.jobs.retryFailedBatches({ jobId }));
+
+/** Retry a single failed row, optionally replacing its manual edits */
+export const retrySingleRow = (rowId: string, edits?: RowEdits) =>
+  withClient((client) =>
+    client.jobs.retrySingleRow({ rowId, ...(edits !== undefined && { edits }) }),
+  );
+
+/** Decrypt and transform a row for editing its values before a retry */
+export const getRowPayload = (rowId: string) =>
+  withClient((client) => client.rows.payload({ rowId }));
 
 /** Get rows for a job (with attempt info) */
-export const getJobRows = (jobId: string, options?: { status?: "success" | "failed" }) =>
+export const getJobRows = (
+  jobId: string,
+  options?: { status?: RowStatus; errorCategory?: ErrorCategory },
+) =>
   withClient((client) =>
     client.jobs.rows({
       jobId,
       ...(options?.status !== undefined && { status: options.status }),
+      ...(options?.errorCategory !== undefined && { errorCategory: options.errorCategory }),
     }),
   );
 
@@ -187,9 +262,96 @@ export const getRowAttempts = (rowId: string) =>
 /** Cancel a running job */
 export const cancelJob = (jobId: string) => withClient((client) => client.jobs.cancel({ jobId }));
 
+/** Pause a running job (in-flight batches finish first) */
+export const pauseJob = (jobId: string) => withClient((client) => client.jobs.pause({ jobId }));
+
+/** Resume a paused job */
+export const resumeJob = (jobId: string) => withClient((client) => client.jobs.resume({ jobId }));
+
 /** Delete a job and its associated failed rows */
 export const deleteJob = (jobId: string) => withClient((client) => client.jobs.delete({ jobId }));
 
+// ---------------------
+// Verification Functions
+// ---------------------
+
+/** Verify a finished job by reading its records back from the destination */
+export const verifyJob = (jobId: string) => withClient((client) => client.jobs.verify({ jobId }));
+
+/** Get a job's latest verification and the rows that did not match */
+export const getVerification = (jobId: string) =>
+  withClient((client) => client.jobs.verification({ jobId }));
+
+// ---------------------
+// Rollback Functions
+// ---------------------
+
+/** Delete the destination records a finished job created */
+export const rollbackJob = (jobId: string) =>
+  withClient((client) => client.jobs.rollback({ jobId }));
+
+/** Get a job's rollback progress and the rows that could not be deleted */
+export const getRollback = (jobId: string) =>
+  withClient((client) => client.jobs.rollbackStatus({ jobId }));
+
+// ---------------------
+// Crosswalk Functions
+// ---------------------
+
+/** List ID crosswalk entries (source key → destination identity) */
+export const listCrosswalk = (filter: CrosswalkFilter = {}) =>
+  withClient((client) => client.jobs.crosswalk(filter));
+
+/** Look up destination identities for a set of source keys */
+export const lookupCrosswalk = (request: LookupCrosswalkRequest) =>
+  withClient((client) => client.jobs.lookupCrosswalk(request));
+
+/** Export ID crosswalk entries as CSV */
+export const exportCrosswalk = (filter: CrosswalkFilter = {}) =>
+  withClient((client) => client.jobs.exportCrosswalk(filter));
+
+// ---------------------
+// Lookup Table Functions
+// ---------------------
+
+/** List all lookup tables */
+export const listLookupTables = () => withClient((client) => client.lookupTables.list());
+
+/** Create a lookup table */
+export const createLookupTable = (data: CreateLookupTable) =>
+  withClient((client) => client.lookupTables.create(data));
+
+/** Update a lookup table */
+export const updateLookupTable = (data: UpdateLookupTable) =>
+  withClient((client) => client.lookupTables.update(data));
+
+/** Delete a lookup table */
+export const deleteLookupTable = (id: string) =>
+  withClient((client) => client.lookupTables.delete({ id }));
+
+// ---------------------
+// Snapshot Functions
+// ---------------------
+
+/** List snapshots, newest first */
+export const listSnapshots = () => withClient((client) => client.snapshots.list());
+
+/** Create a snapshot (its source rows are captured in the background) */
+export const createSnapshot = (data: CreateSnapshot) =>
+  withClient((client) => client.snapshots.create(data));
+
+/** Compare two captures of the same source (a page of the changes, with counts of each kind) */
+export const diffSnapshots = (request: SnapshotDiffRequest) =>
+  withClient((client) => client.snapshots.diff(request));
+
+/** Store the rows added or modified between two captures as a new snapshot */
+export const createSnapshotFromDiff = (data: CreateSnapshotFromDiff) =>
+  withClient((client) => client.snapshots.createFromDiff(data));
+
+/** Delete a snapshot and its captured rows */
+export const deleteSnapshot = (id: string) =>
+  withClient((client) => client.snapshots.delete({ id }));
+
 // ---------------------
 // Settings Functions
 // ---------------------
@@ -240,20 +402,58 @@ export type {
   JobWithEnvironments,
   JobStatus,
   JobMode,
+  WriteMode,
+  DestinationFileFormat,
   Row,
   RowStatus,
   RowWithAttemptsInfo,
   Attempt,
   AttemptReason,
+  AttemptOutcome,
+  ErrorCategory,
   GetJobRowsResponse,
   PropertyMapping,
+  ParentLink,
+  RowFilter,
+  QueryParameterValue,
   CreateJobRequest,
   CreateJobResponse,
   RunJobResponse,
   RetryFailedRowsResponse,
+  FailureGroup,
+  FailureGroupRequest,
+  SkipFailureGroupResponse,
+  ImportRowCorrectionsResponse,
+  RetryFailedBatchesResponse,
   RetrySingleRowResponse,
+  RowEdits,
+  RowPayload,
+  MappingProblem,
+  Verification,
+  VerificationIssue,
+  VerificationResult,
+  Rollback,
+  RollbackAttempt,
   Settings,
   GetQuerySampleKeysResponse,
+  SourceFileUpload,
+  SourceFileColumn,
+  SourceFilePreview,
+  CrosswalkEntry,
+  CrosswalkFilter,
+  LookupCrosswalkRequest,
+  LookupFallback,
+  LookupTable,
+  CreateLookupTable,
+  UpdateLookupTable,
+  Snapshot,
+  SnapshotStatus,
+  CreateSnapshot,
+  SnapshotDiff,
+  SnapshotDiffKind,
+  SnapshotDiffEntry,
+  SnapshotDiffRequest,
+  CreateSnapshotFromDiff,
 } from "./schemas";
 
 export type {
@@ -266,4 +466,5 @@ export type {
   QueryDefinition,
   QueryDefinitionResult,
   QueryPropertyData,
+  CriteriaData,
 } from "./imis-schemas";
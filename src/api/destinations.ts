@@ -1,6 +1,7 @@
 import { Schema } from "effect";
 import type { BoEntityDefinition, BoProperty } from "./imis-schemas";
 import type { BinaryBlob } from "../services/migration-job";
+import type { PropertyMapping } from "../components/export/PropertyMapper";
 
 // ---------------------
 // Destination Type Schemas
@@ -10,8 +11,9 @@ import type { BinaryBlob } from "../services/migration-job";
  * Discriminator for destination types.
  * - bo_entity: Standard iMIS Business Object entity definition
  * - custom_endpoint: Custom API endpoint with hardcoded definition
+ * - file: Local CSV, NDJSON or Parquet file with a column for each mapped property
  */
-export const DestinationTypeSchema = Schema.Literal("bo_entity", "custom_endpoint");
+export const DestinationTypeSchema = Schema.Literal("bo_entity", "custom_endpoint", "file");
 
 export type DestinationType = typeof DestinationTypeSchema.Type;
 
@@ -143,6 +145,45 @@ export function boEntitiesToDestinations(
   return entities.map(boEntityToDestination);
 }
 
+// ---------------------
+// Mapping Rules
+// ---------------------
+
+type IsPrimaryValidationResult = {
+  required: boolean;
+  isMapped: boolean;
+  error: string | null;
+};
+
+/**
+ * Check if IsPrimary mapping is required for a Party destination.
+ */
+export function checkIsPrimaryRequired(
+  destPrimaryParentEntityTypeName: string | null | undefined,
+  destProperties: readonly BoProperty[],
+  mappings: PropertyMapping[],
+): IsPrimaryValidationResult {
+  // Only required when destination is a Party-linked entity
+  if (destPrimaryParentEntityTypeName !== "Party") {
+    return { required: false, isMapped: true, error: null };
+  }
+
+  // Check if IsPrimary exists in destination properties
+  const isPrimaryExists = destProperties.some((p) => p.Name === "IsPrimary");
+  if (!isPrimaryExists) {
+    return { required: false, isMapped: true, error: null };
+  }
+
+  // Check if IsPrimary is mapped
+  const isPrimaryMapped = mappings.some((m) => m.destinationProperty === "IsPrimary");
+
+  return {
+    required: true,
+    isMapped: isPrimaryMapped,
+    error: isPrimaryMapped ? null : "IsPrimary must be mapped for Party destinations",
+  };
+}
+
 // ---------------------
 // Custom Endpoint Support
 // ---------------------
@@ -14,7 +14,11 @@ import {
   TraceStoreErrorSchema,
   JobNotFoundErrorSchema,
   JobAlreadyRunningErrorSchema,
+  MigrationErrorSchema,
   InvalidMasterPasswordErrorSchema,
+  LookupTableNotFoundErrorSchema,
+  SnapshotNotFoundErrorSchema,
+  type SourceFileUpload,
 } from "./schemas";
 import {
   hashPassword,
@@ -40,11 +44,20 @@ import {
   NotStaffAccountError,
 } from "../services/imis-api";
 import { TraceStoreService, TraceStoreError } from "../services/trace-store";
+import { CrosswalkService } from "../services/crosswalk";
+import { LookupTableService, LookupTableNotFoundError } from "../services/lookup-tables";
+import { SnapshotService, SnapshotError, SnapshotNotFoundError } from "../services/snapshots";
 import {
   MigrationJobService,
   JobNotFoundError,
   JobAlreadyRunningError,
+  MigrationError,
+  isRunnableStatus,
+  isResumableStatus,
+  isRunByOtherProcess,
+  verificationProblem,
 } from "../services/migration-job";
+import { readSourceFile } from "../lib/source-file";
 import type { NewEnvironment } from "../db/schema";
 
 // ---------------------
@@ -104,6 +117,27 @@ const mapJobNotFoundError = (error: JobNotFoundError) =>
 const mapJobAlreadyRunningError = (error: JobAlreadyRunningError) =>
   new JobAlreadyRunningErrorSchema({ jobId: error.jobId });
 
+const mapMigrationError = (error: MigrationError) =>
+  new MigrationErrorSchema({ message: error.message });
+
+const mapLookupTableError = (error: DatabaseError | LookupTableNotFoundError) => {
+  if (error._tag === "DatabaseError") {
+    return mapDatabaseError(error);
+  }
+  return new LookupTableNotFoundErrorSchema({ id: error.id });
+};
+
+const mapSnapshotError = (error: DatabaseError | SnapshotNotFoundError | SnapshotError) => {
+  switch (error._tag) {
+    case "DatabaseError":
+      return mapDatabaseError(error);
+    case "SnapshotNotFoundError":
+      return new SnapshotNotFoundErrorSchema({ id: error.id });
+    case "SnapshotError":
+      return new ValidationErrorSchema({ message: error.message });
+  }
+};
+
 const mapInvalidCredentialsError = (error: InvalidCredentialsError) => {
   const cause = error.cause as { status?: number; body?: string } | undefined;
   return new InvalidCredentialsErrorSchema({
@@ -176,6 +210,28 @@ const mapConnectionError = (
   }
 };
 
+const mapSnapshotDiffError = (
+  error:
+    | DatabaseError
+    | SnapshotNotFoundError
+    | SnapshotError
+    | EnvironmentNotFoundError
+    | MissingCredentialsError
+    | ImisAuthError
+    | ImisRequestError
+    | ImisResponseError
+    | ImisSchemaError,
+) => {
+  switch (error._tag) {
+    case "DatabaseError":
+    case "SnapshotNotFoundError":
+    case "SnapshotError":
+      return mapSnapshotError(error);
+    default:
+      return mapConnectionError(error);
+  }
+};
+
 // ---------------------
 // Helper: Generate UUID
 // ---------------------
@@ -220,6 +276,21 @@ const fetchFavicon = (baseUrl: string): Effect.Effect<string | null, never, neve
     return `data:${contentType};base64,${base64}`;
   }).pipe(Effect.catchAll(() => Effect.succeed(null)));
 
+// ---------------------
+// Helper: Read Uploaded Source File
+// ---------------------
+
+const readUploadedFile = (upload: SourceFileUpload) =>
+  Effect.gen(function* () {
+    const result = yield* Effect.promise(() =>
+      readSourceFile(upload.name, Buffer.from(upload.content, "base64")),
+    );
+    if (!result.ok) {
+      return yield* Effect.fail(new ValidationErrorSchema({ message: result.message }));
+    }
+    return result.data;
+  });
+
 // ---------------------
 // Handlers Implementation
 // ---------------------
@@ -464,6 +535,21 @@ export const HandlersLive = ApiGroup.toLayer({
       };
     }).pipe(Effect.mapError(mapConnectionError)),
 
+  // ---------------------
+  // Source File Handlers
+  // ---------------------
+
+  "sourceFiles.preview": (upload) =>
+    Effect.gen(function* () {
+      const data = yield* readUploadedFile(upload);
+      return {
+        format: data.format,
+        columns: data.columns,
+        rowCount: data.rows.length,
+        sampleRows: data.rows.slice(0, 5),
+      };
+    }),
+
   // ---------------------
   // Trace Handlers
   // ---------------------
@@ -509,42 +595,14 @@ export const HandlersLive = ApiGroup.toLayer({
   "jobs.create": (payload) =>
     Effect.gen(function* () {
       const jobService = yield* MigrationJobService;
-
-      // Validate required fields based on mode
-      if (!payload.name) {
-        return yield* Effect.fail(new ValidationErrorSchema({ message: "Job name is required" }));
-      }
-      if (payload.mode === "query" && !payload.sourceQueryPath) {
-        return yield* Effect.fail(
-          new ValidationErrorSchema({ message: "Source query path is required for query mode" }),
-        );
-      }
-      if (payload.mode === "datasource" && !payload.sourceEntityType) {
-        return yield* Effect.fail(
-          new ValidationErrorSchema({
-            message: "Source entity type is required for datasource mode",
-          }),
-        );
-      }
-
-      const result = yield* jobService.createJob({
-        name: payload.name,
-        mode: payload.mode,
-        sourceEnvironmentId: payload.sourceEnvironmentId,
-        sourceQueryPath: payload.sourceQueryPath,
-        sourceEntityType: payload.sourceEntityType,
-        destEnvironmentId: payload.destEnvironmentId,
-        destEntityType: payload.destEntityType,
-        destType: payload.destType ?? "bo_entity",
-        mappings: [...payload.mappings],
-      });
-
-      // Job stays in "queued" status - user must manually run from job details page
-      return result;
+      return yield* jobService.createJobFromRequest(payload);
     }).pipe(
       Effect.mapError((error) => {
-        if (error instanceof ValidationErrorSchema) return error;
+        if (error._tag === "JobValidationError") {
+          return new ValidationErrorSchema({ message: error.message });
+        }
         if (error._tag === "DatabaseError") return mapDatabaseError(error);
+        if (error._tag === "MissingCredentialsError") return mapMissingCredentialsError(error);
         return mapDatabaseError(new DatabaseError({ message: "Unknown error", cause: error }));
       }),
     ),
@@ -609,9 +667,9 @@ export const HandlersLive = ApiGroup.toLayer({
       const jobService = yield* MigrationJobService;
 
       // Verify job exists and is in a runnable state (will throw if not found or already running)
-      // Note: Only "queued" and "failed" allowed. "partial" jobs should use "Retry Failed" to avoid duplicates.
+      // Note: Only "queued" and "failed" allowed (plus finished dry runs). "partial" jobs should use "Retry Failed" to avoid duplicates.
       const job = yield* jobService.getJob(jobId);
-      if (job.status !== "queued" && job.status !== "failed") {
+      if (!isRunnableStatus(job) || isRunByOtherProcess(job)) {
         return yield* Effect.fail(new JobAlreadyRunningError({ jobId }));
       }
 
@@ -639,6 +697,45 @@ export const HandlersLive = ApiGroup.toLayer({
       }),
     ),
 
+  "jobs.runDelta": ({ jobId }) =>
+    Effect.gen(function* () {
+      const jobService = yield* MigrationJobService;
+      const result = yield* jobService.createDeltaRun(jobId);
+
+      // Run the delta in the background like a regular run
+      yield* Effect.forkDaemon(
+        jobService.runJob(result.jobId).pipe(
+          Effect.catchAllCause((cause) => {
+            console.error(`[MigrationJob] Background delta run ${result.jobId} failed:`, cause);
+            return Effect.void;
+          }),
+        ),
+      );
+
+      return result;
+    }).pipe(
+      Effect.mapError((error) => {
+        switch (error._tag) {
+          case "JobNotFoundError":
+            return mapJobNotFoundError(error);
+          case "MigrationError":
+            return mapMigrationError(error);
+          case "DatabaseError":
+            return mapDatabaseError(error);
+        }
+      }),
+    ),
+
+  "jobs.runs": ({ jobId }) =>
+    Effect.gen(function* () {
+      const jobService = yield* MigrationJobService;
+      return yield* jobService.listJobRuns(jobId);
+    }).pipe(
+      Effect.mapError((error) =>
+        error._tag === "JobNotFoundError" ? mapJobNotFoundError(error) : mapDatabaseError(error),
+      ),
+    ),
+
   "jobs.retry": ({ jobId }) =>
     Effect.gen(function* () {
       const jobService = yield* MigrationJobService;
@@ -649,20 +746,163 @@ export const HandlersLive = ApiGroup.toLayer({
         switch (error._tag) {
           case "JobNotFoundError":
             return mapJobNotFoundError(error);
+          case "JobAlreadyRunningError":
+            return mapJobAlreadyRunningError(error);
           case "DatabaseError":
             return mapDatabaseError(error);
           case "EnvironmentNotFoundError":
             return mapEnvironmentNotFoundError(error);
           case "MissingCredentialsError":
             return mapMissingCredentialsError(error);
+          case "ImisAuthError":
+            return mapImisAuthError(error);
+          case "ImisRequestError":
+            return mapImisRequestError(error);
+          case "ImisResponseError":
+            return mapImisResponseError(error);
+          case "ImisSchemaError":
+            return mapImisSchemaError(error);
+          case "MigrationError":
+            return mapMigrationError(error);
         }
       }),
     ),
 
-  "jobs.rows": ({ jobId, status }) =>
+  "jobs.failureGroups": ({ jobId }) =>
+    Effect.gen(function* () {
+      const jobService = yield* MigrationJobService;
+      return yield* jobService.getFailureGroups(jobId);
+    }).pipe(
+      Effect.mapError((error) =>
+        error._tag === "JobNotFoundError" ? mapJobNotFoundError(error) : mapDatabaseError(error),
+      ),
+    ),
+
+  "jobs.retryFailureGroup": ({ jobId, category, message }) =>
     Effect.gen(function* () {
       const jobService = yield* MigrationJobService;
-      const result = yield* jobService.getJobRows(jobId, { status });
+      return yield* jobService.retryFailedRows(jobId, { category, message });
+    }).pipe(
+      Effect.mapError((error) => {
+        switch (error._tag) {
+          case "JobNotFoundError":
+            return mapJobNotFoundError(error);
+          case "JobAlreadyRunningError":
+            return mapJobAlreadyRunningError(error);
+          case "DatabaseError":
+            return mapDatabaseError(error);
+          case "EnvironmentNotFoundError":
+            return mapEnvironmentNotFoundError(error);
+          case "MissingCredentialsError":
+            return mapMissingCredentialsError(error);
+          case "ImisAuthError":
+            return mapImisAuthError(error);
+          case "ImisRequestError":
+            return mapImisRequestError(error);
+          case "ImisResponseError":
+            return mapImisResponseError(error);
+          case "ImisSchemaError":
+            return mapImisSchemaError(error);
+          case "MigrationError":
+            return mapMigrationError(error);
+        }
+      }),
+    ),
+
+  "jobs.skipFailureGroup": ({ jobId, category, message }) =>
+    Effect.gen(function* () {
+      const jobService = yield* MigrationJobService;
+      return yield* jobService.skipFailureGroup(jobId, { category, message });
+    }).pipe(
+      Effect.mapError((error) => {
+        switch (error._tag) {
+          case "JobNotFoundError":
+            return mapJobNotFoundError(error);
+          case "JobAlreadyRunningError":
+            return mapJobAlreadyRunningError(error);
+          case "DatabaseError":
+            return mapDatabaseError(error);
+          case "MigrationError":
+            return mapMigrationError(error);
+        }
+      }),
+    ),
+
+  "jobs.exportFailedRows": ({ jobId }) =>
+    Effect.gen(function* () {
+      const jobService = yield* MigrationJobService;
+      return yield* jobService.exportFailedRows(jobId);
+    }).pipe(
+      Effect.mapError((error) => {
+        switch (error._tag) {
+          case "JobNotFoundError":
+            return mapJobNotFoundError(error);
+          case "MissingCredentialsError":
+            return mapMissingCredentialsError(error);
+          case "MigrationError":
+            return mapMigrationError(error);
+          case "DatabaseError":
+            return mapDatabaseError(error);
+        }
+      }),
+    ),
+
+  "jobs.importRowCorrections": ({ jobId, csv }) =>
+    Effect.gen(function* () {
+      const jobService = yield* MigrationJobService;
+      return yield* jobService.importFailedRowCorrections(jobId, csv);
+    }).pipe(
+      Effect.mapError((error) => {
+        switch (error._tag) {
+          case "JobNotFoundError":
+            return mapJobNotFoundError(error);
+          case "JobAlreadyRunningError":
+            return mapJobAlreadyRunningError(error);
+          case "MissingCredentialsError":
+            return mapMissingCredentialsError(error);
+          case "MigrationError":
+            return mapMigrationError(error);
+          case "DatabaseError":
+            return mapDatabaseError(error);
+        }
+      }),
+    ),
+
+  "jobs.retryFailedBatches": ({ jobId }) =>
+    Effect.gen(function* () {
+      const jobService = yield* MigrationJobService;
+      return yield* jobService.retryFailedBatches(jobId);
+    }).pipe(
+      Effect.mapError((error) => {
+        switch (error._tag) {
+          case "JobNotFoundError":
+            return mapJobNotFoundError(error);
+          case "JobAlreadyRunningError":
+            return mapJobAlreadyRunningError(error);
+          case "DatabaseError":
+            return mapDatabaseError(error);
+          case "EnvironmentNotFoundError":
+            return mapEnvironmentNotFoundError(error);
+          case "MissingCredentialsError":
+            return mapMissingCredentialsError(error);
+          case "ImisAuthError":
+            return mapImisAuthError(error);
+          case "ImisRequestError":
+            return mapImisRequestError(error);
+          case "ImisResponseError":
+            return mapImisResponseError(error);
+          case "ImisSchemaError":
+            return mapImisSchemaError(error);
+          case "MigrationError":
+            return mapMigrationError(error);
+        }
+      }),
+    ),
+
+  "jobs.rows": ({ jobId, status, errorCategory }) =>
+    Effect.gen(function* () {
+      const jobService = yield* MigrationJobService;
+      const result = yield* jobService.getJobRows(jobId, { status, errorCategory });
       return result;
     }).pipe(Effect.mapError(mapDatabaseError)),
 
@@ -673,14 +913,35 @@ export const HandlersLive = ApiGroup.toLayer({
       return attempts;
     }).pipe(Effect.mapError(mapDatabaseError)),
 
-  "jobs.retrySingleRow": ({ rowId }) =>
+  "rows.payload": ({ rowId }) =>
     Effect.gen(function* () {
       const jobService = yield* MigrationJobService;
-      return yield* jobService.retrySingleRow(rowId);
+      return yield* jobService.getRowPayload(rowId);
+    }).pipe(
+      Effect.mapError((error) => {
+        switch (error._tag) {
+          case "JobNotFoundError":
+            return mapJobNotFoundError(error);
+          case "MissingCredentialsError":
+            return mapMissingCredentialsError(error);
+          case "MigrationError":
+            return mapMigrationError(error);
+          case "DatabaseError":
+            return mapDatabaseError(error);
+        }
+      }),
+    ),
+
+  "jobs.retrySingleRow": ({ rowId, edits }) =>
+    Effect.gen(function* () {
+      const jobService = yield* MigrationJobService;
+      return yield* jobService.retrySingleRow(rowId, edits);
     }).pipe(
       Effect.mapError((error) => {
         if (error._tag === "JobNotFoundError") return mapJobNotFoundError(error);
+        if (error._tag === "JobAlreadyRunningError") return mapJobAlreadyRunningError(error);
         if (error._tag === "MissingCredentialsError") return mapMissingCredentialsError(error);
+        if (error._tag === "MigrationError") return mapMigrationError(error);
         if (error._tag === "DatabaseError") return mapDatabaseError(error);
         return mapDatabaseError(new DatabaseError({ message: "Unknown error", cause: error }));
       }),
@@ -698,22 +959,315 @@ export const HandlersLive = ApiGroup.toLayer({
       }),
     ),
 
-  "jobs.delete": ({ jobId }) =>
+  "jobs.pause": ({ jobId }) =>
     Effect.gen(function* () {
       const jobService = yield* MigrationJobService;
-      yield* jobService.deleteJob(jobId);
+      yield* jobService.pauseJob(jobId);
     }).pipe(
       Effect.mapError((error) => {
         if (error._tag === "JobNotFoundError") return mapJobNotFoundError(error);
+        if (error._tag === "MigrationError") return mapMigrationError(error);
         if (error._tag === "DatabaseError") return mapDatabaseError(error);
         return mapDatabaseError(new DatabaseError({ message: "Unknown error", cause: error }));
       }),
     ),
 
+  "jobs.resume": ({ jobId }) =>
+    Effect.gen(function* () {
+      const jobService = yield* MigrationJobService;
+
+      // Verify the job exists, is paused or interrupted and is not run by another process (the CLI)
+      const job = yield* jobService.getJob(jobId);
+      if (!isResumableStatus(job) || isRunByOtherProcess(job)) {
+        return yield* Effect.fail(new JobAlreadyRunningError({ jobId }));
+      }
+
+      yield* Effect.forkDaemon(
+        jobService.resumeJob(jobId).pipe(
+          Effect.catchAllCause((cause) => {
+            console.error(`[MigrationJob] Background job ${jobId} failed on resume:`, cause);
+            return Effect.void;
+          }),
+        ),
+      );
+
+      return { started: true };
+    }).pipe(
+      Effect.mapError((error) => {
+        switch (error._tag) {
+          case "JobNotFoundError":
+            return mapJobNotFoundError(error);
+          case "JobAlreadyRunningError":
+            return mapJobAlreadyRunningError(error);
+          case "DatabaseError":
+            return mapDatabaseError(error);
+        }
+      }),
+    ),
+
+  "jobs.delete": ({ jobId }) =>
+    Effect.gen(function* () {
+      const jobService = yield* MigrationJobService;
+      yield* jobService.deleteJob(jobId);
+    }).pipe(
+      Effect.mapError((error) => {
+        switch (error._tag) {
+          case "JobNotFoundError":
+            return mapJobNotFoundError(error);
+          case "JobAlreadyRunningError":
+            return mapJobAlreadyRunningError(error);
+          case "MigrationError":
+            return mapMigrationError(error);
+          case "DatabaseError":
+            return mapDatabaseError(error);
+        }
+      }),
+    ),
+
+  "jobs.verify": ({ jobId }) =>
+    Effect.gen(function* () {
+      const jobService = yield* MigrationJobService;
+
+      // Check the job can be verified before reading its records back in the background
+      const job = yield* jobService.getJob(jobId);
+      const problem = verificationProblem(job);
+      if (problem) {
+        return yield* Effect.fail(new MigrationError({ message: problem }));
+      }
+
+      yield* Effect.forkDaemon(
+        jobService.verifyJob(jobId).pipe(
+          Effect.catchAllCause((cause) => {
+            console.error(`[MigrationJob] Verification of job ${jobId} failed:`, cause);
+            return Effect.void;
+          }),
+        ),
+      );
+
+      return { started: true };
+    }).pipe(
+      Effect.mapError((error) => {
+        switch (error._tag) {
+          case "JobNotFoundError":
+            return mapJobNotFoundError(error);
+          case "MigrationError":
+            return mapMigrationError(error);
+          case "DatabaseError":
+            return mapDatabaseError(error);
+        }
+      }),
+    ),
+
+  "jobs.verification": ({ jobId }) =>
+    Effect.gen(function* () {
+      const jobService = yield* MigrationJobService;
+      return yield* jobService.getVerification(jobId);
+    }).pipe(
+      Effect.mapError((error) =>
+        error._tag === "JobNotFoundError" ? mapJobNotFoundError(error) : mapDatabaseError(error),
+      ),
+    ),
+
+  "jobs.rollback": ({ jobId }) =>
+    Effect.gen(function* () {
+      const jobService = yield* MigrationJobService;
+
+      // Check the job can be rolled back before deleting its records in the background
+      yield* jobService.checkRollback(jobId);
+
+      yield* Effect.forkDaemon(
+        jobService.rollbackJob(jobId).pipe(
+          Effect.catchAllCause((cause) => {
+            console.error(`[MigrationJob] Rollback of job ${jobId} failed:`, cause);
+            return Effect.void;
+          }),
+        ),
+      );
+
+      return { started: true };
+    }).pipe(
+      Effect.mapError((error) => {
+        switch (error._tag) {
+          case "JobNotFoundError":
+            return mapJobNotFoundError(error);
+          case "JobAlreadyRunningError":
+            return mapJobAlreadyRunningError(error);
+          case "MigrationError":
+            return mapMigrationError(error);
+          case "DatabaseError":
+            return mapDatabaseError(error);
+        }
+      }),
+    ),
+
+  "jobs.rollbackStatus": ({ jobId }) =>
+    Effect.gen(function* () {
+      const jobService = yield* MigrationJobService;
+      return yield* jobService.getRollback(jobId);
+    }).pipe(
+      Effect.mapError((error) =>
+        error._tag === "JobNotFoundError" ? mapJobNotFoundError(error) : mapDatabaseError(error),
+      ),
+    ),
+
+  "jobs.crosswalk": (filter) =>
+    Effect.gen(function* () {
+      const crosswalk = yield* CrosswalkService;
+      return yield* crosswalk.list(filter);
+    }).pipe(Effect.mapError(mapDatabaseError)),
+
+  "jobs.lookupCrosswalk": ({ sourceEnvironmentId, sourceEntity, sourceKeys, destEnvironmentId }) =>
+    Effect.gen(function* () {
+      const crosswalk = yield* CrosswalkService;
+      return yield* crosswalk.lookup(
+        { sourceEnvironmentId, sourceEntity },
+        sourceKeys,
+        destEnvironmentId,
+      );
+    }).pipe(Effect.mapError(mapDatabaseError)),
+
+  "jobs.exportCrosswalk": (filter) =>
+    Effect.gen(function* () {
+      const crosswalk = yield* CrosswalkService;
+      return yield* crosswalk.exportCsv(filter);
+    }).pipe(Effect.mapError(mapDatabaseError)),
+
   // ---------------------
-  // Settings Handlers
+  // Lookup Table Handlers
   // ---------------------
+  "lookupTables.list": () =>
+    Effect.gen(function* () {
+      const lookupTables = yield* LookupTableService;
+      return yield* lookupTables.list();
+    }).pipe(Effect.mapError(mapDatabaseError)),
+
+  "lookupTables.create": (payload) =>
+    Effect.gen(function* () {
+      const lookupTables = yield* LookupTableService;
+      return yield* lookupTables.create(payload);
+    }).pipe(Effect.mapError(mapDatabaseError)),
+
+  "lookupTables.update": ({ id, ...input }) =>
+    Effect.gen(function* () {
+      const lookupTables = yield* LookupTableService;
+      return yield* lookupTables.update(id, input);
+    }).pipe(Effect.mapError(mapLookupTableError)),
+
+  "lookupTables.delete": ({ id }) =>
+    Effect.gen(function* () {
+      const lookupTables = yield* LookupTableService;
+      yield* lookupTables.delete(id);
+    }).pipe(Effect.mapError(mapLookupTableError)),
+
+  // ---------------------
+  // Snapshot Handlers
+  // ---------------------
+  "snapshots.list": () =>
+    Effect.gen(function* () {
+      const snapshots = yield* SnapshotService;
+      return yield* snapshots.list();
+    }).pipe(Effect.mapError(mapDatabaseError)),
+
+  "snapshots.create": (payload) =>
+    Effect.gen(function* () {
+      const snapshots = yield* SnapshotService;
 
+      if (!payload.name.trim()) {
+        return yield* Effect.fail(
+          new ValidationErrorSchema({ message: "Snapshot name is required" }),
+        );
+      }
+      if (payload.mode === "query" && !payload.sourceQueryPath) {
+        return yield* Effect.fail(
+          new ValidationErrorSchema({ message: "Source query path is required for query mode" }),
+        );
+      }
+      if (payload.mode === "datasource" && !payload.sourceEntityType) {
+        return yield* Effect.fail(
+          new ValidationErrorSchema({
+            message: "Source entity type is required for datasource mode",
+          }),
+        );
+      }
+
+      const snapshot = yield* snapshots.create({
+        name: payload.name,
+        environmentId: payload.environmentId,
+        mode: payload.mode,
+        sourceQueryPath: payload.sourceQueryPath ?? null,
+        queryParameters: payload.queryParameters ?? [],
+        sourceEntityType: payload.sourceEntityType ?? null,
+      });
+
+      // Fetch the source pages in the background (the snapshot is "capturing" until they are stored)
+      yield* Effect.forkDaemon(
+        snapshots.capture(snapshot.id).pipe(
+          Effect.catchAllCause((cause) => {
+            console.error(`[Snapshots] Capture of snapshot ${snapshot.id} failed:`, cause);
+            return Effect.void;
+          }),
+        ),
+      );
+
+      return snapshot;
+    }).pipe(
+      Effect.mapError((error) => {
+        if (error instanceof ValidationErrorSchema) return error;
+        switch (error._tag) {
+          case "DatabaseError":
+            return mapDatabaseError(error);
+          case "EnvironmentNotFoundError":
+            return mapEnvironmentNotFoundError(error);
+          case "MissingCredentialsError":
+            return mapMissingCredentialsError(error);
+          case "SnapshotNotFoundError":
+            return new SnapshotNotFoundErrorSchema({ id: error.id });
+        }
+      }),
+    ),
+
+  "snapshots.diff": (payload) =>
+    Effect.gen(function* () {
+      const snapshots = yield* SnapshotService;
+      return yield* snapshots.diff({
+        baseSnapshotId: payload.baseSnapshotId,
+        compareSnapshotId: payload.compareSnapshotId,
+        keyProperty: payload.keyProperty?.trim() || null,
+        kind: payload.kind ?? null,
+        limit: payload.limit,
+        offset: payload.offset,
+      });
+    }).pipe(Effect.mapError(mapSnapshotDiffError)),
+
+  "snapshots.createFromDiff": (payload) =>
+    Effect.gen(function* () {
+      const snapshots = yield* SnapshotService;
+
+      if (!payload.name.trim()) {
+        return yield* Effect.fail(
+          new ValidationErrorSchema({ message: "Snapshot name is required" }),
+        );
+      }
+
+      return yield* snapshots
+        .createFromDiff({
+          name: payload.name,
+          baseSnapshotId: payload.baseSnapshotId,
+          compareSnapshotId: payload.compareSnapshotId,
+          keyProperty: payload.keyProperty?.trim() || null,
+        })
+        .pipe(Effect.mapError(mapSnapshotDiffError));
+    }),
+
+  "snapshots.delete": ({ id }) =>
+    Effect.gen(function* () {
+      const snapshots = yield* SnapshotService;
+      yield* snapshots.delete(id);
+    }).pipe(Effect.mapError(mapSnapshotError)),
+
+  // ---------------------
+  // Settings Handlers
+  // ---------------------
   "settings.get": () =>
     Effect.gen(function* () {
       const persistence = yield* PersistenceService;
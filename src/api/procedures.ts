@@ -32,16 +32,48 @@ import {
   TraceStoreErrorSchema,
   // Job schemas
   JobWithEnvironmentsSchema,
+  JobWithCountsSchema,
   CreateJobRequestSchema,
   CreateJobResponseSchema,
+  SourceFileUploadSchema,
+  SourceFilePreviewSchema,
   JobIdRequestSchema,
   RunJobResponseSchema,
   RetryFailedRowsResponseSchema,
+  RetryFailedBatchesResponseSchema,
+  FailureGroupSchema,
+  FailureGroupRequestSchema,
+  SkipFailureGroupResponseSchema,
+  ImportRowCorrectionsRequestSchema,
+  ImportRowCorrectionsResponseSchema,
   RetrySingleRowRequestSchema,
+  GetRowPayloadRequestSchema,
+  RowPayloadSchema,
   RetrySingleRowResponseSchema,
   JobNotFoundErrorSchema,
   JobAlreadyRunningErrorSchema,
   MigrationErrorSchema,
+  // Verification schemas
+  VerificationSchema,
+  // Rollback schemas
+  RollbackSchema,
+  // Crosswalk schemas
+  CrosswalkEntrySchema,
+  CrosswalkFilterSchema,
+  LookupCrosswalkRequestSchema,
+  // Lookup table schemas
+  LookupTableSchema,
+  CreateLookupTableSchema,
+  UpdateLookupTableSchema,
+  LookupTableIdSchema,
+  LookupTableNotFoundErrorSchema,
+  SnapshotSchema,
+  CreateSnapshotSchema,
+  SnapshotDiffRequestSchema,
+  SnapshotDiffSchema,
+  CreateSnapshotFromDiffSchema,
+  SnapshotIdSchema,
+  SnapshotNotFoundErrorSchema,
   // Row and Attempt schemas
   GetJobRowsRequestSchema,
   GetJobRowsResponseSchema,
@@ -233,6 +265,17 @@ const GetQuerySampleKeys = Rpc.make("queries.sampleKeys", {
   ),
 });
 
+// ---------------------
+// Source File Procedures
+// ---------------------
+
+/** Read an uploaded CSV or XLSX file's columns and first rows */
+const PreviewSourceFile = Rpc.make("sourceFiles.preview", {
+  payload: SourceFileUploadSchema,
+  success: SourceFilePreviewSchema,
+  error: ValidationErrorSchema,
+});
+
 // ---------------------
 // Trace Procedures
 // ---------------------
@@ -270,7 +313,7 @@ const ExportTraces = Rpc.make("traces.export", {
 const CreateJob = Rpc.make("jobs.create", {
   payload: CreateJobRequestSchema,
   success: CreateJobResponseSchema,
-  error: Schema.Union(DatabaseErrorSchema, ValidationErrorSchema),
+  error: Schema.Union(DatabaseErrorSchema, ValidationErrorSchema, MissingCredentialsErrorSchema),
 });
 
 /** List all jobs */
@@ -304,6 +347,20 @@ const RunJob = Rpc.make("jobs.run", {
   ),
 });
 
+/** Create a delta run of a job (rows newer than its saved watermark) and start it */
+const RunDelta = Rpc.make("jobs.runDelta", {
+  payload: JobIdRequestSchema,
+  success: CreateJobResponseSchema,
+  error: Schema.Union(DatabaseErrorSchema, JobNotFoundErrorSchema, MigrationErrorSchema),
+});
+
+/** List the runs of a job: its first run and every delta run that followed, oldest first */
+const ListJobRuns = Rpc.make("jobs.runs", {
+  payload: JobIdRequestSchema,
+  success: Schema.Array(JobWithCountsSchema),
+  error: Schema.Union(DatabaseErrorSchema, JobNotFoundErrorSchema),
+});
+
 /** Retry failed rows for a job */
 const RetryFailedRows = Rpc.make("jobs.retry", {
   payload: JobIdRequestSchema,
@@ -311,12 +368,94 @@ const RetryFailedRows = Rpc.make("jobs.retry", {
   error: Schema.Union(
     DatabaseErrorSchema,
     JobNotFoundErrorSchema,
+    JobAlreadyRunningErrorSchema,
     MissingCredentialsErrorSchema,
     EnvironmentNotFoundErrorSchema,
     ImisAuthErrorSchema,
     ImisRequestErrorSchema,
     ImisResponseErrorSchema,
     ImisSchemaErrorSchema,
+    MigrationErrorSchema,
+  ),
+});
+
+/** Group a job's failed rows by error category and normalized message, largest group first */
+const ListFailureGroups = Rpc.make("jobs.failureGroups", {
+  payload: JobIdRequestSchema,
+  success: Schema.Array(FailureGroupSchema),
+  error: Schema.Union(DatabaseErrorSchema, JobNotFoundErrorSchema),
+});
+
+/** Retry the failed rows of one failure group */
+const RetryFailureGroup = Rpc.make("jobs.retryFailureGroup", {
+  payload: FailureGroupRequestSchema,
+  success: RetryFailedRowsResponseSchema,
+  error: Schema.Union(
+    DatabaseErrorSchema,
+    JobNotFoundErrorSchema,
+    JobAlreadyRunningErrorSchema,
+    MissingCredentialsErrorSchema,
+    EnvironmentNotFoundErrorSchema,
+    ImisAuthErrorSchema,
+    ImisRequestErrorSchema,
+    ImisResponseErrorSchema,
+    ImisSchemaErrorSchema,
+    MigrationErrorSchema,
+  ),
+});
+
+/** Mark the failed rows of one failure group as skipped */
+const SkipFailureGroup = Rpc.make("jobs.skipFailureGroup", {
+  payload: FailureGroupRequestSchema,
+  success: SkipFailureGroupResponseSchema,
+  error: Schema.Union(
+    DatabaseErrorSchema,
+    JobNotFoundErrorSchema,
+    JobAlreadyRunningErrorSchema,
+    MigrationErrorSchema,
+  ),
+});
+
+/** Export a job's failed rows (source and transformed values) as CSV */
+const ExportFailedRows = Rpc.make("jobs.exportFailedRows", {
+  payload: JobIdRequestSchema,
+  success: Schema.String,
+  error: Schema.Union(
+    DatabaseErrorSchema,
+    JobNotFoundErrorSchema,
+    MissingCredentialsErrorSchema,
+    MigrationErrorSchema,
+  ),
+});
+
+/** Apply an edited failed rows export to the rows' stored payloads and edits */
+const ImportRowCorrections = Rpc.make("jobs.importRowCorrections", {
+  payload: ImportRowCorrectionsRequestSchema,
+  success: ImportRowCorrectionsResponseSchema,
+  error: Schema.Union(
+    DatabaseErrorSchema,
+    JobNotFoundErrorSchema,
+    JobAlreadyRunningErrorSchema,
+    MissingCredentialsErrorSchema,
+    MigrationErrorSchema,
+  ),
+});
+
+/** Re-fetch the source batches whose fetch failed during a job's run */
+const RetryFailedBatches = Rpc.make("jobs.retryFailedBatches", {
+  payload: JobIdRequestSchema,
+  success: RetryFailedBatchesResponseSchema,
+  error: Schema.Union(
+    DatabaseErrorSchema,
+    JobNotFoundErrorSchema,
+    JobAlreadyRunningErrorSchema,
+    MissingCredentialsErrorSchema,
+    EnvironmentNotFoundErrorSchema,
+    ImisAuthErrorSchema,
+    ImisRequestErrorSchema,
+    ImisResponseErrorSchema,
+    ImisSchemaErrorSchema,
+    MigrationErrorSchema,
   ),
 });
 
@@ -334,23 +473,206 @@ const GetRowAttempts = Rpc.make("rows.attempts", {
   error: DatabaseErrorSchema,
 });
 
-/** Cancel a running job */
+/** Decrypt and transform a row for editing its values before a retry */
+const GetRowPayload = Rpc.make("rows.payload", {
+  payload: GetRowPayloadRequestSchema,
+  success: RowPayloadSchema,
+  error: Schema.Union(
+    DatabaseErrorSchema,
+    JobNotFoundErrorSchema,
+    MissingCredentialsErrorSchema,
+    MigrationErrorSchema,
+  ),
+});
+
+/** Cancel a running or paused job (in-flight inserts finish first) */
 const CancelJob = Rpc.make("jobs.cancel", {
   payload: JobIdRequestSchema,
   error: Schema.Union(DatabaseErrorSchema, JobNotFoundErrorSchema),
 });
 
+/** Pause a running job after its in-flight batches finish */
+const PauseJob = Rpc.make("jobs.pause", {
+  payload: JobIdRequestSchema,
+  error: Schema.Union(DatabaseErrorSchema, JobNotFoundErrorSchema, MigrationErrorSchema),
+});
+
+/** Resume a paused or interrupted job from the rows it has already stored */
+const ResumeJob = Rpc.make("jobs.resume", {
+  payload: JobIdRequestSchema,
+  success: RunJobResponseSchema,
+  error: Schema.Union(DatabaseErrorSchema, JobNotFoundErrorSchema, JobAlreadyRunningErrorSchema),
+});
+
 /** Delete a job and its associated failed rows */
 const DeleteJob = Rpc.make("jobs.delete", {
   payload: JobIdRequestSchema,
-  error: Schema.Union(DatabaseErrorSchema, JobNotFoundErrorSchema),
+  error: Schema.Union(
+    DatabaseErrorSchema,
+    JobNotFoundErrorSchema,
+    JobAlreadyRunningErrorSchema,
+    MigrationErrorSchema,
+  ),
 });
 
 /** Retry a single failed row */
 const RetrySingleRow = Rpc.make("jobs.retrySingleRow", {
   payload: RetrySingleRowRequestSchema,
   success: RetrySingleRowResponseSchema,
-  error: Schema.Union(DatabaseErrorSchema, JobNotFoundErrorSchema, MissingCredentialsErrorSchema),
+  error: Schema.Union(
+    DatabaseErrorSchema,
+    JobNotFoundErrorSchema,
+    JobAlreadyRunningErrorSchema,
+    MissingCredentialsErrorSchema,
+    MigrationErrorSchema,
+  ),
+});
+
+/** Verify a finished job by reading its records back from the destination (runs in the background) */
+const VerifyJob = Rpc.make("jobs.verify", {
+  payload: JobIdRequestSchema,
+  success: RunJobResponseSchema,
+  error: Schema.Union(DatabaseErrorSchema, JobNotFoundErrorSchema, MigrationErrorSchema),
+});
+
+/** Get a job's latest verification and the rows that did not match (null if never verified) */
+const GetVerification = Rpc.make("jobs.verification", {
+  payload: JobIdRequestSchema,
+  success: Schema.NullOr(VerificationSchema),
+  error: Schema.Union(DatabaseErrorSchema, JobNotFoundErrorSchema),
+});
+
+/** Delete the destination records a finished job created (runs in the background) */
+const RollbackJob = Rpc.make("jobs.rollback", {
+  payload: JobIdRequestSchema,
+  success: RunJobResponseSchema,
+  error: Schema.Union(
+    DatabaseErrorSchema,
+    JobNotFoundErrorSchema,
+    JobAlreadyRunningErrorSchema,
+    MigrationErrorSchema,
+  ),
+});
+
+/** Get a job's rollback progress and the rows that could not be deleted (null if never rolled back) */
+const GetRollback = Rpc.make("jobs.rollbackStatus", {
+  payload: JobIdRequestSchema,
+  success: Schema.NullOr(RollbackSchema),
+  error: Schema.Union(DatabaseErrorSchema, JobNotFoundErrorSchema),
+});
+
+/** List ID crosswalk entries (source key → destination identity) */
+const ListCrosswalk = Rpc.make("jobs.crosswalk", {
+  payload: CrosswalkFilterSchema,
+  success: Schema.Array(CrosswalkEntrySchema),
+  error: DatabaseErrorSchema,
+});
+
+/** Look up destination identities for source keys in the ID crosswalk */
+const LookupCrosswalk = Rpc.make("jobs.lookupCrosswalk", {
+  payload: LookupCrosswalkRequestSchema,
+  success: Schema.Array(CrosswalkEntrySchema),
+  error: DatabaseErrorSchema,
+});
+
+/** Export ID crosswalk entries as CSV */
+const ExportCrosswalk = Rpc.make("jobs.exportCrosswalk", {
+  payload: CrosswalkFilterSchema,
+  success: Schema.String,
+  error: DatabaseErrorSchema,
+});
+
+// ---------------------
+// Lookup Table Procedures
+// ---------------------
+
+/** List all lookup tables */
+const ListLookupTables = Rpc.make("lookupTables.list", {
+  success: Schema.Array(LookupTableSchema),
+  error: DatabaseErrorSchema,
+});
+
+/** Create a lookup table */
+const CreateLookupTable = Rpc.make("lookupTables.create", {
+  payload: CreateLookupTableSchema,
+  success: LookupTableSchema,
+  error: DatabaseErrorSchema,
+});
+
+/** Update a lookup table's name, fallback and entries */
+const UpdateLookupTable = Rpc.make("lookupTables.update", {
+  payload: UpdateLookupTableSchema,
+  success: LookupTableSchema,
+  error: Schema.Union(DatabaseErrorSchema, LookupTableNotFoundErrorSchema),
+});
+
+/** Delete a lookup table */
+const DeleteLookupTable = Rpc.make("lookupTables.delete", {
+  payload: LookupTableIdSchema,
+  error: Schema.Union(DatabaseErrorSchema, LookupTableNotFoundErrorSchema),
+});
+
+// ---------------------
+// Snapshot Procedures
+// ---------------------
+
+/** List snapshots, newest first */
+const ListSnapshots = Rpc.make("snapshots.list", {
+  success: Schema.Array(SnapshotSchema),
+  error: DatabaseErrorSchema,
+});
+
+/** Create a snapshot and capture its source rows in the background */
+const CreateSnapshot = Rpc.make("snapshots.create", {
+  payload: CreateSnapshotSchema,
+  success: SnapshotSchema,
+  error: Schema.Union(
+    DatabaseErrorSchema,
+    ValidationErrorSchema,
+    EnvironmentNotFoundErrorSchema,
+    MissingCredentialsErrorSchema,
+    SnapshotNotFoundErrorSchema,
+  ),
+});
+
+/** Compare two captures of the same source: rows added, removed and modified */
+const DiffSnapshots = Rpc.make("snapshots.diff", {
+  payload: SnapshotDiffRequestSchema,
+  success: SnapshotDiffSchema,
+  error: Schema.Union(
+    DatabaseErrorSchema,
+    ValidationErrorSchema,
+    SnapshotNotFoundErrorSchema,
+    EnvironmentNotFoundErrorSchema,
+    MissingCredentialsErrorSchema,
+    ImisAuthErrorSchema,
+    ImisRequestErrorSchema,
+    ImisResponseErrorSchema,
+    ImisSchemaErrorSchema,
+  ),
+});
+
+/** Store the rows added or modified between two captures as a new snapshot */
+const CreateSnapshotFromDiff = Rpc.make("snapshots.createFromDiff", {
+  payload: CreateSnapshotFromDiffSchema,
+  success: SnapshotSchema,
+  error: Schema.Union(
+    DatabaseErrorSchema,
+    ValidationErrorSchema,
+    SnapshotNotFoundErrorSchema,
+    EnvironmentNotFoundErrorSchema,
+    MissingCredentialsErrorSchema,
+    ImisAuthErrorSchema,
+    ImisRequestErrorSchema,
+    ImisResponseErrorSchema,
+    ImisSchemaErrorSchema,
+  ),
+});
+
+/** Delete a snapshot and its captured rows */
+const DeleteSnapshot = Rpc.make("snapshots.delete", {
+  payload: SnapshotIdSchema,
+  error: Schema.Union(DatabaseErrorSchema, SnapshotNotFoundErrorSchema, ValidationErrorSchema),
 });
 
 // ---------------------
@@ -428,6 +750,8 @@ export const ApiGroup = RpcGroup.make(
   // Query Definitions
   GetQueryDefinition,
   GetQuerySampleKeys,
+  // Source Files
+  PreviewSourceFile,
   // Traces
   ListTraces,
   GetTrace,
@@ -438,12 +762,41 @@ export const ApiGroup = RpcGroup.make(
   ListJobs,
   GetJob,
   RunJob,
+  RunDelta,
+  ListJobRuns,
   RetryFailedRows,
+  ListFailureGroups,
+  RetryFailureGroup,
+  SkipFailureGroup,
+  ExportFailedRows,
+  ImportRowCorrections,
+  RetryFailedBatches,
   RetrySingleRow,
   GetJobRows,
   GetRowAttempts,
+  GetRowPayload,
   CancelJob,
+  PauseJob,
+  ResumeJob,
   DeleteJob,
+  VerifyJob,
+  GetVerification,
+  RollbackJob,
+  GetRollback,
+  ListCrosswalk,
+  LookupCrosswalk,
+  ExportCrosswalk,
+  // Lookup Tables
+  ListLookupTables,
+  CreateLookupTable,
+  UpdateLookupTable,
+  DeleteLookupTable,
+  // Snapshots
+  ListSnapshots,
+  CreateSnapshot,
+  DiffSnapshots,
+  CreateSnapshotFromDiff,
+  DeleteSnapshot,
   // Settings
   GetSettings,
   EnablePasswordStorage,
@@ -1,5 +1,5 @@
 import { Schema } from "effect";
-import { DestinationTypeSchema } from "./destinations";
+import { DestinationPropertySchema, DestinationTypeSchema } from "./destinations";
 
 // Re-export destination types for convenience
 export { DestinationTypeSchema };
@@ -334,21 +334,144 @@ export const JobStatusSchema = Schema.Literal(
   "failed",
   "partial",
   "cancelled",
+  "paused", // resumable
+  "interrupted", // app exited mid-run, resumable
+  "validated", // dry run finished
+  "rolled_back", // created records were deleted again
 );
 
 export type JobStatus = typeof JobStatusSchema.Type;
 
-export const JobModeSchema = Schema.Literal("query", "datasource");
+export const JobModeSchema = Schema.Literal("query", "datasource", "file");
 
 export type JobMode = typeof JobModeSchema.Type;
 
+// Format of the file a file destination writes
+export const DestinationFileFormatSchema = Schema.Literal("csv", "ndjson", "parquet");
+
+export type DestinationFileFormat = typeof DestinationFileFormatSchema.Type;
+
+export const WriteModeSchema = Schema.Literal("insert", "update", "upsert");
+
+export type WriteMode = typeof WriteModeSchema.Type;
+
+// Value transform applied to a mapped property before it is written (see lib/transforms)
+export const TransformStepSchema = Schema.Union(
+  Schema.Struct({ type: Schema.Literal("trim") }),
+  Schema.Struct({
+    type: Schema.Literal("changeCase"),
+    mode: Schema.Literal("upper", "lower", "title"),
+  }),
+  Schema.Struct({
+    type: Schema.Literal("formatDate"),
+    inputFormat: Schema.optionalWith(Schema.String, { exact: true }),
+    outputFormat: Schema.String,
+  }),
+  Schema.Struct({
+    type: Schema.Literal("parseNumber"),
+    decimalSeparator: Schema.Literal(".", ","),
+  }),
+  Schema.Struct({ type: Schema.Literal("defaultIfNull"), value: Schema.String }),
+  Schema.Struct({ type: Schema.Literal("truncate"), maxLength: Schema.Number }),
+  Schema.Struct({
+    type: Schema.Literal("regexReplace"),
+    pattern: Schema.String,
+    replacement: Schema.String,
+    flags: Schema.optionalWith(Schema.String, { exact: true }),
+  }),
+);
+
+// Conversion to the destination property type (see lib/coercion)
+export const TypeCoercionSchema = Schema.Union(
+  Schema.Struct({
+    to: Schema.Literal("Date"),
+    inputFormat: Schema.optionalWith(Schema.String, { exact: true }),
+  }),
+  Schema.Struct({
+    to: Schema.Literal("Integer", "Decimal", "Monetary"),
+    decimalSeparator: Schema.Literal(".", ","),
+  }),
+  Schema.Struct({ to: Schema.Literal("Boolean") }),
+  Schema.Struct({ to: Schema.Literal("String") }),
+);
+
+// Computed destination value (see lib/mapping-values)
+export const MappingValueSchema = Schema.Union(
+  Schema.Struct({
+    kind: Schema.Literal("constant"),
+    value: Schema.NullOr(Schema.Union(Schema.String, Schema.Number, Schema.Boolean)),
+  }),
+  Schema.Struct({ kind: Schema.Literal("template"), template: Schema.String }),
+  Schema.Struct({
+    kind: Schema.Literal("generated"),
+    generator: Schema.Literal("jobId", "timestamp", "rowNumber", "uuid"),
+  }),
+);
+
 export const PropertyMappingSchema = Schema.Struct({
-  sourceProperty: Schema.String,
+  sourceProperty: Schema.String, // Empty for computed mappings
   destinationProperty: Schema.NullOr(Schema.String),
+  transforms: Schema.optionalWith(Schema.Array(TransformStepSchema), { exact: true }),
+  value: Schema.optionalWith(MappingValueSchema, { exact: true }),
+  lookupTableId: Schema.optionalWith(Schema.String, { exact: true }),
+  coercion: Schema.optionalWith(TypeCoercionSchema, { exact: true }),
 });
 
 export type PropertyMapping = typeof PropertyMappingSchema.Type;
 
+// Child job link: sourceProperty (child column) holds the parent job's parentKeyProperty value
+export const ParentLinkSchema = Schema.Struct({
+  parentJobId: Schema.String,
+  sourceProperty: Schema.String,
+  parentKeyProperty: Schema.String,
+});
+
+export type ParentLink = typeof ParentLinkSchema.Type;
+
+// Value for one of an IQA query's prompted parameters (sent positionally, in definition order)
+export const QueryParameterValueSchema = Schema.Struct({
+  propertyName: Schema.String,
+  value: Schema.String,
+});
+
+export type QueryParameterValue = typeof QueryParameterValueSchema.Type;
+
+// Predicate on a source column (see lib/row-filter)
+export const RowFilterConditionSchema = Schema.Union(
+  Schema.Struct({
+    column: Schema.String,
+    negate: Schema.optionalWith(Schema.Boolean, { exact: true }),
+    operator: Schema.Literal("equals"),
+    value: Schema.String,
+  }),
+  Schema.Struct({
+    column: Schema.String,
+    negate: Schema.optionalWith(Schema.Boolean, { exact: true }),
+    operator: Schema.Literal("in"),
+    values: Schema.Array(Schema.String),
+  }),
+  Schema.Struct({
+    column: Schema.String,
+    negate: Schema.optionalWith(Schema.Boolean, { exact: true }),
+    operator: Schema.Literal("isNull"),
+  }),
+  Schema.Struct({
+    column: Schema.String,
+    negate: Schema.optionalWith(Schema.Boolean, { exact: true }),
+    operator: Schema.Literal("dateRange"),
+    from: Schema.optionalWith(Schema.String, { exact: true }), // yyyy-MM-dd, inclusive
+    to: Schema.optionalWith(Schema.String, { exact: true }), // yyyy-MM-dd, inclusive
+  }),
+);
+
+// Source rows a job migrates: conditions combined with AND or OR (other rows are skipped)
+export const RowFilterSchema = Schema.Struct({
+  combinator: Schema.Literal("and", "or"),
+  conditions: Schema.Array(RowFilterConditionSchema),
+});
+
+export type RowFilter = typeof RowFilterSchema.Type;
+
 export const JobSchema = Schema.Struct({
   id: Schema.String,
   name: Schema.String,
@@ -356,15 +479,35 @@ export const JobSchema = Schema.Struct({
   mode: JobModeSchema,
   sourceEnvironmentId: Schema.String,
   sourceQueryPath: Schema.NullOr(Schema.String),
+  queryParameters: Schema.NullOr(Schema.String), // JSON stringified QueryParameterValue[]
   sourceEntityType: Schema.NullOr(Schema.String),
+  sourceFileName: Schema.NullOr(Schema.String), // Uploaded file a file-mode job reads
+  sourceSnapshotId: Schema.NullOr(Schema.String), // Snapshot read instead of the source environment
   destEnvironmentId: Schema.String,
   destEntityType: Schema.String,
-  destType: DestinationTypeSchema, // "bo_entity" | "custom_endpoint"
+  destType: DestinationTypeSchema, // "bo_entity" | "custom_endpoint" | "file"
+  writeMode: WriteModeSchema, // "insert" | "update" | "upsert"
+  dryRun: Schema.Boolean, // Validate rows against the destination without writing
+  destFileFormat: Schema.NullOr(DestinationFileFormatSchema), // File destinations only
+  destFilePath: Schema.NullOr(Schema.String), // Output file of a file destination
+  parentJobId: Schema.NullOr(Schema.String), // Parent job whose identities this job's rows refer to
+  parentSourceProperty: Schema.NullOr(Schema.String),
+  parentKeyProperty: Schema.NullOr(Schema.String),
+  sourceKeyProperty: Schema.NullOr(Schema.String), // Source key column for the ID crosswalk
+  rowFilter: Schema.NullOr(Schema.String), // JSON stringified RowFilter (null migrates every row)
+  watermarkColumn: Schema.NullOr(Schema.String), // Source column delta runs compare (e.g. UpdatedOn)
+  watermarkFrom: Schema.NullOr(Schema.String), // Delta runs only migrate rows newer than this
+  watermarkValue: Schema.NullOr(Schema.String), // Highest watermark seen by this run
+  olderRowCount: Schema.Number, // Rows a delta run fetched that were not newer than watermarkFrom
+  deltaOfJobId: Schema.NullOr(Schema.String), // First run of the job this delta run follows
   mappings: Schema.String, // JSON stringified PropertyMapping[]
   totalRows: Schema.NullOr(Schema.Number),
   failedQueryOffsets: Schema.NullOr(Schema.String), // JSON stringified number[]
+  queryBatchSize: Schema.NullOr(Schema.Number), // Page size the source was fetched with
   identityFieldNames: Schema.NullOr(Schema.String), // JSON stringified string[] (e.g., ["ID", "Ordinal"])
   errorMessage: Schema.NullOr(Schema.String), // Error message for pre-validation failures
+  runnerPid: Schema.NullOr(Schema.Number), // Process running the job (the app or the CLI)
+  runnerHeartbeatAt: Schema.NullOr(Schema.String), // When that process last reported
   startedAt: Schema.NullOr(Schema.String),
   completedAt: Schema.NullOr(Schema.String),
   createdAt: Schema.String,
@@ -378,6 +521,8 @@ export const JobWithCountsSchema = Schema.Struct({
   processedRows: Schema.Number,
   successfulRows: Schema.Number,
   failedRowCount: Schema.Number,
+  heldRowCount: Schema.Number, // Rows held back because their parent row did not migrate
+  skippedRowCount: Schema.Number, // Rows that did not match the job's row filter
 });
 
 export type JobWithCounts = typeof JobWithCountsSchema.Type;
@@ -395,7 +540,7 @@ export type JobWithEnvironments = typeof JobWithEnvironmentsSchema.Type;
 // Row and Attempt Schemas
 // ---------------------
 
-export const RowStatusSchema = Schema.Literal("success", "failed");
+export const RowStatusSchema = Schema.Literal("success", "failed", "held", "skipped");
 
 export type RowStatus = typeof RowStatusSchema.Type;
 
@@ -403,6 +548,24 @@ export const AttemptReasonSchema = Schema.Literal("initial", "auto_retry", "manu
 
 export type AttemptReason = typeof AttemptReasonSchema.Type;
 
+export const AttemptOutcomeSchema = Schema.Literal("created", "updated", "unchanged");
+
+export type AttemptOutcome = typeof AttemptOutcomeSchema.Type;
+
+export const ErrorCategorySchema = Schema.Literal(
+  "unmapped_value",
+  "invalid_value",
+  "validation",
+  "duplicate_key",
+  "auth",
+  "timeout",
+  "connection",
+  "server_error",
+  "missing_parent",
+);
+
+export type ErrorCategory = typeof ErrorCategorySchema.Type;
+
 // Base row schema (matches database)
 export const RowSchema = Schema.Struct({
   id: Schema.String,
@@ -410,6 +573,8 @@ export const RowSchema = Schema.Struct({
   rowIndex: Schema.Number,
   status: RowStatusSchema,
   identityElements: Schema.NullOr(Schema.String), // JSON stringified string[]
+  heldReason: Schema.NullOr(Schema.String), // Why a held row was not sent
+  errorCategory: Schema.NullOr(ErrorCategorySchema), // Category of the latest failed attempt
   createdAt: Schema.String,
   updatedAt: Schema.String,
 });
@@ -433,8 +598,14 @@ export const AttemptSchema = Schema.Struct({
   reason: AttemptReasonSchema,
   success: Schema.Boolean,
   errorMessage: Schema.NullOr(Schema.String),
+  errorCategory: Schema.NullOr(ErrorCategorySchema), // null when uncategorized
   identityElements: Schema.NullOr(Schema.String), // JSON stringified string[]
-  createdAt: Schema.String,
+  outcome: Schema.NullOr(AttemptOutcomeSchema), // null for failed attempts
+  editedProperties: Schema.NullOr(Schema.String), // JSON string[] of manually edited properties
+  httpStatus: Schema.NullOr(Schema.Number), // null when no response was received
+  responseExcerpt: Schema.NullOr(Schema.String), // Start of the response body
+  durationMs: Schema.NullOr(Schema.Number), // null for attempts that sent no request
+  createdAt: Schema.String, // When the request was sent
 });
 
 export type Attempt = typeof AttemptSchema.Type;
@@ -443,6 +614,7 @@ export type Attempt = typeof AttemptSchema.Type;
 export const GetJobRowsRequestSchema = Schema.Struct({
   jobId: Schema.String,
   status: Schema.optionalWith(RowStatusSchema, { exact: true }),
+  errorCategory: Schema.optionalWith(ErrorCategorySchema, { exact: true }),
 });
 
 export type GetJobRowsRequest = typeof GetJobRowsRequestSchema.Type;
@@ -460,8 +632,42 @@ export const GetRowAttemptsRequestSchema = Schema.Struct({
 
 export type GetRowAttemptsRequest = typeof GetRowAttemptsRequestSchema.Type;
 
+// Manual corrections to a row's transformed values (destination property -> value)
+export const RowEditsSchema = Schema.Record({
+  key: Schema.String,
+  value: Schema.Union(Schema.String, Schema.Number, Schema.Boolean, Schema.Null),
+});
+
+export type RowEdits = typeof RowEditsSchema.Type;
+
+// A mapped value that could not be produced
+export const MappingProblemSchema = Schema.Struct({
+  category: ErrorCategorySchema,
+  property: Schema.String,
+  message: Schema.String,
+});
+
+export type MappingProblem = typeof MappingProblemSchema.Type;
+
+export const GetRowPayloadRequestSchema = Schema.Struct({
+  rowId: Schema.String,
+});
+
+// A row's transformed values and the destination properties they are written to, for editing
+export const RowPayloadSchema = Schema.Struct({
+  properties: Schema.Array(DestinationPropertySchema), // Mapped properties, in mapping order
+  values: Schema.Record({ key: Schema.String, value: Schema.Unknown }), // Before manual edits
+  edits: RowEditsSchema, // Empty when the row was never edited
+  problems: Schema.Array(MappingProblemSchema), // Values that could not be produced
+  heldReason: Schema.NullOr(Schema.String),
+});
+
+export type RowPayload = typeof RowPayloadSchema.Type;
+
 export const RetrySingleRowRequestSchema = Schema.Struct({
   rowId: Schema.String,
+  // Replaces the row's stored edits (an empty record removes them); omitted keeps them
+  edits: Schema.optionalWith(RowEditsSchema, { exact: true }),
 });
 
 export const RetrySingleRowResponseSchema = Schema.Struct({
@@ -471,15 +677,56 @@ export const RetrySingleRowResponseSchema = Schema.Struct({
 
 export type RetrySingleRowResponse = typeof RetrySingleRowResponseSchema.Type;
 
+// An uploaded CSV or XLSX file (content is base64 encoded)
+export const SourceFileUploadSchema = Schema.Struct({
+  name: Schema.String,
+  content: Schema.String,
+});
+
+export type SourceFileUpload = typeof SourceFileUploadSchema.Type;
+
+// A column of an uploaded file, typed from its values (see lib/source-file)
+export const SourceFileColumnSchema = Schema.Struct({
+  name: Schema.String,
+  type: Schema.Literal("String", "Integer", "Decimal", "Boolean", "Date"),
+});
+
+export type SourceFileColumn = typeof SourceFileColumnSchema.Type;
+
+// The columns of an uploaded file with its first rows, shown before a file job is created
+export const SourceFilePreviewSchema = Schema.Struct({
+  format: Schema.Literal("csv", "xlsx"),
+  columns: Schema.Array(SourceFileColumnSchema), // In file order
+  rowCount: Schema.Number,
+  sampleRows: Schema.Array(
+    Schema.Record({
+      key: Schema.String,
+      value: Schema.NullOr(Schema.Union(Schema.String, Schema.Number, Schema.Boolean)),
+    }),
+  ),
+});
+
+export type SourceFilePreview = typeof SourceFilePreviewSchema.Type;
+
 export const CreateJobRequestSchema = Schema.Struct({
   name: Schema.String,
   mode: JobModeSchema,
   sourceEnvironmentId: Schema.String,
   sourceQueryPath: Schema.optionalWith(Schema.String, { exact: true }),
+  queryParameters: Schema.optionalWith(Schema.Array(QueryParameterValueSchema), { exact: true }), // query mode only
   sourceEntityType: Schema.optionalWith(Schema.String, { exact: true }),
+  sourceFile: Schema.optionalWith(SourceFileUploadSchema, { exact: true }), // file mode only
+  sourceSnapshotId: Schema.optionalWith(Schema.String, { exact: true }), // query and datasource modes only
   destEnvironmentId: Schema.String,
   destEntityType: Schema.String,
   destType: Schema.optionalWith(DestinationTypeSchema, { exact: true }), // defaults to "bo_entity"
+  destFileFormat: Schema.optionalWith(DestinationFileFormatSchema, { exact: true }), // file destinations only
+  writeMode: Schema.optionalWith(WriteModeSchema, { exact: true }), // defaults to "insert"
+  dryRun: Schema.optionalWith(Schema.Boolean, { exact: true }), // defaults to false
+  parentLink: Schema.optionalWith(ParentLinkSchema, { exact: true }),
+  sourceKeyProperty: Schema.optionalWith(Schema.String, { exact: true }), // defaults to source identity fields
+  rowFilter: Schema.optionalWith(RowFilterSchema, { exact: true }), // defaults to every row
+  watermarkColumn: Schema.optionalWith(Schema.String, { exact: true }), // enables delta runs
   mappings: Schema.Array(PropertyMappingSchema),
 });
 
@@ -511,6 +758,338 @@ export const RetryFailedRowsResponseSchema = Schema.Struct({
 
 export type RetryFailedRowsResponse = typeof RetryFailedRowsResponseSchema.Type;
 
+// Failed rows that share an error category and normalized latest error message
+export const FailureGroupSchema = Schema.Struct({
+  category: Schema.NullOr(ErrorCategorySchema), // null when uncategorized
+  message: Schema.String, // Normalized message (row-specific values replaced by placeholders)
+  example: Schema.String, // Latest error of one of the rows, as recorded
+  rowCount: Schema.Number,
+});
+
+export type FailureGroup = typeof FailureGroupSchema.Type;
+
+// Identifies a failure group of a job for bulk retry and skip
+export const FailureGroupRequestSchema = Schema.Struct({
+  jobId: Schema.String,
+  category: Schema.NullOr(ErrorCategorySchema),
+  message: Schema.String,
+});
+
+export type FailureGroupRequest = typeof FailureGroupRequestSchema.Type;
+
+export const SkipFailureGroupResponseSchema = Schema.Struct({
+  skippedCount: Schema.Number,
+});
+
+export type SkipFailureGroupResponse = typeof SkipFailureGroupResponseSchema.Type;
+
+// An edited failed rows export (see jobs.exportFailedRows) to apply to a job's failed rows
+export const ImportRowCorrectionsRequestSchema = Schema.Struct({
+  jobId: Schema.String,
+  csv: Schema.String,
+});
+
+export type ImportRowCorrectionsRequest = typeof ImportRowCorrectionsRequestSchema.Type;
+
+export const ImportRowCorrectionsResponseSchema = Schema.Struct({
+  updatedCount: Schema.Number, // Rows whose payload or edits changed
+  unchangedCount: Schema.Number,
+  unmatchedRowNumbers: Schema.Array(Schema.Number), // Not failed rows of the job
+  problems: Schema.Array(Schema.Struct({ rowNumber: Schema.Number, message: Schema.String })),
+});
+
+export type ImportRowCorrectionsResponse = typeof ImportRowCorrectionsResponseSchema.Type;
+
+export const RetryFailedBatchesResponseSchema = Schema.Struct({
+  retriedCount: Schema.Number, // Batches re-fetched
+  successCount: Schema.Number,
+  failCount: Schema.Number,
+  remainingOffsets: Schema.Array(Schema.Number), // Offsets still failing
+});
+
+export type RetryFailedBatchesResponse = typeof RetryFailedBatchesResponseSchema.Type;
+
+// ---------------------
+// Verification Schemas
+// ---------------------
+
+export const VerificationStatusSchema = Schema.Literal("running", "completed", "failed");
+
+export type VerificationStatus = typeof VerificationStatusSchema.Type;
+
+export const VerificationIssueSchema = Schema.Literal("mismatch", "missing", "error");
+
+export type VerificationIssue = typeof VerificationIssueSchema.Type;
+
+// A migrated row whose destination record did not match
+export const VerificationResultSchema = Schema.Struct({
+  id: Schema.String,
+  verificationId: Schema.String,
+  rowId: Schema.String,
+  rowIndex: Schema.Number,
+  issue: VerificationIssueSchema,
+  mismatches: Schema.NullOr(Schema.String), // JSON stringified FieldMismatch[]
+  errorMessage: Schema.NullOr(Schema.String),
+  createdAt: Schema.String,
+});
+
+export type VerificationResult = typeof VerificationResultSchema.Type;
+
+// A job's latest verification with the rows that did not match
+export const VerificationSchema = Schema.Struct({
+  id: Schema.String,
+  jobId: Schema.String,
+  status: VerificationStatusSchema,
+  sourceCount: Schema.NullOr(Schema.Number),
+  destinationCount: Schema.NullOr(Schema.Number),
+  checkedRows: Schema.Number,
+  matchedRows: Schema.Number,
+  errorMessage: Schema.NullOr(Schema.String),
+  startedAt: Schema.String,
+  completedAt: Schema.NullOr(Schema.String),
+  results: Schema.Array(VerificationResultSchema),
+});
+
+export type Verification = typeof VerificationSchema.Type;
+
+// ---------------------
+// Rollback Schemas
+// ---------------------
+
+export const RollbackStatusSchema = Schema.Literal("running", "completed", "failed");
+
+export type RollbackStatus = typeof RollbackStatusSchema.Type;
+
+// A single DELETE attempt for a row's destination record
+export const RollbackAttemptSchema = Schema.Struct({
+  id: Schema.String,
+  rollbackId: Schema.String,
+  rowId: Schema.String,
+  rowIndex: Schema.Number,
+  success: Schema.Boolean,
+  notFound: Schema.Boolean, // The record was already gone
+  errorMessage: Schema.NullOr(Schema.String),
+  createdAt: Schema.String,
+});
+
+export type RollbackAttempt = typeof RollbackAttemptSchema.Type;
+
+// A job's rollback with the rows whose latest DELETE failed
+export const RollbackSchema = Schema.Struct({
+  id: Schema.String,
+  jobId: Schema.String,
+  status: RollbackStatusSchema,
+  totalRows: Schema.Number,
+  deletedRows: Schema.Number,
+  failedRows: Schema.Number,
+  errorMessage: Schema.NullOr(Schema.String),
+  startedAt: Schema.String,
+  completedAt: Schema.NullOr(Schema.String),
+  failures: Schema.Array(RollbackAttemptSchema),
+});
+
+export type Rollback = typeof RollbackSchema.Type;
+
+// ---------------------
+// Crosswalk Schemas
+// ---------------------
+
+export const CrosswalkEntrySchema = Schema.Struct({
+  id: Schema.String,
+  sourceEnvironmentId: Schema.String,
+  sourceEntity: Schema.String, // Source entity type (datasource) or query path (query)
+  sourceKey: Schema.String,
+  destEnvironmentId: Schema.String,
+  destEntityType: Schema.String,
+  destIdentity: Schema.String, // JSON stringified string[]
+  jobId: Schema.String,
+  createdAt: Schema.String,
+  updatedAt: Schema.String,
+});
+
+export type CrosswalkEntry = typeof CrosswalkEntrySchema.Type;
+
+export const CrosswalkFilterSchema = Schema.Struct({
+  jobId: Schema.optionalWith(Schema.String, { exact: true }),
+  sourceEnvironmentId: Schema.optionalWith(Schema.String, { exact: true }),
+  sourceEntity: Schema.optionalWith(Schema.String, { exact: true }),
+  destEnvironmentId: Schema.optionalWith(Schema.String, { exact: true }),
+  destEntityType: Schema.optionalWith(Schema.String, { exact: true }),
+});
+
+export type CrosswalkFilter = typeof CrosswalkFilterSchema.Type;
+
+export const LookupCrosswalkRequestSchema = Schema.Struct({
+  sourceEnvironmentId: Schema.String,
+  sourceEntity: Schema.String,
+  sourceKeys: Schema.Array(Schema.String),
+  destEnvironmentId: Schema.String,
+});
+
+export type LookupCrosswalkRequest = typeof LookupCrosswalkRequestSchema.Type;
+
+// ---------------------
+// Lookup Table Schemas
+// ---------------------
+
+export const LookupFallbackSchema = Schema.Literal("passThrough", "null", "fail");
+
+export type LookupFallback = typeof LookupFallbackSchema.Type;
+
+export const LookupEntrySchema = Schema.Struct({
+  source: Schema.String,
+  destination: Schema.String,
+});
+
+export const LookupTableSchema = Schema.Struct({
+  id: Schema.String,
+  name: Schema.String,
+  description: Schema.NullOr(Schema.String),
+  fallback: LookupFallbackSchema,
+  entries: Schema.String, // JSON stringified LookupEntry[]
+  createdAt: Schema.String,
+  updatedAt: Schema.String,
+});
+
+export type LookupTable = typeof LookupTableSchema.Type;
+
+const LookupTableFields = {
+  name: Schema.String,
+  description: Schema.NullOr(Schema.String),
+  fallback: LookupFallbackSchema,
+  entries: Schema.Array(LookupEntrySchema),
+};
+
+export const CreateLookupTableSchema = Schema.Struct(LookupTableFields);
+
+export type CreateLookupTable = typeof CreateLookupTableSchema.Type;
+
+export const UpdateLookupTableSchema = Schema.Struct({
+  id: Schema.String,
+  ...LookupTableFields,
+});
+
+export type UpdateLookupTable = typeof UpdateLookupTableSchema.Type;
+
+export const LookupTableIdSchema = Schema.Struct({
+  id: Schema.String,
+});
+
+export class LookupTableNotFoundErrorSchema extends Schema.TaggedError<LookupTableNotFoundErrorSchema>()(
+  "LookupTableNotFoundError",
+  {
+    id: Schema.String,
+  },
+) {}
+
+// ---------------------
+// Snapshot Schemas
+// ---------------------
+
+export const SnapshotStatusSchema = Schema.Literal("capturing", "ready", "failed");
+
+export type SnapshotStatus = typeof SnapshotStatusSchema.Type;
+
+export const SnapshotSchema = Schema.Struct({
+  id: Schema.String,
+  name: Schema.String,
+  status: SnapshotStatusSchema,
+  environmentId: Schema.String,
+  mode: Schema.Literal("query", "datasource"),
+  sourceQueryPath: Schema.NullOr(Schema.String),
+  queryParameters: Schema.NullOr(Schema.String), // JSON stringified QueryParameterValue[]
+  sourceEntityType: Schema.NullOr(Schema.String),
+  diffBaseSnapshotId: Schema.NullOr(Schema.String), // Set on snapshots of changed rows
+  diffCompareSnapshotId: Schema.NullOr(Schema.String),
+  totalRows: Schema.NullOr(Schema.Number), // Source row count (null until the first page)
+  rowCount: Schema.Number, // Rows stored so far
+  errorMessage: Schema.NullOr(Schema.String),
+  createdAt: Schema.String,
+  capturedAt: Schema.NullOr(Schema.String),
+});
+
+export type Snapshot = typeof SnapshotSchema.Type;
+
+export const CreateSnapshotSchema = Schema.Struct({
+  name: Schema.String,
+  environmentId: Schema.String,
+  mode: Schema.Literal("query", "datasource"),
+  sourceQueryPath: Schema.optionalWith(Schema.String, { exact: true }), // query mode only
+  queryParameters: Schema.optionalWith(Schema.Array(QueryParameterValueSchema), { exact: true }), // query mode only
+  sourceEntityType: Schema.optionalWith(Schema.String, { exact: true }), // datasource mode only
+});
+
+export type CreateSnapshot = typeof CreateSnapshotSchema.Type;
+
+export const SnapshotIdSchema = Schema.Struct({
+  id: Schema.String,
+});
+
+export const SnapshotDiffKindSchema = Schema.Literal("added", "removed", "modified");
+
+export type SnapshotDiffKind = typeof SnapshotDiffKindSchema.Type;
+
+// A column whose value differs between two captures of a row
+export const SnapshotColumnChangeSchema = Schema.Struct({
+  column: Schema.String,
+  before: Schema.NullOr(Schema.String),
+  after: Schema.NullOr(Schema.String),
+});
+
+export type SnapshotColumnChange = typeof SnapshotColumnChangeSchema.Type;
+
+export const SnapshotDiffEntrySchema = Schema.Struct({
+  key: Schema.String, // Key column values, joined with "|"
+  kind: SnapshotDiffKindSchema,
+  changes: Schema.Array(SnapshotColumnChangeSchema), // Modified rows only
+});
+
+export type SnapshotDiffEntry = typeof SnapshotDiffEntrySchema.Type;
+
+export const SnapshotDiffRequestSchema = Schema.Struct({
+  baseSnapshotId: Schema.String, // Earlier capture
+  compareSnapshotId: Schema.String, // Later capture
+  keyProperty: Schema.optionalWith(Schema.String, { exact: true }), // Defaults to the identity fields (datasource mode)
+  kind: Schema.optionalWith(SnapshotDiffKindSchema, { exact: true }),
+  limit: Schema.Number,
+  offset: Schema.Number,
+});
+
+export type SnapshotDiffRequest = typeof SnapshotDiffRequestSchema.Type;
+
+// Counts of the rows that changed between two captures, with a page of the changes
+export const SnapshotDiffSchema = Schema.Struct({
+  baseSnapshotId: Schema.String,
+  compareSnapshotId: Schema.String,
+  keyProperties: Schema.Array(Schema.String),
+  added: Schema.Number,
+  removed: Schema.Number,
+  modified: Schema.Number,
+  unchanged: Schema.Number,
+  unkeyed: Schema.Number, // Rows without a value for every key column (not compared)
+  duplicateKeys: Schema.Array(Schema.String),
+  total: Schema.Number, // Entries of the requested kind
+  entries: Schema.Array(SnapshotDiffEntrySchema),
+});
+
+export type SnapshotDiff = typeof SnapshotDiffSchema.Type;
+
+export const CreateSnapshotFromDiffSchema = Schema.Struct({
+  name: Schema.String,
+  baseSnapshotId: Schema.String,
+  compareSnapshotId: Schema.String,
+  keyProperty: Schema.optionalWith(Schema.String, { exact: true }),
+});
+
+export type CreateSnapshotFromDiff = typeof CreateSnapshotFromDiffSchema.Type;
+
+export class SnapshotNotFoundErrorSchema extends Schema.TaggedError<SnapshotNotFoundErrorSchema>()(
+  "SnapshotNotFoundError",
+  {
+    id: Schema.String,
+  },
+) {}
+
 // Job Error Schemas
 export class JobNotFoundErrorSchema extends Schema.TaggedError<JobNotFoundErrorSchema>()(
   "JobNotFoundError",
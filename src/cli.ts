@@ -0,0 +1,384 @@
+import { Data, Effect, Fiber, Layer, Schedule, Schema } from "effect";
+import { basename, dirname, resolve } from "node:path";
+
+// Set process title for visibility in `lsof`, `ps`, etc.
+process.title = "i-migrate-cli";
+import { CreateJobRequestSchema } from "./api/schemas";
+import { PersistenceService, PersistenceServiceLive } from "./services/persistence";
+import { SessionService, SessionServiceLive } from "./services/session";
+import { ImisApiService, ImisApiServiceLive } from "./services/imis-api";
+import { TraceStoreServiceLive } from "./services/trace-store";
+import { CrosswalkService, CrosswalkServiceLive } from "./services/crosswalk";
+import { LookupTableServiceLive } from "./services/lookup-tables";
+import { SnapshotServiceLive } from "./services/snapshots";
+import {
+  MigrationJobService,
+  MigrationJobServiceLive,
+  isResumableStatus,
+  isRunByOtherProcess,
+  isRunnableStatus,
+} from "./services/migration-job";
+import {
+  CLI_USAGE,
+  EXIT_USAGE,
+  creationEnvironmentId,
+  exitCodeForStatus,
+  formatJobProgress,
+  formatTable,
+  parseCliArgs,
+  passwordEnvVar,
+  type CliCommand,
+} from "./lib/cli";
+import type { Job } from "./db/schema";
+
+// ---------------------
+// Service Layers
+// ---------------------
+
+// Same services as the desktop app, without the RPC server
+const ServicesLive = Layer.mergeAll(
+  PersistenceServiceLive,
+  SessionServiceLive,
+  ImisApiServiceLive,
+  TraceStoreServiceLive,
+  CrosswalkServiceLive,
+  LookupTableServiceLive,
+  SnapshotServiceLive,
+  MigrationJobServiceLive,
+);
+
+class CliError extends Data.TaggedError("CliError")<{
+  readonly message: string;
+}> {}
+
+const PROGRESS_INTERVAL = "2 seconds";
+
+// ---------------------
+// Passwords
+// ---------------------
+
+// Read a line from the terminal without echoing it
+const promptPassword = (label: string) =>
+  new Promise<string>((resolvePassword) => {
+    const stdin = process.stdin;
+    let password = "";
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === "\r" || char === "\n") {
+          stop();
+          resolvePassword(password);
+          return;
+        }
+        if (char === "\u0003") {
+          stop();
+          process.exit(130);
+        }
+        password = char === "\u007f" || char === "\b" ? password.slice(0, -1) : password + char;
+      }
+    };
+    const stop = () => {
+      stdin.off("data", onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write("\n");
+    };
+    process.stderr.write(label);
+    stdin.setRawMode(true);
+    stdin.setEncoding("utf8");
+    stdin.resume();
+    stdin.on("data", onData);
+  });
+
+// Validate and hold an environment's password for this process (never stored)
+const unlockEnvironment = (environmentId: string) =>
+  Effect.gen(function* () {
+    const session = yield* SessionService;
+    if ((yield* session.getPassword(environmentId)) !== undefined) return;
+
+    const persistence = yield* PersistenceService;
+    const imisApi = yield* ImisApiService;
+    const env = yield* persistence.getEnvironmentById(environmentId);
+    const envVar = passwordEnvVar(env.name);
+    const password =
+      process.env[envVar] ??
+      process.env.IMIGRATE_PASSWORD ??
+      (process.stdin.isTTY
+        ? yield* Effect.promise(() =>
+            promptPassword(`Password for ${env.name} (${env.username}): `),
+          )
+        : undefined);
+    if (!password) {
+      return yield* Effect.fail(
+        new CliError({
+          message: `No password for environment "${env.name}". Set ${envVar} or IMIGRATE_PASSWORD.`,
+        }),
+      );
+    }
+
+    yield* imisApi.validateCredentials(environmentId, password);
+    yield* session.setPassword(environmentId, password);
+  });
+
+// Unlock the environments a job reads from (and writes to, unless it writes a file)
+const unlockJobEnvironments = (job: Job, options: { destination: boolean }) =>
+  Effect.gen(function* () {
+    const jobService = yield* MigrationJobService;
+    const environmentIds = new Set([job.sourceEnvironmentId]);
+    if (options.destination && job.destType !== "file") {
+      environmentIds.add(job.destEnvironmentId);
+    }
+    // Child jobs decrypt their parent job's rows with the parent's source password
+    if (job.parentJobId) {
+      const parentJob = yield* jobService.getJob(job.parentJobId);
+      environmentIds.add(parentJob.sourceEnvironmentId);
+    }
+    for (const environmentId of environmentIds) {
+      yield* unlockEnvironment(environmentId);
+    }
+  });
+
+// ---------------------
+// Commands
+// ---------------------
+
+const listEnvironments = (json: boolean) =>
+  Effect.gen(function* () {
+    const persistence = yield* PersistenceService;
+    const envs = yield* persistence.getEnvironments();
+    console.log(
+      json
+        ? JSON.stringify(envs, null, 2)
+        : formatTable([
+            ["ID", "NAME", "URL", "USERNAME"],
+            ...envs.map((env) => [env.id, env.name, env.baseUrl, env.username]),
+          ]),
+    );
+    return 0;
+  });
+
+const listJobs = (json: boolean) =>
+  Effect.gen(function* () {
+    const jobService = yield* MigrationJobService;
+    const jobs = yield* jobService.listJobsWithCounts();
+    console.log(
+      json
+        ? JSON.stringify(jobs, null, 2)
+        : formatTable([
+            ["ID", "NAME", "STATUS", "ROWS", "FAILED", "CREATED"],
+            ...jobs.map((job) => [
+              job.id,
+              job.name,
+              job.status,
+              job.totalRows === null
+                ? String(job.processedRows)
+                : `${job.processedRows}/${job.totalRows}`,
+              String(job.failedRowCount),
+              job.createdAt,
+            ]),
+          ]),
+    );
+    return 0;
+  });
+
+// Print the final state of a job and map its status to the exit code
+const reportJob = (jobId: string) =>
+  Effect.gen(function* () {
+    const jobService = yield* MigrationJobService;
+    const job = yield* jobService.getJobWithCounts(jobId);
+    console.log(formatJobProgress(job));
+    if (job.errorMessage) {
+      console.error(`Error: ${job.errorMessage}`);
+    }
+    if (job.destFilePath) {
+      console.log(`Output file: ${job.destFilePath}`);
+    }
+    if (job.failedRowCount > 0) {
+      console.log(`Export the failed rows with: bun run cli jobs export ${job.id}`);
+    }
+    return exitCodeForStatus(job.status);
+  });
+
+// The app or another CLI may be running the job; two processes never write the same rows
+const failIfRunByOtherProcess = (job: Job) =>
+  isRunByOtherProcess(job)
+    ? Effect.fail(
+        new CliError({
+          message: `Job "${job.name}" is being run by another process (pid ${job.runnerPid})`,
+        }),
+      )
+    : Effect.void;
+
+const runJob = (jobId: string) =>
+  Effect.gen(function* () {
+    const jobService = yield* MigrationJobService;
+    const job = yield* jobService.getJob(jobId);
+    yield* failIfRunByOtherProcess(job);
+    const resume = isResumableStatus(job);
+    if (!resume && !isRunnableStatus(job)) {
+      return yield* Effect.fail(
+        new CliError({
+          message:
+            job.status === "partial"
+              ? `Job "${job.name}" has failed rows; use "jobs retry" to retry them`
+              : `Job "${job.name}" cannot be run from status "${job.status}"`,
+        }),
+      );
+    }
+    yield* unlockJobEnvironments(job, { destination: true });
+
+    console.log(`${resume ? "Resuming" : "Running"} job "${job.name}" (${job.id})`);
+    const run = yield* Effect.fork(resume ? jobService.resumeJob(jobId) : jobService.runJob(jobId));
+
+    // Print a progress line whenever the counts change
+    let lastLine = "";
+    const progress = yield* Effect.fork(
+      jobService.getJobWithCounts(jobId).pipe(
+        Effect.map(formatJobProgress),
+        Effect.tap((line) =>
+          Effect.sync(() => {
+            if (line !== lastLine) console.log(line);
+            lastLine = line;
+          }),
+        ),
+        Effect.ignore,
+        Effect.repeat(Schedule.spaced(PROGRESS_INTERVAL)),
+      ),
+    );
+
+    // The first Ctrl+C pauses the job so it can be resumed later; the second exits at once
+    const onInterrupt = () => {
+      console.error("\nPausing job after in-flight batches finish (Ctrl+C again to exit)...");
+      Effect.runFork(jobService.pauseJob(jobId).pipe(Effect.ignore));
+      process.once("SIGINT", () => process.exit(130));
+    };
+    process.once("SIGINT", onInterrupt);
+
+    yield* Fiber.join(run).pipe(
+      Effect.ensuring(
+        Effect.sync(() => process.off("SIGINT", onInterrupt)).pipe(
+          Effect.zipRight(Fiber.interrupt(progress)),
+        ),
+      ),
+    );
+    return yield* reportJob(jobId);
+  });
+
+const createJob = (specPath: string, run: boolean) =>
+  Effect.gen(function* () {
+    const spec = yield* Effect.tryPromise({
+      try: () => Bun.file(specPath).json() as Promise<Record<string, unknown>>,
+      catch: (cause) => new CliError({ message: `Could not read job spec ${specPath}: ${cause}` }),
+    });
+
+    // A file-mode spec may name its source file by path instead of embedding it
+    if (typeof spec.sourceFile === "string") {
+      const filePath = resolve(dirname(specPath), spec.sourceFile);
+      const content = yield* Effect.tryPromise({
+        try: () => Bun.file(filePath).arrayBuffer(),
+        catch: (cause) =>
+          new CliError({ message: `Could not read source file ${filePath}: ${cause}` }),
+      });
+      spec.sourceFile = {
+        name: basename(filePath),
+        content: Buffer.from(content).toString("base64"),
+      };
+    }
+
+    const request = yield* Schema.decodeUnknown(CreateJobRequestSchema)(spec);
+    // File rows are encrypted with a password when the job is created
+    const environmentId = creationEnvironmentId(request);
+    if (environmentId) {
+      yield* unlockEnvironment(environmentId);
+    }
+    const jobService = yield* MigrationJobService;
+    const { jobId } = yield* jobService.createJobFromRequest(request);
+    console.log(`Created job "${request.name}" (${jobId})`);
+
+    return run ? yield* runJob(jobId) : 0;
+  });
+
+const retryJob = (jobId: string) =>
+  Effect.gen(function* () {
+    const jobService = yield* MigrationJobService;
+    const job = yield* jobService.getJob(jobId);
+    yield* failIfRunByOtherProcess(job);
+    yield* unlockJobEnvironments(job, { destination: true });
+
+    console.log(`Retrying the failed rows of job "${job.name}" (${job.id})`);
+    const result = yield* jobService.retryFailedRows(jobId);
+    console.log(
+      `Retried ${result.retriedCount} rows: ${result.successCount} succeeded, ${result.failCount} failed`,
+    );
+    return yield* reportJob(jobId);
+  });
+
+const exportJob = (jobId: string, crosswalk: boolean, out: string | null) =>
+  Effect.gen(function* () {
+    const jobService = yield* MigrationJobService;
+    const job = yield* jobService.getJob(jobId);
+
+    let csv: string;
+    if (crosswalk) {
+      const crosswalkService = yield* CrosswalkService;
+      csv = yield* crosswalkService.exportCsv({ jobId });
+    } else {
+      // Failed rows are decrypted with the source password
+      yield* unlockJobEnvironments(job, { destination: false });
+      csv = yield* jobService.exportFailedRows(jobId);
+    }
+
+    if (out) {
+      yield* Effect.tryPromise({
+        try: () => Bun.write(out, csv),
+        catch: (cause) => new CliError({ message: `Could not write ${out}: ${cause}` }),
+      });
+      console.error(`Wrote ${out}`);
+    } else {
+      process.stdout.write(csv);
+    }
+    return 0;
+  });
+
+const runCommand = (command: CliCommand) =>
+  Effect.gen(function* () {
+    switch (command.command) {
+      case "help":
+        console.log(CLI_USAGE);
+        return 0;
+      case "environments.list":
+        return yield* listEnvironments(command.json);
+      case "jobs.list":
+        return yield* listJobs(command.json);
+      case "jobs.create":
+        return yield* createJob(command.specPath, command.run);
+      case "jobs.run":
+        return yield* runJob(command.jobId);
+      case "jobs.retry":
+        return yield* retryJob(command.jobId);
+      case "jobs.export":
+        return yield* exportJob(command.jobId, command.crosswalk, command.out);
+    }
+  });
+
+// ---------------------
+// Main
+// ---------------------
+
+const parsed = parseCliArgs(process.argv.slice(2));
+if (!parsed.ok) {
+  console.error(`${parsed.message}\n\n${CLI_USAGE}`);
+  process.exit(EXIT_USAGE);
+}
+
+const exitCode = await Effect.runPromise(
+  runCommand(parsed.command).pipe(
+    Effect.catchAll((error) =>
+      Effect.sync(() => {
+        console.error(`Error: ${error.message}`);
+        return 1;
+      }),
+    ),
+    Effect.provide(ServicesLive),
+  ),
+);
+process.exit(exitCode);
@@ -1,5 +1,14 @@
 import { Link, useRouterState } from "@tanstack/react-router";
-import { Database, Download, Home, PlayCircle, Server, Settings } from "lucide-react";
+import {
+  Camera,
+  Database,
+  Download,
+  Home,
+  PlayCircle,
+  Server,
+  Settings,
+  Table2,
+} from "lucide-react";
 
 import {
   Sidebar,
@@ -37,6 +46,16 @@ const navItems = [
     url: "/jobs",
     icon: PlayCircle,
   },
+  {
+    title: "Lookup Tables",
+    url: "/lookup-tables",
+    icon: Table2,
+  },
+  {
+    title: "Snapshots",
+    url: "/snapshots",
+    icon: Camera,
+  },
   {
     title: "Settings",
     url: "/settings",
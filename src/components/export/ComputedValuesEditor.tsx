@@ -0,0 +1,307 @@
+import { useState } from "react";
+import { Plus, Sigma, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { BoProperty } from "@/api/client";
+import {
+  GENERATED_VALUE_KINDS,
+  isComputedMapping,
+  parseConstantValue,
+  templateSourceProperties,
+  type GeneratedValueKind,
+  type MappingValue,
+} from "@/lib/mapping-values";
+import type { TransformStep } from "@/lib/transforms";
+import type { PropertyMapping } from "./PropertyMapper";
+import { TransformStepsButton } from "./TransformStepsEditor";
+import { LookupTableButton } from "./LookupTableButton";
+
+type ComputedValuesEditorProps = {
+  mappings: PropertyMapping[];
+  onMappingsChange: (mappings: PropertyMapping[]) => void;
+  sortedDestinations: readonly BoProperty[];
+  usedDestinations: Set<string>;
+  restrictedDestinations: Record<string, string>;
+  /** Source columns available to templates */
+  sourceColumns: readonly string[];
+};
+
+const UNSET_DESTINATION = "__unset__";
+
+const DEFAULT_VALUES: Record<MappingValue["kind"], MappingValue> = {
+  constant: { kind: "constant", value: null },
+  template: { kind: "template", template: "" },
+  generated: { kind: "generated", generator: "jobId" },
+};
+
+/**
+ * Destination-first mappings: destination properties filled with a constant, a template that
+ * combines source columns, or a generated value instead of a single source column.
+ */
+export function ComputedValuesEditor({
+  mappings,
+  onMappingsChange,
+  sortedDestinations,
+  usedDestinations,
+  restrictedDestinations,
+  sourceColumns,
+}: ComputedValuesEditorProps) {
+  const computed = mappings
+    .map((mapping, index) => ({ mapping, index }))
+    .filter(({ mapping }) => isComputedMapping(mapping));
+
+  const updateMapping = (index: number, mapping: PropertyMapping) =>
+    onMappingsChange(mappings.map((m, i) => (i === index ? mapping : m)));
+
+  const removeMapping = (index: number) => onMappingsChange(mappings.filter((_, i) => i !== index));
+
+  const addMapping = () =>
+    onMappingsChange([
+      ...mappings,
+      { sourceProperty: "", destinationProperty: null, value: DEFAULT_VALUES.constant },
+    ]);
+
+  return (
+    <div className="flex flex-col rounded-xl border overflow-hidden">
+      <div className="flex items-center justify-between gap-4 px-4 py-3 bg-muted/50 border-b">
+        <div className="flex flex-col gap-0.5">
+          <span className="text-[11px] font-bold text-muted-foreground uppercase tracking-widest">
+            Computed Values
+          </span>
+          <span className="text-xs text-muted-foreground">
+            Fill destination properties with a constant, a template such as{" "}
+            <code className="font-mono">{"{Address1}, {City}"}</code>, or a generated value.
+          </span>
+        </div>
+        <Button variant="outline" size="sm" onClick={addMapping} className="h-8 gap-1.5 shrink-0">
+          <Plus className="size-3.5" />
+          Add Value
+        </Button>
+      </div>
+
+      {computed.length > 0 && (
+        <div className="flex flex-col divide-y divide-border">
+          {computed.map(({ mapping, index }) => (
+            <ComputedValueRow
+              key={index}
+              mapping={mapping}
+              onChange={(next) => updateMapping(index, next)}
+              onRemove={() => removeMapping(index)}
+              sortedDestinations={sortedDestinations}
+              usedDestinations={usedDestinations}
+              restrictedDestinations={restrictedDestinations}
+              sourceColumns={sourceColumns}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---------------------
+// ComputedValueRow Component
+// ---------------------
+
+type ComputedValueRowProps = {
+  mapping: PropertyMapping;
+  onChange: (mapping: PropertyMapping) => void;
+  onRemove: () => void;
+  sortedDestinations: readonly BoProperty[];
+  usedDestinations: Set<string>;
+  restrictedDestinations: Record<string, string>;
+  sourceColumns: readonly string[];
+};
+
+function ComputedValueRow({
+  mapping,
+  onChange,
+  onRemove,
+  sortedDestinations,
+  usedDestinations,
+  restrictedDestinations,
+  sourceColumns,
+}: ComputedValueRowProps) {
+  const value = mapping.value ?? DEFAULT_VALUES.constant;
+  const destination = sortedDestinations.find((d) => d.Name === mapping.destinationProperty);
+  const destinationType = destination?.PropertyTypeName ?? "String";
+  const destinationMaxLength =
+    destination && "MaxLength" in destination ? destination.MaxLength : null;
+
+  const unknownColumns =
+    value.kind === "template"
+      ? templateSourceProperties(value.template).filter((name) => !sourceColumns.includes(name))
+      : [];
+
+  const setValue = (next: MappingValue) => onChange({ ...mapping, value: next });
+
+  const setTransforms = (transforms: TransformStep[]) => {
+    const { transforms: _, ...rest } = mapping;
+    onChange(transforms.length > 0 ? { ...rest, transforms } : rest);
+  };
+
+  const setLookupTable = (lookupTableId: string | undefined) => {
+    const { lookupTableId: _, ...rest } = mapping;
+    onChange(lookupTableId !== undefined ? { ...rest, lookupTableId } : rest);
+  };
+
+  return (
+    <div className="grid grid-cols-[1fr_140px_1.4fr_auto] gap-3 items-start px-4 py-3">
+      {/* Destination */}
+      <Select
+        value={mapping.destinationProperty ?? UNSET_DESTINATION}
+        onValueChange={(name) =>
+          onChange({ ...mapping, destinationProperty: name === UNSET_DESTINATION ? null : name })
+        }
+      >
+        <SelectTrigger className="h-9 w-full text-xs">
+          <SelectValue placeholder="Destination..." />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNSET_DESTINATION}>
+            <span className="text-muted-foreground italic">Select destination...</span>
+          </SelectItem>
+          {sortedDestinations.map((prop) => (
+            <SelectItem
+              key={prop.Name}
+              value={prop.Name}
+              disabled={
+                prop.Name in restrictedDestinations ||
+                (usedDestinations.has(prop.Name) && prop.Name !== mapping.destinationProperty)
+              }
+            >
+              <span className="font-medium">{prop.Name}</span>
+              <span className="text-[10px] font-mono text-muted-foreground uppercase px-1.5 py-0.5 rounded bg-muted">
+                {prop.PropertyTypeName}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Kind */}
+      <Select
+        value={value.kind}
+        onValueChange={(kind) => setValue(DEFAULT_VALUES[kind as MappingValue["kind"]])}
+      >
+        <SelectTrigger className="h-9 w-full text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="constant">Constant</SelectItem>
+          <SelectItem value="template">Template</SelectItem>
+          <SelectItem value="generated">Generated</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {/* Value */}
+      <div className="flex flex-col gap-1 min-w-0">
+        {value.kind === "constant" && (
+          <ConstantInput
+            value={value.value}
+            placeholder={destinationType === "Boolean" ? "true / false" : "Value (empty = null)"}
+            onChange={(text) =>
+              setValue({ kind: "constant", value: parseConstantValue(text, destinationType) })
+            }
+          />
+        )}
+        {value.kind === "template" && (
+          <>
+            <Input
+              value={value.template}
+              onChange={(e) => setValue({ kind: "template", template: e.target.value })}
+              placeholder="{Address1}, {City} {PostalCode}"
+              className="h-9 text-xs font-mono"
+            />
+            {unknownColumns.length > 0 && (
+              <span className="text-[11px] text-destructive">
+                Unknown source column{unknownColumns.length > 1 ? "s" : ""}:{" "}
+                {unknownColumns.join(", ")}
+              </span>
+            )}
+          </>
+        )}
+        {value.kind === "generated" && (
+          <Select
+            value={value.generator}
+            onValueChange={(generator) =>
+              setValue({ kind: "generated", generator: generator as GeneratedValueKind })
+            }
+          >
+            <SelectTrigger className="h-9 w-full text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(GENERATED_VALUE_KINDS) as GeneratedValueKind[]).map((generator) => (
+                <SelectItem key={generator} value={generator}>
+                  {GENERATED_VALUE_KINDS[generator]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1">
+        {mapping.destinationProperty !== null && (
+          <LookupTableButton
+            lookupTableId={mapping.lookupTableId}
+            onLookupTableChange={setLookupTable}
+          />
+        )}
+        {mapping.destinationProperty !== null && (
+          <TransformStepsButton
+            sourceProperty={value.kind === "template" ? "template" : value.kind}
+            destinationProperty={mapping.destinationProperty}
+            steps={mapping.transforms ?? []}
+            onStepsChange={setTransforms}
+            destinationMaxLength={destinationMaxLength}
+          />
+        )}
+        <Button
+          variant="ghost"
+          size="icon-sm"
+          onClick={onRemove}
+          className="text-destructive hover:text-destructive"
+        >
+          <Trash2 className="size-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Keeps the typed text while editing so numeric and boolean parsing doesn't fight the cursor
+function ConstantInput({
+  value,
+  placeholder,
+  onChange,
+}: {
+  value: string | number | boolean | null;
+  placeholder: string;
+  onChange: (text: string) => void;
+}) {
+  const [text, setText] = useState(value === null ? "" : String(value));
+
+  return (
+    <div className="relative">
+      <Sigma className="absolute left-2.5 top-1/2 size-3.5 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          onChange(e.target.value);
+        }}
+        placeholder={placeholder}
+        className="h-9 pl-8 text-xs"
+      />
+    </div>
+  );
+}
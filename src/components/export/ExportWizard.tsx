@@ -1,7 +1,13 @@
 import { useState, useCallback } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useNavigate } from "@tanstack/react-router";
-import { parseAsString, parseAsInteger, parseAsStringLiteral, useQueryStates } from "nuqs";
+import {
+  parseAsBoolean,
+  parseAsString,
+  parseAsInteger,
+  parseAsStringLiteral,
+  useQueryStates,
+} from "nuqs";
 import {
   ArrowLeft,
   ArrowRight,
@@ -11,43 +17,85 @@ import {
   Map,
   ListChecks,
   FileSearch,
+  FileSpreadsheet,
+  FileOutput,
   Loader2,
 } from "lucide-react";
 import { useEnvironmentStore } from "@/stores/environment-store";
 import { queries } from "@/lib/queries";
-import { createJob } from "@/api/client";
+import { createJob, type ParentLink, type QueryParameterValue } from "@/api/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { DataSourceSelector } from "./DataSourceSelector";
 import { DestinationPasswordDialog } from "./DestinationPasswordDialog";
 import { EnvironmentSelector } from "./EnvironmentSelector";
+import { FileDestinationSelector } from "./FileDestinationSelector";
+import { FileSourceSelector, type UploadedSourceFile } from "./FileSourceSelector";
+import { ParentJobSelector } from "./ParentJobSelector";
 import { PropertyMapper, type PropertyMapping } from "./PropertyMapper";
 import { QueryFileBrowser } from "./QueryFileBrowser";
+import { QueryParametersEditor } from "./QueryParametersEditor";
 import { QueryPropertyMapper } from "./QueryPropertyMapper";
+import { RowFilterEditor } from "./RowFilterEditor";
 import type { DestinationDefinition } from "@/api/destinations";
+import { isComputedMapping } from "@/lib/mapping-values";
+import { isCompleteCondition, type RowFilter } from "@/lib/row-filter";
+import { defaultQueryParameters } from "@/lib/query-parameters";
 
 // ---------------------
 // Types
 // ---------------------
 
-type ExportMode = "datasource" | "query";
+type ExportMode = "datasource" | "query" | "file";
+
+type WriteMode = "insert" | "update" | "upsert";
 
 // ---------------------
 // URL State Configuration
 // ---------------------
 
 const exportSearchParams = {
-  mode: parseAsStringLiteral(["datasource", "query"] as const).withDefault("datasource"),
+  mode: parseAsStringLiteral(["datasource", "query", "file"] as const).withDefault("datasource"),
   step: parseAsInteger.withDefault(1),
   sourceEntity: parseAsString,
   sourceQuery: parseAsString,
   sourceQueryName: parseAsString,
   destEnv: parseAsString,
-  destEntity: parseAsString,
+  destEntity: parseAsString, // Output file name (without extension) when writing to a file
+  toFile: parseAsBoolean.withDefault(false),
+  destFormat: parseAsStringLiteral(["csv", "ndjson", "parquet"] as const),
   jobName: parseAsString,
+  writeMode: parseAsStringLiteral(["insert", "update", "upsert"] as const).withDefault("insert"),
+  dryRun: parseAsBoolean.withDefault(false),
 };
 
+const WRITE_MODE_OPTIONS: { value: WriteMode; label: string; description: string }[] = [
+  { value: "insert", label: "Insert", description: "Always create new records." },
+  {
+    value: "update",
+    label: "Update",
+    description: "Only update existing records matched by identity fields. Unmatched rows fail.",
+  },
+  {
+    value: "upsert",
+    label: "Upsert",
+    description: "Update records matched by identity fields, create the rest.",
+  },
+];
+
+const DEFAULT_SOURCE_KEY = "__default__";
+const NO_WATERMARK = "__none__";
+const LIVE_SOURCE = "__live__";
+
 // ---------------------
 // Wizard Steps
 // ---------------------
@@ -66,6 +114,13 @@ const QUERY_STEPS = [
   { id: 4, title: "Mapping", icon: Map, description: "Map properties" },
 ] as const;
 
+const FILE_STEPS = [
+  { id: 1, title: "Source File", icon: FileSpreadsheet, description: "Upload source file" },
+  { id: 2, title: "Destination", icon: Server, description: "Choose destination environment" },
+  { id: 3, title: "Target Data", icon: Database, description: "Select destination data source" },
+  { id: 4, title: "Mapping", icon: Map, description: "Map columns" },
+] as const;
+
 // ---------------------
 // Props
 // ---------------------
@@ -84,11 +139,25 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
   const queryClient = useQueryClient();
 
   const [queryState, setQueryState] = useQueryStates(exportSearchParams);
-  const { step, sourceEntity, sourceQuery, destEnv, destEntity, jobName } = queryState;
+  const {
+    step,
+    sourceEntity,
+    sourceQuery,
+    destEnv,
+    destEntity,
+    toFile,
+    destFormat,
+    jobName,
+    writeMode,
+    dryRun,
+  } = queryState;
 
   // Use initialMode from props if provided, otherwise use URL state
   const mode = initialMode ?? queryState.mode;
 
+  // Uploaded source file (file mode; too large to persist in the URL)
+  const [sourceFile, setSourceFile] = useState<UploadedSourceFile | null>(null);
+
   // Local state for property mappings (not persisted to URL due to complexity)
   const [mappings, setMappings] = useState<PropertyMapping[]>([]);
 
@@ -97,6 +166,34 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
     null,
   );
 
+  // Optional parent job link (child rows are attached to records created by the parent job)
+  const [parentLink, setParentLink] = useState<ParentLink | null>(null);
+
+  // Optional source key column for the ID crosswalk (defaults to the source identity fields)
+  const [sourceKeyProperty, setSourceKeyProperty] = useState<string | null>(null);
+
+  // Optional watermark column for delta runs (e.g. UpdatedOn)
+  const [watermarkColumn, setWatermarkColumn] = useState<string | null>(null);
+
+  // Optional filter on source columns (rows that don't match are skipped)
+  const [rowFilter, setRowFilter] = useState<RowFilter | null>(null);
+
+  // Values entered for the source query's prompts (null until edited, then the query's defaults apply)
+  const [editedQueryParameters, setEditedQueryParameters] = useState<QueryParameterValue[] | null>(
+    null,
+  );
+
+  // Snapshot to read instead of the live source environment (query and datasource modes)
+  const [sourceSnapshotId, setSourceSnapshotId] = useState<string | null>(null);
+
+  // Custom endpoints only support insert, so the write mode selector is hidden for them
+  const isCustomEndpoint = selectedDestination?.destinationType === "custom_endpoint";
+
+  // File destinations belong to the source environment and are named after the output file
+  const jobDestEnvironmentId = toFile ? sourceEnvironmentId : destEnv;
+  const jobDestEntityType =
+    toFile && destEntity && destFormat ? `${destEntity.trim()}.${destFormat}` : destEntity;
+
   // State for mapper validation (e.g., IsPrimary required for Party destinations)
   const [mapperValidation, setMapperValidation] = useState<{
     isValid: boolean;
@@ -112,15 +209,30 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
   }, []);
 
   // Get the current steps based on mode
-  const STEPS = mode === "query" ? QUERY_STEPS : DATASOURCE_STEPS;
+  const STEPS = mode === "query" ? QUERY_STEPS : mode === "file" ? FILE_STEPS : DATASOURCE_STEPS;
 
   // Fetch environments to check destination password status
   const { data: environments } = useQuery(queries.environments.all());
 
+  // Ready snapshots captured from the selected source (a job can read one instead of the source)
+  const { data: snapshots } = useQuery({ ...queries.snapshots.all(), enabled: mode !== "file" });
+  const sourceSnapshots = (snapshots ?? []).filter(
+    (snapshot) =>
+      snapshot.status === "ready" &&
+      snapshot.environmentId === sourceEnvironmentId &&
+      snapshot.mode === mode &&
+      (mode === "query"
+        ? snapshot.sourceQueryPath === sourceQuery
+        : snapshot.sourceEntityType === sourceEntity),
+  );
+  const sourceSnapshot = sourceSnapshots.find((snapshot) => snapshot.id === sourceSnapshotId);
+
   // Job creation mutation
   const createJobMutation = useMutation({
     mutationFn: async () => {
-      if (!sourceEnvironmentId || !destEnv || !destEntity || !jobName) {
+      // File jobs have no source environment (the server reads them with the destination's password)
+      const jobSourceEnvironmentId = mode === "file" ? jobDestEnvironmentId : sourceEnvironmentId;
+      if (!jobSourceEnvironmentId || !jobDestEnvironmentId || !jobDestEntityType || !jobName) {
         throw new Error("Missing required fields");
       }
 
@@ -129,16 +241,27 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
       const payload: Parameters<typeof createJob>[0] = {
         name: jobName,
         mode,
-        sourceEnvironmentId,
-        destEnvironmentId: destEnv,
-        destEntityType: destEntity,
-        destType: selectedDestination?.destinationType ?? "bo_entity",
+        sourceEnvironmentId: jobSourceEnvironmentId,
+        destEnvironmentId: jobDestEnvironmentId,
+        destEntityType: jobDestEntityType,
+        destType: toFile ? "file" : (selectedDestination?.destinationType ?? "bo_entity"),
+        writeMode: isCustomEndpoint || toFile ? "insert" : writeMode,
+        dryRun: dryRun && !toFile,
         mappings,
       };
 
-      // Only include sourceQueryPath for query mode
+      // Only include the file format for file destinations
+      if (toFile && destFormat) {
+        payload.destFileFormat = destFormat;
+      }
+
+      // Only include sourceQueryPath (and prompt values) for query mode
+      // (a snapshot keeps the prompt values it was captured with)
       if (mode === "query" && sourceQuery) {
         payload.sourceQueryPath = sourceQuery;
+        if (queryParameters.length > 0 && !sourceSnapshot) {
+          payload.queryParameters = queryParameters;
+        }
       }
 
       // Only include sourceEntityType for datasource mode
@@ -146,6 +269,31 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
         payload.sourceEntityType = sourceEntity;
       }
 
+      if (sourceSnapshot) {
+        payload.sourceSnapshotId = sourceSnapshot.id;
+      }
+
+      // Only include the uploaded file for file mode
+      if (mode === "file" && sourceFile) {
+        payload.sourceFile = { name: sourceFile.name, content: sourceFile.content };
+      }
+
+      if (parentLink) {
+        payload.parentLink = parentLink;
+      }
+
+      if (sourceKeyProperty) {
+        payload.sourceKeyProperty = sourceKeyProperty;
+      }
+
+      if (rowFilter) {
+        payload.rowFilter = rowFilter;
+      }
+
+      if (watermarkColumn && mode === "datasource") {
+        payload.watermarkColumn = watermarkColumn;
+      }
+
       // Create the job (server will start it in the background)
       const { jobId } = await createJob(payload);
 
@@ -181,6 +329,12 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
       mode === "query" &&
       sourceEnvironment?.version === "2017",
   });
+
+  // Prompted parameters of the source query, with the values entered for them
+  const queryParameterDefinitions = queryDefinitionData?.Result?.Parameters.$values ?? [];
+  const queryParameters =
+    editedQueryParameters ?? defaultQueryParameters(queryParameterDefinitions);
+
   const destNeedsPassword =
     destEnv !== null && destinationEnvironment !== undefined && !destinationEnvironment.hasPassword;
 
@@ -195,7 +349,7 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
   const handleNext = () => {
     if (step < 4) {
       // If moving from step 2 (destination selection) and destination needs password, prompt for it
-      if (step === 2 && destNeedsPassword) {
+      if (step === 2 && !toFile && destNeedsPassword) {
         setShowPasswordDialog(true);
         return;
       }
@@ -228,9 +382,17 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
       sourceQueryName: null,
       destEnv: null,
       destEntity: null,
+      toFile: false,
+      destFormat: null,
     });
     setSelectedDestination(null);
+    setSourceFile(null);
     setMappings([]);
+    setParentLink(null);
+    setSourceKeyProperty(null);
+    setWatermarkColumn(null);
+    setRowFilter(null);
+    setEditedQueryParameters(null);
   };
 
   // ---------------------
@@ -242,12 +404,31 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
     setQueryState({ sourceEntity: source.entityTypeName, destEntity: null });
     setSelectedDestination(null);
     setMappings([]);
+    setParentLink(null);
+    setSourceKeyProperty(null);
+    setWatermarkColumn(null);
+    setRowFilter(null);
   };
 
   const handleQuerySelect = (path: string, name: string) => {
     setQueryState({ sourceQuery: path, sourceQueryName: name, destEntity: null });
     setSelectedDestination(null);
     setMappings([]);
+    setParentLink(null);
+    setSourceKeyProperty(null);
+    setWatermarkColumn(null);
+    setRowFilter(null);
+    setEditedQueryParameters(null);
+  };
+
+  const handleFileSelect = (file: UploadedSourceFile) => {
+    setSourceFile(file);
+    setQueryState({ destEntity: null });
+    setSelectedDestination(null);
+    setMappings([]);
+    setParentLink(null);
+    setSourceKeyProperty(null);
+    setRowFilter(null);
   };
 
   const handleDestEnvSelect = (envId: string) => {
@@ -255,18 +436,41 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
     setQueryState({ destEnv: envId, destEntity: null });
     setSelectedDestination(null);
     setMappings([]);
+    setParentLink(null);
+    setSourceKeyProperty(null);
+    setWatermarkColumn(null);
+    setRowFilter(null);
+  };
+
+  const handleDestinationKindChange = (writeToFile: boolean) => {
+    // Clear the destination when switching between an environment and a file
+    setQueryState({ toFile: writeToFile, destEnv: null, destEntity: null, destFormat: null });
+    setSelectedDestination(null);
+    setMappings([]);
+    setParentLink(null);
+    setSourceKeyProperty(null);
+    setWatermarkColumn(null);
+    setRowFilter(null);
   };
 
   const handleDestEntitySelect = (destination: DestinationDefinition) => {
     setQueryState({ destEntity: destination.entityTypeName });
     setSelectedDestination(destination);
     setMappings([]);
+    setParentLink(null);
+    setSourceKeyProperty(null);
+    setWatermarkColumn(null);
+    setRowFilter(null);
   };
 
   const handleJobNameChange = (name: string) => {
     setQueryState({ jobName: name || null });
   };
 
+  const handleWriteModeChange = (value: string) => {
+    setQueryState({ writeMode: value as WriteMode });
+  };
+
   const handleQueueJob = () => {
     createJobMutation.mutate();
   };
@@ -278,16 +482,22 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
   const canProceedFromStep = (currentStep: number): boolean => {
     switch (currentStep) {
       case 1:
-        return mode === "datasource" ? !!sourceEntity : !!sourceQuery;
+        return mode === "datasource"
+          ? !!sourceEntity
+          : mode === "file"
+            ? !!sourceFile
+            : !!sourceQuery;
       case 2:
-        return !!destEnv;
+        return toFile || !!destEnv;
       case 3:
-        return !!destEntity;
+        return toFile ? !!destFormat && !!destEntity?.trim() : !!destEntity;
       case 4:
         return (
           mappings.some((m) => m.destinationProperty !== null) &&
           !!jobName?.trim() &&
-          mapperValidation.isValid
+          mapperValidation.isValid &&
+          (!parentLink || (!!parentLink.sourceProperty && !!parentLink.parentKeyProperty)) &&
+          (!rowFilter || rowFilter.conditions.every(isCompleteCondition))
         );
       default:
         return false;
@@ -335,6 +545,17 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
               <FileSearch className="size-3.5" />
               Query (IQA)
             </button>
+            <button
+              onClick={() => handleModeChange("file")}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                mode === "file"
+                  ? "bg-background text-foreground shadow-sm"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              <FileSpreadsheet className="size-3.5" />
+              File
+            </button>
           </div>
         </div>
       )}
@@ -404,19 +625,72 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
           />
         )}
 
-        {/* Step 2: Destination Environment */}
+        {step === 1 && mode === "file" && (
+          <FileSourceSelector file={sourceFile} onSelect={handleFileSelect} />
+        )}
+
+        {/* Step 2: Destination Environment or File */}
         {step === 2 && (
+          <div className="flex items-center gap-2 mb-6">
+            <span className="text-sm font-medium text-muted-foreground mr-2">Write to:</span>
+            <div className="flex rounded-lg border border-border p-1 bg-muted/30">
+              <button
+                onClick={() => handleDestinationKindChange(false)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  !toFile
+                    ? "bg-background text-foreground shadow-sm"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                <Server className="size-3.5" />
+                Environment
+              </button>
+              <button
+                onClick={() => handleDestinationKindChange(true)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  toFile
+                    ? "bg-background text-foreground shadow-sm"
+                    : "text-muted-foreground hover:text-foreground"
+                }`}
+              >
+                <FileOutput className="size-3.5" />
+                File
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 2 && !toFile && (
           <EnvironmentSelector
             selectedId={destEnv}
             onSelect={handleDestEnvSelect}
-            excludeId={sourceEnvironmentId}
+            excludeId={mode === "file" ? null : sourceEnvironmentId}
             title="Select Destination Environment"
             description="Choose the environment where you want to migrate the data."
           />
         )}
 
-        {/* Step 3: Destination Data Source */}
-        {step === 3 && destEnv && (
+        {step === 2 && toFile && (
+          <div className="flex flex-col gap-2">
+            <h2 className="text-lg font-semibold">Write to a File</h2>
+            <p className="text-sm text-muted-foreground">
+              The transformed rows are written to a CSV, NDJSON or Parquet file on this computer
+              instead of an iMIS environment. Choose the format and file name next.
+            </p>
+          </div>
+        )}
+
+        {/* Step 3: Destination Data Source or Output File */}
+        {step === 3 && toFile && (
+          <FileDestinationSelector
+            format={destFormat}
+            fileName={destEntity}
+            onFormatChange={(format) => setQueryState({ destFormat: format })}
+            onFileNameChange={(fileName) => setQueryState({ destEntity: fileName || null })}
+          />
+        )}
+
+        {step === 3 && !toFile && destEnv && (
           <DataSourceSelector
             environmentId={destEnv}
             selectedEntityType={destEntity}
@@ -432,17 +706,18 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
           mode === "datasource" &&
           sourceEnvironmentId &&
           sourceEntity &&
-          destEnv &&
-          destEntity && (
+          jobDestEnvironmentId &&
+          jobDestEntityType && (
             <PropertyMapper
               sourceEnvironmentId={sourceEnvironmentId}
               sourceEntityType={sourceEntity}
-              destinationEnvironmentId={destEnv}
-              destinationEntityType={destEntity}
+              destinationEnvironmentId={jobDestEnvironmentId}
+              destinationEntityType={jobDestEntityType}
               mappings={mappings}
               onMappingsChange={setMappings}
               onValidationChange={handleValidationChange}
               destinationDefinition={selectedDestination ?? undefined}
+              writeToFile={toFile}
             />
           )}
 
@@ -450,15 +725,15 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
           mode === "query" &&
           sourceEnvironmentId &&
           sourceQuery &&
-          destEnv &&
-          destEntity &&
+          jobDestEnvironmentId &&
+          jobDestEntityType &&
           queryDefinitionData?.Result &&
           // For 2017: wait for sample keys to load
           (sourceEnvironment?.version !== "2017" || !sampleKeysLoading) && (
             <QueryPropertyMapper
               queryDefinition={queryDefinitionData.Result}
-              destinationEnvironmentId={destEnv}
-              destinationEntityType={destEntity}
+              destinationEnvironmentId={jobDestEnvironmentId}
+              destinationEntityType={jobDestEntityType}
               mappings={mappings}
               onMappingsChange={setMappings}
               onValidationChange={handleValidationChange}
@@ -468,6 +743,24 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
                 sampleKeysData?.propertyKeys ? [...sampleKeysData.propertyKeys] : undefined
               }
               sampleHasRows={sampleKeysData?.hasRows}
+              writeToFile={toFile}
+            />
+          )}
+
+        {step === 4 &&
+          mode === "file" &&
+          sourceFile &&
+          jobDestEnvironmentId &&
+          jobDestEntityType && (
+            <QueryPropertyMapper
+              sourceFile={{ name: sourceFile.name, columns: sourceFile.preview.columns }}
+              destinationEnvironmentId={jobDestEnvironmentId}
+              destinationEntityType={jobDestEntityType}
+              mappings={mappings}
+              onMappingsChange={setMappings}
+              onValidationChange={handleValidationChange}
+              destinationDefinition={selectedDestination ?? undefined}
+              writeToFile={toFile}
             />
           )}
 
@@ -503,6 +796,168 @@ export function ExportWizard({ initialMode }: ExportWizardProps = {}) {
               </p>
             </div>
 
+            {/* Snapshot of the source rows, read instead of the source environment */}
+            {mode !== "file" && sourceSnapshots.length > 0 && (
+              <div className="flex flex-col gap-2 max-w-md mt-4">
+                <Label htmlFor="sourceSnapshot" className="text-sm font-medium">
+                  Source Rows
+                </Label>
+                <Select
+                  value={sourceSnapshot?.id ?? LIVE_SOURCE}
+                  onValueChange={(value) =>
+                    setSourceSnapshotId(value === LIVE_SOURCE ? null : value)
+                  }
+                >
+                  <SelectTrigger id="sourceSnapshot" className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={LIVE_SOURCE}>Live source environment</SelectItem>
+                    {sourceSnapshots.map((snapshot) => (
+                      <SelectItem key={snapshot.id} value={snapshot.id}>
+                        {snapshot.name} ({snapshot.rowCount.toLocaleString()} rows)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  A snapshot replays the rows it captured, so the job can be rerun without querying
+                  the source again. Delta runs always read the live source.
+                </p>
+              </div>
+            )}
+
+            {/* Prompt values for parameterised source queries */}
+            {mode === "query" && queryParameterDefinitions.length > 0 && !sourceSnapshot && (
+              <QueryParametersEditor
+                parameters={queryParameterDefinitions}
+                values={queryParameters}
+                onChange={setEditedQueryParameters}
+              />
+            )}
+
+            {/* Write mode - custom endpoints and files only support insert */}
+            {!isCustomEndpoint && !toFile && (
+              <div className="flex flex-col gap-2 max-w-md mt-4">
+                <Label htmlFor="writeMode" className="text-sm font-medium">
+                  Write Mode
+                </Label>
+                <Select value={writeMode} onValueChange={handleWriteModeChange}>
+                  <SelectTrigger id="writeMode" className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WRITE_MODE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {WRITE_MODE_OPTIONS.find((option) => option.value === writeMode)?.description}
+                </p>
+              </div>
+            )}
+
+            {destEnv && !toFile && (
+              <ParentJobSelector
+                destinationEnvironmentId={destEnv}
+                mappings={mappings}
+                value={parentLink}
+                onChange={setParentLink}
+              />
+            )}
+
+            {/* Source key column for the ID crosswalk (rows written to a file create no records) */}
+            {!toFile && (
+              <div className="flex flex-col gap-2 max-w-md mt-4">
+                <Label htmlFor="sourceKeyProperty" className="text-sm font-medium">
+                  Source Key Column
+                </Label>
+                <Select
+                  value={sourceKeyProperty ?? DEFAULT_SOURCE_KEY}
+                  onValueChange={(value) =>
+                    setSourceKeyProperty(value === DEFAULT_SOURCE_KEY ? null : value)
+                  }
+                >
+                  <SelectTrigger id="sourceKeyProperty" className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_SOURCE_KEY}>
+                      {mode === "datasource" ? "Source identity fields" : "None"}
+                    </SelectItem>
+                    {mappings
+                      .filter((m) => !isComputedMapping(m))
+                      .map((m) => (
+                        <SelectItem key={m.sourceProperty} value={m.sourceProperty}>
+                          {m.sourceProperty}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Each migrated row is recorded in the ID crosswalk under this key, so old IDs can
+                  be mapped to the records created in the destination.
+                </p>
+              </div>
+            )}
+
+            {/* Watermark column for delta runs (only a data source can be filtered to newer rows) */}
+            {mode === "datasource" && (
+              <div className="flex flex-col gap-2 max-w-md mt-4">
+                <Label htmlFor="watermarkColumn" className="text-sm font-medium">
+                  Watermark Column
+                </Label>
+                <Select
+                  value={watermarkColumn ?? NO_WATERMARK}
+                  onValueChange={(value) =>
+                    setWatermarkColumn(value === NO_WATERMARK ? null : value)
+                  }
+                >
+                  <SelectTrigger id="watermarkColumn" className="bg-background">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_WATERMARK}>None</SelectItem>
+                    {mappings
+                      .filter((m) => !isComputedMapping(m))
+                      .map((m) => (
+                        <SelectItem key={m.sourceProperty} value={m.sourceProperty}>
+                          {m.sourceProperty}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  The highest value of this column (such as UpdatedOn) is saved after each run.
+                  Delta runs then migrate only the rows changed since, including rows with the saved
+                  value itself; combine with upsert to keep the destination in sync without
+                  duplicates.
+                </p>
+              </div>
+            )}
+
+            <RowFilterEditor mappings={mappings} value={rowFilter} onChange={setRowFilter} />
+
+            {/* Dry run - validate rows without writing (not for files, which have no definition) */}
+            {!toFile && (
+              <div className="flex items-start justify-between gap-4 max-w-md mt-4">
+                <Label htmlFor="dryRun" className="flex flex-col items-start gap-1 pt-0.5">
+                  <span className="text-sm font-medium leading-none">Dry Run</span>
+                  <span className="text-xs font-normal text-muted-foreground">
+                    Check every row against the destination definition without writing anything.
+                  </span>
+                </Label>
+                <Switch
+                  id="dryRun"
+                  checked={dryRun}
+                  onCheckedChange={(checked) => setQueryState({ dryRun: checked })}
+                />
+              </div>
+            )}
+
             {/* Error display */}
             {createJobMutation.isError && (
               <div className="mt-4 p-3 rounded-lg bg-destructive/10 border border-destructive/20 text-destructive text-sm">
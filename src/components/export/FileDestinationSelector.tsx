@@ -0,0 +1,119 @@
+import { FileJson, FileSpreadsheet, FileText, type LucideIcon } from "lucide-react";
+import type { DestinationFileFormat } from "@/api/client";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+// ---------------------
+// Types
+// ---------------------
+
+type FileDestinationSelectorProps = {
+  format: DestinationFileFormat | null;
+  fileName: string | null; // Without the extension
+  onFormatChange: (format: DestinationFileFormat) => void;
+  onFileNameChange: (fileName: string) => void;
+};
+
+// ---------------------
+// Constants
+// ---------------------
+
+const FORMAT_OPTIONS: {
+  value: DestinationFileFormat;
+  label: string;
+  icon: LucideIcon;
+  description: string;
+}[] = [
+  {
+    value: "csv",
+    label: "CSV",
+    icon: FileSpreadsheet,
+    description: "Comma separated values with a header row. Opens in Excel.",
+  },
+  {
+    value: "ndjson",
+    label: "NDJSON",
+    icon: FileJson,
+    description: "One JSON object per line. Keeps numbers and booleans typed.",
+  },
+  {
+    value: "parquet",
+    label: "Parquet",
+    icon: FileText,
+    description: "Typed columnar file for analytics tools and data warehouses.",
+  },
+];
+
+// ---------------------
+// Component
+// ---------------------
+
+export function FileDestinationSelector({
+  format,
+  fileName,
+  onFormatChange,
+  onFileNameChange,
+}: FileDestinationSelectorProps) {
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-2">
+        <h2 className="text-lg font-semibold">Select Output File</h2>
+        <p className="text-sm text-muted-foreground">
+          Each row is written with a column for every mapped property. The file is saved in the
+          exports folder next to the app's database, in a folder for the job.
+        </p>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-3">
+        {FORMAT_OPTIONS.map((option) => {
+          const Icon = option.icon;
+          const isSelected = format === option.value;
+          return (
+            <Card
+              key={option.value}
+              className={`cursor-pointer transition-all hover:border-primary/50 ${
+                isSelected ? "border-primary ring-1 ring-primary bg-primary/5" : ""
+              }`}
+              onClick={() => onFormatChange(option.value)}
+            >
+              <CardHeader className="p-4">
+                <div className="flex items-start gap-3">
+                  <div
+                    className={`flex size-9 shrink-0 items-center justify-center rounded-lg ${
+                      isSelected
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-muted text-muted-foreground"
+                    }`}
+                  >
+                    <Icon className="size-4" />
+                  </div>
+                  <div className="flex flex-col gap-0.5">
+                    <CardTitle className="text-sm">{option.label}</CardTitle>
+                    <CardDescription className="text-xs">{option.description}</CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+            </Card>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-col gap-2 max-w-md">
+        <Label htmlFor="outputFileName" className="text-sm font-medium">
+          File Name
+        </Label>
+        <div className="flex items-center gap-2">
+          <Input
+            id="outputFileName"
+            placeholder="members"
+            value={fileName ?? ""}
+            onChange={(e) => onFileNameChange(e.target.value)}
+            className="bg-background"
+          />
+          {format && <span className="text-sm font-mono text-muted-foreground">.{format}</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useRef } from "react";
+import { AlertCircle, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import type { SourceFilePreview, SourceFileUpload } from "@/api/client";
+import { usePreviewSourceFile } from "@/lib/mutations";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+// ---------------------
+// Types
+// ---------------------
+
+// An uploaded file with the columns and first rows read from it
+export type UploadedSourceFile = SourceFileUpload & { preview: SourceFilePreview };
+
+type FileSourceSelectorProps = {
+  file: UploadedSourceFile | null;
+  onSelect: (file: UploadedSourceFile) => void;
+  title?: string;
+  description?: string;
+};
+
+// ---------------------
+// Helpers
+// ---------------------
+
+// Base64 content of a file (encoded in chunks so large files don't overflow the call stack)
+const readAsBase64 = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const formatCell = (value: string | number | boolean | null | undefined): string =>
+  value === null || value === undefined ? "" : String(value);
+
+// ---------------------
+// Component
+// ---------------------
+
+export function FileSourceSelector({
+  file,
+  onSelect,
+  title = "Select Source File",
+  description = "Upload a CSV or Excel (.xlsx) file. The first row names the columns.",
+}: FileSourceSelectorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const previewMutation = usePreviewSourceFile();
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    const upload = { name: selected.name, content: await readAsBase64(selected) };
+    previewMutation.mutate(upload, {
+      onSuccess: (preview) => onSelect({ ...upload, preview }),
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-2">
+        <h2 className="text-lg font-semibold">{title}</h2>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </div>
+
+      <div className="flex items-center gap-3 rounded-xl border bg-muted/30 p-4">
+        <div className="flex size-8 items-center justify-center rounded-lg bg-primary/10 text-primary">
+          <FileSpreadsheet className="size-4" />
+        </div>
+        <div className="flex flex-col gap-0.5">
+          <span className="text-sm font-medium">{file ? file.name : "No file selected"}</span>
+          {file && (
+            <span className="text-xs text-muted-foreground">
+              {file.preview.rowCount.toLocaleString()} rows, {file.preview.columns.length} columns
+            </span>
+          )}
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={previewMutation.isPending}
+        >
+          {previewMutation.isPending ? (
+            <Loader2 className="mr-2 size-4 animate-spin" />
+          ) : (
+            <Upload className="mr-2 size-4" />
+          )}
+          {file ? "Choose Another File" : "Choose File"}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          className="hidden"
+          onChange={(e) => {
+            void handleFile(e.target.files?.[0]);
+            // Allow choosing the same file again after editing it
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {previewMutation.isError && (
+        <div className="flex items-start gap-2 rounded-lg border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertCircle className="mt-0.5 size-4 shrink-0" />
+          {previewMutation.error instanceof Error
+            ? previewMutation.error.message
+            : "The file could not be read."}
+        </div>
+      )}
+
+      {file && (
+        <div className="flex flex-col gap-2">
+          <span className="text-sm font-medium">Preview</span>
+          <div className="overflow-x-auto rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {file.preview.columns.map((column) => (
+                    <TableHead key={column.name}>
+                      <div className="flex flex-col gap-0.5 py-1">
+                        <span>{column.name}</span>
+                        <span className="text-[10px] font-mono uppercase text-muted-foreground/70">
+                          {column.type}
+                        </span>
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {file.preview.sampleRows.map((row, index) => (
+                  <TableRow key={index}>
+                    {file.preview.columns.map((column) => (
+                      <TableCell key={column.name} className="max-w-[240px] truncate">
+                        {formatCell(row[column.name])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {file.preview.rowCount > file.preview.sampleRows.length && (
+            <p className="text-xs text-muted-foreground">
+              Showing the first {file.preview.sampleRows.length} of{" "}
+              {file.preview.rowCount.toLocaleString()} rows.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
+import { Table2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { cn } from "@/lib/utils";
+import { queries } from "@/lib/queries";
+import { LOOKUP_FALLBACKS } from "@/lib/lookup-tables";
+
+type LookupTableButtonProps = {
+  lookupTableId: string | undefined;
+  onLookupTableChange: (lookupTableId: string | undefined) => void;
+};
+
+const NO_LOOKUP_TABLE = "__none__";
+
+/**
+ * Button that picks the lookup table a mapping's value is translated through.
+ * Highlighted when a table is selected, and marked as an error when the table was deleted.
+ */
+export function LookupTableButton({ lookupTableId, onLookupTableChange }: LookupTableButtonProps) {
+  const { data: lookupTables } = useQuery(queries.lookupTables.all());
+  const selected = lookupTables?.find((table) => table.id === lookupTableId);
+  const isMissing = lookupTableId !== undefined && lookupTables !== undefined && !selected;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon-sm"
+          title={
+            selected
+              ? `Lookup table: ${selected.name}`
+              : isMissing
+                ? "Lookup table no longer exists"
+                : "Translate values through a lookup table"
+          }
+          className={cn(
+            "shrink-0",
+            selected && "border-primary/30 bg-primary/[0.03] text-primary",
+            isMissing && "border-destructive/40 bg-destructive/[0.05] text-destructive",
+          )}
+        >
+          <Table2 className="size-3.5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel className="text-xs">Lookup Table</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={lookupTableId ?? NO_LOOKUP_TABLE}
+          onValueChange={(id) => onLookupTableChange(id === NO_LOOKUP_TABLE ? undefined : id)}
+        >
+          <DropdownMenuRadioItem value={NO_LOOKUP_TABLE} className="text-xs">
+            None
+          </DropdownMenuRadioItem>
+          {lookupTables?.map((table) => (
+            <DropdownMenuRadioItem key={table.id} value={table.id} className="text-xs">
+              <span className="truncate">{table.name}</span>
+              <span className="ml-auto text-[10px] text-muted-foreground">
+                {LOOKUP_FALLBACKS[table.fallback].label}
+              </span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild className="text-xs">
+          <Link to="/lookup-tables">Manage lookup tables...</Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
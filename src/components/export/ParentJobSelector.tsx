@@ -0,0 +1,143 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queries } from "@/lib/queries";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ParentLink } from "@/api/client";
+import { isComputedMapping } from "@/lib/mapping-values";
+import type { PropertyMapping } from "./PropertyMapper";
+
+type ParentJobSelectorProps = {
+  destinationEnvironmentId: string;
+  mappings: PropertyMapping[];
+  value: ParentLink | null;
+  onChange: (value: ParentLink | null) => void;
+};
+
+const NO_PARENT = "__none__";
+
+// Source properties a job mapped (the columns available as parent keys)
+const parseSourceProperties = (mappingsJson: string): string[] => {
+  try {
+    const mappings = JSON.parse(mappingsJson) as PropertyMapping[];
+    return mappings.filter((m) => !isComputedMapping(m)).map((m) => m.sourceProperty);
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Optional parent job link for a child job (e.g. panel rows that belong to migrated Parties).
+ * The selected source column is matched against the parent job's key column, and the parent's
+ * new destination identity is swapped in before the row is sent.
+ */
+export function ParentJobSelector({
+  destinationEnvironmentId,
+  mappings,
+  value,
+  onChange,
+}: ParentJobSelectorProps) {
+  const { data: jobs } = useQuery(queries.jobs.all());
+
+  // Only jobs that created business objects in the same destination can be parents
+  const candidateJobs = useMemo(
+    () =>
+      (jobs ?? []).filter(
+        (job) =>
+          job.destEnvironmentId === destinationEnvironmentId &&
+          job.destType === "bo_entity" &&
+          !job.dryRun,
+      ),
+    [jobs, destinationEnvironmentId],
+  );
+
+  const parentJob = candidateJobs.find((job) => job.id === value?.parentJobId);
+  const parentKeyOptions = useMemo(
+    () => (parentJob ? parseSourceProperties(parentJob.mappings) : []),
+    [parentJob],
+  );
+  const sourceOptions = useMemo(
+    () => mappings.filter((m) => !isComputedMapping(m)).map((m) => m.sourceProperty),
+    [mappings],
+  );
+
+  const handleParentChange = (parentJobId: string) => {
+    if (parentJobId === NO_PARENT) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      parentJobId,
+      sourceProperty: value?.sourceProperty ?? "",
+      parentKeyProperty: "",
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 max-w-md mt-4">
+      <Label htmlFor="parentJob" className="text-sm font-medium">
+        Parent Job
+      </Label>
+      <Select value={value?.parentJobId ?? NO_PARENT} onValueChange={handleParentChange}>
+        <SelectTrigger id="parentJob" className="bg-background">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_PARENT}>None (standalone rows)</SelectItem>
+          {candidateJobs.map((job) => (
+            <SelectItem key={job.id} value={job.id}>
+              {job.name} ({job.destEntityType})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value && (
+        <div className="grid grid-cols-2 gap-2">
+          <Select
+            value={value.sourceProperty || undefined}
+            onValueChange={(sourceProperty) => onChange({ ...value, sourceProperty })}
+          >
+            <SelectTrigger className="bg-background text-xs">
+              <SelectValue placeholder="Reference column..." />
+            </SelectTrigger>
+            <SelectContent>
+              {sourceOptions.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={value.parentKeyProperty || undefined}
+            onValueChange={(parentKeyProperty) => onChange({ ...value, parentKeyProperty })}
+          >
+            <SelectTrigger className="bg-background text-xs">
+              <SelectValue placeholder="Parent key column..." />
+            </SelectTrigger>
+            <SelectContent>
+              {parentKeyOptions.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        {value
+          ? `Rows are attached to the ${parentJob?.destEntityType ?? "parent"} record created for the matching parent row. Rows whose parent failed are held back.`
+          : "Link to a previous job to remap references to the records it created."}
+      </p>
+    </div>
+  );
+}
@@ -25,7 +25,14 @@ import {
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import type { BoProperty } from "@/api/client";
 import type { DestinationDefinition } from "@/api/destinations";
-import { destinationPropertyToBoProperty } from "@/api/destinations";
+import { checkIsPrimaryRequired, destinationPropertyToBoProperty } from "@/api/destinations";
+import type { TransformStep } from "@/lib/transforms";
+import { availableCoercion, type TypeCoercion } from "@/lib/coercion";
+import { isComputedMapping, type MappingValue } from "@/lib/mapping-values";
+import { ComputedValuesEditor } from "./ComputedValuesEditor";
+import { TransformStepsButton } from "./TransformStepsEditor";
+import { LookupTableButton } from "./LookupTableButton";
+import { TypeCoercionButton } from "./TypeCoercionButton";
 
 // ---------------------
 // Types
@@ -34,6 +41,14 @@ import { destinationPropertyToBoProperty } from "@/api/destinations";
 export type PropertyMapping = {
   sourceProperty: string;
   destinationProperty: string | null;
+  // Value transforms applied in order before the value is written
+  transforms?: readonly TransformStep[];
+  // Computed value (constant, template or generated); sourceProperty is empty for these mappings
+  value?: MappingValue;
+  // Lookup table the value is translated through before transforms
+  lookupTableId?: string;
+  // Conversion to the destination type, applied after transforms
+  coercion?: TypeCoercion;
 };
 
 type MappingWarning = {
@@ -41,6 +56,9 @@ type MappingWarning = {
   message: string;
 };
 
+// Stable empty list so memoized rows without transforms don't re-render
+export const NO_TRANSFORMS: readonly TransformStep[] = [];
+
 // Properties that cannot be mapped to as they are auto-created on insert
 export const RESTRICTED_DESTINATION_PROPERTIES: Record<string, string> = {
   Ordinal: "Auto-incrementing row ID for multi-instance data sources",
@@ -59,6 +77,8 @@ type PropertyMapperProps = {
   onValidationChange?: (isValid: boolean, errors: string[]) => void;
   /** Optional pre-loaded destination definition. When provided, skips API fetch for destination. */
   destinationDefinition?: DestinationDefinition;
+  /** Writing to a file: the destination has a column for each source property */
+  writeToFile?: boolean;
 };
 
 // ---------------------
@@ -79,6 +99,7 @@ export function getMaxLength(prop: BoProperty): number | null {
 export function checkCompatibility(
   source: BoProperty,
   dest: BoProperty,
+  coercion?: TypeCoercion,
 ): { compatible: boolean; warnings: MappingWarning[] } {
   const warnings: MappingWarning[] = [];
 
@@ -87,9 +108,11 @@ export function checkCompatibility(
   const destType = getPropertyTypeName(dest);
 
   if (sourceType !== destType) {
+    // A conversion to the destination type makes the mapping valid
+    if (coercion?.to === destType) return { compatible: true, warnings };
     return {
       compatible: false,
-      warnings: [{ type: "typeMismatch", message: `Type mismatch: ${sourceType} → ${destType}` }],
+      warnings: [{ type: "typeMismatch", message: typeMismatchMessage(sourceType, destType) }],
     };
   }
 
@@ -109,6 +132,15 @@ export function checkCompatibility(
   return { compatible: true, warnings };
 }
 
+/**
+ * Warning for a mapping between different types, pointing at the conversion when one is offered
+ */
+export function typeMismatchMessage(sourceType: string, destType: string): string {
+  return availableCoercion(sourceType, destType)
+    ? `Type mismatch: ${sourceType} → ${destType}. Add a conversion to map these values.`
+    : `Type mismatch: ${sourceType} → ${destType}`;
+}
+
 export function findAutoMappings(
   sourceProps: readonly BoProperty[],
   destProps: readonly BoProperty[],
@@ -131,41 +163,8 @@ export function findAutoMappings(
   });
 }
 
-type IsPrimaryValidationResult = {
-  required: boolean;
-  isMapped: boolean;
-  error: string | null;
-};
-
-/**
- * Check if IsPrimary mapping is required for a Party destination.
- * Exported for testing.
- */
-export function checkIsPrimaryRequired(
-  destPrimaryParentEntityTypeName: string | null | undefined,
-  destProperties: readonly BoProperty[],
-  mappings: PropertyMapping[],
-): IsPrimaryValidationResult {
-  // Only required when destination is a Party-linked entity
-  if (destPrimaryParentEntityTypeName !== "Party") {
-    return { required: false, isMapped: true, error: null };
-  }
-
-  // Check if IsPrimary exists in destination properties
-  const isPrimaryExists = destProperties.some((p) => p.Name === "IsPrimary");
-  if (!isPrimaryExists) {
-    return { required: false, isMapped: true, error: null };
-  }
-
-  // Check if IsPrimary is mapped
-  const isPrimaryMapped = mappings.some((m) => m.destinationProperty === "IsPrimary");
-
-  return {
-    required: true,
-    isMapped: isPrimaryMapped,
-    error: isPrimaryMapped ? null : "IsPrimary must be mapped for Party destinations",
-  };
-}
+// Shared with the migration runner, which applies the same rule during dry runs
+export { checkIsPrimaryRequired };
 
 // ---------------------
 // Components
@@ -180,6 +179,7 @@ export function PropertyMapper({
   onMappingsChange,
   onValidationChange,
   destinationDefinition,
+  writeToFile = false,
 }: PropertyMapperProps) {
   const [hasInitialized, setHasInitialized] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
@@ -189,10 +189,10 @@ export function PropertyMapper({
     queries.dataSources.byEnvironment(sourceEnvironmentId),
   );
 
-  // Skip API fetch when definition is provided (e.g., custom endpoints)
+  // Skip API fetch when definition is provided (e.g., custom endpoints) or writing to a file
   const { data: destData, isLoading: destLoading } = useQuery({
     ...queries.dataSources.byEnvironment(destinationEnvironmentId),
-    enabled: !destinationDefinition,
+    enabled: !destinationDefinition && !writeToFile,
   });
 
   const sourceEntity = useMemo(() => {
@@ -201,6 +201,17 @@ export function PropertyMapper({
 
   // Use provided definition or find from API response
   const destEntity = useMemo(() => {
+    if (writeToFile) {
+      return {
+        EntityTypeName: destinationEntityType,
+        PrimaryParentEntityTypeName: undefined,
+        Properties: {
+          $values: (sourceEntity?.Properties?.$values ?? []).map((p) =>
+            destinationPropertyToBoProperty({ name: p.Name, propertyTypeName: p.PropertyTypeName }),
+          ),
+        },
+      };
+    }
     if (destinationDefinition) {
       // Convert DestinationDefinition to BoEntityDefinition-compatible shape
       return {
@@ -212,7 +223,7 @@ export function PropertyMapper({
       };
     }
     return destData?.Items.$values.find((e) => e.EntityTypeName === destinationEntityType);
-  }, [destData, destinationEntityType, destinationDefinition]);
+  }, [destData, destinationEntityType, destinationDefinition, writeToFile, sourceEntity]);
 
   const sourceProperties = useMemo(() => {
     return sourceEntity?.Properties?.$values ?? [];
@@ -224,7 +235,7 @@ export function PropertyMapper({
 
   // Lookup Maps for O(1) access instead of O(n) .find() calls
   const mappingBySource = useMemo(
-    () => new Map(mappings.map((m) => [m.sourceProperty, m])),
+    () => new Map(mappings.filter((m) => !isComputedMapping(m)).map((m) => [m.sourceProperty, m])),
     [mappings],
   );
 
@@ -296,23 +307,66 @@ export function PropertyMapper({
 
   const handleMappingChange = useCallback(
     (sourceProperty: string, destinationProperty: string | null) => {
-      const newMappings = mappings.map((m) =>
-        m.sourceProperty === sourceProperty ? { ...m, destinationProperty } : m,
-      );
+      const newMappings = mappings.map((m) => {
+        if (m.sourceProperty !== sourceProperty) return m;
+        // Conversions target the old destination's type, so they go with it
+        const { coercion: _, ...rest } = m;
+        return { ...rest, destinationProperty };
+      });
+      onMappingsChange(newMappings);
+    },
+    [mappings, onMappingsChange],
+  );
+
+  const handleTransformsChange = useCallback(
+    (sourceProperty: string, transforms: TransformStep[]) => {
+      const newMappings = mappings.map((m) => {
+        if (m.sourceProperty !== sourceProperty) return m;
+        const { transforms: _, ...rest } = m;
+        return transforms.length > 0 ? { ...rest, transforms } : rest;
+      });
+      onMappingsChange(newMappings);
+    },
+    [mappings, onMappingsChange],
+  );
+
+  const handleLookupTableChange = useCallback(
+    (sourceProperty: string, lookupTableId: string | undefined) => {
+      const newMappings = mappings.map((m) => {
+        if (m.sourceProperty !== sourceProperty) return m;
+        const { lookupTableId: _, ...rest } = m;
+        return lookupTableId !== undefined ? { ...rest, lookupTableId } : rest;
+      });
+      onMappingsChange(newMappings);
+    },
+    [mappings, onMappingsChange],
+  );
+
+  const handleCoercionChange = useCallback(
+    (sourceProperty: string, coercion: TypeCoercion | undefined) => {
+      const newMappings = mappings.map((m) => {
+        if (m.sourceProperty !== sourceProperty) return m;
+        const { coercion: _, ...rest } = m;
+        return coercion ? { ...rest, coercion } : rest;
+      });
       onMappingsChange(newMappings);
     },
     [mappings, onMappingsChange],
   );
 
   const handleClearAll = () => {
-    const cleared = mappings.map((m) => ({ ...m, destinationProperty: null }));
+    const cleared = mappings
+      .filter((m) => !isComputedMapping(m))
+      .map((m) => ({ ...m, destinationProperty: null }));
     onMappingsChange(cleared);
   };
 
   const mappedCount = useMemo(() => {
-    return mappings.filter((m) => m.destinationProperty !== null).length;
+    return mappings.filter((m) => !isComputedMapping(m) && m.destinationProperty !== null).length;
   }, [mappings]);
 
+  const sourceColumns = useMemo(() => sourceProperties.map((p) => p.Name), [sourceProperties]);
+
   const filteredProperties = useMemo(() => {
     const search = deferredSearch.toLowerCase();
     return sourceProperties.filter((prop) => {
@@ -329,11 +383,11 @@ export function PropertyMapper({
 
   const warningCount = useMemo(() => {
     return mappings.reduce((count, mapping) => {
-      if (!mapping.destinationProperty) return count;
+      if (!mapping.destinationProperty || isComputedMapping(mapping)) return count;
       const sourceProp = sourceByName.get(mapping.sourceProperty);
       const destProp = destByName.get(mapping.destinationProperty);
       if (!sourceProp || !destProp) return count;
-      const { warnings } = checkCompatibility(sourceProp, destProp);
+      const { warnings } = checkCompatibility(sourceProp, destProp, mapping.coercion);
       return count + warnings.length;
     }, 0);
   }, [mappings, sourceByName, destByName]);
@@ -494,7 +548,9 @@ export function PropertyMapper({
                 ? destByName.get(mapping.destinationProperty)
                 : undefined;
               const compatibility =
-                destProp && sourceProp ? checkCompatibility(sourceProp, destProp) : null;
+                destProp && sourceProp
+                  ? checkCompatibility(sourceProp, destProp, mapping?.coercion)
+                  : null;
 
               return (
                 <MappingRow
@@ -503,6 +559,13 @@ export function PropertyMapper({
                   sortedDestinations={sortedDestinations}
                   selectedDestination={mapping?.destinationProperty ?? null}
                   onDestinationChange={(dest) => handleMappingChange(sourceProp.Name, dest)}
+                  transforms={mapping?.transforms ?? NO_TRANSFORMS}
+                  onTransformsChange={(steps) => handleTransformsChange(sourceProp.Name, steps)}
+                  lookupTableId={mapping?.lookupTableId}
+                  onLookupTableChange={(id) => handleLookupTableChange(sourceProp.Name, id)}
+                  coercion={mapping?.coercion}
+                  onCoercionChange={(coercion) => handleCoercionChange(sourceProp.Name, coercion)}
+                  destinationMaxLength={destProp ? getMaxLength(destProp) : null}
                   compatibility={compatibility}
                   usedDestinations={usedDestinations}
                 />
@@ -521,6 +584,15 @@ export function PropertyMapper({
           )}
         </div>
       </div>
+
+      <ComputedValuesEditor
+        mappings={mappings}
+        onMappingsChange={onMappingsChange}
+        sortedDestinations={sortedDestinations}
+        usedDestinations={usedDestinations}
+        restrictedDestinations={RESTRICTED_DESTINATION_PROPERTIES}
+        sourceColumns={sourceColumns}
+      />
     </div>
   );
 }
@@ -534,6 +606,13 @@ type MappingRowProps = {
   sortedDestinations: readonly BoProperty[];
   selectedDestination: string | null;
   onDestinationChange: (destination: string | null) => void;
+  transforms: readonly TransformStep[];
+  onTransformsChange: (transforms: TransformStep[]) => void;
+  lookupTableId: string | undefined;
+  onLookupTableChange: (lookupTableId: string | undefined) => void;
+  coercion: TypeCoercion | undefined;
+  onCoercionChange: (coercion: TypeCoercion | undefined) => void;
+  destinationMaxLength: number | null;
   compatibility: { compatible: boolean; warnings: MappingWarning[] } | null;
   usedDestinations: Set<string>;
 };
@@ -543,12 +622,22 @@ const MappingRow = memo(function MappingRow({
   sortedDestinations,
   selectedDestination,
   onDestinationChange,
+  transforms,
+  onTransformsChange,
+  lookupTableId,
+  onLookupTableChange,
+  coercion,
+  onCoercionChange,
+  destinationMaxLength,
   compatibility,
   usedDestinations,
 }: MappingRowProps) {
   const sourceType = getPropertyTypeName(sourceProperty);
   const sourceMaxLength = getMaxLength(sourceProperty);
   const isMapped = selectedDestination !== null;
+  const selectedDestProp = sortedDestinations.find((d) => d.Name === selectedDestination);
+  const selectedDestType = selectedDestProp ? getPropertyTypeName(selectedDestProp) : null;
+  const offeredCoercion = selectedDestType ? availableCoercion(sourceType, selectedDestType) : null;
 
   return (
     <div
@@ -606,7 +695,7 @@ const MappingRow = memo(function MappingRow({
       </div>
 
       {/* Destination select */}
-      <div className="min-w-0">
+      <div className="flex min-w-0 items-center gap-2">
         <Select
           value={selectedDestination ?? "__unmapped__"}
           onValueChange={(value) => {
@@ -696,6 +785,31 @@ const MappingRow = memo(function MappingRow({
             </SelectContent>
           </TooltipProvider>
         </Select>
+        {selectedDestination !== null && selectedDestType !== null && offeredCoercion && (
+          <TypeCoercionButton
+            sourceType={sourceType}
+            destinationType={selectedDestType}
+            destinationProperty={selectedDestination}
+            coercion={coercion}
+            offered={offeredCoercion}
+            onCoercionChange={onCoercionChange}
+          />
+        )}
+        {selectedDestination !== null && (
+          <LookupTableButton
+            lookupTableId={lookupTableId}
+            onLookupTableChange={onLookupTableChange}
+          />
+        )}
+        {selectedDestination !== null && (
+          <TransformStepsButton
+            sourceProperty={sourceProperty.Name}
+            destinationProperty={selectedDestination}
+            steps={transforms}
+            onStepsChange={onTransformsChange}
+            destinationMaxLength={destinationMaxLength}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,55 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { CriteriaData, QueryParameterValue } from "@/api/client";
+import { queryParameterLabel } from "@/lib/query-parameters";
+
+type QueryParametersEditorProps = {
+  /** The query's prompted parameters, in definition order */
+  parameters: readonly CriteriaData[];
+  values: QueryParameterValue[];
+  onChange: (values: QueryParameterValue[]) => void;
+};
+
+/**
+ * Inputs for an IQA query's prompts. The values are stored on the job and sent with every page
+ * the job fetches; blank values leave the prompt unfilled.
+ */
+export function QueryParametersEditor({
+  parameters,
+  values,
+  onChange,
+}: QueryParametersEditorProps) {
+  const updateValue = (index: number, value: string) =>
+    onChange(values.map((v, i) => (i === index ? { ...v, value } : v)));
+
+  return (
+    <div className="flex flex-col gap-2 max-w-md mt-4">
+      <Label className="text-sm font-medium">Query Parameters</Label>
+      {parameters.map((criteria, index) => (
+        <div
+          key={`${criteria.PropertyName}-${index}`}
+          className="grid grid-cols-[1fr_1.5fr] items-center gap-2"
+        >
+          <Label
+            htmlFor={`queryParameter-${index}`}
+            className="text-xs font-normal text-muted-foreground truncate"
+            title={criteria.PropertyName}
+          >
+            {queryParameterLabel(criteria)}
+          </Label>
+          <Input
+            id={`queryParameter-${index}`}
+            value={values[index]?.value ?? ""}
+            onChange={(e) => updateValue(index, e.target.value)}
+            placeholder={criteria.AllowMultiple ? "Values, separated by commas" : "Value"}
+            className="h-8 bg-background text-xs"
+          />
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        Filled in for the query's prompts each time the job fetches source rows. Leave a value blank
+        to leave its prompt unfilled.
+      </p>
+    </div>
+  );
+}
@@ -23,9 +23,22 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import type { BoProperty, ImisVersion, QueryDefinition } from "@/api/client";
-import { type PropertyMapping, checkIsPrimaryRequired } from "./PropertyMapper";
-import type { DestinationDefinition } from "@/api/destinations";
+import type { BoProperty, ImisVersion, QueryDefinition, SourceFileColumn } from "@/api/client";
+import {
+  type PropertyMapping,
+  NO_TRANSFORMS,
+  checkIsPrimaryRequired,
+  getMaxLength,
+  typeMismatchMessage,
+} from "./PropertyMapper";
+import { ComputedValuesEditor } from "./ComputedValuesEditor";
+import { TransformStepsButton } from "./TransformStepsEditor";
+import { LookupTableButton } from "./LookupTableButton";
+import { TypeCoercionButton } from "./TypeCoercionButton";
+import type { TransformStep } from "@/lib/transforms";
+import { availableCoercion, type TypeCoercion } from "@/lib/coercion";
+import { isComputedMapping } from "@/lib/mapping-values";
+import type { DestinationDefinition, DestinationPropertyTypeName } from "@/api/destinations";
 import { destinationPropertyToBoProperty } from "@/api/destinations";
 
 // ---------------------
@@ -55,7 +68,10 @@ const RESTRICTED_DESTINATION_PROPERTIES: Record<string, string> = {
 };
 
 type QueryPropertyMapperProps = {
-  queryDefinition: QueryDefinition;
+  /** Source query (omitted when mapping the columns of an uploaded file) */
+  queryDefinition?: QueryDefinition;
+  /** Uploaded source file whose columns are mapped instead of query properties */
+  sourceFile?: { name: string; columns: readonly SourceFileColumn[] };
   destinationEnvironmentId: string;
   destinationEntityType: string;
   mappings: PropertyMapping[];
@@ -68,6 +84,8 @@ type QueryPropertyMapperProps = {
   samplePropertyKeys?: string[];
   /** For 2017: whether the query has any rows */
   sampleHasRows?: boolean;
+  /** Writing to a file: the destination has a column for each source property */
+  writeToFile?: boolean;
 };
 
 // ---------------------
@@ -75,7 +93,7 @@ type QueryPropertyMapperProps = {
 // ---------------------
 
 // Map query data types to BO property types for compatibility checking
-const queryTypeToBoType: Record<string, string> = {
+const queryTypeToBoType: Record<string, DestinationPropertyTypeName> = {
   String: "String",
   Boolean: "Boolean",
   DateTime: "Date",
@@ -89,7 +107,16 @@ const queryTypeToBoType: Record<string, string> = {
   "Byte[]": "Binary",
 };
 
-function getBoCompatibleType(queryType: string): string {
+// Query data type names for the column types inferred from an uploaded file
+const fileColumnTypeToQueryType: Record<SourceFileColumn["type"], string> = {
+  String: "String",
+  Integer: "Int32",
+  Decimal: "Decimal",
+  Boolean: "Boolean",
+  Date: "DateTime",
+};
+
+function getBoCompatibleType(queryType: string): DestinationPropertyTypeName {
   return queryTypeToBoType[queryType] ?? "String";
 }
 
@@ -100,6 +127,7 @@ function getBoPropertyTypeName(prop: BoProperty): string {
 function checkCompatibility(
   sourceType: string,
   dest: BoProperty,
+  coercion?: TypeCoercion,
 ): { compatible: boolean; warnings: MappingWarning[] } {
   // Unknown type (from 2017 sample keys) is compatible with everything
   if (sourceType === "Unknown") {
@@ -111,9 +139,13 @@ function checkCompatibility(
   const destType = getBoPropertyTypeName(dest);
 
   if (boCompatibleType !== destType) {
+    // A conversion to the destination type makes the mapping valid
+    if (coercion?.to === destType) return { compatible: true, warnings };
     return {
       compatible: false,
-      warnings: [{ type: "typeMismatch", message: `Type mismatch: ${sourceType} → ${destType}` }],
+      warnings: [
+        { type: "typeMismatch", message: typeMismatchMessage(boCompatibleType, destType) },
+      ],
     };
   }
 
@@ -175,6 +207,7 @@ function findAutoMappings(
 
 export function QueryPropertyMapper({
   queryDefinition,
+  sourceFile,
   destinationEnvironmentId,
   destinationEntityType,
   mappings,
@@ -184,6 +217,7 @@ export function QueryPropertyMapper({
   destinationDefinition,
   samplePropertyKeys,
   sampleHasRows,
+  writeToFile = false,
 }: QueryPropertyMapperProps) {
   const [hasInitialized, setHasInitialized] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
@@ -192,30 +226,25 @@ export function QueryPropertyMapper({
   const is2017 = sourceEnvironmentVersion === "2017";
   const useSampleKeys = is2017 && samplePropertyKeys !== undefined;
 
-  // Skip API fetch when definition is provided (e.g., custom endpoints)
+  // Skip API fetch when definition is provided (e.g., custom endpoints) or writing to a file
   const { data: destData, isLoading: destLoading } = useQuery({
     ...queries.dataSources.byEnvironment(destinationEnvironmentId),
-    enabled: !destinationDefinition,
+    enabled: !destinationDefinition && !writeToFile,
   });
 
-  // Use provided definition or find from API response
-  const destEntity = useMemo(() => {
-    if (destinationDefinition) {
-      // Convert DestinationDefinition to BoEntityDefinition-compatible shape
-      return {
-        EntityTypeName: destinationDefinition.entityTypeName,
-        PrimaryParentEntityTypeName: destinationDefinition.primaryParentEntityTypeName,
-        Properties: {
-          $values: destinationDefinition.properties.map(destinationPropertyToBoProperty),
-        },
-      };
-    }
-    return destData?.Items.$values.find((e) => e.EntityTypeName === destinationEntityType);
-  }, [destData, destinationEntityType, destinationDefinition]);
-
   // For 2017 with sample keys: create synthetic properties from the actual response keys
   // For EMS or when sample keys not available: use query definition properties
+  // For files: one property per column, keyed by the column name
   const queryProperties = useMemo((): readonly SourceProperty[] => {
+    if (sourceFile) {
+      return sourceFile.columns.map((column) => ({
+        Name: column.name,
+        PropertyName: column.name,
+        Alias: "",
+        Caption: column.name,
+        DataTypeName: fileColumnTypeToQueryType[column.type],
+      }));
+    }
     if (useSampleKeys && samplePropertyKeys) {
       // Build synthetic properties from sample keys
       return samplePropertyKeys.map((key) => ({
@@ -227,14 +256,52 @@ export function QueryPropertyMapper({
       }));
     }
     // Map QueryPropertyData to SourceProperty (handles optional fields from 2017)
-    return (queryDefinition.Properties.$values ?? []).map((p) => ({
+    return (queryDefinition?.Properties.$values ?? []).map((p) => ({
       Name: p.Name,
       PropertyName: p.PropertyName ?? p.Name,
       Alias: p.Alias ?? "",
       Caption: p.Caption ?? p.Name,
       DataTypeName: p.DataTypeName,
     }));
-  }, [queryDefinition, useSampleKeys, samplePropertyKeys]);
+  }, [queryDefinition, sourceFile, useSampleKeys, samplePropertyKeys]);
+
+  // Use provided definition or find from API response
+  // (a file has a column for each source property, typed like the BO property it maps to)
+  const destEntity = useMemo(() => {
+    if (writeToFile) {
+      return {
+        EntityTypeName: destinationEntityType,
+        PrimaryParentEntityTypeName: undefined,
+        Properties: {
+          $values: queryProperties.map((p) =>
+            destinationPropertyToBoProperty({
+              name: getSourcePropertyKey(p, is2017, useSampleKeys),
+              propertyTypeName: getBoCompatibleType(p.DataTypeName),
+            }),
+          ),
+        },
+      };
+    }
+    if (destinationDefinition) {
+      // Convert DestinationDefinition to BoEntityDefinition-compatible shape
+      return {
+        EntityTypeName: destinationDefinition.entityTypeName,
+        PrimaryParentEntityTypeName: destinationDefinition.primaryParentEntityTypeName,
+        Properties: {
+          $values: destinationDefinition.properties.map(destinationPropertyToBoProperty),
+        },
+      };
+    }
+    return destData?.Items.$values.find((e) => e.EntityTypeName === destinationEntityType);
+  }, [
+    destData,
+    destinationEntityType,
+    destinationDefinition,
+    writeToFile,
+    queryProperties,
+    is2017,
+    useSampleKeys,
+  ]);
 
   const destProperties = useMemo(() => {
     return destEntity?.Properties?.$values ?? [];
@@ -242,7 +309,7 @@ export function QueryPropertyMapper({
 
   // Lookup Maps for O(1) access instead of O(n) .find() calls
   const mappingBySource = useMemo(
-    () => new Map(mappings.map((m) => [m.sourceProperty, m])),
+    () => new Map(mappings.filter((m) => !isComputedMapping(m)).map((m) => [m.sourceProperty, m])),
     [mappings],
   );
 
@@ -314,23 +381,66 @@ export function QueryPropertyMapper({
 
   const handleMappingChange = useCallback(
     (sourceProperty: string, destinationProperty: string | null) => {
-      const newMappings = mappings.map((m) =>
-        m.sourceProperty === sourceProperty ? { ...m, destinationProperty } : m,
-      );
+      const newMappings = mappings.map((m) => {
+        if (m.sourceProperty !== sourceProperty) return m;
+        // Conversions target the old destination's type, so they go with it
+        const { coercion: _, ...rest } = m;
+        return { ...rest, destinationProperty };
+      });
+      onMappingsChange(newMappings);
+    },
+    [mappings, onMappingsChange],
+  );
+
+  const handleTransformsChange = useCallback(
+    (sourceProperty: string, transforms: TransformStep[]) => {
+      const newMappings = mappings.map((m) => {
+        if (m.sourceProperty !== sourceProperty) return m;
+        const { transforms: _, ...rest } = m;
+        return transforms.length > 0 ? { ...rest, transforms } : rest;
+      });
+      onMappingsChange(newMappings);
+    },
+    [mappings, onMappingsChange],
+  );
+
+  const handleLookupTableChange = useCallback(
+    (sourceProperty: string, lookupTableId: string | undefined) => {
+      const newMappings = mappings.map((m) => {
+        if (m.sourceProperty !== sourceProperty) return m;
+        const { lookupTableId: _, ...rest } = m;
+        return lookupTableId !== undefined ? { ...rest, lookupTableId } : rest;
+      });
+      onMappingsChange(newMappings);
+    },
+    [mappings, onMappingsChange],
+  );
+
+  const handleCoercionChange = useCallback(
+    (sourceProperty: string, coercion: TypeCoercion | undefined) => {
+      const newMappings = mappings.map((m) => {
+        if (m.sourceProperty !== sourceProperty) return m;
+        const { coercion: _, ...rest } = m;
+        return coercion ? { ...rest, coercion } : rest;
+      });
       onMappingsChange(newMappings);
     },
     [mappings, onMappingsChange],
   );
 
   const handleClearAll = () => {
-    const cleared = mappings.map((m) => ({ ...m, destinationProperty: null }));
+    const cleared = mappings
+      .filter((m) => !isComputedMapping(m))
+      .map((m) => ({ ...m, destinationProperty: null }));
     onMappingsChange(cleared);
   };
 
   const mappedCount = useMemo(() => {
-    return mappings.filter((m) => m.destinationProperty !== null).length;
+    return mappings.filter((m) => !isComputedMapping(m) && m.destinationProperty !== null).length;
   }, [mappings]);
 
+  const sourceColumns = useMemo(() => [...queryByName.keys()], [queryByName]);
+
   const filteredProperties = useMemo(() => {
     const search = deferredSearch.toLowerCase();
     return queryProperties.filter((prop) => {
@@ -349,15 +459,17 @@ export function QueryPropertyMapper({
 
   const warningCount = useMemo(() => {
     return mappings.reduce((count, mapping) => {
-      if (!mapping.destinationProperty) return count;
+      if (!mapping.destinationProperty || isComputedMapping(mapping)) return count;
       const queryProp = queryByName.get(mapping.sourceProperty);
       const destProp = destByName.get(mapping.destinationProperty);
       if (!queryProp || !destProp) return count;
-      const { warnings } = checkCompatibility(queryProp.DataTypeName, destProp);
+      const { warnings } = checkCompatibility(queryProp.DataTypeName, destProp, mapping.coercion);
       return count + warnings.length;
     }, 0);
   }, [mappings, queryByName, destByName]);
 
+  const title = sourceFile ? "Map File Columns" : "Map Query Properties";
+
   // For 2017: block mapping if query has no rows (can't determine property keys)
   if (
     is2017 &&
@@ -368,7 +480,7 @@ export function QueryPropertyMapper({
     return (
       <div className="flex flex-col gap-4">
         <div className="flex flex-col gap-2">
-          <h2 className="text-lg font-semibold text-foreground">Map Query Properties</h2>
+          <h2 className="text-lg font-semibold text-foreground">{title}</h2>
         </div>
         <div className="rounded-xl border border-destructive/50 bg-destructive/10 p-6">
           <div className="flex items-start gap-3">
@@ -390,7 +502,7 @@ export function QueryPropertyMapper({
     return (
       <div className="flex flex-col gap-4">
         <div className="flex flex-col gap-2">
-          <h2 className="text-lg font-semibold text-foreground">Map Query Properties</h2>
+          <h2 className="text-lg font-semibold text-foreground">{title}</h2>
           <p className="text-sm text-muted-foreground">Loading property definitions...</p>
         </div>
         <div className="flex items-center justify-center py-12">
@@ -404,7 +516,7 @@ export function QueryPropertyMapper({
     return (
       <div className="flex flex-col gap-4">
         <div className="flex flex-col gap-2">
-          <h2 className="text-lg font-semibold text-foreground">Map Query Properties</h2>
+          <h2 className="text-lg font-semibold text-foreground">{title}</h2>
           <p className="text-sm text-destructive">
             Could not load destination entity definition. Please go back and verify your selection.
           </p>
@@ -416,10 +528,10 @@ export function QueryPropertyMapper({
   return (
     <div className="flex flex-col gap-6">
       <div className="flex flex-col gap-2">
-        <h2 className="text-lg font-semibold text-foreground">Map Query Properties</h2>
+        <h2 className="text-lg font-semibold text-foreground">{title}</h2>
         <p className="text-sm text-muted-foreground">
-          Map query output properties to destination data source properties. Properties with
-          matching names and compatible types are auto-mapped.
+          Map {sourceFile ? "file columns" : "query output properties"} to destination data source
+          properties. Properties with matching names and compatible types are auto-mapped.
         </p>
       </div>
 
@@ -432,10 +544,10 @@ export function QueryPropertyMapper({
             </div>
             <div className="flex flex-col gap-0.5">
               <span className="text-sm font-medium truncate max-w-[300px]">
-                {queryDefinition.Document.Name}
+                {sourceFile?.name ?? queryDefinition?.Document.Name}
               </span>
               <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                <span>Query Results</span>
+                <span>{sourceFile ? "File Rows" : "Query Results"}</span>
                 <ArrowRight className="size-3" />
                 <span>{destinationEntityType}</span>
               </div>
@@ -545,7 +657,7 @@ export function QueryPropertyMapper({
                 ? destByName.get(mapping.destinationProperty)
                 : undefined;
               const compatibility = destProp
-                ? checkCompatibility(queryProp.DataTypeName, destProp)
+                ? checkCompatibility(queryProp.DataTypeName, destProp, mapping?.coercion)
                 : null;
 
               return (
@@ -555,6 +667,13 @@ export function QueryPropertyMapper({
                   sortedDestinations={sortedDestinations}
                   selectedDestination={mapping?.destinationProperty ?? null}
                   onDestinationChange={(dest) => handleMappingChange(propKey, dest)}
+                  transforms={mapping?.transforms ?? NO_TRANSFORMS}
+                  onTransformsChange={(steps) => handleTransformsChange(propKey, steps)}
+                  lookupTableId={mapping?.lookupTableId}
+                  onLookupTableChange={(id) => handleLookupTableChange(propKey, id)}
+                  coercion={mapping?.coercion}
+                  onCoercionChange={(coercion) => handleCoercionChange(propKey, coercion)}
+                  destinationMaxLength={destProp ? getMaxLength(destProp) : null}
                   compatibility={compatibility}
                   is2017={is2017}
                   useSampleKeys={useSampleKeys}
@@ -575,6 +694,15 @@ export function QueryPropertyMapper({
           )}
         </div>
       </div>
+
+      <ComputedValuesEditor
+        mappings={mappings}
+        onMappingsChange={onMappingsChange}
+        sortedDestinations={sortedDestinations}
+        usedDestinations={usedDestinations}
+        restrictedDestinations={RESTRICTED_DESTINATION_PROPERTIES}
+        sourceColumns={sourceColumns}
+      />
     </div>
   );
 }
@@ -588,6 +716,13 @@ type QueryMappingRowProps = {
   sortedDestinations: readonly BoProperty[];
   selectedDestination: string | null;
   onDestinationChange: (destination: string | null) => void;
+  transforms: readonly TransformStep[];
+  onTransformsChange: (transforms: TransformStep[]) => void;
+  lookupTableId: string | undefined;
+  onLookupTableChange: (lookupTableId: string | undefined) => void;
+  coercion: TypeCoercion | undefined;
+  onCoercionChange: (coercion: TypeCoercion | undefined) => void;
+  destinationMaxLength: number | null;
   compatibility: { compatible: boolean; warnings: MappingWarning[] } | null;
   is2017: boolean;
   useSampleKeys: boolean;
@@ -599,6 +734,13 @@ const QueryMappingRow = memo(function QueryMappingRow({
   sortedDestinations,
   selectedDestination,
   onDestinationChange,
+  transforms,
+  onTransformsChange,
+  lookupTableId,
+  onLookupTableChange,
+  coercion,
+  onCoercionChange,
+  destinationMaxLength,
   compatibility,
   is2017,
   useSampleKeys,
@@ -607,6 +749,13 @@ const QueryMappingRow = memo(function QueryMappingRow({
   const sourceType = queryProperty.DataTypeName;
   const boCompatibleType = getBoCompatibleType(sourceType);
   const isMapped = selectedDestination !== null;
+  const selectedDestProp = sortedDestinations.find((d) => d.Name === selectedDestination);
+  const selectedDestType = selectedDestProp ? getBoPropertyTypeName(selectedDestProp) : null;
+  // Unknown source types (2017 sample keys) map to anything, so no conversion is offered
+  const offeredCoercion =
+    selectedDestType && sourceType !== "Unknown"
+      ? availableCoercion(boCompatibleType, selectedDestType)
+      : null;
   const propertyName = queryProperty.Alias || queryProperty.PropertyName;
   // For sample keys mode: use Name directly (it's the actual response key)
   // For 2017: show Caption as main name, PropertyName in tooltip
@@ -683,7 +832,7 @@ const QueryMappingRow = memo(function QueryMappingRow({
       </div>
 
       {/* Destination select */}
-      <div className="min-w-0">
+      <div className="flex min-w-0 items-center gap-2">
         <Select
           value={selectedDestination ?? "__unmapped__"}
           onValueChange={(value) => {
@@ -767,6 +916,31 @@ const QueryMappingRow = memo(function QueryMappingRow({
             </SelectContent>
           </TooltipProvider>
         </Select>
+        {selectedDestination !== null && selectedDestType !== null && offeredCoercion && (
+          <TypeCoercionButton
+            sourceType={boCompatibleType}
+            destinationType={selectedDestType}
+            destinationProperty={selectedDestination}
+            coercion={coercion}
+            offered={offeredCoercion}
+            onCoercionChange={onCoercionChange}
+          />
+        )}
+        {selectedDestination !== null && (
+          <LookupTableButton
+            lookupTableId={lookupTableId}
+            onLookupTableChange={onLookupTableChange}
+          />
+        )}
+        {selectedDestination !== null && (
+          <TransformStepsButton
+            sourceProperty={displayName}
+            destinationProperty={selectedDestination}
+            steps={transforms}
+            onStepsChange={onTransformsChange}
+            destinationMaxLength={destinationMaxLength}
+          />
+        )}
       </div>
     </div>
   );
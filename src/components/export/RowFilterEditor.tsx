@@ -0,0 +1,246 @@
+import { useMemo } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { isComputedMapping } from "@/lib/mapping-values";
+import {
+  describeRowFilter,
+  isCompleteCondition,
+  type RowFilter,
+  type RowFilterCondition,
+  type RowFilterOperator,
+} from "@/lib/row-filter";
+import type { PropertyMapping } from "./PropertyMapper";
+
+type RowFilterEditorProps = {
+  mappings: PropertyMapping[];
+  value: RowFilter | null;
+  onChange: (value: RowFilter | null) => void;
+};
+
+// Operator choices shown in the editor (each is an operator, optionally negated)
+const OPERATOR_OPTIONS: {
+  key: string;
+  operator: RowFilterOperator;
+  negate: boolean;
+  label: string;
+}[] = [
+  { key: "equals", operator: "equals", negate: false, label: "equals" },
+  { key: "notEquals", operator: "equals", negate: true, label: "does not equal" },
+  { key: "in", operator: "in", negate: false, label: "is one of" },
+  { key: "notIn", operator: "in", negate: true, label: "is not one of" },
+  { key: "isNull", operator: "isNull", negate: false, label: "is empty" },
+  { key: "notNull", operator: "isNull", negate: true, label: "is not empty" },
+  { key: "dateRange", operator: "dateRange", negate: false, label: "is a date between" },
+  { key: "notDateRange", operator: "dateRange", negate: true, label: "is not a date between" },
+];
+
+const operatorKey = (condition: RowFilterCondition): string =>
+  OPERATOR_OPTIONS.find(
+    (option) =>
+      option.operator === condition.operator && option.negate === (condition.negate ?? false),
+  )?.key ?? "equals";
+
+// A condition with the given operator, keeping the column (values are reset)
+const withOperator = (condition: RowFilterCondition, key: string): RowFilterCondition => {
+  const option = OPERATOR_OPTIONS.find((o) => o.key === key) ?? OPERATOR_OPTIONS[0]!;
+  const base = { column: condition.column, ...(option.negate && { negate: true }) };
+  switch (option.operator) {
+    case "equals":
+      return { ...base, operator: "equals", value: "" };
+    case "in":
+      return { ...base, operator: "in", values: [] };
+    case "isNull":
+      return { ...base, operator: "isNull" };
+    case "dateRange":
+      return { ...base, operator: "dateRange" };
+  }
+};
+
+/**
+ * Optional filter on source columns. Rows that don't match are recorded as skipped instead of
+ * being migrated.
+ */
+export function RowFilterEditor({ mappings, value, onChange }: RowFilterEditorProps) {
+  const columns = useMemo(
+    () => mappings.filter((m) => !isComputedMapping(m)).map((m) => m.sourceProperty),
+    [mappings],
+  );
+  const conditions = value?.conditions ?? [];
+
+  const setConditions = (next: RowFilterCondition[]) =>
+    onChange(next.length > 0 ? { combinator: value?.combinator ?? "and", conditions: next } : null);
+
+  const updateCondition = (index: number, condition: RowFilterCondition) =>
+    setConditions(conditions.map((c, i) => (i === index ? condition : c)));
+
+  const complete = conditions.length > 0 && conditions.every(isCompleteCondition);
+
+  return (
+    <div className="flex flex-col gap-2 max-w-2xl mt-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Row Filter</Label>
+        <div className="flex items-center gap-2">
+          {conditions.length > 1 && value && (
+            <Select
+              value={value.combinator}
+              onValueChange={(combinator) =>
+                onChange({ ...value, combinator: combinator as RowFilter["combinator"] })
+              }
+            >
+              <SelectTrigger className="h-8 w-44 bg-background text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="and">Match all (AND)</SelectItem>
+                <SelectItem value="or">Match any (OR)</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() =>
+              setConditions([...conditions, { column: "", operator: "equals", value: "" }])
+            }
+          >
+            <Plus className="mr-1.5 size-3" />
+            Add Condition
+          </Button>
+        </div>
+      </div>
+
+      {conditions.map((condition, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_1.5fr_auto] gap-2">
+          <Select
+            value={condition.column || undefined}
+            onValueChange={(column) => updateCondition(index, { ...condition, column })}
+          >
+            <SelectTrigger className="h-8 bg-background text-xs">
+              <SelectValue placeholder="Column..." />
+            </SelectTrigger>
+            <SelectContent>
+              {columns.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={operatorKey(condition)}
+            onValueChange={(key) => updateCondition(index, withOperator(condition, key))}
+          >
+            <SelectTrigger className="h-8 bg-background text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OPERATOR_OPTIONS.map((option) => (
+                <SelectItem key={option.key} value={option.key}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ConditionValueInput
+            condition={condition}
+            onChange={(next) => updateCondition(index, next)}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => setConditions(conditions.filter((_, i) => i !== index))}
+            className="text-destructive hover:text-destructive"
+          >
+            <Trash2 className="size-3.5" />
+          </Button>
+        </div>
+      ))}
+
+      <p className="text-xs text-muted-foreground">
+        {value && complete
+          ? `Only rows where ${describeRowFilter(value)} are migrated; other rows are recorded as skipped.`
+          : value
+            ? "Complete each condition to save the job."
+            : "Every source row is migrated. Add conditions to skip rows that don't match."}
+      </p>
+    </div>
+  );
+}
+
+// ---------------------
+// Value Inputs
+// ---------------------
+
+function ConditionValueInput({
+  condition,
+  onChange,
+}: {
+  condition: RowFilterCondition;
+  onChange: (condition: RowFilterCondition) => void;
+}) {
+  switch (condition.operator) {
+    case "equals":
+      return (
+        <Input
+          value={condition.value}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          placeholder="Value"
+          className="h-8 bg-background text-xs"
+        />
+      );
+    case "in":
+      return (
+        <Input
+          value={condition.values.join(",")}
+          onChange={(e) => onChange({ ...condition, values: e.target.value.split(",") })}
+          placeholder="Values, separated by commas"
+          className="h-8 bg-background text-xs"
+        />
+      );
+    case "isNull":
+      return <span />;
+    case "dateRange": {
+      const { from: _from, to: _to, ...rest } = condition;
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            type="date"
+            value={condition.from ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...rest,
+                ...(e.target.value && { from: e.target.value }),
+                ...(condition.to && { to: condition.to }),
+              })
+            }
+            className="h-8 bg-background text-xs"
+          />
+          <Input
+            type="date"
+            value={condition.to ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...rest,
+                ...(condition.from && { from: condition.from }),
+                ...(e.target.value && { to: e.target.value }),
+              })
+            }
+            className="h-8 bg-background text-xs"
+          />
+        </div>
+      );
+    }
+  }
+}
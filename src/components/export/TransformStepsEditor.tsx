@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import {
+  TRANSFORM_STEP_TYPES,
+  applyTransforms,
+  describeTransformStep,
+  type TransformStep,
+  type TransformStepType,
+} from "@/lib/transforms";
+
+type TransformStepsButtonProps = {
+  sourceProperty: string;
+  destinationProperty: string;
+  steps: readonly TransformStep[];
+  onStepsChange: (steps: TransformStep[]) => void;
+  /** Destination max length, used as the default for truncate steps */
+  destinationMaxLength: number | null;
+};
+
+/**
+ * Button that opens the transform step editor for one mapping.
+ * Shows the number of steps and a summary tooltip when the mapping has transforms.
+ */
+export function TransformStepsButton({
+  sourceProperty,
+  destinationProperty,
+  steps,
+  onStepsChange,
+  destinationMaxLength,
+}: TransformStepsButtonProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="outline"
+              size="icon-sm"
+              onClick={() => setOpen(true)}
+              className={cn(
+                "relative shrink-0",
+                steps.length > 0 && "border-primary/30 bg-primary/[0.03] text-primary",
+              )}
+            >
+              <Wand2 className="size-3.5" />
+              {steps.length > 0 && (
+                <span className="absolute -top-1.5 -right-1.5 flex size-4 items-center justify-center rounded-full bg-primary text-[10px] text-primary-foreground">
+                  {steps.length}
+                </span>
+              )}
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="top" className="max-w-xs">
+            {steps.length > 0 ? (
+              steps.map((step, i) => (
+                <p key={i} className="text-xs">
+                  {i + 1}. {describeTransformStep(step)}
+                </p>
+              ))
+            ) : (
+              <p className="text-xs">Add value transforms</p>
+            )}
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+
+      {open && (
+        <TransformStepsDialog
+          sourceProperty={sourceProperty}
+          destinationProperty={destinationProperty}
+          initialSteps={steps}
+          destinationMaxLength={destinationMaxLength}
+          onSave={(next) => {
+            onStepsChange(next);
+            setOpen(false);
+          }}
+          onClose={() => setOpen(false)}
+        />
+      )}
+    </>
+  );
+}
+
+// ---------------------
+// Dialog
+// ---------------------
+
+type TransformStepsDialogProps = {
+  sourceProperty: string;
+  destinationProperty: string;
+  initialSteps: readonly TransformStep[];
+  destinationMaxLength: number | null;
+  onSave: (steps: TransformStep[]) => void;
+  onClose: () => void;
+};
+
+function TransformStepsDialog({
+  sourceProperty,
+  destinationProperty,
+  initialSteps,
+  destinationMaxLength,
+  onSave,
+  onClose,
+}: TransformStepsDialogProps) {
+  const [steps, setSteps] = useState<TransformStep[]>(() => [...initialSteps]);
+  const [sampleValue, setSampleValue] = useState("");
+
+  const updateStep = (index: number, step: TransformStep) =>
+    setSteps((current) => current.map((s, i) => (i === index ? step : s)));
+
+  const removeStep = (index: number) =>
+    setSteps((current) => current.filter((_, i) => i !== index));
+
+  const moveStep = (index: number, direction: -1 | 1) =>
+    setSteps((current) => {
+      const target = index + direction;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target]!, next[index]!];
+      return next;
+    });
+
+  const addStep = (type: TransformStepType) =>
+    setSteps((current) => [...current, TRANSFORM_STEP_TYPES[type].create(destinationMaxLength)]);
+
+  const preview = applyTransforms(sampleValue, steps);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Transform Values</DialogTitle>
+          <DialogDescription>
+            Steps run in order on each {sourceProperty} value before it is written to{" "}
+            {destinationProperty}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-2 max-h-[360px] overflow-y-auto">
+          {steps.length === 0 && (
+            <p className="text-sm text-muted-foreground py-4 text-center">
+              No transforms. Values are copied unchanged.
+            </p>
+          )}
+          {steps.map((step, index) => (
+            <div key={index} className="flex items-start gap-2 rounded-lg border p-2">
+              <span className="text-xs font-mono text-muted-foreground w-4 pt-2">{index + 1}</span>
+              <div className="flex flex-1 flex-col gap-2 min-w-0">
+                <span className="text-sm font-medium pt-1.5">
+                  {TRANSFORM_STEP_TYPES[step.type].label}
+                </span>
+                <TransformStepFields step={step} onChange={(next) => updateStep(index, next)} />
+              </div>
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => moveStep(index, -1)}
+                  disabled={index === 0}
+                >
+                  <ArrowUp className="size-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => moveStep(index, 1)}
+                  disabled={index === steps.length - 1}
+                >
+                  <ArrowDown className="size-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() => removeStep(index)}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="size-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Select value="" onValueChange={(type) => addStep(type as TransformStepType)}>
+          <SelectTrigger className="h-9 text-xs">
+            <Plus className="size-3.5" />
+            <SelectValue placeholder="Add step..." />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(TRANSFORM_STEP_TYPES) as TransformStepType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {TRANSFORM_STEP_TYPES[type].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Preview */}
+        <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted/30 p-3">
+          <div className="flex flex-col gap-1">
+            <Label className="text-xs text-muted-foreground">Sample value</Label>
+            <Input
+              value={sampleValue}
+              onChange={(e) => setSampleValue(e.target.value)}
+              placeholder="Type a value to preview"
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="flex flex-col gap-1 min-w-0">
+            <Label className="text-xs text-muted-foreground">Result</Label>
+            <span className="h-8 flex items-center text-xs font-mono truncate">
+              {JSON.stringify(preview) ?? "—"}
+            </span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSave(steps)}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ---------------------
+// Step Fields
+// ---------------------
+
+function TransformStepFields({
+  step,
+  onChange,
+}: {
+  step: TransformStep;
+  onChange: (step: TransformStep) => void;
+}) {
+  switch (step.type) {
+    case "trim":
+      return null;
+    case "changeCase":
+      return (
+        <Select
+          value={step.mode}
+          onValueChange={(mode) => onChange({ ...step, mode: mode as typeof step.mode })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="upper">UPPERCASE</SelectItem>
+            <SelectItem value="lower">lowercase</SelectItem>
+            <SelectItem value="title">Title Case</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    case "formatDate":
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            value={step.inputFormat ?? ""}
+            onChange={(e) => {
+              const { inputFormat: _, ...rest } = step;
+              onChange(e.target.value ? { ...rest, inputFormat: e.target.value } : rest);
+            }}
+            placeholder="Input format (auto)"
+            className="h-8 text-xs font-mono"
+          />
+          <Input
+            value={step.outputFormat}
+            onChange={(e) => onChange({ ...step, outputFormat: e.target.value })}
+            placeholder="yyyy-MM-dd"
+            className="h-8 text-xs font-mono"
+          />
+        </div>
+      );
+    case "parseNumber":
+      return (
+        <Select
+          value={step.decimalSeparator}
+          onValueChange={(separator) =>
+            onChange({ ...step, decimalSeparator: separator as typeof step.decimalSeparator })
+          }
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value=".">Decimal point (1,234.5)</SelectItem>
+            <SelectItem value=",">Decimal comma (1.234,5)</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    case "defaultIfNull":
+      return (
+        <Input
+          value={step.value}
+          onChange={(e) => onChange({ ...step, value: e.target.value })}
+          placeholder="Value used when the source is empty"
+          className="h-8 text-xs"
+        />
+      );
+    case "truncate":
+      return (
+        <Input
+          type="number"
+          min={1}
+          value={step.maxLength}
+          onChange={(e) => onChange({ ...step, maxLength: Math.max(1, Number(e.target.value)) })}
+          className="h-8 text-xs w-32"
+        />
+      );
+    case "regexReplace":
+      return (
+        <div className="grid grid-cols-[1fr_1fr_64px] gap-2">
+          <Input
+            value={step.pattern}
+            onChange={(e) => onChange({ ...step, pattern: e.target.value })}
+            placeholder="Pattern"
+            className="h-8 text-xs font-mono"
+          />
+          <Input
+            value={step.replacement}
+            onChange={(e) => onChange({ ...step, replacement: e.target.value })}
+            placeholder="Replacement ($1)"
+            className="h-8 text-xs font-mono"
+          />
+          <Input
+            value={step.flags ?? "g"}
+            onChange={(e) => onChange({ ...step, flags: e.target.value })}
+            placeholder="Flags"
+            className="h-8 text-xs font-mono"
+          />
+        </div>
+      );
+  }
+}
@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { ArrowRightLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { coerceValue, describeCoercion, type TypeCoercion } from "@/lib/coercion";
+
+type TypeCoercionButtonProps = {
+  sourceType: string;
+  destinationType: string;
+  destinationProperty: string;
+  /** The mapping's conversion, if one was added */
+  coercion: TypeCoercion | undefined;
+  /** The conversion offered for this pair of types, used when adding one */
+  offered: TypeCoercion;
+  onCoercionChange: (coercion: TypeCoercion | undefined) => void;
+};
+
+/**
+ * Button that adds or edits the conversion for a mapping whose source and destination types differ.
+ * Shown as a warning until a conversion is added.
+ */
+export function TypeCoercionButton({
+  sourceType,
+  destinationType,
+  destinationProperty,
+  coercion,
+  offered,
+  onCoercionChange,
+}: TypeCoercionButtonProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="outline"
+              size="icon-sm"
+              onClick={() => setOpen(true)}
+              className={cn(
+                "shrink-0",
+                coercion
+                  ? "border-primary/30 bg-primary/[0.03] text-primary"
+                  : "border-amber-500/40 bg-amber-500/[0.05] text-amber-600",
+              )}
+            >
+              <ArrowRightLeft className="size-3.5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="top" className="max-w-xs">
+            <p className="text-xs">
+              {coercion
+                ? `Converted to ${describeCoercion(coercion)}`
+                : `Add a conversion from ${sourceType} to ${destinationType}`}
+            </p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+
+      {open && (
+        <TypeCoercionDialog
+          sourceType={sourceType}
+          destinationProperty={destinationProperty}
+          initialCoercion={coercion ?? offered}
+          canRemove={coercion !== undefined}
+          onSave={(next) => {
+            onCoercionChange(next);
+            setOpen(false);
+          }}
+          onClose={() => setOpen(false)}
+        />
+      )}
+    </>
+  );
+}
+
+// ---------------------
+// Dialog
+// ---------------------
+
+type TypeCoercionDialogProps = {
+  sourceType: string;
+  destinationProperty: string;
+  initialCoercion: TypeCoercion;
+  canRemove: boolean;
+  onSave: (coercion: TypeCoercion | undefined) => void;
+  onClose: () => void;
+};
+
+function TypeCoercionDialog({
+  sourceType,
+  destinationProperty,
+  initialCoercion,
+  canRemove,
+  onSave,
+  onClose,
+}: TypeCoercionDialogProps) {
+  const [coercion, setCoercion] = useState<TypeCoercion>(initialCoercion);
+  const [sampleValue, setSampleValue] = useState("");
+
+  const preview = coerceValue(sampleValue, coercion);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Convert to {coercion.to}</DialogTitle>
+          <DialogDescription>
+            {sourceType} values are converted before they are written to {destinationProperty}. Rows
+            whose value can't be converted fail with the reason.
+          </DialogDescription>
+        </DialogHeader>
+
+        <TypeCoercionFields coercion={coercion} onChange={setCoercion} />
+
+        {/* Preview */}
+        <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted/30 p-3">
+          <div className="flex flex-col gap-1">
+            <Label className="text-xs text-muted-foreground">Sample value</Label>
+            <Input
+              value={sampleValue}
+              onChange={(e) => setSampleValue(e.target.value)}
+              placeholder="Type a value to preview"
+              className="h-8 text-xs"
+            />
+          </div>
+          <div className="flex flex-col gap-1 min-w-0">
+            <Label className="text-xs text-muted-foreground">Result</Label>
+            {preview.ok ? (
+              <span className="h-8 flex items-center text-xs font-mono truncate">
+                {JSON.stringify(preview.value) ?? "—"}
+              </span>
+            ) : (
+              <span className="min-h-8 flex items-center text-xs text-destructive">
+                {preview.message}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          {canRemove && (
+            <Button
+              variant="ghost"
+              onClick={() => onSave(undefined)}
+              className="mr-auto text-destructive hover:text-destructive"
+            >
+              Remove
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSave(coercion)}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ---------------------
+// Conversion Fields
+// ---------------------
+
+function TypeCoercionFields({
+  coercion,
+  onChange,
+}: {
+  coercion: TypeCoercion;
+  onChange: (coercion: TypeCoercion) => void;
+}) {
+  switch (coercion.to) {
+    case "Date":
+      return (
+        <div className="flex flex-col gap-1.5">
+          <Label className="text-xs">Input format</Label>
+          <Input
+            value={coercion.inputFormat ?? ""}
+            onChange={(e) => {
+              const { inputFormat: _, ...rest } = coercion;
+              onChange(e.target.value ? { ...rest, inputFormat: e.target.value } : rest);
+            }}
+            placeholder="Auto (ISO or browser-readable dates)"
+            className="h-8 text-xs font-mono"
+          />
+          <p className="text-xs text-muted-foreground">
+            Tokens: yyyy, MM, dd, HH, mm, ss — for example dd/MM/yyyy.
+          </p>
+        </div>
+      );
+    case "Integer":
+    case "Decimal":
+    case "Monetary":
+      return (
+        <div className="flex flex-col gap-1.5">
+          <Label className="text-xs">Number format</Label>
+          <Select
+            value={coercion.decimalSeparator}
+            onValueChange={(separator) =>
+              onChange({ ...coercion, decimalSeparator: separator as "." | "," })
+            }
+          >
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value=".">Decimal point (1,234.5)</SelectItem>
+              <SelectItem value=",">Decimal comma (1.234,5)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    case "Boolean":
+      return (
+        <p className="text-xs text-muted-foreground">
+          Accepts true/false, yes/no, y/n and 1/0 in any case.
+        </p>
+      );
+    case "String":
+      return <p className="text-xs text-muted-foreground">Values are written as text.</p>;
+  }
+}
@@ -2,6 +2,11 @@ export { ExportWizard } from "./ExportWizard";
 export { DataSourceSelector } from "./DataSourceSelector";
 export { DestinationPasswordDialog } from "./DestinationPasswordDialog";
 export { EnvironmentSelector } from "./EnvironmentSelector";
+export { FileDestinationSelector } from "./FileDestinationSelector";
+export { FileSourceSelector, type UploadedSourceFile } from "./FileSourceSelector";
+export { ParentJobSelector } from "./ParentJobSelector";
 export { PropertyMapper, type PropertyMapping } from "./PropertyMapper";
 export { QueryFileBrowser } from "./QueryFileBrowser";
+export { QueryParametersEditor } from "./QueryParametersEditor";
 export { QueryPropertyMapper } from "./QueryPropertyMapper";
+export { RowFilterEditor } from "./RowFilterEditor";
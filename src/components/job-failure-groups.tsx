@@ -0,0 +1,213 @@
+import { useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Ban, Download, Layers, Loader2, RotateCcw, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ERROR_CATEGORY_LABELS } from "@/components/job-status";
+import {
+  useExportFailedRows,
+  useImportRowCorrections,
+  useRetryFailureGroup,
+  useSkipFailureGroup,
+} from "@/lib/mutations";
+import { queries } from "@/lib/queries";
+import type { FailureGroup, ImportRowCorrectionsResponse } from "@/api/client";
+
+const isSameGroup = (a: FailureGroup, b: Pick<FailureGroup, "category" | "message"> | undefined) =>
+  !!b && a.category === b.category && a.message === b.message;
+
+// Summary of an import, e.g. "3 rows corrected, 1 unchanged"
+const describeImport = (result: ImportRowCorrectionsResponse) => {
+  const parts = [`${result.updatedCount} ${result.updatedCount === 1 ? "row" : "rows"} corrected`];
+  if (result.unchangedCount > 0) parts.push(`${result.unchangedCount} unchanged`);
+  if (result.unmatchedRowNumbers.length > 0) {
+    parts.push(`not failed rows of this job: ${result.unmatchedRowNumbers.join(", ")}`);
+  }
+  return parts.join(", ");
+};
+
+/**
+ * A job's failed rows grouped by error category and normalized message, with bulk retry and skip
+ * per group. The failed rows can be exported as CSV and the corrected file imported back.
+ * Renders nothing while the job has no failed rows.
+ */
+export function JobFailureGroups({
+  jobId,
+  canRetry,
+  canSkip,
+}: {
+  jobId: string;
+  canRetry: boolean;
+  canSkip: boolean;
+}) {
+  const { data: groups } = useQuery(queries.jobs.failureGroups(jobId));
+  const retryMutation = useRetryFailureGroup(jobId);
+  const skipMutation = useSkipFailureGroup(jobId);
+  const exportMutation = useExportFailedRows(jobId);
+  const importMutation = useImportRowCorrections(jobId);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!groups || groups.length === 0) return null;
+
+  const isBusy = retryMutation.isPending || skipMutation.isPending;
+  const error =
+    retryMutation.error ?? skipMutation.error ?? exportMutation.error ?? importMutation.error;
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    importMutation.mutate(await file.text());
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="flex items-center gap-2 text-lg font-semibold">
+          <Layers className="size-4" />
+          Failures by Cause
+        </h2>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending}
+          >
+            {exportMutation.isPending ? (
+              <Loader2 className="size-4 animate-spin mr-1" />
+            ) : (
+              <Download className="size-4 mr-1" />
+            )}
+            Export CSV
+          </Button>
+          {canRetry && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={importMutation.isPending || isBusy}
+              >
+                {importMutation.isPending ? (
+                  <Loader2 className="size-4 animate-spin mr-1" />
+                ) : (
+                  <Upload className="size-4 mr-1" />
+                )}
+                Import Corrections
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  void handleImportFile(e.target.files?.[0]);
+                  // Allow importing the same file again after editing it
+                  e.target.value = "";
+                }}
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive">
+          {error instanceof Error ? error.message : "Failed to update the failed rows"}
+        </p>
+      )}
+
+      {importMutation.data && (
+        <div className="text-sm">
+          <p>
+            {describeImport(importMutation.data)}.
+            {importMutation.data.updatedCount > 0 &&
+              " Retry the failed rows to send the corrected values."}
+          </p>
+          {importMutation.data.problems.map((problem) => (
+            <p key={problem.rowNumber} className="text-xs text-destructive">
+              Row {problem.rowNumber}: {problem.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-36">Category</TableHead>
+              <TableHead>Error</TableHead>
+              <TableHead className="w-20 text-right">Rows</TableHead>
+              {(canRetry || canSkip) && <TableHead className="w-48" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {groups.map((group) => (
+              <TableRow key={`${group.category ?? ""}|${group.message}`}>
+                <TableCell>
+                  <Badge variant="outline" className="text-xs">
+                    {group.category ? ERROR_CATEGORY_LABELS[group.category] : "Uncategorized"}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-xs whitespace-normal">
+                  <p className="font-mono">{group.message}</p>
+                  {group.example !== group.message && (
+                    <p className="text-muted-foreground mt-1">e.g. {group.example}</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-right font-mono text-xs">{group.rowCount}</TableCell>
+                {(canRetry || canSkip) && (
+                  <TableCell>
+                    <div className="flex items-center justify-end gap-2">
+                      {canRetry && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => retryMutation.mutate(group)}
+                          disabled={isBusy}
+                        >
+                          {retryMutation.isPending &&
+                          isSameGroup(group, retryMutation.variables) ? (
+                            <Loader2 className="size-3.5 animate-spin mr-1" />
+                          ) : (
+                            <RotateCcw className="size-3.5 mr-1" />
+                          )}
+                          Retry
+                        </Button>
+                      )}
+                      {canSkip && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => skipMutation.mutate(group)}
+                          disabled={isBusy}
+                        >
+                          {skipMutation.isPending && isSameGroup(group, skipMutation.variables) ? (
+                            <Loader2 className="size-3.5 animate-spin mr-1" />
+                          ) : (
+                            <Ban className="size-3.5 mr-1" />
+                          )}
+                          Skip
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
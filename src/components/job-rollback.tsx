@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, Loader2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatFullDateTime } from "@/components/job-status";
+import { queries } from "@/lib/queries";
+import { cn } from "@/lib/utils";
+
+/**
+ * Progress of deleting the records a job created, with the rows whose DELETE failed.
+ * Renders nothing until the job has been rolled back.
+ */
+export function JobRollback({ jobId }: { jobId: string }) {
+  const { data: rollback } = useQuery(queries.jobs.rollback(jobId));
+
+  if (!rollback) return null;
+
+  const progress =
+    rollback.totalRows > 0
+      ? Math.round(((rollback.deletedRows + rollback.failedRows) / rollback.totalRows) * 100)
+      : 100;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <h2 className="flex items-center gap-2 text-lg font-semibold">
+        <Undo2 className="size-4" />
+        Rollback
+      </h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 border rounded-lg p-4">
+        <div className="flex flex-col gap-2">
+          <span className="text-xs text-muted-foreground font-medium">Status</span>
+          <span className="text-sm flex items-center gap-1.5">
+            {rollback.status === "running" && <Loader2 className="size-3.5 animate-spin" />}
+            {rollback.status === "running"
+              ? `Deleting (${progress}%)`
+              : rollback.status === "completed"
+                ? `Finished ${formatFullDateTime(rollback.completedAt)}`
+                : "Failed"}
+          </span>
+        </div>
+        <div className="flex flex-col gap-2">
+          <span className="text-xs text-muted-foreground font-medium">Created Records</span>
+          <span className="text-sm font-mono">{rollback.totalRows}</span>
+        </div>
+        <div className="flex flex-col gap-2">
+          <span className="text-xs text-muted-foreground font-medium">Deleted</span>
+          <span className="text-sm font-mono">{rollback.deletedRows}</span>
+        </div>
+        <div className="flex flex-col gap-2">
+          <span className="text-xs text-muted-foreground font-medium">Failed</span>
+          <span className={cn("text-sm font-mono", rollback.failedRows > 0 && "text-destructive")}>
+            {rollback.failedRows}
+          </span>
+        </div>
+        {rollback.status === "completed" && rollback.failedRows > 0 && (
+          <p className="col-span-2 md:col-span-4 text-xs text-muted-foreground">
+            Some records could not be deleted and are still in the destination. Roll back again to
+            retry them; records already deleted are not sent again.
+          </p>
+        )}
+        {rollback.status === "failed" && rollback.errorMessage && (
+          <p className="col-span-2 md:col-span-4 text-xs text-destructive">
+            {rollback.errorMessage}
+          </p>
+        )}
+      </div>
+
+      {rollback.failures.length > 0 && (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-20">Row</TableHead>
+                <TableHead>Error</TableHead>
+                <TableHead className="w-48">Attempted</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rollback.failures.map((attempt) => (
+                <TableRow key={attempt.id}>
+                  <TableCell className="font-mono text-xs">{attempt.rowIndex + 1}</TableCell>
+                  <TableCell className="text-xs text-destructive whitespace-normal">
+                    {attempt.errorMessage}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {formatFullDateTime(attempt.createdAt)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type RollbackDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobName: string;
+  destEntityType: string;
+  destEnvironmentName: string;
+  isPending: boolean;
+  onConfirm: () => void;
+};
+
+/**
+ * Confirmation for a rollback. The job name must be typed before the records are deleted.
+ */
+export function RollbackDialog({
+  open,
+  onOpenChange,
+  jobName,
+  destEntityType,
+  destEnvironmentName,
+  isPending,
+  onConfirm,
+}: RollbackDialogProps) {
+  const [confirmation, setConfirmation] = useState("");
+
+  // Start from an empty confirmation each time the dialog opens
+  useEffect(() => {
+    if (!open) setConfirmation("");
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Undo2 className="size-5 text-destructive" />
+            Roll Back Job
+          </DialogTitle>
+          <DialogDescription>
+            Every {destEntityType} record "{jobName}" created in {destEnvironmentName} will be
+            deleted. Records the job updated existed before it ran and are left alone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-start gap-3 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+          <AlertTriangle className="size-5 text-destructive shrink-0 mt-0.5" />
+          <p className="text-sm text-muted-foreground">
+            Deleted records cannot be restored, and any changes made to them in the destination
+            since the migration are lost.
+          </p>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="rollbackConfirmation" className="text-sm font-normal">
+            Type <span className="font-medium">{jobName}</span> to confirm
+          </Label>
+          <Input
+            id="rollbackConfirmation"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            autoComplete="off"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={onConfirm}
+            disabled={isPending || confirmation !== jobName}
+          >
+            {isPending ? (
+              <Loader2 className="size-4 animate-spin mr-1" />
+            ) : (
+              <Undo2 className="size-4 mr-1" />
+            )}
+            Roll Back
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
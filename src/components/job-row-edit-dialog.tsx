@@ -0,0 +1,229 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, Pencil, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useRetryEditedRow } from "@/lib/mutations";
+import { queries } from "@/lib/queries";
+import { diffRowEdits, formatEditValue, parseEditValue, type EditValue } from "@/lib/row-edits";
+
+type RowEditDialogProps = {
+  jobId: string;
+  rowId: string;
+  rowIndex: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+/**
+ * Edit the transformed values of a failed row and retry it with the corrected data.
+ * The source payload is kept; the edits are stored with the row and applied on every retry.
+ */
+export function RowEditDialog({ jobId, rowId, rowIndex, open, onOpenChange }: RowEditDialogProps) {
+  const {
+    data: payload,
+    isLoading,
+    error,
+  } = useQuery(queries.jobs.rowPayload(open ? rowId : null));
+  const retryMutation = useRetryEditedRow(jobId);
+  const [texts, setTexts] = useState<Record<string, string>>({});
+  // Row the form was filled for (a refetch after retrying must not overwrite the form)
+  const [formRowId, setFormRowId] = useState<string | null>(null);
+
+  // Start from the transformed values with the stored edits applied each time the dialog opens
+  useEffect(() => {
+    if (!open) {
+      setFormRowId(null);
+      return;
+    }
+    if (!payload || formRowId === rowId) return;
+    setTexts(
+      Object.fromEntries(
+        payload.properties.map((property) => [
+          property.name,
+          formatEditValue(
+            property.name in payload.edits
+              ? payload.edits[property.name]
+              : payload.values[property.name],
+          ),
+        ]),
+      ),
+    );
+    retryMutation.reset();
+    setFormRowId(rowId);
+  }, [open, payload, rowId, formRowId]);
+
+  const editable = useMemo(
+    () => payload?.properties.filter((property) => property.propertyTypeName !== "Binary") ?? [],
+    [payload],
+  );
+
+  const parsed = useMemo(
+    () =>
+      Object.fromEntries(
+        editable.map((property) => [
+          property.name,
+          parseEditValue(texts[property.name] ?? "", property.propertyTypeName),
+        ]),
+      ),
+    [editable, texts],
+  );
+  const hasInvalidValues = Object.values(parsed).some((result) => !result.ok);
+
+  const handleRetry = () => {
+    if (!payload || hasInvalidValues) return;
+    const edited: Record<string, EditValue> = {};
+    for (const [name, result] of Object.entries(parsed)) {
+      if (result.ok) edited[name] = result.value;
+    }
+    retryMutation.mutate(
+      { rowId, edits: diffRowEdits(payload.values, edited) },
+      {
+        onSuccess: (result) => {
+          if (result.success) onOpenChange(false);
+        },
+      },
+    );
+  };
+
+  const stillFailing = retryMutation.data && !retryMutation.data.success;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Pencil className="size-5" />
+            Edit Row {rowIndex + 1}
+          </DialogTitle>
+          <DialogDescription>
+            Correct the values sent to the destination and retry. The source row is kept as it was
+            read; your changes are applied on this and every later retry.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-24">
+            <Loader2 className="size-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !payload ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error ? error.message : "Failed to load the row"}
+          </p>
+        ) : (
+          <div className="flex flex-col gap-3 max-h-[60vh] overflow-y-auto pr-1">
+            {payload.heldReason && (
+              <p className="text-xs text-muted-foreground">
+                This row is held back: {payload.heldReason}
+              </p>
+            )}
+            {payload.properties.map((property) => {
+              const text = texts[property.name] ?? "";
+              const result = parsed[property.name];
+              const problem = payload.problems.find((p) => p.property === property.name);
+              const isEdited =
+                property.name in payload.values
+                  ? text !== formatEditValue(payload.values[property.name])
+                  : text.trim() !== "";
+              const tooLong = property.maxLength !== undefined && text.length > property.maxLength;
+              return (
+                <div key={property.name} className="flex flex-col gap-1.5">
+                  <Label
+                    htmlFor={`edit-${property.name}`}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    {property.name}
+                    <span className="text-xs text-muted-foreground font-normal">
+                      {property.propertyTypeName}
+                      {property.maxLength !== undefined && ` (max ${property.maxLength})`}
+                    </span>
+                    {property.required && (
+                      <Badge variant="outline" className="text-[10px]">
+                        Required
+                      </Badge>
+                    )}
+                    {isEdited && (
+                      <Badge variant="secondary" className="text-[10px]">
+                        Edited
+                      </Badge>
+                    )}
+                  </Label>
+                  {property.propertyTypeName === "Binary" ? (
+                    <span className="text-xs text-muted-foreground">
+                      Binary value (not editable)
+                    </span>
+                  ) : (
+                    <Input
+                      id={`edit-${property.name}`}
+                      value={text}
+                      onChange={(e) =>
+                        setTexts((prev) => ({ ...prev, [property.name]: e.target.value }))
+                      }
+                      className="font-mono text-xs"
+                      autoComplete="off"
+                    />
+                  )}
+                  {problem && !isEdited && (
+                    <span className="text-xs text-destructive">{problem.message}</span>
+                  )}
+                  {result && !result.ok && (
+                    <span className="text-xs text-destructive">{result.message}</span>
+                  )}
+                  {tooLong && (
+                    <span className="text-xs text-amber-600">
+                      {text.length} characters, longer than the destination allows
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {stillFailing && (
+          <p className="text-sm text-destructive">
+            Still failing: {retryMutation.data?.row?.latestError ?? "the row was not migrated"}
+          </p>
+        )}
+        {retryMutation.error && (
+          <p className="text-sm text-destructive">
+            {retryMutation.error instanceof Error
+              ? retryMutation.error.message
+              : "Failed to retry the row"}
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={retryMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleRetry}
+            disabled={!payload || hasInvalidValues || retryMutation.isPending}
+          >
+            {retryMutation.isPending ? (
+              <Loader2 className="size-4 animate-spin mr-1" />
+            ) : (
+              <RotateCcw className="size-4 mr-1" />
+            )}
+            Retry with Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -21,6 +21,9 @@ import {
   ChevronsLeft,
   ChevronsRight,
   Loader2,
+  MinusCircle,
+  PauseCircle,
+  Pencil,
   RotateCcw,
   ArrowUpDown,
 } from "lucide-react";
@@ -36,12 +39,13 @@ import {
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
-import { formatTime } from "@/components/job-status";
+import { ERROR_CATEGORY_LABELS, formatTime } from "@/components/job-status";
 import { useRetrySingleRow } from "@/lib/mutations";
+import { RowEditDialog } from "@/components/job-row-edit-dialog";
 import { queries } from "@/lib/queries";
 import type { RowWithAttemptsInfo, Attempt } from "@/api/client";
 
-type StatusFilter = "all" | "success" | "failed";
+type StatusFilter = "all" | "success" | "failed" | "held" | "skipped" | "unmapped";
 
 function RetryButton({ rowId, jobId }: { rowId: string; jobId: string }) {
   const retryMutation = useRetrySingleRow(jobId);
@@ -66,6 +70,9 @@ function RetryButton({ rowId, jobId }: { rowId: string; jobId: string }) {
   );
 }
 
+// Request time as milliseconds below a second, seconds above
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
 function AttemptsList({ rowId }: { rowId: string }) {
   const { data: attempts, isLoading } = useQuery(queries.jobs.rowAttempts(rowId));
 
@@ -111,13 +118,44 @@ function AttemptsList({ rowId }: { rowId: string }) {
                 <Badge variant={attempt.success ? "default" : "destructive"} className="text-xs">
                   {attempt.success ? "Success" : "Failed"}
                 </Badge>
+                {attempt.outcome && (
+                  <Badge variant="outline" className="text-xs capitalize">
+                    {attempt.outcome}
+                  </Badge>
+                )}
+                {attempt.errorCategory && (
+                  <Badge variant="outline" className="text-xs">
+                    {ERROR_CATEGORY_LABELS[attempt.errorCategory]}
+                  </Badge>
+                )}
+                {attempt.editedProperties && (
+                  <Badge variant="secondary" className="text-xs">
+                    Edited
+                  </Badge>
+                )}
+                {attempt.httpStatus !== null && (
+                  <Badge variant="outline" className="text-xs font-mono">
+                    HTTP {attempt.httpStatus}
+                  </Badge>
+                )}
                 <span className="text-xs text-muted-foreground">
                   {formatTime(attempt.createdAt)}
+                  {attempt.durationMs !== null && ` · ${formatDuration(attempt.durationMs)}`}
                 </span>
               </div>
               {attempt.errorMessage && (
                 <p className="text-xs text-destructive mt-1 truncate">{attempt.errorMessage}</p>
               )}
+              {attempt.responseExcerpt && (
+                <pre className="text-xs text-muted-foreground mt-1 font-mono whitespace-pre-wrap break-all max-h-24 overflow-y-auto">
+                  {attempt.responseExcerpt}
+                </pre>
+              )}
+              {attempt.editedProperties && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Manually edited: {(JSON.parse(attempt.editedProperties) as string[]).join(", ")}
+                </p>
+              )}
               {attempt.identityElements && (
                 <p className="text-xs text-muted-foreground mt-1 font-mono">
                   Identity: {attempt.identityElements}
@@ -136,6 +174,7 @@ export function JobRowResultsTable({
   total,
   identityFieldNames,
   jobId,
+  canRetry = true,
   isLoading,
   statusFilter,
   onStatusFilterChange,
@@ -144,12 +183,14 @@ export function JobRowResultsTable({
   total: number;
   identityFieldNames: string[];
   jobId: string;
+  canRetry?: boolean; // false for dry runs, whose rows were never written
   isLoading: boolean;
   statusFilter: StatusFilter;
   onStatusFilterChange: (filter: StatusFilter) => void;
 }) {
   const [sorting, setSorting] = useState<SortingState>([]);
   const [expanded, setExpanded] = useState<ExpandedState>({});
+  const [editingRow, setEditingRow] = useState<RowWithAttemptsInfo | null>(null);
 
   const data = useMemo(() => {
     if (!rows) return [];
@@ -201,6 +242,10 @@ export function JobRowResultsTable({
           <div className="flex items-center justify-center">
             {row.original.status === "success" ? (
               <CheckCircle className="size-4 text-green-600" />
+            ) : row.original.status === "held" ? (
+              <PauseCircle className="size-4 text-amber-500" />
+            ) : row.original.status === "skipped" ? (
+              <MinusCircle className="size-4 text-muted-foreground" />
             ) : (
               <AlertCircle className="size-4 text-destructive" />
             )}
@@ -281,16 +326,23 @@ export function JobRowResultsTable({
         accessorKey: "latestError",
         header: "Latest Error",
         cell: ({ row }) => {
-          const error = row.original.latestError;
+          // Held rows were never sent, so the hold reason stands in for an error
+          const error = row.original.heldReason ?? row.original.latestError;
           if (!error) {
             return <span className="text-muted-foreground">-</span>;
           }
+          const category = row.original.errorCategory;
           return (
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
-                  <span className="text-destructive text-xs truncate block max-w-[250px]">
-                    {error}
+                  <span className="flex items-center gap-1.5 max-w-[250px]">
+                    {category && (
+                      <Badge variant="outline" className="text-[10px] shrink-0">
+                        {ERROR_CATEGORY_LABELS[category]}
+                      </Badge>
+                    )}
+                    <span className="text-destructive text-xs truncate">{error}</span>
                   </span>
                 </TooltipTrigger>
                 <TooltipContent className="max-w-md">
@@ -305,13 +357,34 @@ export function JobRowResultsTable({
         id: "actions",
         header: "",
         cell: ({ row }) => {
-          if (row.original.status !== "failed") return null;
-          return <RetryButton rowId={row.original.id} jobId={jobId} />;
+          // Successful rows are done and skipped rows did not match the row filter
+          if (row.original.status === "success" || row.original.status === "skipped" || !canRetry) {
+            return null;
+          }
+          return (
+            <div className="flex items-center gap-1">
+              {row.original.status === "failed" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  title="Edit values and retry"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setEditingRow(row.original);
+                  }}
+                >
+                  <Pencil className="size-3.5" />
+                </Button>
+              )}
+              <RetryButton rowId={row.original.id} jobId={jobId} />
+            </div>
+          );
         },
-        size: 60,
+        size: 90,
       },
     ],
-    [jobId],
+    [jobId, canRetry],
   );
 
   const table = useReactTable({
@@ -338,6 +411,9 @@ export function JobRowResultsTable({
 
   const successCount = rows?.filter((r) => r.status === "success").length ?? 0;
   const failedCount = rows?.filter((r) => r.status === "failed").length ?? 0;
+  const heldCount = rows?.filter((r) => r.status === "held").length ?? 0;
+  const skippedCount = rows?.filter((r) => r.status === "skipped").length ?? 0;
+  const unmappedCount = rows?.filter((r) => r.errorCategory === "unmapped_value").length ?? 0;
 
   if (isLoading) {
     return (
@@ -393,6 +469,45 @@ export function JobRowResultsTable({
           >
             Failed ({failedCount})
           </button>
+          {(heldCount > 0 || statusFilter === "held") && (
+            <button
+              onClick={() => onStatusFilterChange("held")}
+              className={cn(
+                "px-3 py-1.5 text-sm font-medium rounded-md transition-colors",
+                statusFilter === "held"
+                  ? "bg-amber-500/20 text-amber-600 ring-1 ring-amber-500/30"
+                  : "bg-muted/50 text-muted-foreground hover:bg-muted",
+              )}
+            >
+              Held ({heldCount})
+            </button>
+          )}
+          {(skippedCount > 0 || statusFilter === "skipped") && (
+            <button
+              onClick={() => onStatusFilterChange("skipped")}
+              className={cn(
+                "px-3 py-1.5 text-sm font-medium rounded-md transition-colors",
+                statusFilter === "skipped"
+                  ? "bg-muted text-foreground ring-1 ring-border"
+                  : "bg-muted/50 text-muted-foreground hover:bg-muted",
+              )}
+            >
+              Skipped ({skippedCount})
+            </button>
+          )}
+          {(unmappedCount > 0 || statusFilter === "unmapped") && (
+            <button
+              onClick={() => onStatusFilterChange("unmapped")}
+              className={cn(
+                "px-3 py-1.5 text-sm font-medium rounded-md transition-colors",
+                statusFilter === "unmapped"
+                  ? "bg-destructive/20 text-destructive ring-1 ring-destructive/30"
+                  : "bg-muted/50 text-muted-foreground hover:bg-muted",
+              )}
+            >
+              Unmapped Values ({unmappedCount})
+            </button>
+          )}
         </div>
         <div className="text-sm text-muted-foreground">{data.length} rows</div>
       </div>
@@ -423,7 +538,11 @@ export function JobRowResultsTable({
                       "cursor-pointer",
                       row.original.status === "success"
                         ? "bg-green-500/5 hover:bg-green-500/10"
-                        : "bg-destructive/5 hover:bg-destructive/10",
+                        : row.original.status === "held"
+                          ? "bg-amber-500/5 hover:bg-amber-500/10"
+                          : row.original.status === "skipped"
+                            ? "hover:bg-muted/50"
+                            : "bg-destructive/5 hover:bg-destructive/10",
                     )}
                     onClick={() => row.toggleExpanded()}
                   >
@@ -493,6 +612,16 @@ export function JobRowResultsTable({
           </Button>
         </div>
       </div>
+
+      {editingRow && (
+        <RowEditDialog
+          jobId={jobId}
+          rowId={editingRow.id}
+          rowIndex={editingRow.rowIndex}
+          open
+          onOpenChange={(open) => !open && setEditingRow(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,92 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
+import { History, Loader2 } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { StatusBadge, formatFullDateTime } from "@/components/job-status";
+import { queries } from "@/lib/queries";
+import { cn } from "@/lib/utils";
+
+/**
+ * Runs of a job with a watermark column: the first (full) run and every delta run after it.
+ * Each run lists the watermark it started from and the highest value it saw.
+ */
+export function JobRunHistory({ jobId }: { jobId: string }) {
+  const { data: runs, isLoading } = useQuery(queries.jobs.runs(jobId));
+
+  return (
+    <div className="flex flex-col gap-4">
+      <h2 className="flex items-center gap-2 text-lg font-semibold">
+        <History className="size-4" />
+        Run History
+      </h2>
+
+      {isLoading || !runs ? (
+        <div className="flex items-center justify-center h-24">
+          <Loader2 className="size-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Run</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Rows From</TableHead>
+                <TableHead>Highest Seen</TableHead>
+                <TableHead className="text-right">Migrated</TableHead>
+                <TableHead className="text-right">Failed</TableHead>
+                <TableHead className="text-right">Skipped</TableHead>
+                <TableHead>Completed</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map((run) => (
+                <TableRow key={run.id} className={cn(run.id === jobId && "bg-muted/50")}>
+                  <TableCell className="max-w-56 truncate">
+                    {run.id === jobId ? (
+                      <span className="font-medium">{run.name}</span>
+                    ) : (
+                      <Link
+                        to="/jobs/$jobId"
+                        params={{ jobId: run.id }}
+                        className="text-primary hover:underline"
+                      >
+                        {run.name}
+                      </Link>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <StatusBadge status={run.status} />
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {run.watermarkFrom ?? (run.deltaOfJobId ? "—" : "Full run")}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{run.watermarkValue ?? "—"}</TableCell>
+                  <TableCell className="text-right font-mono text-xs">
+                    {run.successfulRows}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-xs">
+                    {run.failedRowCount + run.heldRowCount}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-xs">
+                    {run.skippedRowCount}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {formatFullDateTime(run.completedAt)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
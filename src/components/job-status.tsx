@@ -1,6 +1,16 @@
-import { AlertCircle, CheckCircle, Clock, Loader2, XCircle } from "lucide-react";
+import {
+  AlertCircle,
+  CheckCircle,
+  ClipboardCheck,
+  Clock,
+  Loader2,
+  PauseCircle,
+  Undo2,
+  Unplug,
+  XCircle,
+} from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { JobStatus } from "@/api/client";
+import type { ErrorCategory, JobStatus } from "@/api/client";
 
 export function StatusIcon({ status, className }: { status: JobStatus; className?: string }) {
   switch (status) {
@@ -12,6 +22,14 @@ export function StatusIcon({ status, className }: { status: JobStatus; className
       return <AlertCircle className={cn("size-4 text-amber-500", className)} />;
     case "cancelled":
       return <XCircle className={cn("size-4 text-muted-foreground", className)} />;
+    case "paused":
+      return <PauseCircle className={cn("size-4 text-amber-500", className)} />;
+    case "interrupted":
+      return <Unplug className={cn("size-4 text-orange-500", className)} />;
+    case "validated":
+      return <ClipboardCheck className={cn("size-4 text-sky-600", className)} />;
+    case "rolled_back":
+      return <Undo2 className={cn("size-4 text-violet-600", className)} />;
     case "running":
       return <Loader2 className={cn("size-4 animate-spin text-primary", className)} />;
     case "queued":
@@ -28,6 +46,10 @@ export function StatusBadge({ status }: { status: JobStatus }) {
     failed: { label: "Failed", className: "bg-destructive/10 text-destructive" },
     partial: { label: "Partial", className: "bg-amber-500/10 text-amber-600" },
     cancelled: { label: "Cancelled", className: "bg-muted text-muted-foreground" },
+    paused: { label: "Paused", className: "bg-amber-500/10 text-amber-600" },
+    interrupted: { label: "Interrupted", className: "bg-orange-500/10 text-orange-600" },
+    validated: { label: "Validated", className: "bg-sky-500/10 text-sky-600" },
+    rolled_back: { label: "Rolled Back", className: "bg-violet-500/10 text-violet-600" },
   };
   const { label, className } = config[status];
 
@@ -81,7 +103,45 @@ export function formatTime(timestamp: string): string {
   });
 }
 
+/**
+ * Source row ranges (1-based, inclusive) covered by batches whose fetch failed.
+ * Adjacent batches are merged into one range. The end is null when the batch size is unknown.
+ */
+export function getMissingRowRanges(
+  failedQueryOffsets: string | null,
+  queryBatchSize: number | null,
+  totalRows: number | null,
+): { start: number; end: number | null }[] {
+  if (!failedQueryOffsets) return [];
+  const offsets = (JSON.parse(failedQueryOffsets) as number[]).toSorted((a, b) => a - b);
+  if (!queryBatchSize) return offsets.map((offset) => ({ start: offset + 1, end: null }));
+
+  const ranges: { start: number; end: number }[] = [];
+  for (const offset of offsets) {
+    const end = Math.min(offset + queryBatchSize, totalRows ?? offset + queryBatchSize);
+    const last = ranges.at(-1);
+    if (last && last.end === offset) {
+      last.end = end;
+    } else {
+      ranges.push({ start: offset + 1, end });
+    }
+  }
+  return ranges;
+}
+
 export function getProgressPercent(processedRows: number, totalRows: number | null): number {
   if (!totalRows || totalRows === 0) return 0;
   return Math.round((processedRows / totalRows) * 100);
 }
+
+export const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  unmapped_value: "Unmapped value",
+  invalid_value: "Invalid value",
+  validation: "Validation",
+  duplicate_key: "Duplicate key",
+  auth: "Authentication",
+  timeout: "Timeout",
+  connection: "Connection",
+  server_error: "Server error",
+  missing_parent: "Missing parent",
+};
@@ -0,0 +1,150 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, ShieldAlert, ShieldCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatFullDateTime } from "@/components/job-status";
+import { queries } from "@/lib/queries";
+import { cn } from "@/lib/utils";
+import type { FieldMismatch } from "@/lib/verification";
+import type { VerificationIssue, VerificationResult } from "@/api/client";
+
+const ISSUE_LABELS: Record<VerificationIssue, { label: string; className: string }> = {
+  mismatch: { label: "Mismatch", className: "bg-amber-500/10 text-amber-600" },
+  missing: { label: "Missing", className: "bg-destructive/10 text-destructive" },
+  error: { label: "Not checked", className: "bg-muted text-muted-foreground" },
+};
+
+const formatValue = (value: string | null) => (value === null ? "(empty)" : `"${value}"`);
+
+function ResultDetails({ result }: { result: VerificationResult }) {
+  switch (result.issue) {
+    case "missing":
+      return <span>The record was not found in the destination.</span>;
+    case "error":
+      return <span>{result.errorMessage}</span>;
+    case "mismatch": {
+      let mismatches: FieldMismatch[] = [];
+      try {
+        mismatches = JSON.parse(result.mismatches ?? "[]") as FieldMismatch[];
+      } catch {
+        // Leave the list empty
+      }
+      return (
+        <ul className="flex flex-col gap-0.5">
+          {mismatches.map((mismatch) => (
+            <li key={mismatch.property} className="font-mono">
+              <span className="text-foreground">{mismatch.property}</span>: expected{" "}
+              {formatValue(mismatch.expected)}, found {formatValue(mismatch.actual)}
+            </li>
+          ))}
+        </ul>
+      );
+    }
+  }
+}
+
+/**
+ * Latest verification of a job: record counts and the migrated rows whose destination record did
+ * not match the transformed source values. Renders nothing until the job has been verified.
+ */
+export function JobVerification({ jobId, migratedRows }: { jobId: string; migratedRows: number }) {
+  const { data: verification } = useQuery(queries.jobs.verification(jobId));
+
+  if (!verification) return null;
+
+  const issueCount = verification.results.length;
+  const countsDiffer =
+    verification.sourceCount !== null &&
+    verification.destinationCount !== null &&
+    verification.sourceCount !== verification.destinationCount;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <h2 className="flex items-center gap-2 text-lg font-semibold">
+        {verification.status === "completed" && issueCount === 0 ? (
+          <ShieldCheck className="size-4 text-green-600" />
+        ) : (
+          <ShieldAlert className="size-4" />
+        )}
+        Verification
+      </h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 border rounded-lg p-4">
+        <div className="flex flex-col gap-2">
+          <span className="text-xs text-muted-foreground font-medium">Status</span>
+          <span className="text-sm flex items-center gap-1.5">
+            {verification.status === "running" && <Loader2 className="size-3.5 animate-spin" />}
+            {verification.status === "running"
+              ? `Checked ${verification.checkedRows} of ${migratedRows}`
+              : verification.status === "completed"
+                ? `Completed ${formatFullDateTime(verification.completedAt)}`
+                : "Failed"}
+          </span>
+        </div>
+        <div className="flex flex-col gap-2">
+          <span className="text-xs text-muted-foreground font-medium">Matched</span>
+          <span className="text-sm font-mono">
+            {verification.matchedRows} / {verification.checkedRows}
+          </span>
+        </div>
+        <div className="flex flex-col gap-2">
+          <span className="text-xs text-muted-foreground font-medium">Source Rows</span>
+          <span className="text-sm font-mono">{verification.sourceCount ?? "—"}</span>
+        </div>
+        <div className="flex flex-col gap-2">
+          <span className="text-xs text-muted-foreground font-medium">Destination Records</span>
+          <span className={cn("text-sm font-mono", countsDiffer && "text-amber-600")}>
+            {verification.destinationCount ?? "—"}
+          </span>
+        </div>
+        {countsDiffer && (
+          <p className="col-span-2 md:col-span-4 text-xs text-muted-foreground">
+            The source and destination counts differ. The destination may hold records this job did
+            not create, or source rows may not have migrated.
+          </p>
+        )}
+        {verification.status === "failed" && verification.errorMessage && (
+          <p className="col-span-2 md:col-span-4 text-xs text-destructive">
+            {verification.errorMessage}
+          </p>
+        )}
+      </div>
+
+      {issueCount > 0 && (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-20">Row</TableHead>
+                <TableHead className="w-28">Issue</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {verification.results.map((result) => (
+                <TableRow key={result.id}>
+                  <TableCell className="font-mono text-xs">{result.rowIndex + 1}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary" className={ISSUE_LABELS[result.issue].className}>
+                      {ISSUE_LABELS[result.issue].label}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground whitespace-normal">
+                    <ResultDetails result={result} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState, useEffect, type FormEvent } from "react";
+import { AlertTriangle, ClipboardPaste, Plus, Trash2 } from "lucide-react";
+import { useCreateLookupTable, useUpdateLookupTable } from "@/lib/mutations";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  LOOKUP_FALLBACKS,
+  findDuplicateLookupSources,
+  parseLookupEntries,
+  type LookupEntry,
+  type LookupFallback,
+} from "@/lib/lookup-tables";
+import type { LookupTable } from "@/api/client";
+
+type LookupTableDialogProps = {
+  /** Table to edit, or null to create a new one */
+  lookupTable: LookupTable | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function LookupTableDialog({ lookupTable, open, onOpenChange }: LookupTableDialogProps) {
+  const createLookupTable = useCreateLookupTable();
+  const updateLookupTable = useUpdateLookupTable();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [fallback, setFallback] = useState<LookupFallback>("passThrough");
+  const [entries, setEntries] = useState<LookupEntry[]>([]);
+  const [pasteText, setPasteText] = useState("");
+  const [showPaste, setShowPaste] = useState(false);
+
+  // Reset form when the dialog opens or the table changes
+  useEffect(() => {
+    if (!open) return;
+    setName(lookupTable?.name ?? "");
+    setDescription(lookupTable?.description ?? "");
+    setFallback(lookupTable?.fallback ?? "passThrough");
+    setEntries(lookupTable ? (JSON.parse(lookupTable.entries) as LookupEntry[]) : []);
+    setPasteText("");
+    setShowPaste(false);
+  }, [lookupTable, open]);
+
+  const duplicates = findDuplicateLookupSources(entries);
+
+  const updateEntry = (index: number, entry: LookupEntry) =>
+    setEntries((prev) => prev.map((e, i) => (i === index ? entry : e)));
+
+  const handleImport = () => {
+    setEntries((prev) => [
+      ...prev.filter((e) => e.source.trim() !== "" || e.destination.trim() !== ""),
+      ...parseLookupEntries(pasteText),
+    ]);
+    setPasteText("");
+    setShowPaste(false);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const input = {
+      name: name.trim(),
+      description: description.trim() || null,
+      fallback,
+      entries,
+    };
+    const onSuccess = () => onOpenChange(false);
+    if (lookupTable) {
+      updateLookupTable.mutate({ id: lookupTable.id, ...input }, { onSuccess });
+    } else {
+      createLookupTable.mutate(input, { onSuccess });
+    }
+  };
+
+  const isValid = name.trim() !== "";
+  const isPending = createLookupTable.isPending || updateLookupTable.isPending;
+  const error = createLookupTable.error ?? updateLookupTable.error;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{lookupTable ? "Edit Lookup Table" : "New Lookup Table"}</DialogTitle>
+          <DialogDescription>
+            Translate source codes to destination codes. Matching ignores case and surrounding
+            whitespace.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="lookup-table-name">Name</Label>
+              <Input
+                id="lookup-table-name"
+                placeholder="e.g., Member Types"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="lookup-table-fallback">Unmatched Values</Label>
+              <Select value={fallback} onValueChange={(v) => setFallback(v as LookupFallback)}>
+                <SelectTrigger id="lookup-table-fallback" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(LOOKUP_FALLBACKS) as LookupFallback[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {LOOKUP_FALLBACKS[key].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {LOOKUP_FALLBACKS[fallback].description}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="lookup-table-description">Description</Label>
+            <Input
+              id="lookup-table-description"
+              placeholder="Optional"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <Label>Entries ({entries.length})</Label>
+              <div className="flex items-center gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-xs"
+                  onClick={() => setShowPaste((prev) => !prev)}
+                >
+                  <ClipboardPaste className="mr-1.5 size-3" />
+                  Paste
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-xs"
+                  onClick={() => setEntries((prev) => [...prev, { source: "", destination: "" }])}
+                >
+                  <Plus className="mr-1.5 size-3" />
+                  Add Entry
+                </Button>
+              </div>
+            </div>
+
+            {showPaste && (
+              <div className="flex flex-col gap-2 rounded-md border p-3">
+                <Textarea
+                  value={pasteText}
+                  onChange={(e) => setPasteText(e.target.value)}
+                  placeholder={
+                    "Paste two columns from a spreadsheet, or one pair per line:\nREG, Regular\nSTU, Student"
+                  }
+                  className="min-h-24 font-mono text-xs"
+                />
+                <div className="flex justify-end">
+                  <Button
+                    type="button"
+                    size="sm"
+                    className="h-8 text-xs"
+                    onClick={handleImport}
+                    disabled={parseLookupEntries(pasteText).length === 0}
+                  >
+                    Add {parseLookupEntries(pasteText).length} Entries
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {entries.length === 0 ? (
+              <p className="rounded-md border border-dashed py-6 text-center text-sm text-muted-foreground">
+                No entries yet
+              </p>
+            ) : (
+              <div className="flex max-h-72 flex-col gap-1.5 overflow-y-auto pr-1">
+                <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-[11px] font-bold text-muted-foreground uppercase tracking-widest">
+                  <span>Source Value</span>
+                  <span>Destination Value</span>
+                  <span className="w-8" />
+                </div>
+                {entries.map((entry, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                    <Input
+                      value={entry.source}
+                      onChange={(e) => updateEntry(index, { ...entry, source: e.target.value })}
+                      className="h-8 font-mono text-xs"
+                    />
+                    <Input
+                      value={entry.destination}
+                      onChange={(e) =>
+                        updateEntry(index, { ...entry, destination: e.target.value })
+                      }
+                      className="h-8 font-mono text-xs"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon-sm"
+                      onClick={() => setEntries((prev) => prev.filter((_, i) => i !== index))}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="size-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {duplicates.length > 0 && (
+              <div className="flex items-start gap-2 rounded-md bg-amber-500/10 px-2.5 py-2 text-xs text-amber-600">
+                <AlertTriangle className="size-3.5 mt-0.5 shrink-0" />
+                <span>Duplicate source values (the first entry wins): {duplicates.join(", ")}</span>
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+          <DialogFooter className="pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid || isPending}>
+              {isPending ? "Saving..." : lookupTable ? "Save Changes" : "Create Table"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -110,13 +110,17 @@ export function RunningJobIndicator() {
             <div className="flex flex-col flex-1 min-w-0">
               <span className="text-xs text-muted-foreground">Source</span>
               <span className="font-medium text-sm truncate">
-                {runningJob.sourceEnvironmentName}
+                {runningJob.sourceFileName ?? runningJob.sourceEnvironmentName}
               </span>
             </div>
             <ArrowRight className="size-4 text-muted-foreground shrink-0" />
             <div className="flex flex-col flex-1 min-w-0 text-right">
               <span className="text-xs text-muted-foreground">Destination</span>
-              <span className="font-medium text-sm truncate">{runningJob.destEnvironmentName}</span>
+              <span className="font-medium text-sm truncate">
+                {runningJob.destType === "file"
+                  ? runningJob.destEntityType
+                  : runningJob.destEnvironmentName}
+              </span>
             </div>
           </div>
 
@@ -147,7 +151,12 @@ export function RunningJobIndicator() {
           )}
 
           {/* Stats Grid */}
-          <div className="grid grid-cols-2 gap-3">
+          <div
+            className={cn(
+              "grid gap-3",
+              runningJob.skippedRowCount > 0 ? "grid-cols-3" : "grid-cols-2",
+            )}
+          >
             <div className="flex flex-col gap-1 p-3 bg-green-500/10 rounded-lg">
               <span className="text-xs text-muted-foreground">Successful</span>
               <span className="text-lg font-semibold text-green-600">
@@ -170,6 +179,14 @@ export function RunningJobIndicator() {
                 {runningJob.failedRowCount.toLocaleString()}
               </span>
             </div>
+            {runningJob.skippedRowCount > 0 && (
+              <div className="flex flex-col gap-1 p-3 bg-muted/30 rounded-lg">
+                <span className="text-xs text-muted-foreground">Skipped</span>
+                <span className="text-lg font-semibold text-muted-foreground">
+                  {runningJob.skippedRowCount.toLocaleString()}
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Failure Warning */}
@@ -0,0 +1,179 @@
+import { useState, useEffect, type FormEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useCreateSnapshot } from "@/lib/mutations";
+import { queries } from "@/lib/queries";
+import { useEnvironmentStore } from "@/stores/environment-store";
+import { defaultQueryParameters } from "@/lib/query-parameters";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DataSourceSelector } from "@/components/export/DataSourceSelector";
+import { QueryFileBrowser } from "@/components/export/QueryFileBrowser";
+import { QueryParametersEditor } from "@/components/export/QueryParametersEditor";
+import type { QueryParameterValue } from "@/api/client";
+
+type SnapshotMode = "datasource" | "query";
+
+type SnapshotDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function SnapshotDialog({ open, onOpenChange }: SnapshotDialogProps) {
+  const { selectedId: environmentId } = useEnvironmentStore();
+  const createSnapshot = useCreateSnapshot();
+  const [name, setName] = useState("");
+  const [mode, setMode] = useState<SnapshotMode>("datasource");
+  const [sourceEntityType, setSourceEntityType] = useState<string | null>(null);
+  const [sourceQueryPath, setSourceQueryPath] = useState<string | null>(null);
+  const [editedQueryParameters, setEditedQueryParameters] = useState<QueryParameterValue[] | null>(
+    null,
+  );
+
+  const { data: environments } = useQuery(queries.environments.all());
+  const environment = environments?.find((env) => env.id === environmentId);
+
+  // Prompted parameters of the selected query (null until edited, then the query's defaults apply)
+  const { data: queryDefinitionData } = useQuery({
+    ...queries.queryDefinition.byPath(environmentId, sourceQueryPath),
+    enabled: !!environmentId && !!sourceQueryPath && mode === "query",
+  });
+  const queryParameterDefinitions = queryDefinitionData?.Result?.Parameters.$values ?? [];
+  const queryParameters =
+    editedQueryParameters ?? defaultQueryParameters(queryParameterDefinitions);
+
+  // Reset form when the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName("");
+    setMode("datasource");
+    setSourceEntityType(null);
+    setSourceQueryPath(null);
+    setEditedQueryParameters(null);
+  }, [open]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!environmentId) return;
+    const onSuccess = () => onOpenChange(false);
+    if (mode === "query" && sourceQueryPath) {
+      createSnapshot.mutate(
+        {
+          name: name.trim(),
+          environmentId,
+          mode,
+          sourceQueryPath,
+          ...(queryParameters.length > 0 ? { queryParameters } : {}),
+        },
+        { onSuccess },
+      );
+    } else if (mode === "datasource" && sourceEntityType) {
+      createSnapshot.mutate(
+        { name: name.trim(), environmentId, mode, sourceEntityType },
+        { onSuccess },
+      );
+    }
+  };
+
+  const hasSource = mode === "query" ? sourceQueryPath !== null : sourceEntityType !== null;
+  const isValid = name.trim() !== "" && environmentId !== null && hasSource;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Snapshot</DialogTitle>
+          <DialogDescription>
+            Capture the rows of a data source or query from {environment?.name ?? "the selected"}{" "}
+            environment. Jobs can then read the snapshot instead of the live source.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="snapshot-name">Name</Label>
+              <Input
+                id="snapshot-name"
+                placeholder="e.g., Members before cutover"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label>Source</Label>
+              <div className="flex w-fit rounded-lg border border-border p-1 bg-muted/30">
+                {(["datasource", "query"] as const).map((value) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setMode(value)}
+                    className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                      mode === value
+                        ? "bg-background text-foreground shadow-sm"
+                        : "text-muted-foreground hover:text-foreground"
+                    }`}
+                  >
+                    {value === "datasource" ? "Data Source" : "Query"}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {mode === "datasource" ? (
+            <DataSourceSelector
+              environmentId={environmentId}
+              selectedEntityType={sourceEntityType}
+              onSelect={(source) => setSourceEntityType(source.entityTypeName)}
+              title="Select Data Source"
+              description="Choose the data source whose rows are captured."
+            />
+          ) : (
+            <>
+              <QueryFileBrowser
+                environmentId={environmentId}
+                environmentVersion={environment?.version}
+                selectedQueryPath={sourceQueryPath}
+                onSelect={(path) => {
+                  setSourceQueryPath(path);
+                  setEditedQueryParameters(null);
+                }}
+                title="Select Query"
+                description="Browse the CMS to find the query (IQA) whose rows are captured."
+              />
+              {queryParameterDefinitions.length > 0 && (
+                <QueryParametersEditor
+                  parameters={queryParameterDefinitions}
+                  values={queryParameters}
+                  onChange={setEditedQueryParameters}
+                />
+              )}
+            </>
+          )}
+
+          {createSnapshot.error && (
+            <p className="text-sm text-destructive">{createSnapshot.error.message}</p>
+          )}
+
+          <DialogFooter className="pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid || createSnapshot.isPending}>
+              {createSnapshot.isPending ? "Starting..." : "Capture Snapshot"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
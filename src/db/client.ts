@@ -28,6 +28,9 @@ function getDbPath(): string {
 const dbPath = getDbPath();
 const dbDir = dirname(dbPath);
 
+// Folder holding the database (file destinations write their output under it too)
+export const dataDir = dbDir;
+
 if (!existsSync(dbDir)) {
   mkdirSync(dbDir, { recursive: true });
 }
@@ -0,0 +1,2 @@
+ALTER TABLE `attempts` ADD `outcome` text;--> statement-breakpoint
+ALTER TABLE `jobs` ADD `write_mode` text DEFAULT 'insert' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `jobs` ADD `parent_job_id` text;--> statement-breakpoint
+ALTER TABLE `jobs` ADD `parent_source_property` text;--> statement-breakpoint
+ALTER TABLE `jobs` ADD `parent_key_property` text;--> statement-breakpoint
+ALTER TABLE `rows` ADD `held_reason` text;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `crosswalk` (
+	`id` text PRIMARY KEY NOT NULL,
+	`source_environment_id` text NOT NULL,
+	`source_entity` text NOT NULL,
+	`source_key` text NOT NULL,
+	`dest_environment_id` text NOT NULL,
+	`dest_entity_type` text NOT NULL,
+	`dest_identity` text NOT NULL,
+	`job_id` text NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `crosswalk_source_dest_idx` ON `crosswalk` (`source_environment_id`,`source_entity`,`source_key`,`dest_environment_id`,`dest_entity_type`);--> statement-breakpoint
+CREATE INDEX `crosswalk_job_id_idx` ON `crosswalk` (`job_id`);--> statement-breakpoint
+ALTER TABLE `jobs` ADD `source_key_property` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `jobs` ADD `dry_run` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `jobs` ADD `query_batch_size` integer;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `lookup_tables` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`fallback` text DEFAULT 'passThrough' NOT NULL,
+	`entries` text NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `attempts` ADD `error_category` text;--> statement-breakpoint
+ALTER TABLE `rows` ADD `error_category` text;
\ No newline at end of file
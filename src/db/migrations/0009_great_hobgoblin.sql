@@ -0,0 +1 @@
+ALTER TABLE `jobs` ADD `row_filter` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `jobs` ADD `query_parameters` text;
\ No newline at end of file
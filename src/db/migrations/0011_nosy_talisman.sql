@@ -0,0 +1,4 @@
+ALTER TABLE `jobs` ADD `watermark_column` text;--> statement-breakpoint
+ALTER TABLE `jobs` ADD `watermark_from` text;--> statement-breakpoint
+ALTER TABLE `jobs` ADD `watermark_value` text;--> statement-breakpoint
+ALTER TABLE `jobs` ADD `delta_of_job_id` text;
\ No newline at end of file
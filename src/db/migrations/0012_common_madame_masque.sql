@@ -0,0 +1,26 @@
+CREATE TABLE `verification_results` (
+	`id` text PRIMARY KEY NOT NULL,
+	`verification_id` text NOT NULL,
+	`row_id` text NOT NULL,
+	`row_index` integer NOT NULL,
+	`issue` text NOT NULL,
+	`mismatches` text,
+	`error_message` text,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `verification_results_verification_id_idx` ON `verification_results` (`verification_id`);--> statement-breakpoint
+CREATE TABLE `verifications` (
+	`id` text PRIMARY KEY NOT NULL,
+	`job_id` text NOT NULL,
+	`status` text NOT NULL,
+	`source_count` integer,
+	`destination_count` integer,
+	`checked_rows` integer DEFAULT 0 NOT NULL,
+	`matched_rows` integer DEFAULT 0 NOT NULL,
+	`error_message` text,
+	`started_at` text NOT NULL,
+	`completed_at` text
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `verifications_job_id_idx` ON `verifications` (`job_id`);
\ No newline at end of file
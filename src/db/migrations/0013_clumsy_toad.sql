@@ -0,0 +1,26 @@
+CREATE TABLE `rollback_attempts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`rollback_id` text NOT NULL,
+	`row_id` text NOT NULL,
+	`row_index` integer NOT NULL,
+	`success` integer NOT NULL,
+	`not_found` integer DEFAULT false NOT NULL,
+	`error_message` text,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `rollback_attempts_rollback_id_idx` ON `rollback_attempts` (`rollback_id`);--> statement-breakpoint
+CREATE INDEX `rollback_attempts_row_id_idx` ON `rollback_attempts` (`row_id`);--> statement-breakpoint
+CREATE TABLE `rollbacks` (
+	`id` text PRIMARY KEY NOT NULL,
+	`job_id` text NOT NULL,
+	`status` text NOT NULL,
+	`total_rows` integer DEFAULT 0 NOT NULL,
+	`deleted_rows` integer DEFAULT 0 NOT NULL,
+	`failed_rows` integer DEFAULT 0 NOT NULL,
+	`error_message` text,
+	`started_at` text NOT NULL,
+	`completed_at` text
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `rollbacks_job_id_idx` ON `rollbacks` (`job_id`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `attempts` ADD `http_status` integer;--> statement-breakpoint
+ALTER TABLE `attempts` ADD `response_excerpt` text;--> statement-breakpoint
+ALTER TABLE `attempts` ADD `duration_ms` integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `attempts` ADD `edited_properties` text;--> statement-breakpoint
+ALTER TABLE `rows` ADD `encrypted_edits` text;
\ No newline at end of file
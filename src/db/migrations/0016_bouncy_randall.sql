@@ -0,0 +1,10 @@
+CREATE TABLE `source_files` (
+	`job_id` text PRIMARY KEY NOT NULL,
+	`format` text NOT NULL,
+	`columns` text NOT NULL,
+	`encrypted_rows` text NOT NULL,
+	`row_count` integer NOT NULL,
+	`created_at` text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE `jobs` ADD `source_file_name` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `jobs` ADD `dest_file_format` text;--> statement-breakpoint
+ALTER TABLE `jobs` ADD `dest_file_path` text;
\ No newline at end of file
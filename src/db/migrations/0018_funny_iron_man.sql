@@ -0,0 +1,26 @@
+CREATE TABLE `snapshot_pages` (
+	`id` text PRIMARY KEY NOT NULL,
+	`snapshot_id` text NOT NULL,
+	`offset` integer NOT NULL,
+	`row_count` integer NOT NULL,
+	`encrypted_rows` text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `snapshot_pages_snapshot_id_idx` ON `snapshot_pages` (`snapshot_id`,`offset`);--> statement-breakpoint
+CREATE TABLE `snapshots` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`status` text NOT NULL,
+	`environment_id` text NOT NULL,
+	`mode` text NOT NULL,
+	`source_query_path` text,
+	`query_parameters` text,
+	`source_entity_type` text,
+	`total_rows` integer,
+	`row_count` integer DEFAULT 0 NOT NULL,
+	`error_message` text,
+	`created_at` text NOT NULL,
+	`captured_at` text
+);
+--> statement-breakpoint
+ALTER TABLE `jobs` ADD `source_snapshot_id` text;
\ No newline at end of file
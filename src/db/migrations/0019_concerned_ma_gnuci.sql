@@ -0,0 +1,2 @@
+ALTER TABLE `snapshots` ADD `diff_base_snapshot_id` text;--> statement-breakpoint
+ALTER TABLE `snapshots` ADD `diff_compare_snapshot_id` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `jobs` ADD `older_row_count` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
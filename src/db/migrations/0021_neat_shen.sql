@@ -0,0 +1,2 @@
+ALTER TABLE `jobs` ADD `runner_pid` integer;--> statement-breakpoint
+ALTER TABLE `jobs` ADD `runner_heartbeat_at` text;
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, index, uniqueIndex } from "drizzle-orm/sqlite-core";
 
 // iMIS version type - EMS (cloud) or 2017 (on-premise)
 export type ImisVersion = "EMS" | "2017";
@@ -47,26 +47,66 @@ export type NewEnvironment = typeof environments.$inferInsert;
 // ---------------------
 
 // Job status type
-export type JobStatus = "queued" | "running" | "completed" | "failed" | "partial" | "cancelled";
-export type JobMode = "query" | "datasource";
-export type DestinationType = "bo_entity" | "custom_endpoint";
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "partial"
+  | "cancelled"
+  | "paused" // Stopped scheduling batches; resumable from the rows already stored
+  | "interrupted" // Was running when the app exited; resumable like a paused job
+  | "validated" // Dry run finished (nothing was written)
+  | "rolled_back"; // Every record the job created was deleted from the destination again
+// "file" jobs read an uploaded CSV or XLSX file (see the source_files table) instead of an environment
+export type JobMode = "query" | "datasource" | "file";
+// "file" destinations write the transformed rows to a local file instead of an environment
+export type DestinationType = "bo_entity" | "custom_endpoint" | "file";
+export type DestinationFileFormat = "csv" | "ndjson" | "parquet";
+// How rows are written to the destination: always POST, only PUT existing records, or either
+export type WriteMode = "insert" | "update" | "upsert";
 
 // Jobs table - tracks migration jobs
 export const jobs = sqliteTable("jobs", {
   id: text("id").primaryKey(),
   name: text("name").notNull(), // User-provided job name
-  status: text("status").notNull().$type<JobStatus>(), // queued | running | completed | failed | partial | cancelled
-  mode: text("mode").notNull().$type<JobMode>(), // "query" | "datasource"
+  status: text("status").notNull().$type<JobStatus>(), // queued | running | completed | failed | partial | cancelled | paused | interrupted | validated | rolled_back
+  mode: text("mode").notNull().$type<JobMode>(), // "query" | "datasource" | "file"
 
-  // Source config
+  // Source config (file jobs use the destination environment, whose password encrypts the file's rows)
   sourceEnvironmentId: text("source_environment_id").notNull(),
   sourceQueryPath: text("source_query_path"), // For query mode
+  queryParameters: text("query_parameters"), // JSON stringified QueryParameterValue[] (query mode, in prompt order)
   sourceEntityType: text("source_entity_type"), // For datasource mode
+  sourceFileName: text("source_file_name"), // For file mode
+  sourceSnapshotId: text("source_snapshot_id"), // Snapshot read instead of the source environment (query and datasource modes)
 
-  // Destination config
+  // Destination config (file destinations use the source environment and the file name as entity type)
   destEnvironmentId: text("dest_environment_id").notNull(),
   destEntityType: text("dest_entity_type").notNull(),
   destType: text("dest_type").$type<DestinationType>().notNull().default("bo_entity"),
+  writeMode: text("write_mode").$type<WriteMode>().notNull().default("insert"), // insert | update | upsert
+  dryRun: integer("dry_run", { mode: "boolean" }).notNull().default(false), // Validate rows against the destination without writing
+  destFileFormat: text("dest_file_format").$type<DestinationFileFormat>(), // For file destinations
+  destFilePath: text("dest_file_path"), // Output file of a file destination
+
+  // Parent job link (child jobs remap a source column to the identities created by the parent job)
+  parentJobId: text("parent_job_id"), // Job whose rows this job's rows refer to
+  parentSourceProperty: text("parent_source_property"), // Source column in this job holding the parent reference
+  parentKeyProperty: text("parent_key_property"), // Source column in the parent job that the reference matches
+
+  // Source column holding each row's key for the ID crosswalk (defaults to the source identity fields)
+  sourceKeyProperty: text("source_key_property"),
+
+  // Source rows to migrate (JSON stringified RowFilter, null migrates every row)
+  rowFilter: text("row_filter"),
+
+  // Incremental (delta) runs - the watermark is a source column such as UpdatedOn
+  watermarkColumn: text("watermark_column"),
+  watermarkFrom: text("watermark_from"), // Delta runs only migrate rows newer than this (null for a full run)
+  watermarkValue: text("watermark_value"), // Highest watermark seen by this run
+  olderRowCount: integer("older_row_count").notNull().default(0), // Delta run rows not newer than watermarkFrom (counted, not stored)
+  deltaOfJobId: text("delta_of_job_id"), // First run of the job this delta run follows (null for the first run)
 
   // Mapping (JSON stringified PropertyMapping[])
   mappings: text("mappings").notNull(),
@@ -76,6 +116,7 @@ export const jobs = sqliteTable("jobs", {
 
   // Error tracking for failed queries
   failedQueryOffsets: text("failed_query_offsets"), // JSON array of offsets that failed
+  queryBatchSize: integer("query_batch_size"), // Page size the source was fetched with (failed offsets are re-fetched with it)
 
   // Identity field names for the destination entity (JSON array of field names like ["ID", "Ordinal"])
   identityFieldNames: text("identity_field_names"),
@@ -83,6 +124,10 @@ export const jobs = sqliteTable("jobs", {
   // Error message for failed jobs (pre-validation failures, etc.)
   errorMessage: text("error_message"),
 
+  // Process running the job (the app or the CLI) and when it last reported; null when none runs it
+  runnerPid: integer("runner_pid"),
+  runnerHeartbeatAt: text("runner_heartbeat_at"),
+
   // Timing
   startedAt: text("started_at"),
   completedAt: text("completed_at"),
@@ -93,12 +138,43 @@ export const jobs = sqliteTable("jobs", {
 export type Job = typeof jobs.$inferSelect;
 export type NewJob = typeof jobs.$inferInsert;
 
+// Source files table - the rows of a file job's uploaded file (one per file job)
+export const sourceFiles = sqliteTable("source_files", {
+  jobId: text("job_id").primaryKey(),
+  format: text("format").notNull().$type<"csv" | "xlsx">(),
+  columns: text("columns").notNull(), // JSON stringified SourceFileColumn[] (in file order)
+  encryptedRows: text("encrypted_rows").notNull(), // Encrypted JSON of the file's rows
+  rowCount: integer("row_count").notNull(),
+  createdAt: text("created_at").notNull(),
+});
+
+// Type inference helpers for source files
+export type SourceFile = typeof sourceFiles.$inferSelect;
+export type NewSourceFile = typeof sourceFiles.$inferInsert;
+
 // ---------------------
 // Row and Attempt Tables
 // ---------------------
 
 // Row status type - derived from whether any attempt succeeded
-export type RowStatus = "success" | "failed";
+// "held" rows were never sent because their parent row (from the parent job) did not migrate
+// "skipped" rows did not match the job's row filter and are never sent
+export type RowStatus = "success" | "failed" | "held" | "skipped";
+
+// Why a row failed
+// unmapped_value: a lookup table with the "fail" fallback had no entry for the source value
+// invalid_value: the value could not be converted to the destination type by the mapping's coercion
+// The other categories classify failed writes (see WriteErrorCategory in lib/error-classification)
+export type ErrorCategory =
+  | "unmapped_value"
+  | "invalid_value"
+  | "validation"
+  | "duplicate_key"
+  | "auth"
+  | "timeout"
+  | "connection"
+  | "server_error"
+  | "missing_parent";
 
 // Rows table - unified table for all rows (replaces failedRows + successRows)
 export const rows = sqliteTable(
@@ -111,12 +187,22 @@ export const rows = sqliteTable(
     // Encrypted source data for retry capability (always stored)
     encryptedPayload: text("encrypted_payload").notNull(),
 
+    // Manual corrections to the transformed values, applied on every retry
+    // (encrypted JSON of destination property -> value; null when the row was never edited)
+    encryptedEdits: text("encrypted_edits"),
+
     // Stored for query efficiency (denormalized from attempts)
     status: text("status").notNull().$type<RowStatus>(),
 
     // Identity elements from successful insert (null if failed)
     identityElements: text("identity_elements"),
 
+    // Why the row was held back instead of being sent (only set for "held" rows)
+    heldReason: text("held_reason"),
+
+    // Category of the latest failed attempt (denormalized from attempts for filtering)
+    errorCategory: text("error_category").$type<ErrorCategory>(),
+
     createdAt: text("created_at").notNull(),
     updatedAt: text("updated_at").notNull(),
   },
@@ -133,6 +219,9 @@ export type NewRow = typeof rows.$inferInsert;
 // Attempt reason type
 export type AttemptReason = "initial" | "auto_retry" | "manual_retry";
 
+// What a successful attempt did to the destination record
+export type AttemptOutcome = "created" | "updated" | "unchanged";
+
 // Attempts table - individual insert attempt records
 export const attempts = sqliteTable(
   "attempts",
@@ -146,11 +235,23 @@ export const attempts = sqliteTable(
     // Result
     success: integer("success", { mode: "boolean" }).notNull(),
     errorMessage: text("error_message"),
+    errorCategory: text("error_category").$type<ErrorCategory>(), // null when uncategorized
 
     // Identity elements if successful
     identityElements: text("identity_elements"),
 
-    createdAt: text("created_at").notNull(),
+    // Whether the destination record was created, updated or left unchanged (null if failed)
+    outcome: text("outcome").$type<AttemptOutcome>(),
+
+    // Properties whose values were manually edited before the attempt (JSON string[], else null)
+    editedProperties: text("edited_properties"),
+
+    // The HTTP request this attempt sent (all null when nothing was sent, e.g. mapping problems)
+    httpStatus: integer("http_status"), // null when no response was received
+    responseExcerpt: text("response_excerpt"), // Start of the response body
+    durationMs: integer("duration_ms"),
+
+    createdAt: text("created_at").notNull(), // When the request was sent
   },
   (table) => [index("attempts_row_id_idx").on(table.rowId)],
 );
@@ -159,6 +260,237 @@ export const attempts = sqliteTable(
 export type Attempt = typeof attempts.$inferSelect;
 export type NewAttempt = typeof attempts.$inferInsert;
 
+// ---------------------
+// Crosswalk Table
+// ---------------------
+
+// Crosswalk table - persistent "old ID → new ID" record of every row a job wrote to a destination
+export const crosswalk = sqliteTable(
+  "crosswalk",
+  {
+    id: text("id").primaryKey(),
+
+    // Source side
+    sourceEnvironmentId: text("source_environment_id").notNull(),
+    sourceEntity: text("source_entity").notNull(), // Source entity type (datasource) or query path (query)
+    sourceKey: text("source_key").notNull(), // Source key value (composite keys joined with "|")
+
+    // Destination side
+    destEnvironmentId: text("dest_environment_id").notNull(),
+    destEntityType: text("dest_entity_type").notNull(),
+    destIdentity: text("dest_identity").notNull(), // JSON stringified string[] identity elements
+
+    // Job that last wrote this mapping
+    jobId: text("job_id").notNull(),
+
+    createdAt: text("created_at").notNull(),
+    updatedAt: text("updated_at").notNull(),
+  },
+  (table) => [
+    uniqueIndex("crosswalk_source_dest_idx").on(
+      table.sourceEnvironmentId,
+      table.sourceEntity,
+      table.sourceKey,
+      table.destEnvironmentId,
+      table.destEntityType,
+    ),
+    index("crosswalk_job_id_idx").on(table.jobId),
+  ],
+);
+
+// Type inference helpers for crosswalk
+export type CrosswalkEntry = typeof crosswalk.$inferSelect;
+export type NewCrosswalkEntry = typeof crosswalk.$inferInsert;
+
+// ---------------------
+// Verification Tables
+// ---------------------
+
+// Verification status - "running" while destination records are being read back
+export type VerificationStatus = "running" | "completed" | "failed";
+
+// Why a migrated row did not verify: a field differs, the record is gone, or it could not be checked
+export type VerificationIssue = "mismatch" | "missing" | "error";
+
+// Verifications table - the latest post-migration check of a job's destination records (one per job)
+export const verifications = sqliteTable(
+  "verifications",
+  {
+    id: text("id").primaryKey(),
+    jobId: text("job_id").notNull(),
+    status: text("status").notNull().$type<VerificationStatus>(),
+
+    // Record counts when verified (null when the count could not be fetched)
+    sourceCount: integer("source_count"),
+    destinationCount: integer("destination_count"), // All records of the destination entity
+
+    // Migrated rows read back so far, and how many of them matched
+    checkedRows: integer("checked_rows").notNull().default(0),
+    matchedRows: integer("matched_rows").notNull().default(0),
+
+    errorMessage: text("error_message"),
+    startedAt: text("started_at").notNull(),
+    completedAt: text("completed_at"),
+  },
+  (table) => [uniqueIndex("verifications_job_id_idx").on(table.jobId)],
+);
+
+// Type inference helpers for verifications
+export type Verification = typeof verifications.$inferSelect;
+export type NewVerification = typeof verifications.$inferInsert;
+
+// Verification results - migrated rows whose destination record did not match (matches are only counted)
+export const verificationResults = sqliteTable(
+  "verification_results",
+  {
+    id: text("id").primaryKey(),
+    verificationId: text("verification_id").notNull(),
+    rowId: text("row_id").notNull(),
+    rowIndex: integer("row_index").notNull(),
+    issue: text("issue").notNull().$type<VerificationIssue>(),
+    mismatches: text("mismatches"), // JSON stringified FieldMismatch[] (only for "mismatch")
+    errorMessage: text("error_message"), // Why the row could not be checked (only for "error")
+    createdAt: text("created_at").notNull(),
+  },
+  (table) => [index("verification_results_verification_id_idx").on(table.verificationId)],
+);
+
+// Type inference helpers for verification results
+export type VerificationResult = typeof verificationResults.$inferSelect;
+export type NewVerificationResult = typeof verificationResults.$inferInsert;
+
+// ---------------------
+// Rollback Tables
+// ---------------------
+
+// Rollback status - "running" while destination records are being deleted
+export type RollbackStatus = "running" | "completed" | "failed";
+
+// Rollbacks table - progress of deleting the records a job created (one per job, reused when run again)
+export const rollbacks = sqliteTable(
+  "rollbacks",
+  {
+    id: text("id").primaryKey(),
+    jobId: text("job_id").notNull(),
+    status: text("status").notNull().$type<RollbackStatus>(),
+
+    // Records the job created, and how many of them have been deleted or failed to delete so far
+    totalRows: integer("total_rows").notNull().default(0),
+    deletedRows: integer("deleted_rows").notNull().default(0),
+    failedRows: integer("failed_rows").notNull().default(0),
+
+    errorMessage: text("error_message"),
+    startedAt: text("started_at").notNull(),
+    completedAt: text("completed_at"),
+  },
+  (table) => [uniqueIndex("rollbacks_job_id_idx").on(table.jobId)],
+);
+
+// Type inference helpers for rollbacks
+export type Rollback = typeof rollbacks.$inferSelect;
+export type NewRollback = typeof rollbacks.$inferInsert;
+
+// Rollback attempts - individual DELETE attempt records for a job's rows
+export const rollbackAttempts = sqliteTable(
+  "rollback_attempts",
+  {
+    id: text("id").primaryKey(),
+    rollbackId: text("rollback_id").notNull(),
+    rowId: text("row_id").notNull(),
+    rowIndex: integer("row_index").notNull(),
+
+    // Result
+    success: integer("success", { mode: "boolean" }).notNull(),
+    notFound: integer("not_found", { mode: "boolean" }).notNull().default(false), // The record was already gone
+    errorMessage: text("error_message"),
+
+    createdAt: text("created_at").notNull(),
+  },
+  (table) => [
+    index("rollback_attempts_rollback_id_idx").on(table.rollbackId),
+    index("rollback_attempts_row_id_idx").on(table.rowId),
+  ],
+);
+
+// Type inference helpers for rollback attempts
+export type RollbackAttempt = typeof rollbackAttempts.$inferSelect;
+export type NewRollbackAttempt = typeof rollbackAttempts.$inferInsert;
+
+// ---------------------
+// Lookup Tables
+// ---------------------
+
+// What happens to a source value that has no entry in a lookup table
+export type LookupFallback = "passThrough" | "null" | "fail";
+
+// Lookup tables - reusable source value → destination value code tables referenced by mappings
+export const lookupTables = sqliteTable("lookup_tables", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  fallback: text("fallback").notNull().$type<LookupFallback>().default("passThrough"), // passThrough | null | fail
+  entries: text("entries").notNull(), // JSON stringified LookupEntry[]
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+});
+
+// Type inference helpers for lookup tables
+export type LookupTable = typeof lookupTables.$inferSelect;
+export type NewLookupTable = typeof lookupTables.$inferInsert;
+
+// ---------------------
+// Snapshot Tables
+// ---------------------
+
+// Snapshot status - "capturing" while source pages are being fetched
+export type SnapshotStatus = "capturing" | "ready" | "failed";
+
+// Snapshots - a data source or IQA query captured once, so jobs can read its rows offline
+export const snapshots = sqliteTable("snapshots", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  status: text("status").notNull().$type<SnapshotStatus>(), // capturing | ready | failed
+
+  // Source captured (same fields as a job's source config)
+  environmentId: text("environment_id").notNull(),
+  mode: text("mode").notNull().$type<"query" | "datasource">(),
+  sourceQueryPath: text("source_query_path"), // For query mode
+  queryParameters: text("query_parameters"), // JSON stringified QueryParameterValue[] (query mode, in prompt order)
+  sourceEntityType: text("source_entity_type"), // For datasource mode
+
+  // Set on snapshots of the rows that changed between two captures (see SnapshotService.createFromDiff)
+  diffBaseSnapshotId: text("diff_base_snapshot_id"), // Earlier capture
+  diffCompareSnapshotId: text("diff_compare_snapshot_id"), // Later capture (the rows are its rows)
+
+  totalRows: integer("total_rows"), // Source row count (set after the first page)
+  rowCount: integer("row_count").notNull().default(0), // Rows stored so far
+
+  errorMessage: text("error_message"),
+  createdAt: text("created_at").notNull(), // When the capture started
+  capturedAt: text("captured_at"), // When the last page was stored
+});
+
+// Type inference helpers for snapshots
+export type Snapshot = typeof snapshots.$inferSelect;
+export type NewSnapshot = typeof snapshots.$inferInsert;
+
+// Snapshot pages - the captured rows, one page per source fetch (encrypted with the source password)
+export const snapshotPages = sqliteTable(
+  "snapshot_pages",
+  {
+    id: text("id").primaryKey(),
+    snapshotId: text("snapshot_id").notNull(),
+    offset: integer("offset").notNull(), // Source offset of the page's first row
+    rowCount: integer("row_count").notNull(),
+    encryptedRows: text("encrypted_rows").notNull(), // Encrypted JSON of the page's rows
+  },
+  (table) => [index("snapshot_pages_snapshot_id_idx").on(table.snapshotId, table.offset)],
+);
+
+// Type inference helpers for snapshot pages
+export type SnapshotPage = typeof snapshotPages.$inferSelect;
+export type NewSnapshotPage = typeof snapshotPages.$inferInsert;
+
 // ---------------------
 // Observability Tables
 // ---------------------
@@ -13,7 +13,10 @@ import { PersistenceServiceLive } from "./services/persistence";
 import { SessionServiceLive } from "./services/session";
 import { ImisApiServiceLive } from "./services/imis-api";
 import { TraceStoreService, TraceStoreServiceLive, TracerLive } from "./services/trace-store";
-import { MigrationJobServiceLive } from "./services/migration-job";
+import { MigrationJobService, MigrationJobServiceLive } from "./services/migration-job";
+import { CrosswalkServiceLive } from "./services/crosswalk";
+import { LookupTableServiceLive } from "./services/lookup-tables";
+import { SnapshotServiceLive } from "./services/snapshots";
 
 // ---------------------
 // Service Layers
@@ -25,6 +28,9 @@ const ServicesLive = Layer.mergeAll(
   SessionServiceLive,
   ImisApiServiceLive,
   TraceStoreServiceLive,
+  CrosswalkServiceLive,
+  LookupTableServiceLive,
+  SnapshotServiceLive,
   MigrationJobServiceLive,
 );
 
@@ -119,4 +125,20 @@ Effect.runPromise(
   ),
 );
 
+// Jobs still marked running were cut off when the app last exited; mark them interrupted
+// so they can be resumed from the jobs page
+Effect.runPromise(
+  MigrationJobService.recoverInterruptedJobs().pipe(
+    Effect.tap((interrupted) =>
+      interrupted.length > 0
+        ? Effect.log(
+            `Marked ${interrupted.length} interrupted job(s) for resume: ${interrupted.map((job) => job.name).join(", ")}`,
+          )
+        : Effect.void,
+    ),
+    Effect.catchAll((error) => Effect.log(`Failed to recover interrupted jobs: ${error.message}`)),
+    Effect.provide(MigrationJobServiceLive),
+  ),
+);
+
 console.log(`🚀 Server running at ${server.url}`);
@@ -0,0 +1,184 @@
+import { parseArgs } from "node:util";
+import type { JobMode, JobStatus, JobWithCounts } from "../api/schemas";
+
+// ---------------------
+// Headless CLI
+// ---------------------
+
+export const CLI_USAGE = `Usage: bun run cli <command> [options]
+
+Commands:
+  environments list                    List environments
+  jobs list                            List jobs with their status and row counts
+  jobs create <spec.json> [--run]      Create a job from a JSON spec, optionally running it
+  jobs run <jobId>                     Run a queued job (or resume a paused one) with live progress
+  jobs retry <jobId>                   Retry the failed rows of a job
+  jobs export <jobId> [--crosswalk]    Export the failed rows (or the ID crosswalk) as CSV
+
+Options:
+  --json           Print lists as JSON
+  --out <file>     Write an export to a file instead of stdout
+  -h, --help       Show this help
+
+Passwords are read from IMIGRATE_PASSWORD_<ENVIRONMENT_NAME> (e.g. IMIGRATE_PASSWORD_PRODUCTION),
+then IMIGRATE_PASSWORD, and are prompted for when running in a terminal.
+
+Exit codes: 0 completed, 1 failed or stopped, 2 finished with failed rows, 64 usage error.`;
+
+export type CliCommand =
+  | { readonly command: "help" }
+  | { readonly command: "environments.list"; readonly json: boolean }
+  | { readonly command: "jobs.list"; readonly json: boolean }
+  | { readonly command: "jobs.create"; readonly specPath: string; readonly run: boolean }
+  | { readonly command: "jobs.run"; readonly jobId: string }
+  | { readonly command: "jobs.retry"; readonly jobId: string }
+  | {
+      readonly command: "jobs.export";
+      readonly jobId: string;
+      readonly crosswalk: boolean;
+      readonly out: string | null;
+    };
+
+export type ParseCliResult =
+  | { readonly ok: true; readonly command: CliCommand }
+  | { readonly ok: false; readonly message: string };
+
+export const EXIT_USAGE = 64;
+
+/**
+ * Parse the CLI arguments (without the runtime and script path) into a command.
+ */
+export const parseCliArgs = (args: readonly string[]): ParseCliResult => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: [...args],
+      allowPositionals: true,
+      options: {
+        json: { type: "boolean", default: false },
+        run: { type: "boolean", default: false },
+        crosswalk: { type: "boolean", default: false },
+        out: { type: "string" },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    return { ok: false, message: error instanceof Error ? error.message : String(error) };
+  }
+  const { values, positionals } = parsed;
+  const [group, action, argument, ...extra] = positionals;
+
+  if (values.help || group === undefined || group === "help") {
+    return { ok: true, command: { command: "help" } };
+  }
+  if (extra.length > 0) {
+    return { ok: false, message: `Unexpected argument: ${extra[0]}` };
+  }
+
+  if (group === "environments" && action === "list") {
+    return { ok: true, command: { command: "environments.list", json: values.json } };
+  }
+  if (group === "jobs" && action === "list") {
+    return { ok: true, command: { command: "jobs.list", json: values.json } };
+  }
+  if (
+    group !== "jobs" ||
+    (action !== "create" && action !== "run" && action !== "retry" && action !== "export")
+  ) {
+    return { ok: false, message: `Unknown command: ${[group, action].join(" ").trim()}` };
+  }
+  if (argument === undefined) {
+    const name = action === "create" ? "spec.json" : "jobId";
+    return { ok: false, message: `Missing <${name}> for "jobs ${action}"` };
+  }
+
+  switch (action) {
+    case "create":
+      return { ok: true, command: { command: "jobs.create", specPath: argument, run: values.run } };
+    case "run":
+    case "retry":
+      return { ok: true, command: { command: `jobs.${action}`, jobId: argument } };
+    case "export":
+      return {
+        ok: true,
+        command: {
+          command: "jobs.export",
+          jobId: argument,
+          crosswalk: values.crosswalk,
+          out: values.out ?? null,
+        },
+      };
+  }
+};
+
+/**
+ * Name of the environment variable holding an environment's password
+ * (e.g. "Prod (US)" → IMIGRATE_PASSWORD_PROD_US).
+ */
+export const passwordEnvVar = (environmentName: string): string => {
+  const suffix = environmentName
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return suffix ? `IMIGRATE_PASSWORD_${suffix}` : "IMIGRATE_PASSWORD";
+};
+
+/**
+ * Environment whose password must be unlocked before creating a job, or null if none is needed.
+ * File jobs read from the destination environment, whose password encrypts the uploaded rows.
+ */
+export const creationEnvironmentId = (request: {
+  readonly mode: JobMode;
+  readonly destEnvironmentId: string;
+}): string | null => (request.mode === "file" ? request.destEnvironmentId : null);
+
+/**
+ * Process exit code for the status a job finished in.
+ * Completed jobs and finished dry runs succeed; partial runs have failed rows to retry or export.
+ */
+export const exitCodeForStatus = (status: JobStatus): number => {
+  switch (status) {
+    case "completed":
+    case "validated":
+      return 0;
+    case "partial":
+      return 2;
+    default:
+      return 1;
+  }
+};
+
+/**
+ * One progress line for a job, e.g. "[running] 1200/5000 rows (24%), 1180 succeeded, 20 failed".
+ */
+export const formatJobProgress = (job: JobWithCounts): string => {
+  const total = job.totalRows;
+  const rowsText =
+    total !== null && total > 0
+      ? `${job.processedRows}/${total} rows (${Math.floor((job.processedRows / total) * 100)}%)`
+      : `${job.processedRows} rows`;
+  const counts = [
+    `${job.successfulRows} succeeded`,
+    `${job.failedRowCount} failed`,
+    ...(job.heldRowCount > 0 ? [`${job.heldRowCount} held`] : []),
+    ...(job.skippedRowCount > 0 ? [`${job.skippedRowCount} skipped`] : []),
+  ];
+  return `[${job.status}] ${rowsText}, ${counts.join(", ")}`;
+};
+
+/**
+ * Lay out rows (the first being the header) as left-aligned columns.
+ */
+export const formatTable = (rows: readonly (readonly string[])[]): string => {
+  const widths = rows[0]?.map((_, column) =>
+    Math.max(...rows.map((row) => (row[column] ?? "").length)),
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths?.[column] ?? 0))
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n");
+};
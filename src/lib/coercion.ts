@@ -0,0 +1,152 @@
+import { formatDateParts, parseDateParts } from "./transforms";
+
+// ---------------------
+// Types
+// ---------------------
+
+export type NumericTypeName = "Integer" | "Decimal" | "Monetary";
+
+/**
+ * Explicit conversion of a mapped value to the destination property type, applied after transforms.
+ * - Date: text read with an optional token format (yyyy, MM, dd, HH, mm, ss), written as ISO
+ * - Integer/Decimal/Monetary: text read with the given decimal separator (thousands separators
+ *   and currency symbols are ignored)
+ * - Boolean: true/false, yes/no, y/n and 1/0
+ * - String: the value's text
+ */
+export type TypeCoercion =
+  | { to: "Date"; inputFormat?: string }
+  | { to: NumericTypeName; decimalSeparator: "." | "," }
+  | { to: "Boolean" }
+  | { to: "String" };
+
+export type CoercionTarget = TypeCoercion["to"];
+
+// Result of converting one value
+export type CoercionResult = { ok: true; value: unknown } | { ok: false; message: string };
+
+// Format dates are written in (accepted by iMIS for Date properties)
+export const COERCED_DATE_FORMAT = "yyyy-MM-ddTHH:mm:ss";
+
+// ---------------------
+// Helpers
+// ---------------------
+
+const NUMERIC_TYPES: readonly string[] = ["Integer", "Decimal", "Monetary"];
+
+const TRUE_VALUES = ["true", "yes", "y", "1"];
+const FALSE_VALUES = ["false", "no", "n", "0"];
+
+const isNumericType = (typeName: string): typeName is NumericTypeName =>
+  NUMERIC_TYPES.includes(typeName);
+
+/**
+ * The conversion the mapper offers when a source type is mapped to a different destination type.
+ * Returns null when the types match or no conversion exists (e.g. Date → Integer, Binary).
+ */
+export const availableCoercion = (sourceType: string, destType: string): TypeCoercion | null => {
+  if (sourceType === destType || sourceType === "Binary") return null;
+
+  if (destType === "String") return { to: "String" };
+  if (isNumericType(destType)) {
+    return sourceType === "String" || sourceType === "Boolean" || isNumericType(sourceType)
+      ? { to: destType, decimalSeparator: "." }
+      : null;
+  }
+  if (destType === "Boolean") {
+    return sourceType === "String" || isNumericType(sourceType) ? { to: "Boolean" } : null;
+  }
+  if (destType === "Date") {
+    return sourceType === "String" ? { to: "Date" } : null;
+  }
+  return null;
+};
+
+const describeValue = (value: unknown): string =>
+  typeof value === "string" ? JSON.stringify(value) : String(value);
+
+const fail = (value: unknown, to: CoercionTarget, reason?: string): CoercionResult => ({
+  ok: false,
+  message: `Cannot convert ${describeValue(value)} to ${to}${reason ? `: ${reason}` : ""}`,
+});
+
+const parseNumberText = (text: string, decimalSeparator: "." | ","): number | null => {
+  const thousandsSeparator = decimalSeparator === "." ? "," : ".";
+  const cleaned = text
+    .replace(/[\s$€£¥]/g, "")
+    .split(thousandsSeparator)
+    .join("")
+    .replace(decimalSeparator, ".");
+  return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(cleaned) ? Number(cleaned) : null;
+};
+
+/**
+ * Convert a value to the coercion's target type.
+ * Null and undefined pass through; blank text becomes null for every target except String.
+ * Values that cannot be converted fail with a message naming the value and the reason.
+ */
+export const coerceValue = (value: unknown, coercion: TypeCoercion): CoercionResult => {
+  if (value === null || value === undefined) return { ok: true, value };
+  if (typeof value === "object") {
+    return { ok: false, message: `Cannot convert a binary value to ${coercion.to}` };
+  }
+  if (coercion.to === "String") return { ok: true, value: String(value) };
+
+  const text = String(value).trim();
+  if (typeof value === "string" && text === "") return { ok: true, value: null };
+
+  switch (coercion.to) {
+    case "Integer":
+    case "Decimal":
+    case "Monetary": {
+      const parsed =
+        typeof value === "number"
+          ? value
+          : typeof value === "boolean"
+            ? Number(value)
+            : parseNumberText(text, coercion.decimalSeparator);
+      if (parsed === null || !Number.isFinite(parsed)) return fail(value, coercion.to);
+      if (coercion.to === "Integer" && !Number.isInteger(parsed)) {
+        return fail(value, coercion.to, "not a whole number");
+      }
+      return { ok: true, value: parsed };
+    }
+    case "Boolean": {
+      const key = text.toLowerCase();
+      if (TRUE_VALUES.includes(key)) return { ok: true, value: true };
+      if (FALSE_VALUES.includes(key)) return { ok: true, value: false };
+      return fail(value, coercion.to);
+    }
+    case "Date": {
+      if (typeof value !== "string") return fail(value, coercion.to, "not text");
+      const parts = parseDateParts(text, coercion.inputFormat);
+      if (!parts) {
+        return fail(
+          value,
+          coercion.to,
+          coercion.inputFormat
+            ? `does not match format ${coercion.inputFormat}`
+            : "not a recognizable date",
+        );
+      }
+      return { ok: true, value: formatDateParts(parts, COERCED_DATE_FORMAT) };
+    }
+  }
+};
+
+/**
+ * Short human-readable summary of a conversion (e.g. "Date (dd/MM/yyyy)")
+ */
+export const describeCoercion = (coercion: TypeCoercion): string => {
+  switch (coercion.to) {
+    case "Date":
+      return coercion.inputFormat ? `Date (${coercion.inputFormat})` : "Date";
+    case "Integer":
+    case "Decimal":
+    case "Monetary":
+      return `${coercion.to} (${coercion.decimalSeparator === "," ? "1.234,5" : "1,234.5"})`;
+    case "Boolean":
+    case "String":
+      return coercion.to;
+  }
+};
@@ -0,0 +1,71 @@
+/**
+ * Escape a single CSV field (RFC 4180).
+ * Fields containing commas, quotes or line breaks are quoted; embedded quotes are doubled.
+ */
+export function escapeCsvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV document from a header row and data rows.
+ * Uses CRLF line endings so the file opens cleanly in Excel.
+ */
+export function toCsv(headers: readonly string[], rows: readonly (readonly unknown[])[]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * Parse a CSV document (RFC 4180) into rows of fields.
+ * Accepts quoted fields with embedded delimiters, quotes and line breaks, CRLF or LF line endings
+ * and a leading byte order mark (as saved by Excel). Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter: string = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else quoted = false;
+    } else if (char === '"') quoted = true;
+    else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") endRow();
+    else if (char !== "\r") field += char;
+  }
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Trigger a browser download of a CSV document
+ */
+export function downloadCsv(csv: string, filename: string): void {
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
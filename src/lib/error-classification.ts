@@ -0,0 +1,126 @@
+// ---------------------
+// Types
+// ---------------------
+
+/**
+ * Why a write to the destination failed.
+ * - validation: iMIS rejected the record's values (400/422 responses)
+ * - duplicate_key: a record with the same key already exists
+ * - auth: the destination credentials were missing or rejected (401/403)
+ * - timeout: the request timed out (408/504 responses or client timeouts)
+ * - connection: the destination could not be reached
+ * - server_error: iMIS failed while handling the request (other 5xx responses)
+ * - missing_parent: the parent record the row belongs to does not exist in the destination
+ */
+export type WriteErrorCategory =
+  | "validation"
+  | "duplicate_key"
+  | "auth"
+  | "timeout"
+  | "connection"
+  | "server_error"
+  | "missing_parent";
+
+// What is known about a failed write request
+export type WriteFailure = {
+  status: number | null; // null when no response was received
+  body: string | null; // Response body (or its start)
+  message: string;
+};
+
+// ---------------------
+// Helpers
+// ---------------------
+
+// Longest plain-text response body used as an error detail
+const MAX_DETAIL_LENGTH = 300;
+
+// Keys of iMIS (and ASP.NET) error bodies that hold human-readable messages
+const MESSAGE_KEYS = new Set(["Message", "ExceptionMessage", "message", "error_description"]);
+
+const DUPLICATE_KEY = /duplicate|already exists|unique (key|constraint|index)|primary key/i;
+const MISSING_PARENT = /parent\b.*\b(not found|does not exist|not exist|invalid|missing)/i;
+const FOREIGN_KEY = /foreign key/i;
+const AUTH = /unauthori[sz]ed|forbidden|access (is )?denied|authenticat|password not set/i;
+const TIMEOUT = /time(d)?[ -]?out/i;
+const CONNECTION = /failed to connect|econnrefused|econnreset|enotfound|network/i;
+
+// Collect message strings from a parsed error body, in document order
+const collectMessages = (value: unknown, found: string[]): string[] => {
+  if (Array.isArray(value)) {
+    for (const item of value) collectMessages(item, found);
+  } else if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      if (MESSAGE_KEYS.has(key) && typeof child === "string") {
+        const text = child.trim();
+        if (text !== "" && !found.includes(text)) found.push(text);
+      } else {
+        collectMessages(child, found);
+      }
+    }
+  }
+  return found;
+};
+
+/**
+ * Human-readable messages in an iMIS error response.
+ * JSON bodies (validation results, ASP.NET errors) yield every Message/ExceptionMessage they
+ * contain; short plain-text bodies are used as they are. HTML pages and empty bodies yield nothing.
+ */
+export const extractErrorMessages = (body: string | null): string[] => {
+  const text = body?.trim() ?? "";
+  if (text === "" || text.startsWith("<")) return [];
+  if (text.startsWith("{") || text.startsWith("[")) {
+    try {
+      return collectMessages(JSON.parse(text), []);
+    } catch {
+      // A truncated JSON body has no usable messages
+      return [];
+    }
+  }
+  return text.length <= MAX_DETAIL_LENGTH ? [text] : [];
+};
+
+/**
+ * Error message for a failed write, with the messages from the iMIS response appended.
+ */
+export const describeWriteFailure = (failure: WriteFailure): string => {
+  const messages = extractErrorMessages(failure.body);
+  return messages.length > 0 ? `${failure.message}: ${messages.join("; ")}` : failure.message;
+};
+
+/**
+ * Category of a failed write, from its HTTP status and the messages in the response.
+ * Duplicate keys and missing parents are recognized from the message text (iMIS reports both as
+ * 400 or 500 responses); null when nothing identifies the cause.
+ */
+export const classifyWriteFailure = (failure: WriteFailure): WriteErrorCategory | null => {
+  const { status } = failure;
+  const text = [failure.message, ...extractErrorMessages(failure.body)].join(" ");
+
+  if (status === 401 || status === 403 || (status === null && AUTH.test(text))) return "auth";
+  if (status === 408 || status === 504 || TIMEOUT.test(text)) return "timeout";
+  if (status === 409 || DUPLICATE_KEY.test(text)) return "duplicate_key";
+  if (MISSING_PARENT.test(text) || FOREIGN_KEY.test(text)) return "missing_parent";
+  if (status === 400 || status === 422) return "validation";
+  if (status !== null && status >= 500) return "server_error";
+  if (status === null && CONNECTION.test(text)) return "connection";
+  return null;
+};
+
+const QUOTED = /"[^"]*"|'[^']*'/g;
+const GUID = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+// Numbers other than HTTP status codes ("status 400")
+const NUMBER = /(?<!status )\b\d+(\.\d+)?\b/g;
+
+/**
+ * Error message with its row-specific values (quoted text, IDs, numbers) replaced by placeholders,
+ * so failures with the same cause group together.
+ */
+export const normalizeErrorMessage = (message: string): string =>
+  message
+    .replace(QUOTED, '"…"')
+    .replace(GUID, "<id>")
+    .replace(NUMBER, "#")
+    .replace(/\s+/g, " ")
+    .trim();
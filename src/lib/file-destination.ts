@@ -0,0 +1,69 @@
+import type { PropertyMapping } from "../api/schemas";
+import { escapeCsvField } from "./csv";
+import type { ParquetValue } from "./parquet";
+
+// ---------------------
+// Types
+// ---------------------
+
+export type FileFormat = "csv" | "ndjson" | "parquet";
+
+// ---------------------
+// Helpers
+// ---------------------
+
+/**
+ * Columns of a file destination: the mapped destination properties, in mapping order.
+ */
+export const fileColumns = (mappings: readonly PropertyMapping[]): string[] => [
+  ...new Set(
+    mappings.flatMap((mapping) =>
+      mapping.destinationProperty !== null ? [mapping.destinationProperty] : [],
+    ),
+  ),
+];
+
+/**
+ * A transformed value as written to a file. Binary values are written as their base64 text.
+ */
+export const fileValue = (value: unknown): ParquetValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+  if (typeof value === "object" && "$value" in value && typeof value.$value === "string") {
+    return value.$value;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * The header line of a CSV file destination (CRLF line endings, as toCsv writes them).
+ */
+export const csvHeaderLine = (columns: readonly string[]): string =>
+  columns.map(escapeCsvField).join(",") + "\r\n";
+
+/**
+ * A row as a CSV line, with its values in column order.
+ */
+export const csvRowLine = (columns: readonly string[], row: Readonly<Record<string, unknown>>) =>
+  columns.map((column) => escapeCsvField(fileValue(row[column]))).join(",") + "\r\n";
+
+/**
+ * A row as a newline-delimited JSON line, with a key for every column.
+ */
+export const ndjsonRowLine = (
+  columns: readonly string[],
+  row: Readonly<Record<string, unknown>>,
+): string =>
+  JSON.stringify(Object.fromEntries(columns.map((column) => [column, fileValue(row[column])]))) +
+  "\n";
+
+/**
+ * Parse newline-delimited JSON rows (as written by ndjsonRowLine). Blank lines are skipped.
+ */
+export const parseNdjsonRows = (text: string): Record<string, ParquetValue>[] =>
+  text
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line) as Record<string, ParquetValue>);
@@ -0,0 +1,135 @@
+// ---------------------
+// Types
+// ---------------------
+
+// What happens to a source value that has no entry in a lookup table
+export type LookupFallback = "passThrough" | "null" | "fail";
+
+// One source code → destination code pair
+export type LookupEntry = {
+  source: string;
+  destination: string;
+};
+
+// The parts of a stored lookup table needed to translate values
+export type LookupTableDefinition = {
+  id: string;
+  name: string;
+  fallback: LookupFallback;
+  entries: readonly LookupEntry[];
+};
+
+// Result of translating one value
+export type LookupResult = { ok: true; value: unknown } | { ok: false; message: string };
+
+export const LOOKUP_FALLBACKS: Record<LookupFallback, { label: string; description: string }> = {
+  passThrough: {
+    label: "Pass through",
+    description: "Keep the source value unchanged",
+  },
+  null: {
+    label: "Null",
+    description: "Write null instead of the source value",
+  },
+  fail: {
+    label: "Fail the row",
+    description: "Fail the row as an unmapped value",
+  },
+};
+
+// ---------------------
+// Helpers
+// ---------------------
+
+/**
+ * Key a value is matched on: trimmed text, case-insensitive.
+ * Returns null for empty values and values that are not strings, numbers or booleans.
+ */
+export const toLookupKey = (value: unknown): string | null => {
+  if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+    return null;
+  }
+  const key = String(value).trim().toLowerCase();
+  return key === "" ? null : key;
+};
+
+/**
+ * Build a matching index for a table's entries.
+ * When two entries share a key the first one wins.
+ */
+export const buildLookupIndex = (entries: readonly LookupEntry[]): Map<string, string> => {
+  const index = new Map<string, string>();
+  for (const entry of entries) {
+    const key = toLookupKey(entry.source);
+    if (key !== null && !index.has(key)) {
+      index.set(key, entry.destination);
+    }
+  }
+  return index;
+};
+
+// Matching indexes built once per table definition
+const indexCache = new WeakMap<LookupTableDefinition, ReadonlyMap<string, string>>();
+
+const lookupIndexFor = (table: LookupTableDefinition): ReadonlyMap<string, string> => {
+  let index = indexCache.get(table);
+  if (!index) {
+    index = buildLookupIndex(table.entries);
+    indexCache.set(table, index);
+  }
+  return index;
+};
+
+/**
+ * Translate a value through a lookup table.
+ * Empty values are never looked up and pass through unchanged; values without an entry
+ * follow the table's fallback rule.
+ */
+export const applyLookup = (value: unknown, table: LookupTableDefinition): LookupResult => {
+  if (value === null || value === undefined || value === "") return { ok: true, value };
+
+  const key = toLookupKey(value);
+  const mapped = key === null ? undefined : lookupIndexFor(table).get(key);
+  if (mapped !== undefined) return { ok: true, value: mapped };
+
+  switch (table.fallback) {
+    case "passThrough":
+      return { ok: true, value };
+    case "null":
+      return { ok: true, value: null };
+    case "fail":
+      return {
+        ok: false,
+        message: `No entry for ${JSON.stringify(value)} in lookup table "${table.name}"`,
+      };
+  }
+};
+
+/**
+ * Source values that appear more than once in a table (after trimming and ignoring case)
+ */
+export const findDuplicateLookupSources = (entries: readonly LookupEntry[]): string[] => {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const entry of entries) {
+    const key = toLookupKey(entry.source);
+    if (key === null) continue;
+    if (seen.has(key)) duplicates.add(entry.source.trim());
+    seen.add(key);
+  }
+  return [...duplicates];
+};
+
+/**
+ * Parse pasted "source<TAB or comma>destination" lines (e.g. copied from Excel) into entries.
+ * Blank lines and lines without a separator are skipped.
+ */
+export const parseLookupEntries = (text: string): LookupEntry[] =>
+  text.split(/\r?\n/).flatMap((line) => {
+    const separator = line.includes("\t") ? "\t" : ",";
+    const at = line.indexOf(separator);
+    if (at === -1) return [];
+    const source = line.slice(0, at).trim();
+    const destination = line.slice(at + 1).trim();
+    return source === "" ? [] : [{ source, destination }];
+  });
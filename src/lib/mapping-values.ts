@@ -0,0 +1,124 @@
+// ---------------------
+// Types
+// ---------------------
+
+export type GeneratedValueKind = "jobId" | "timestamp" | "rowNumber" | "uuid";
+
+/**
+ * A destination value that does not come from a single source column.
+ * - constant: the same value for every row (e.g. a Status code)
+ * - template: source columns combined with literal text, e.g. "{Address1}, {City} {Zip}"
+ * - generated: a value supplied by the runner (job ID, timestamp, row number, UUID)
+ */
+export type MappingValue =
+  | { kind: "constant"; value: string | number | boolean | null }
+  | { kind: "template"; template: string }
+  | { kind: "generated"; generator: GeneratedValueKind };
+
+// Per-row information available to generated values
+export type RowContext = {
+  jobId: string;
+  rowIndex: number;
+};
+
+export const GENERATED_VALUE_KINDS: Record<GeneratedValueKind, string> = {
+  jobId: "Job ID",
+  timestamp: "Migration timestamp",
+  rowNumber: "Source row number",
+  uuid: "New UUID",
+};
+
+// ---------------------
+// Helpers
+// ---------------------
+
+const TEMPLATE_PLACEHOLDER = /\{([^{}]+)\}/g;
+
+/**
+ * Whether a mapping takes a computed value instead of a source column
+ */
+export const isComputedMapping = (mapping: { value?: MappingValue }): boolean =>
+  mapping.value !== undefined;
+
+/**
+ * Source columns a template refers to, in order of first use
+ */
+export const templateSourceProperties = (template: string): string[] => [
+  ...new Set([...template.matchAll(TEMPLATE_PLACEHOLDER)].map((match) => match[1]!.trim())),
+];
+
+/**
+ * Fill a template's {Column} placeholders from a source row.
+ * Null and missing values become empty text.
+ */
+export const renderTemplate = (template: string, row: Record<string, unknown>): string =>
+  template.replace(TEMPLATE_PLACEHOLDER, (_, name: string) => {
+    const value = row[name.trim()];
+    if (value === null || value === undefined) return "";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  });
+
+/**
+ * Resolve a computed mapping's value for one row.
+ * Without a row context (e.g. previews) job IDs and row numbers resolve to null.
+ */
+export const resolveMappingValue = (
+  mappingValue: MappingValue,
+  row: Record<string, unknown>,
+  context?: RowContext,
+): unknown => {
+  switch (mappingValue.kind) {
+    case "constant":
+      return mappingValue.value;
+    case "template":
+      return renderTemplate(mappingValue.template, row);
+    case "generated":
+      switch (mappingValue.generator) {
+        case "jobId":
+          return context?.jobId ?? null;
+        case "timestamp":
+          return new Date().toISOString();
+        case "rowNumber":
+          return context ? context.rowIndex + 1 : null;
+        case "uuid":
+          return crypto.randomUUID();
+      }
+  }
+};
+
+/**
+ * Convert constant text entered in the mapper to the destination property's type.
+ * Text that does not fit the type is kept as text (the destination reports the error).
+ */
+export const parseConstantValue = (
+  text: string,
+  propertyTypeName: string,
+): string | number | boolean | null => {
+  if (text === "") return null;
+  switch (propertyTypeName) {
+    case "Boolean":
+      return text.toLowerCase() === "true" ? true : text.toLowerCase() === "false" ? false : text;
+    case "Integer":
+    case "Decimal":
+    case "Monetary": {
+      const parsed = Number(text);
+      return text.trim() !== "" && !Number.isNaN(parsed) ? parsed : text;
+    }
+    default:
+      return text;
+  }
+};
+
+/**
+ * Short human-readable summary of a computed value
+ */
+export const describeMappingValue = (mappingValue: MappingValue): string => {
+  switch (mappingValue.kind) {
+    case "constant":
+      return mappingValue.value === null ? "null" : JSON.stringify(mappingValue.value);
+    case "template":
+      return mappingValue.template;
+    case "generated":
+      return GENERATED_VALUE_KINDS[mappingValue.generator];
+  }
+};
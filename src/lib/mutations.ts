@@ -1,5 +1,6 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { queries } from "./queries";
+import { downloadCsv } from "./csv";
 import {
   createEnvironment,
   updateEnvironment,
@@ -7,18 +8,38 @@ import {
   setPassword,
   clearPassword,
   testConnection,
+  previewSourceFile,
   retrySingleRow,
+  retryFailureGroup,
+  skipFailureGroup,
+  exportFailedRows,
+  importRowCorrections,
   enablePasswordStorage,
   disablePasswordStorage,
   verifyMasterPassword,
   changeMasterPassword,
   lockPasswords,
   setVerboseLogging,
+  createLookupTable,
+  updateLookupTable,
+  deleteLookupTable,
+  createSnapshot,
+  createSnapshotFromDiff,
+  deleteSnapshot,
   type Environment,
   type CreateEnvironment,
+  type CreateLookupTable,
+  type UpdateLookupTable,
+  type CreateSnapshot,
+  type CreateSnapshotFromDiff,
+  type FailureGroup,
+  type RowEdits,
+  type SourceFileUpload,
 } from "@/api/client";
 
 // Types for mutation inputs
+type FailureGroupKey = Pick<FailureGroup, "category" | "message">;
+
 type UpdateEnvironmentInput = {
   id: string;
   updates: Partial<
@@ -116,6 +137,17 @@ export const useTestConnection = () => {
   });
 };
 
+// ============================================
+// Source File Mutations
+// ============================================
+
+// Read an uploaded file's columns and first rows (nothing is stored until a job is created)
+export const usePreviewSourceFile = () => {
+  return useMutation({
+    mutationFn: (upload: SourceFileUpload) => previewSourceFile(upload),
+  });
+};
+
 // ============================================
 // Job Mutations
 // ============================================
@@ -138,6 +170,153 @@ export const useRetrySingleRow = (jobId: string) => {
   });
 };
 
+// Retry a failed row with manually edited values (the edits are kept for later retries)
+export const useRetryEditedRow = (jobId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ rowId, edits }: { rowId: string; edits: RowEdits }) =>
+      retrySingleRow(rowId, edits),
+    onSuccess: (_, { rowId }) => {
+      queryClient.invalidateQueries(queries.jobs.rows(jobId));
+      // Attempt history and the payload (stored edits) of this row
+      queryClient.invalidateQueries({ queryKey: ["rows", rowId] });
+      queryClient.invalidateQueries(queries.jobs.byId(jobId));
+      queryClient.invalidateQueries(queries.jobs.failureGroups(jobId));
+      queryClient.invalidateQueries(queries.jobs.all());
+    },
+  });
+};
+
+// Retry the failed rows of one failure group
+export const useRetryFailureGroup = (jobId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (group: FailureGroupKey) => retryFailureGroup({ jobId, ...group }),
+    onSuccess: () => {
+      // Rows, attempts, counts and the groups themselves all change
+      queryClient.invalidateQueries({ queryKey: ["jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["rows"] });
+    },
+  });
+};
+
+// Mark the failed rows of one failure group as skipped
+export const useSkipFailureGroup = (jobId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (group: FailureGroupKey) => skipFailureGroup({ jobId, ...group }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["jobs"] });
+    },
+  });
+};
+
+// Export a job's failed rows as CSV and download it
+export const useExportFailedRows = (jobId: string) => {
+  return useMutation({
+    mutationFn: () => exportFailedRows(jobId),
+    onSuccess: (csv) => {
+      downloadCsv(csv, `failed-rows-${jobId}.csv`);
+    },
+  });
+};
+
+// Apply an edited failed rows export (the rows stay failed until they are retried)
+export const useImportRowCorrections = (jobId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (csv: string) => importRowCorrections({ jobId, csv }),
+    onSuccess: () => {
+      // Stored payloads and edits changed; the row payload is what the edit dialog shows
+      queryClient.invalidateQueries({ queryKey: ["rows"] });
+    },
+  });
+};
+
+// ============================================
+// Lookup Table Mutations
+// ============================================
+
+// Create a lookup table
+export const useCreateLookupTable = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateLookupTable) => createLookupTable(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries(queries.lookupTables.all());
+    },
+  });
+};
+
+// Update a lookup table
+export const useUpdateLookupTable = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: UpdateLookupTable) => updateLookupTable(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries(queries.lookupTables.all());
+    },
+  });
+};
+
+// Delete a lookup table
+export const useDeleteLookupTable = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteLookupTable(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries(queries.lookupTables.all());
+    },
+  });
+};
+
+// ============================================
+// Snapshot Mutations
+// ============================================
+
+// Create a snapshot (its rows are captured in the background)
+export const useCreateSnapshot = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateSnapshot) => createSnapshot(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries(queries.snapshots.all());
+    },
+  });
+};
+
+// Store the rows changed between two snapshots as a new snapshot
+export const useCreateSnapshotFromDiff = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateSnapshotFromDiff) => createSnapshotFromDiff(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries(queries.snapshots.all());
+    },
+  });
+};
+
+// Delete a snapshot and its rows
+export const useDeleteSnapshot = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteSnapshot(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries(queries.snapshots.all());
+    },
+  });
+};
+
 // ============================================
 // Settings Mutations
 // ============================================
@@ -0,0 +1,289 @@
+// ---------------------
+// Types
+// ---------------------
+
+// A value written to a Parquet column
+export type ParquetValue = string | number | boolean | null;
+
+// Physical type of a column, inferred from its values
+export type ParquetColumnType = "BOOLEAN" | "INT64" | "DOUBLE" | "BYTE_ARRAY";
+
+// ---------------------
+// Thrift compact protocol
+// ---------------------
+
+// Compact protocol type ids (the file metadata only needs these)
+const I32 = 5;
+const I64 = 6;
+const BINARY = 8;
+const LIST = 9;
+const STRUCT = 12;
+
+type ThriftValue =
+  | { type: typeof I32 | typeof I64; value: number }
+  | { type: typeof BINARY; value: string }
+  | { type: typeof LIST; elementType: number; values: ThriftValue[] }
+  | { type: typeof STRUCT; fields: ThriftField[] };
+
+// Field id and value of a struct field (undefined fields are left out)
+type ThriftField = [id: number, value: ThriftValue | undefined];
+
+const i32 = (value: number): ThriftValue => ({ type: I32, value });
+const i64 = (value: number): ThriftValue => ({ type: I64, value });
+const binary = (value: string): ThriftValue => ({ type: BINARY, value });
+const list = (elementType: number, values: ThriftValue[]): ThriftValue => ({
+  type: LIST,
+  elementType,
+  values,
+});
+const struct = (...fields: ThriftField[]): ThriftValue => ({ type: STRUCT, fields });
+
+const writeVarint = (out: number[], value: number) => {
+  while (value >= 0x80) {
+    out.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  out.push(value);
+};
+
+const zigzag = (value: number): number => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+const writeThrift = (out: number[], value: ThriftValue) => {
+  switch (value.type) {
+    case I32:
+    case I64:
+      writeVarint(out, zigzag(value.value));
+      return;
+    case BINARY: {
+      const bytes = new TextEncoder().encode(value.value);
+      writeVarint(out, bytes.length);
+      out.push(...bytes);
+      return;
+    }
+    case LIST:
+      if (value.values.length < 15) out.push((value.values.length << 4) | value.elementType);
+      else {
+        out.push(0xf0 | value.elementType);
+        writeVarint(out, value.values.length);
+      }
+      for (const element of value.values) writeThrift(out, element);
+      return;
+    case STRUCT: {
+      let lastId = 0;
+      for (const [id, field] of value.fields) {
+        if (!field) continue;
+        const delta = id - lastId;
+        if (delta > 0 && delta <= 15) out.push((delta << 4) | field.type);
+        else {
+          out.push(field.type);
+          writeVarint(out, zigzag(id));
+        }
+        writeThrift(out, field);
+        lastId = id;
+      }
+      out.push(0);
+      return;
+    }
+  }
+};
+
+const encodeThrift = (value: ThriftValue): Uint8Array => {
+  const out: number[] = [];
+  writeThrift(out, value);
+  return Uint8Array.from(out);
+};
+
+// ---------------------
+// Parquet format constants
+// ---------------------
+
+const MAGIC = new TextEncoder().encode("PAR1");
+
+const PHYSICAL_TYPES: Record<ParquetColumnType, number> = {
+  BOOLEAN: 0,
+  INT64: 2,
+  DOUBLE: 5,
+  BYTE_ARRAY: 6,
+};
+
+const REPETITION_OPTIONAL = 1;
+const CONVERTED_TYPE_UTF8 = 0;
+const ENCODING_PLAIN = 0;
+const ENCODING_RLE = 3;
+const CODEC_UNCOMPRESSED = 0;
+const PAGE_TYPE_DATA = 0;
+
+// ---------------------
+// Encoding
+// ---------------------
+
+/**
+ * Narrowest Parquet type that holds every non-null value of a column: booleans, integers,
+ * other numbers or (for anything else, and for empty columns) UTF-8 text.
+ */
+export const inferParquetType = (values: readonly ParquetValue[]): ParquetColumnType => {
+  const present = values.filter((value) => value !== null);
+  if (present.length === 0) return "BYTE_ARRAY";
+  if (present.every((value) => typeof value === "boolean")) return "BOOLEAN";
+  if (present.every((value) => typeof value === "number" && Number.isSafeInteger(value))) {
+    return "INT64";
+  }
+  if (present.every((value) => typeof value === "number")) return "DOUBLE";
+  return "BYTE_ARRAY";
+};
+
+// Definition levels (1 = value present, 0 = null) as bit-packed runs of the RLE/bit-packing
+// hybrid encoding, prefixed with their length as data page v1 requires
+const encodeDefinitionLevels = (values: readonly ParquetValue[]): Uint8Array => {
+  const groups = Math.ceil(values.length / 8);
+  const out: number[] = [];
+  writeVarint(out, (groups << 1) | 1);
+  for (let group = 0; group < groups; group++) {
+    let byte = 0;
+    for (let bit = 0; bit < 8; bit++) {
+      const value = values[group * 8 + bit];
+      if (value !== undefined && value !== null) byte |= 1 << bit;
+    }
+    out.push(byte);
+  }
+  const levels = new Uint8Array(4 + out.length);
+  new DataView(levels.buffer).setUint32(0, out.length, true);
+  levels.set(out, 4);
+  return levels;
+};
+
+// PLAIN encoding of the non-null values of a column
+const encodePlainValues = (
+  type: ParquetColumnType,
+  values: readonly ParquetValue[],
+): Uint8Array => {
+  const present = values.filter((value) => value !== null);
+  switch (type) {
+    case "BOOLEAN": {
+      const bytes = new Uint8Array(Math.ceil(present.length / 8));
+      present.forEach((value, i) => {
+        if (value === true) bytes[i >> 3]! |= 1 << (i & 7);
+      });
+      return bytes;
+    }
+    case "INT64":
+    case "DOUBLE": {
+      const bytes = new Uint8Array(present.length * 8);
+      const view = new DataView(bytes.buffer);
+      present.forEach((value, i) => {
+        if (type === "INT64") view.setBigInt64(i * 8, BigInt(value as number), true);
+        else view.setFloat64(i * 8, value as number, true);
+      });
+      return bytes;
+    }
+    case "BYTE_ARRAY": {
+      const encoded = present.map((value) => new TextEncoder().encode(String(value)));
+      const bytes = new Uint8Array(encoded.reduce((size, text) => size + 4 + text.length, 0));
+      const view = new DataView(bytes.buffer);
+      let offset = 0;
+      for (const text of encoded) {
+        view.setUint32(offset, text.length, true);
+        bytes.set(text, offset + 4);
+        offset += 4 + text.length;
+      }
+      return bytes;
+    }
+  }
+};
+
+const concat = (parts: readonly Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+/**
+ * Build a Parquet file with one row group: every column is optional, PLAIN encoded and
+ * uncompressed, with its type inferred from its values (see inferParquetType).
+ */
+export const writeParquet = (
+  columns: readonly string[],
+  rows: readonly Record<string, ParquetValue>[],
+): Uint8Array => {
+  const parts: Uint8Array[] = [MAGIC];
+  let offset = MAGIC.length;
+  const schema: ThriftValue[] = [struct([4, binary("schema")], [5, i32(columns.length)])];
+  const chunks: ThriftValue[] = [];
+  let totalByteSize = 0;
+
+  for (const column of columns) {
+    const values = rows.map((row) => row[column] ?? null);
+    const type = inferParquetType(values);
+    schema.push(
+      struct(
+        [1, i32(PHYSICAL_TYPES[type])],
+        [3, i32(REPETITION_OPTIONAL)],
+        [4, binary(column)],
+        [6, type === "BYTE_ARRAY" ? i32(CONVERTED_TYPE_UTF8) : undefined],
+      ),
+    );
+
+    const page = concat([encodeDefinitionLevels(values), encodePlainValues(type, values)]);
+    const header = encodeThrift(
+      struct(
+        [1, i32(PAGE_TYPE_DATA)],
+        [2, i32(page.length)],
+        [3, i32(page.length)],
+        [
+          5,
+          struct(
+            [1, i32(values.length)],
+            [2, i32(ENCODING_PLAIN)],
+            [3, i32(ENCODING_RLE)],
+            [4, i32(ENCODING_RLE)],
+          ),
+        ],
+      ),
+    );
+    const chunkSize = header.length + page.length;
+    chunks.push(
+      struct(
+        [2, i64(offset)],
+        [
+          3,
+          struct(
+            [1, i32(PHYSICAL_TYPES[type])],
+            [2, list(I32, [i32(ENCODING_PLAIN), i32(ENCODING_RLE)])],
+            [3, list(BINARY, [binary(column)])],
+            [4, i32(CODEC_UNCOMPRESSED)],
+            [5, i64(values.length)],
+            [6, i64(chunkSize)],
+            [7, i64(chunkSize)],
+            [9, i64(offset)],
+          ),
+        ],
+      ),
+    );
+    parts.push(header, page);
+    offset += chunkSize;
+    totalByteSize += chunkSize;
+  }
+
+  const metadata = encodeThrift(
+    struct(
+      [1, i32(1)],
+      [2, list(STRUCT, schema)],
+      [3, i64(rows.length)],
+      [
+        4,
+        list(STRUCT, [
+          struct([1, list(STRUCT, chunks)], [2, i64(totalByteSize)], [3, i64(rows.length)]),
+        ]),
+      ],
+      [6, binary("i-migrate")],
+    ),
+  );
+  const footerLength = new Uint8Array(4);
+  new DataView(footerLength.buffer).setUint32(0, metadata.length, true);
+  parts.push(metadata, footerLength, MAGIC);
+  return concat(parts);
+};
@@ -11,11 +11,20 @@ import {
   getTrace,
   listJobs,
   getJob,
+  listJobRuns,
   getJobRows,
+  listFailureGroups,
   getRowAttempts,
+  getRowPayload,
+  listCrosswalk,
+  getVerification,
+  getRollback,
+  listLookupTables,
+  listSnapshots,
+  diffSnapshots,
   getSettings,
 } from "@/api/client";
-import type { RowStatus } from "@/api/client";
+import type { ErrorCategory, RowStatus, SnapshotDiffRequest } from "@/api/client";
 
 // Query options factory using RPC client
 export const queries = {
@@ -124,11 +133,28 @@ export const queries = {
         refetchInterval: 2000, // More frequent updates for single job view
       }),
 
+    // Get the runs of a job (its first run and every delta run, with derived counts)
+    runs: (jobId: string | null) =>
+      queryOptions({
+        queryKey: ["jobs", jobId, "runs"],
+        queryFn: () => listJobRuns(jobId!),
+        enabled: !!jobId,
+        refetchInterval: 2000,
+      }),
+
     // Get rows for a job (with attempt summary info)
-    rows: (jobId: string | null, status?: RowStatus) =>
+    rows: (jobId: string | null, status?: RowStatus, errorCategory?: ErrorCategory) =>
+      queryOptions({
+        queryKey: ["jobs", jobId, "rows", status ?? "all", errorCategory ?? "all"],
+        queryFn: () => getJobRows(jobId!, { status, errorCategory }),
+        enabled: !!jobId,
+      }),
+
+    // Get a job's failed rows grouped by error category and normalized message
+    failureGroups: (jobId: string | null) =>
       queryOptions({
-        queryKey: ["jobs", jobId, "rows", status ?? "all"],
-        queryFn: () => getJobRows(jobId!, { status }),
+        queryKey: ["jobs", jobId, "failureGroups"],
+        queryFn: () => listFailureGroups(jobId!),
         enabled: !!jobId,
       }),
 
@@ -139,6 +165,69 @@ export const queries = {
         queryFn: () => getRowAttempts(rowId!),
         enabled: !!rowId,
       }),
+
+    // Get a row's transformed values for editing before a retry
+    rowPayload: (rowId: string | null) =>
+      queryOptions({
+        queryKey: ["rows", rowId, "payload"],
+        queryFn: () => getRowPayload(rowId!),
+        enabled: !!rowId,
+      }),
+
+    // Get a job's latest verification (polled while it is running)
+    verification: (jobId: string | null) =>
+      queryOptions({
+        queryKey: ["jobs", jobId, "verification"],
+        queryFn: () => getVerification(jobId!),
+        enabled: !!jobId,
+        refetchInterval: (query) => (query.state.data?.status === "running" ? 2000 : false),
+      }),
+
+    // Get a job's rollback progress (polled while it is running)
+    rollback: (jobId: string | null) =>
+      queryOptions({
+        queryKey: ["jobs", jobId, "rollback"],
+        queryFn: () => getRollback(jobId!),
+        enabled: !!jobId,
+        refetchInterval: (query) => (query.state.data?.status === "running" ? 2000 : false),
+      }),
+
+    // Get ID crosswalk entries recorded by a job
+    crosswalk: (jobId: string | null) =>
+      queryOptions({
+        queryKey: ["jobs", jobId, "crosswalk"],
+        queryFn: () => listCrosswalk({ jobId: jobId! }),
+        enabled: !!jobId,
+      }),
+  },
+
+  lookupTables: {
+    // Get all lookup tables
+    all: () =>
+      queryOptions({
+        queryKey: ["lookupTables"],
+        queryFn: () => listLookupTables(),
+      }),
+  },
+
+  snapshots: {
+    // Get all snapshots (refreshes while a capture is running)
+    all: () =>
+      queryOptions({
+        queryKey: ["snapshots"],
+        queryFn: () => listSnapshots(),
+        refetchInterval: (query) =>
+          query.state.data?.some((snapshot) => snapshot.status === "capturing") ? 2000 : false,
+      }),
+
+    // Compare two snapshots (a page of the changes of one kind, or of every kind)
+    diff: (request: SnapshotDiffRequest | null) =>
+      queryOptions({
+        queryKey: ["snapshots", "diff", request],
+        queryFn: () => diffSnapshots(request!),
+        enabled: !!request,
+        retry: false, // Snapshots that cannot be compared fail the same way every time
+      }),
   },
 
   settings: {
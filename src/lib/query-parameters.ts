@@ -0,0 +1,55 @@
+import type { CriteriaData } from "../api/imis-schemas";
+
+// ---------------------
+// Types
+// ---------------------
+
+// Value for one of an IQA query's prompted parameters.
+// Values are sent positionally, so a job stores them in the order of the query's Parameters.
+export type QueryParameterValue = {
+  propertyName: string;
+  value: string;
+};
+
+// ---------------------
+// Helpers
+// ---------------------
+
+/**
+ * Label shown for a query parameter: its prompt text, or the property name when it has none.
+ */
+export const queryParameterLabel = (criteria: CriteriaData): string =>
+  criteria.Prompt?.trim() || criteria.PropertyName;
+
+/**
+ * Default value the query definition holds for a parameter (multiple values are comma-joined).
+ */
+export const queryParameterDefault = (criteria: CriteriaData): string => {
+  const values: unknown = (criteria.Values as { $values?: unknown } | null)?.$values;
+  return Array.isArray(values)
+    ? values.filter((v): v is string => typeof v === "string").join(",")
+    : "";
+};
+
+/**
+ * Initial parameter values for a query, in definition order, filled with the query's defaults.
+ */
+export const defaultQueryParameters = (
+  parameters: readonly CriteriaData[],
+): QueryParameterValue[] =>
+  parameters.map((criteria) => ({
+    propertyName: criteria.PropertyName,
+    value: queryParameterDefault(criteria),
+  }));
+
+/**
+ * Positional values sent with a query execution.
+ * Blank values keep their position so later parameters line up; trailing blanks are dropped.
+ */
+export const queryParameterArgs = (parameters: readonly QueryParameterValue[]): string[] => {
+  const args = parameters.map((parameter) => parameter.value.trim());
+  while (args.length > 0 && args[args.length - 1] === "") {
+    args.pop();
+  }
+  return args;
+};
@@ -0,0 +1,183 @@
+import type { DestinationPropertyTypeName } from "../api/destinations";
+import type { PropertyMapping } from "../api/schemas";
+import { parseCsv, toCsv } from "./csv";
+import { formatEditValue, parseEditValue, type EditValue } from "./row-edits";
+
+// ---------------------
+// Types
+// ---------------------
+
+// Columns of a failed rows export: mapped source columns and destination properties, in mapping order
+export type FailedRowsColumns = {
+  source: string[];
+  transformed: string[];
+};
+
+// A failed row as written to the export
+export type FailedRowExport = {
+  rowIndex: number;
+  errorCategory: string | null;
+  errorMessage: string | null;
+  source: Readonly<Record<string, unknown>>;
+  transformed: Readonly<Record<string, unknown>>; // With manual edits applied
+};
+
+// The text of each source and transformed column of an edited export row (columns left out of
+// the file are absent)
+export type RowCorrection = {
+  rowIndex: number;
+  source: Record<string, string>;
+  transformed: Record<string, string>;
+};
+
+export type ParsedRowCorrections =
+  | { ok: true; corrections: RowCorrection[] }
+  | { ok: false; message: string };
+
+// ---------------------
+// Helpers
+// ---------------------
+
+// Row numbers start at 1, as shown on the job page
+const ROW_NUMBER_COLUMN = "row_number";
+const SOURCE_PREFIX = "source.";
+const TRANSFORMED_PREFIX = "transformed.";
+
+const isPrimitive = (value: unknown): value is string | number | boolean | null =>
+  value === null ||
+  typeof value === "string" ||
+  typeof value === "number" ||
+  typeof value === "boolean";
+
+// Binary and other structured values are left empty in the export and cannot be corrected
+const csvValue = (value: unknown) => (isPrimitive(value) ? value : null);
+
+/**
+ * Columns of a failed rows export for a job's mappings. Computed mappings have no source column.
+ */
+export const failedRowsColumns = (mappings: readonly PropertyMapping[]): FailedRowsColumns => {
+  const mapped = mappings.filter((mapping) => mapping.destinationProperty !== null);
+  return {
+    source: [
+      ...new Set(
+        mapped
+          .filter((mapping) => !mapping.value && mapping.sourceProperty !== "")
+          .map((mapping) => mapping.sourceProperty),
+      ),
+    ],
+    transformed: [...new Set(mapped.map((mapping) => mapping.destinationProperty!))],
+  };
+};
+
+/**
+ * Render failed rows as CSV: row number, error category and message, then every mapped source
+ * column ("source.<name>") and every transformed value ("transformed.<property>").
+ */
+export const failedRowsToCsv = (
+  columns: FailedRowsColumns,
+  failedRows: readonly FailedRowExport[],
+): string =>
+  toCsv(
+    [
+      ROW_NUMBER_COLUMN,
+      "error_category",
+      "error_message",
+      ...columns.source.map((column) => SOURCE_PREFIX + column),
+      ...columns.transformed.map((property) => TRANSFORMED_PREFIX + property),
+    ],
+    failedRows.map((row) => [
+      row.rowIndex + 1,
+      row.errorCategory,
+      row.errorMessage,
+      ...columns.source.map((column) => csvValue(row.source[column])),
+      ...columns.transformed.map((property) => csvValue(row.transformed[property])),
+    ]),
+  );
+
+/**
+ * Read the corrections in an edited failed rows export. Rows are identified by their row number;
+ * error columns and columns that are not source or transformed columns are ignored.
+ */
+export const parseRowCorrections = (csv: string): ParsedRowCorrections => {
+  const [header, ...records] = parseCsv(csv);
+  if (!header) return { ok: false, message: "The file is empty" };
+  const rowNumberAt = header.indexOf(ROW_NUMBER_COLUMN);
+  if (rowNumberAt === -1) {
+    return { ok: false, message: `The file has no ${ROW_NUMBER_COLUMN} column` };
+  }
+
+  const corrections: RowCorrection[] = [];
+  const seen = new Set<number>();
+  for (const [i, record] of records.entries()) {
+    const text = record[rowNumberAt]?.trim() ?? "";
+    const rowNumber = Number(text);
+    if (!/^\d+$/.test(text) || rowNumber < 1) {
+      return { ok: false, message: `Record ${i + 1}: invalid row number "${text}"` };
+    }
+    if (seen.has(rowNumber)) {
+      return { ok: false, message: `Row ${rowNumber} appears more than once` };
+    }
+    seen.add(rowNumber);
+
+    const correction: RowCorrection = { rowIndex: rowNumber - 1, source: {}, transformed: {} };
+    for (const [column, name] of header.entries()) {
+      const value = record[column];
+      if (value === undefined) continue;
+      if (name.startsWith(SOURCE_PREFIX)) {
+        correction.source[name.slice(SOURCE_PREFIX.length)] = value;
+      } else if (name.startsWith(TRANSFORMED_PREFIX)) {
+        correction.transformed[name.slice(TRANSFORMED_PREFIX.length)] = value;
+      }
+    }
+    corrections.push(correction);
+  }
+  return { ok: true, corrections };
+};
+
+/**
+ * Apply the corrected source columns to a stored source row. Values whose text is unchanged keep
+ * their original value; changed numbers and booleans keep their type when the text still parses
+ * as one, and cleared values become null. Returns null when nothing changed.
+ */
+export const correctSourceRow = (
+  sourceRow: Readonly<Record<string, unknown>>,
+  corrected: Readonly<Record<string, string>>,
+): Record<string, unknown> | null => {
+  const changes: Record<string, unknown> = {};
+  for (const [column, text] of Object.entries(corrected)) {
+    const original = sourceRow[column];
+    if (!isPrimitive(original) && original !== undefined) continue;
+    if (text === formatEditValue(original)) continue;
+    const trimmed = text.trim();
+    if (trimmed === "") changes[column] = null;
+    else if (typeof original === "number" && /^-?\d+(\.\d+)?$/.test(trimmed)) {
+      changes[column] = Number(trimmed);
+    } else if (typeof original === "boolean" && /^(true|false)$/i.test(trimmed)) {
+      changes[column] = trimmed.toLowerCase() === "true";
+    } else changes[column] = text;
+  }
+  return Object.keys(changes).length > 0 ? { ...sourceRow, ...changes } : null;
+};
+
+/**
+ * Manual edits from the corrected transformed columns, added to the row's stored edits.
+ * Only values whose text differs from the exported value count as corrections, so a source
+ * correction is not overridden by the stale transformed value next to it. Values are parsed as
+ * the destination property type (text when unknown); binary properties cannot be corrected.
+ */
+export const correctTransformedValues = (
+  exported: Readonly<Record<string, unknown>>,
+  storedEdits: Readonly<Record<string, EditValue>>,
+  corrected: Readonly<Record<string, string>>,
+  propertyTypes: ReadonlyMap<string, DestinationPropertyTypeName>,
+): { ok: true; edits: Record<string, EditValue> } | { ok: false; message: string } => {
+  const edits: Record<string, EditValue> = { ...storedEdits };
+  for (const [property, text] of Object.entries(corrected)) {
+    const typeName = propertyTypes.get(property) ?? "String";
+    if (typeName === "Binary" || text === formatEditValue(csvValue(exported[property]))) continue;
+    const parsed = parseEditValue(text, typeName);
+    if (!parsed.ok) return { ok: false, message: `${property}: ${parsed.message}` };
+    edits[property] = parsed.value;
+  }
+  return { ok: true, edits };
+};
@@ -0,0 +1,69 @@
+import type { DestinationPropertyTypeName } from "../api/destinations";
+
+// ---------------------
+// Types
+// ---------------------
+
+// A value a manual edit can set (binary values are not editable)
+export type EditValue = string | number | boolean | null;
+
+export type ParsedEditValue = { ok: true; value: EditValue } | { ok: false; message: string };
+
+// ---------------------
+// Helpers
+// ---------------------
+
+const INTEGER = /^-?\d+$/;
+const DECIMAL = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Text shown in the edit form for a transformed value (empty for null and missing values).
+ */
+export const formatEditValue = (value: unknown): string =>
+  value === null || value === undefined ? "" : String(value);
+
+/**
+ * Read a value typed in the edit form as the destination property type.
+ * Empty text is null; numbers and booleans must parse, other types are kept as text.
+ */
+export const parseEditValue = (
+  text: string,
+  propertyTypeName: DestinationPropertyTypeName,
+): ParsedEditValue => {
+  const trimmed = text.trim();
+  if (trimmed === "") return { ok: true, value: null };
+  switch (propertyTypeName) {
+    case "Integer":
+      return INTEGER.test(trimmed)
+        ? { ok: true, value: Number(trimmed) }
+        : { ok: false, message: "Must be a whole number" };
+    case "Decimal":
+    case "Monetary":
+      return DECIMAL.test(trimmed)
+        ? { ok: true, value: Number(trimmed) }
+        : { ok: false, message: "Must be a number" };
+    case "Boolean":
+      return /^(true|false)$/i.test(trimmed)
+        ? { ok: true, value: trimmed.toLowerCase() === "true" }
+        : { ok: false, message: "Must be true or false" };
+    default:
+      return { ok: true, value: text };
+  }
+};
+
+/**
+ * Manual edits from the form: the properties whose value differs from the transformed value
+ * (compared as form text), plus values given for properties that could not be transformed.
+ * Properties changed back to their transformed value are left out, removing their edit.
+ */
+export const diffRowEdits = (
+  values: Readonly<Record<string, unknown>>,
+  edited: Readonly<Record<string, EditValue>>,
+): Record<string, EditValue> =>
+  Object.fromEntries(
+    Object.entries(edited).filter(([property, value]) =>
+      property in values
+        ? formatEditValue(values[property]) !== formatEditValue(value)
+        : value !== null,
+    ),
+  );
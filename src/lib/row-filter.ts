@@ -0,0 +1,130 @@
+import { formatDateParts, parseDateParts } from "./transforms";
+
+// ---------------------
+// Types
+// ---------------------
+
+export type RowFilterOperator = "equals" | "in" | "isNull" | "dateRange";
+
+/**
+ * One predicate on a source column. `negate` inverts the result (does not equal, is not empty...).
+ * - equals / in: compared as trimmed text, ignoring case
+ * - isNull: null, missing or blank text
+ * - dateRange: the column's date falls between from and to (yyyy-MM-dd, inclusive, either optional)
+ */
+export type RowFilterCondition = { column: string; negate?: boolean } & (
+  | { operator: "equals"; value: string }
+  | { operator: "in"; values: readonly string[] }
+  | { operator: "isNull" }
+  | { operator: "dateRange"; from?: string; to?: string }
+);
+
+// Conditions combined with AND or OR. Source rows that don't match are skipped.
+export type RowFilter = {
+  combinator: "and" | "or";
+  conditions: readonly RowFilterCondition[];
+};
+
+// ---------------------
+// Helpers
+// ---------------------
+
+// Text a value is compared on: trimmed and lower-cased (null for non-primitive values)
+const toFilterText = (value: unknown): string | null => {
+  if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+    return null;
+  }
+  return String(value).trim().toLowerCase();
+};
+
+// Calendar date (yyyy-MM-dd) of a source value, or null if it is not a recognizable date
+const toFilterDate = (value: unknown): string | null => {
+  if (typeof value !== "string") return null;
+  const parts = parseDateParts(value);
+  return parts ? formatDateParts(parts, "yyyy-MM-dd") : null;
+};
+
+const matchesCondition = (row: Record<string, unknown>, condition: RowFilterCondition): boolean => {
+  const value = row[condition.column];
+  switch (condition.operator) {
+    case "equals":
+      return toFilterText(value) === condition.value.trim().toLowerCase();
+    case "in": {
+      const text = toFilterText(value);
+      return text !== null && condition.values.some((v) => v.trim().toLowerCase() === text);
+    }
+    case "isNull":
+      return value === null || value === undefined || toFilterText(value) === "";
+    case "dateRange": {
+      const date = toFilterDate(value);
+      if (date === null) return false;
+      return (!condition.from || date >= condition.from) && (!condition.to || date <= condition.to);
+    }
+  }
+};
+
+/**
+ * Whether a source row passes a job's row filter.
+ * Rows always pass when there is no filter or it has no conditions.
+ */
+export const matchesRowFilter = (
+  row: Record<string, unknown>,
+  filter: RowFilter | null,
+): boolean => {
+  if (!filter || filter.conditions.length === 0) return true;
+  const results = filter.conditions.map(
+    (condition) => matchesCondition(row, condition) !== (condition.negate ?? false),
+  );
+  return filter.combinator === "and" ? results.every(Boolean) : results.some(Boolean);
+};
+
+/**
+ * Whether a condition has everything it needs to be evaluated
+ * (a column, a value or at least one list value, and at least one date bound).
+ */
+export const isCompleteCondition = (condition: RowFilterCondition): boolean => {
+  if (!condition.column) return false;
+  switch (condition.operator) {
+    case "equals":
+      return true;
+    case "in":
+      return condition.values.some((v) => v.trim() !== "");
+    case "isNull":
+      return true;
+    case "dateRange":
+      return !!condition.from || !!condition.to;
+  }
+};
+
+// Source columns a row filter reads (each once)
+export const rowFilterColumns = (filter: RowFilter | null): string[] =>
+  filter ? [...new Set(filter.conditions.map((condition) => condition.column))] : [];
+
+const describeCondition = (condition: RowFilterCondition): string => {
+  const not = condition.negate ?? false;
+  switch (condition.operator) {
+    case "equals":
+      return `${condition.column} ${not ? "≠" : "="} "${condition.value}"`;
+    case "in":
+      return `${condition.column} ${not ? "not in" : "in"} (${condition.values
+        .map((v) => v.trim())
+        .filter((v) => v !== "")
+        .join(", ")})`;
+    case "isNull":
+      return `${condition.column} is ${not ? "not empty" : "empty"}`;
+    case "dateRange": {
+      const range = condition.from
+        ? condition.to
+          ? `between ${condition.from} and ${condition.to}`
+          : `on or after ${condition.from}`
+        : `on or before ${condition.to ?? ""}`;
+      return `${condition.column} ${not ? "not " : ""}${range}`;
+    }
+  }
+};
+
+/**
+ * Human-readable summary of a row filter (e.g. `Status = "A" AND JoinDate on or after 2020-01-01`)
+ */
+export const describeRowFilter = (filter: RowFilter): string =>
+  filter.conditions.map(describeCondition).join(filter.combinator === "and" ? " AND " : " OR ");
@@ -0,0 +1,158 @@
+import { parseCsv } from "./csv";
+import { readXlsxRows, type XlsxCell } from "./xlsx";
+
+// ---------------------
+// Types
+// ---------------------
+
+export type SourceFileFormat = "csv" | "xlsx";
+
+// Type of a file column, inferred from its values (named like destination property types)
+export type SourceColumnType = "String" | "Integer" | "Decimal" | "Boolean" | "Date";
+
+export type SourceFileColumn = {
+  name: string;
+  type: SourceColumnType;
+};
+
+export type SourceFileRow = Record<string, string | number | boolean | null>;
+
+// The rows of an uploaded file with its columns, in file order
+export type SourceFileData = {
+  format: SourceFileFormat;
+  columns: SourceFileColumn[];
+  rows: SourceFileRow[];
+};
+
+export type ReadSourceFileResult =
+  | { ok: true; data: SourceFileData }
+  | { ok: false; message: string };
+
+// ---------------------
+// Helpers
+// ---------------------
+
+// Integers without leading zeros (codes such as "00123" stay text)
+const INTEGER = /^-?(0|[1-9]\d*)$/;
+const DECIMAL = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+const BOOLEAN = /^(true|false)$/i;
+// ISO 8601 dates, optionally with a time
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?$/;
+
+/**
+ * Format of an uploaded file from its name, or null when it is not a CSV or XLSX file.
+ */
+export const sourceFileFormat = (fileName: string): SourceFileFormat | null => {
+  const extension = fileName.toLowerCase().split(".").pop();
+  return extension === "csv" || extension === "xlsx" ? extension : null;
+};
+
+const matchesType = (value: string | number | boolean, type: SourceColumnType): boolean => {
+  if (typeof value === "boolean") return type === "Boolean";
+  if (typeof value === "number") {
+    return type === "Decimal" || (type === "Integer" && Number.isSafeInteger(value));
+  }
+  switch (type) {
+    case "Integer":
+      return INTEGER.test(value) && Number.isSafeInteger(Number(value));
+    case "Decimal":
+      return DECIMAL.test(value);
+    case "Boolean":
+      return BOOLEAN.test(value);
+    case "Date":
+      return ISO_DATE.test(value);
+    case "String":
+      return true;
+  }
+};
+
+/**
+ * Narrowest type that fits every non-empty value of a column (text when the column is empty).
+ */
+export const inferColumnType = (
+  values: readonly (string | number | boolean | null)[],
+): SourceColumnType => {
+  const present = values.filter(
+    (value): value is string | number | boolean =>
+      value !== null && (typeof value !== "string" || value.trim() !== ""),
+  );
+  if (present.length === 0) return "String";
+  const types: SourceColumnType[] = ["Integer", "Decimal", "Boolean", "Date"];
+  return types.find((type) => present.every((value) => matchesType(value, type))) ?? "String";
+};
+
+// A cell as the column type: numbers and booleans from text, text from other values
+const convertCell = (value: XlsxCell, type: SourceColumnType): SourceFileRow[string] => {
+  if (value === null || (typeof value === "string" && value.trim() === "")) return null;
+  switch (type) {
+    case "Integer":
+    case "Decimal":
+      return typeof value === "number" ? value : Number(value);
+    case "Boolean":
+      return typeof value === "boolean" ? value : value.toString().toLowerCase() === "true";
+    default:
+      return typeof value === "string" ? value : String(value);
+  }
+};
+
+// Column names from the header row: blank names are numbered and repeated names get a suffix
+const columnNames = (header: readonly XlsxCell[], width: number): string[] => {
+  const names: string[] = [];
+  for (let i = 0; i < width; i++) {
+    const base = String(header[i] ?? "").trim() || `Column${i + 1}`;
+    let name = base;
+    for (let n = 2; names.includes(name); n++) name = `${base} (${n})`;
+    names.push(name);
+  }
+  return names;
+};
+
+/**
+ * Build the rows of a file from its cells: the first row names the columns, blank rows are
+ * skipped, and each column's values are converted to the type inferred for it.
+ */
+export const cellsToSourceRows = (
+  format: SourceFileFormat,
+  cells: readonly (readonly XlsxCell[])[],
+): ReadSourceFileResult => {
+  const isBlank = (row: readonly XlsxCell[]) =>
+    row.every((cell) => cell === null || (typeof cell === "string" && cell.trim() === ""));
+  const [header, ...records] = cells.filter((row) => !isBlank(row));
+  if (!header) return { ok: false, message: "The file has no header row" };
+
+  const width = records.reduce((max, record) => Math.max(max, record.length), header.length);
+  const names = columnNames(header, width);
+  const columns = names.map((name, i) => ({
+    name,
+    type: inferColumnType(records.map((record) => record[i] ?? null)),
+  }));
+  const rows = records.map((record) =>
+    Object.fromEntries(
+      columns.map((column, i) => [column.name, convertCell(record[i] ?? null, column.type)]),
+    ),
+  );
+  return { ok: true, data: { format, columns, rows } };
+};
+
+/**
+ * Read an uploaded CSV or XLSX file (the first worksheet of a workbook).
+ * CSV files may be separated by commas or, as Excel saves them in some regions, semicolons.
+ */
+export const readSourceFile = async (
+  fileName: string,
+  bytes: Uint8Array,
+): Promise<ReadSourceFileResult> => {
+  const format = sourceFileFormat(fileName);
+  if (!format) return { ok: false, message: `${fileName} is not a CSV or XLSX file` };
+  if (format === "xlsx") {
+    try {
+      return cellsToSourceRows(format, await readXlsxRows(bytes));
+    } catch (error) {
+      return { ok: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+  const text = new TextDecoder().decode(bytes);
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = !firstLine.includes(",") && firstLine.includes(";") ? ";" : ",";
+  return cellsToSourceRows(format, parseCsv(text, delimiter));
+};
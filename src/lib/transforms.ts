@@ -0,0 +1,264 @@
+// ---------------------
+// Types
+// ---------------------
+
+export type CaseMode = "upper" | "lower" | "title";
+
+/**
+ * A single value transformation applied to a mapped property before it is written.
+ * Steps run in order; each receives the previous step's output.
+ */
+export type TransformStep =
+  | { type: "trim" }
+  | { type: "changeCase"; mode: CaseMode }
+  // Date tokens: yyyy, MM, dd, HH, mm, ss. Without an input format ISO and browser-parseable dates are read.
+  | { type: "formatDate"; inputFormat?: string; outputFormat: string }
+  | { type: "parseNumber"; decimalSeparator: "." | "," }
+  | { type: "defaultIfNull"; value: string }
+  | { type: "truncate"; maxLength: number }
+  | { type: "regexReplace"; pattern: string; replacement: string; flags?: string };
+
+export type TransformStepType = TransformStep["type"];
+
+// Labels and starting configuration for each step type (shown in the mapping editors)
+export const TRANSFORM_STEP_TYPES: Record<
+  TransformStepType,
+  { label: string; create: (maxLength: number | null) => TransformStep }
+> = {
+  trim: { label: "Trim whitespace", create: () => ({ type: "trim" }) },
+  changeCase: { label: "Change case", create: () => ({ type: "changeCase", mode: "upper" }) },
+  formatDate: {
+    label: "Reformat date",
+    create: () => ({ type: "formatDate", outputFormat: "yyyy-MM-ddTHH:mm:ss" }),
+  },
+  parseNumber: {
+    label: "Parse number",
+    create: () => ({ type: "parseNumber", decimalSeparator: "." }),
+  },
+  defaultIfNull: {
+    label: "Default if empty",
+    create: () => ({ type: "defaultIfNull", value: "" }),
+  },
+  truncate: {
+    label: "Truncate to max length",
+    create: (maxLength) => ({ type: "truncate", maxLength: maxLength ?? 100 }),
+  },
+  regexReplace: {
+    label: "Regex replace",
+    create: () => ({ type: "regexReplace", pattern: "", replacement: "" }),
+  },
+};
+
+// ---------------------
+// Date Helpers
+// ---------------------
+
+type DateParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+const DATE_TOKENS = ["yyyy", "MM", "dd", "HH", "mm", "ss"] as const;
+type DateToken = (typeof DATE_TOKENS)[number];
+
+const DATE_TOKEN_PART: Record<DateToken, keyof DateParts> = {
+  yyyy: "year",
+  MM: "month",
+  dd: "day",
+  HH: "hour",
+  mm: "minute",
+  ss: "second",
+};
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?/;
+
+// Split a date format into tokens and literal text
+const tokenizeDateFormat = (format: string): (DateToken | string)[] => {
+  const parts: string[] = [];
+  let rest = format;
+  while (rest.length > 0) {
+    const token = DATE_TOKENS.find((t) => rest.startsWith(t));
+    if (token) {
+      parts.push(token);
+      rest = rest.slice(token.length);
+    } else {
+      parts.push(rest.charAt(0));
+      rest = rest.slice(1);
+    }
+  }
+  return parts;
+};
+
+const isDateToken = (part: string): part is DateToken =>
+  (DATE_TOKENS as readonly string[]).includes(part);
+
+const isValidDate = (parts: DateParts): boolean =>
+  parts.month >= 1 &&
+  parts.month <= 12 &&
+  parts.day >= 1 &&
+  parts.day <= 31 &&
+  parts.hour <= 23 &&
+  parts.minute <= 59 &&
+  parts.second <= 59;
+
+/**
+ * Read date parts from a string, using a token format when given.
+ * Returns null if the value does not match or is not a valid date.
+ */
+export const parseDateParts = (value: string, inputFormat?: string): DateParts | null => {
+  const parts: DateParts = { year: 0, month: 1, day: 1, hour: 0, minute: 0, second: 0 };
+
+  if (inputFormat) {
+    const tokens = tokenizeDateFormat(inputFormat);
+    const pattern = tokens
+      .map((part) =>
+        isDateToken(part)
+          ? part === "yyyy"
+            ? "(\\d{4})"
+            : "(\\d{1,2})"
+          : part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+      )
+      .join("");
+    const match = new RegExp(`^${pattern}$`).exec(value.trim());
+    if (!match) return null;
+    let group = 1;
+    for (const part of tokens) {
+      if (isDateToken(part)) {
+        parts[DATE_TOKEN_PART[part]] = Number(match[group++]);
+      }
+    }
+    return isValidDate(parts) ? parts : null;
+  }
+
+  const iso = ISO_DATE_PATTERN.exec(value.trim());
+  if (iso) {
+    const [, year, month, day, hour, minute, second] = iso;
+    const isoParts = {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      hour: Number(hour ?? 0),
+      minute: Number(minute ?? 0),
+      second: Number(second ?? 0),
+    };
+    return isValidDate(isoParts) ? isoParts : null;
+  }
+
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return {
+    year: parsed.getFullYear(),
+    month: parsed.getMonth() + 1,
+    day: parsed.getDate(),
+    hour: parsed.getHours(),
+    minute: parsed.getMinutes(),
+    second: parsed.getSeconds(),
+  };
+};
+
+/**
+ * Write date parts using a token format (yyyy, MM, dd, HH, mm, ss)
+ */
+export const formatDateParts = (parts: DateParts, outputFormat: string): string =>
+  tokenizeDateFormat(outputFormat)
+    .map((part) =>
+      isDateToken(part)
+        ? String(parts[DATE_TOKEN_PART[part]]).padStart(part === "yyyy" ? 4 : 2, "0")
+        : part,
+    )
+    .join("");
+
+// ---------------------
+// Transform Application
+// ---------------------
+
+const toTitleCase = (value: string): string =>
+  value.toLowerCase().replace(/(^|[\s\-'])(\p{L})/gu, (_, separator, letter: string) => {
+    return `${separator}${letter.toUpperCase()}`;
+  });
+
+/**
+ * Apply one transform step to a value.
+ * Steps that do not apply to the value's type (e.g. trim on a number) return it unchanged,
+ * as do values a step cannot convert (an unparseable date or number).
+ */
+export const applyTransformStep = (value: unknown, step: TransformStep): unknown => {
+  switch (step.type) {
+    case "defaultIfNull":
+      return value === null || value === undefined || value === "" ? step.value : value;
+    case "parseNumber": {
+      if (typeof value !== "string") return value;
+      const separator = step.decimalSeparator;
+      const cleaned = value
+        .replace(new RegExp(`[^0-9\\-${separator === "." ? "\\." : ","}]`, "g"), "")
+        .replace(separator, ".");
+      const parsed = Number(cleaned);
+      return cleaned === "" || Number.isNaN(parsed) ? value : parsed;
+    }
+  }
+
+  if (typeof value !== "string") return value;
+
+  switch (step.type) {
+    case "trim":
+      return value.trim();
+    case "changeCase":
+      return step.mode === "upper"
+        ? value.toUpperCase()
+        : step.mode === "lower"
+          ? value.toLowerCase()
+          : toTitleCase(value);
+    case "formatDate": {
+      const parts = parseDateParts(value, step.inputFormat);
+      return parts ? formatDateParts(parts, step.outputFormat) : value;
+    }
+    case "truncate":
+      return value.length > step.maxLength ? value.slice(0, step.maxLength) : value;
+    case "regexReplace": {
+      if (!step.pattern) return value;
+      try {
+        return value.replace(new RegExp(step.pattern, step.flags ?? "g"), step.replacement);
+      } catch {
+        return value;
+      }
+    }
+  }
+};
+
+/**
+ * Apply a mapping's transform steps in order
+ */
+export const applyTransforms = (value: unknown, steps: readonly TransformStep[]): unknown =>
+  steps.reduce(applyTransformStep, value);
+
+/**
+ * Short human-readable summary of a step (e.g. "Truncate to 50")
+ */
+export const describeTransformStep = (step: TransformStep): string => {
+  switch (step.type) {
+    case "trim":
+      return "Trim";
+    case "changeCase":
+      return step.mode === "upper"
+        ? "UPPERCASE"
+        : step.mode === "lower"
+          ? "lowercase"
+          : "Title Case";
+    case "formatDate":
+      return step.inputFormat
+        ? `Date ${step.inputFormat} → ${step.outputFormat}`
+        : `Date → ${step.outputFormat}`;
+    case "parseNumber":
+      return step.decimalSeparator === "," ? "Number (1.234,5)" : "Number (1,234.5)";
+    case "defaultIfNull":
+      return `Default "${step.value}"`;
+    case "truncate":
+      return `Truncate to ${step.maxLength}`;
+    case "regexReplace":
+      return `Replace /${step.pattern}/${step.flags ?? "g"}`;
+  }
+};
@@ -0,0 +1,72 @@
+// ---------------------
+// Types
+// ---------------------
+
+// A mapped field whose destination value differs from the transformed source value
+export type FieldMismatch = {
+  property: string;
+  expected: string | null;
+  actual: string | null;
+};
+
+// ---------------------
+// Helpers
+// ---------------------
+
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T/;
+
+// Text a value is compared on (null for null, missing and blank values)
+const toComparable = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "object") {
+    // Binary blobs compare on their base64 content
+    const content = (value as { $value?: unknown }).$value;
+    return typeof content === "string" ? content : JSON.stringify(value);
+  }
+  const text = String(value).trim();
+  return text === "" ? null : text;
+};
+
+// Timestamp of an ISO date or date-time (date-only values are midnight, like iMIS returns them)
+const toTimestamp = (value: string): number =>
+  DATE_ONLY.test(value)
+    ? Date.parse(`${value}T00:00:00`)
+    : DATE_TIME.test(value)
+      ? Date.parse(value)
+      : Number.NaN;
+
+/**
+ * Whether a destination value matches the value that was written.
+ * Numbers match by value (1 and 1.0), booleans ignore case, and dates match by instant
+ * (2024-01-01 and 2024-01-01T00:00:00); everything else must be the same text.
+ */
+export const valuesMatch = (expected: unknown, actual: unknown): boolean => {
+  const a = toComparable(expected);
+  const b = toComparable(actual);
+  if (a === b) return true;
+  if (a === null || b === null) return false;
+  if (NUMERIC.test(a) && NUMERIC.test(b)) return Number(a) === Number(b);
+  if (/^(true|false)$/i.test(a) && /^(true|false)$/i.test(b)) {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+  const timeA = toTimestamp(a);
+  return !Number.isNaN(timeA) && timeA === toTimestamp(b);
+};
+
+/**
+ * Compare the transformed values of a migrated row with its destination record.
+ * Returns the fields that differ, in the order they were written.
+ */
+export const findFieldMismatches = (
+  expected: Record<string, unknown>,
+  actual: Record<string, unknown>,
+): FieldMismatch[] =>
+  Object.entries(expected)
+    .filter(([property, value]) => !valuesMatch(value, actual[property]))
+    .map(([property, value]) => ({
+      property,
+      expected: toComparable(value),
+      actual: toComparable(actual[property]),
+    }));
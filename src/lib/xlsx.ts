@@ -0,0 +1,218 @@
+// ---------------------
+// Types
+// ---------------------
+
+// A cell value read from a worksheet (dates are ISO 8601 text)
+export type XlsxCell = string | number | boolean | null;
+
+// ---------------------
+// ZIP
+// ---------------------
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+type ZipEntry = { method: number; compressedSize: number; localHeaderOffset: number };
+
+// Read the central directory of a ZIP archive (entry name -> location)
+const readZipEntries = (bytes: Uint8Array): Map<string, ZipEntry> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The end record is in the last 22 bytes plus an optional comment of up to 64 KB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("The file is not a valid XLSX workbook");
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("The XLSX workbook is damaged");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+// Extract one entry of a ZIP archive as text (stored or deflated entries only)
+const readZipText = async (
+  bytes: Uint8Array,
+  entries: Map<string, ZipEntry>,
+  name: string,
+): Promise<string | null> => {
+  const entry = entries.get(name);
+  if (!entry) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+    throw new Error("The XLSX workbook is damaged");
+  }
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error(`Unsupported XLSX compression method ${entry.method}`);
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+};
+
+// ---------------------
+// XML
+// ---------------------
+
+const decodeXml = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "amp":
+        return "&";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+    }
+    return String.fromCodePoint(
+      entity[1] === "x" || entity[1] === "X"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10),
+    );
+  });
+
+const attribute = (tag: string, name: string): string | undefined =>
+  new RegExp(`\\s${name}="([^"]*)"`).exec(tag)?.[1];
+
+// Concatenated text of the <t> elements in a fragment (rich text runs are joined)
+const textContent = (xml: string): string =>
+  [...xml.matchAll(/<t(?:\s[^>]*)?>([^<]*)<\/t>/g)].map((match) => decodeXml(match[1]!)).join("");
+
+// ---------------------
+// Workbook parts
+// ---------------------
+
+// Built-in number formats that display dates and times
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const isDateFormatCode = (code: string): boolean =>
+  /[dmyhs]/i.test(code.replace(/"[^"]*"|\[[^\]]*\]|\\.|General/gi, ""));
+
+// Style indexes (the s attribute of a cell) whose number format is a date
+const readDateStyles = (stylesXml: string | null): Set<number> => {
+  const dateStyles = new Set<number>();
+  if (!stylesXml) return dateStyles;
+  const customDateFormats = new Set<number>();
+  for (const [tag] of stylesXml.matchAll(/<numFmt\s[^>]*>/g)) {
+    const code = decodeXml(attribute(tag, "formatCode") ?? "");
+    if (isDateFormatCode(code)) customDateFormats.add(Number(attribute(tag, "numFmtId")));
+  }
+  const cellXfs = /<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/.exec(stylesXml)?.[1] ?? "";
+  for (const [index, [tag]] of [...cellXfs.matchAll(/<xf\s[^>]*>/g)].entries()) {
+    const formatId = Number(attribute(tag, "numFmtId") ?? 0);
+    if (DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(index);
+  }
+  return dateStyles;
+};
+
+// Path of the first worksheet in the workbook
+const firstSheetPath = (workbookXml: string, relsXml: string): string | null => {
+  const sheet = /<sheet\s[^>]*>/.exec(workbookXml)?.[0];
+  const relationId = sheet && attribute(sheet, "r:id");
+  if (!relationId) return null;
+  for (const [tag] of relsXml.matchAll(/<Relationship\s[^>]*>/g)) {
+    if (attribute(tag, "Id") !== relationId) continue;
+    const target = attribute(tag, "Target") ?? "";
+    return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+  }
+  return null;
+};
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+
+/**
+ * ISO 8601 text for an Excel date serial: a date when it has no time of day, otherwise a
+ * date and time (to the second).
+ */
+export const excelSerialToIso = (serial: number): string => {
+  const iso = new Date(EXCEL_EPOCH_MS + Math.round(serial * 86_400_000)).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 19);
+};
+
+// Zero-based column index of a cell reference such as "AB12"
+const columnIndex = (reference: string): number => {
+  let index = 0;
+  for (const char of reference) {
+    if (char < "A" || char > "Z") break;
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+/**
+ * Read the cells of the first worksheet of an XLSX workbook, row by row.
+ * Shared and inline strings are resolved, numbers with a date format become ISO dates, and
+ * formulas use their cached value. Gaps between cells are filled with null.
+ */
+export const readXlsxRows = async (bytes: Uint8Array): Promise<XlsxCell[][]> => {
+  const entries = readZipEntries(bytes);
+  const workbookXml = await readZipText(bytes, entries, "xl/workbook.xml");
+  const relsXml = await readZipText(bytes, entries, "xl/_rels/workbook.xml.rels");
+  const sheetPath = workbookXml && relsXml ? firstSheetPath(workbookXml, relsXml) : null;
+  const sheetXml = sheetPath ? await readZipText(bytes, entries, sheetPath) : null;
+  if (!sheetXml) throw new Error("The XLSX workbook has no worksheet");
+
+  const sharedStringsXml = await readZipText(bytes, entries, "xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml
+    ? [...sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) => textContent(match[1]!))
+    : [];
+  const dateStyles = readDateStyles(await readZipText(bytes, entries, "xl/styles.xml"));
+
+  const sheetData = /<sheetData[^>]*>([\s\S]*?)<\/sheetData>/.exec(sheetXml)?.[1] ?? "";
+  const rows: XlsxCell[][] = [];
+  for (const [, rowXml] of sheetData.matchAll(/<row(?:\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: XlsxCell[] = [];
+    for (const [, tag, body = ""] of (rowXml ?? "").matchAll(
+      /<c(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/c>)/g,
+    )) {
+      const attributes = tag ?? "";
+      const reference = attribute(attributes, "r");
+      const at = reference ? columnIndex(reference) : row.length;
+      const type = attribute(attributes, "t") ?? "n";
+      const raw = /<v>([^<]*)<\/v>/.exec(body)?.[1];
+      let value: XlsxCell = null;
+      if (type === "inlineStr") value = textContent(body);
+      else if (raw === undefined) value = null;
+      else if (type === "s") value = sharedStrings[Number(raw)] ?? null;
+      else if (type === "b") value = raw === "1";
+      else if (type === "str" || type === "e") value = decodeXml(raw);
+      else if (type === "d") value = raw;
+      else {
+        const number = Number(raw);
+        value = dateStyles.has(Number(attribute(attributes, "s") ?? -1))
+          ? excelSerialToIso(number)
+          : number;
+      }
+      while (row.length < at) row.push(null);
+      row[at] = value;
+    }
+    rows.push(row);
+  }
+  return rows;
+};
@@ -11,10 +11,13 @@
 import { Route as rootRouteImport } from "./routes/__root";
 import { Route as TracesRouteImport } from "./routes/traces";
 import { Route as SettingsRouteImport } from "./routes/settings";
+import { Route as LookupTablesRouteImport } from "./routes/lookup-tables";
 import { Route as ExportRouteImport } from "./routes/export";
 import { Route as EnvironmentsRouteImport } from "./routes/environments";
 import { Route as IndexRouteImport } from "./routes/index";
+import { Route as SnapshotsIndexRouteImport } from "./routes/snapshots.index";
 import { Route as JobsIndexRouteImport } from "./routes/jobs.index";
+import { Route as SnapshotsDiffRouteImport } from "./routes/snapshots.diff";
 import { Route as JobsJobIdRouteImport } from "./routes/jobs.$jobId";
 
 const TracesRoute = TracesRouteImport.update({
@@ -27,6 +30,11 @@ const SettingsRoute = SettingsRouteImport.update({
   path: "/settings",
   getParentRoute: () => rootRouteImport,
 } as any);
+const LookupTablesRoute = LookupTablesRouteImport.update({
+  id: "/lookup-tables",
+  path: "/lookup-tables",
+  getParentRoute: () => rootRouteImport,
+} as any);
 const ExportRoute = ExportRouteImport.update({
   id: "/export",
   path: "/export",
@@ -42,11 +50,21 @@ const IndexRoute = IndexRouteImport.update({
   path: "/",
   getParentRoute: () => rootRouteImport,
 } as any);
+const SnapshotsIndexRoute = SnapshotsIndexRouteImport.update({
+  id: "/snapshots/",
+  path: "/snapshots/",
+  getParentRoute: () => rootRouteImport,
+} as any);
 const JobsIndexRoute = JobsIndexRouteImport.update({
   id: "/jobs/",
   path: "/jobs/",
   getParentRoute: () => rootRouteImport,
 } as any);
+const SnapshotsDiffRoute = SnapshotsDiffRouteImport.update({
+  id: "/snapshots/diff",
+  path: "/snapshots/diff",
+  getParentRoute: () => rootRouteImport,
+} as any);
 const JobsJobIdRoute = JobsJobIdRouteImport.update({
   id: "/jobs/$jobId",
   path: "/jobs/$jobId",
@@ -57,54 +75,89 @@ export interface FileRoutesByFullPath {
   "/": typeof IndexRoute;
   "/environments": typeof EnvironmentsRoute;
   "/export": typeof ExportRoute;
+  "/lookup-tables": typeof LookupTablesRoute;
   "/settings": typeof SettingsRoute;
   "/traces": typeof TracesRoute;
   "/jobs/$jobId": typeof JobsJobIdRoute;
+  "/snapshots/diff": typeof SnapshotsDiffRoute;
   "/jobs": typeof JobsIndexRoute;
+  "/snapshots": typeof SnapshotsIndexRoute;
 }
 export interface FileRoutesByTo {
   "/": typeof IndexRoute;
   "/environments": typeof EnvironmentsRoute;
   "/export": typeof ExportRoute;
+  "/lookup-tables": typeof LookupTablesRoute;
   "/settings": typeof SettingsRoute;
   "/traces": typeof TracesRoute;
   "/jobs/$jobId": typeof JobsJobIdRoute;
+  "/snapshots/diff": typeof SnapshotsDiffRoute;
   "/jobs": typeof JobsIndexRoute;
+  "/snapshots": typeof SnapshotsIndexRoute;
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport;
   "/": typeof IndexRoute;
   "/environments": typeof EnvironmentsRoute;
   "/export": typeof ExportRoute;
+  "/lookup-tables": typeof LookupTablesRoute;
   "/settings": typeof SettingsRoute;
   "/traces": typeof TracesRoute;
   "/jobs/$jobId": typeof JobsJobIdRoute;
+  "/snapshots/diff": typeof SnapshotsDiffRoute;
   "/jobs/": typeof JobsIndexRoute;
+  "/snapshots/": typeof SnapshotsIndexRoute;
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath;
-  fullPaths: "/" | "/environments" | "/export" | "/settings" | "/traces" | "/jobs/$jobId" | "/jobs";
+  fullPaths:
+    | "/"
+    | "/environments"
+    | "/export"
+    | "/lookup-tables"
+    | "/settings"
+    | "/traces"
+    | "/jobs/$jobId"
+    | "/snapshots/diff"
+    | "/jobs"
+    | "/snapshots";
   fileRoutesByTo: FileRoutesByTo;
-  to: "/" | "/environments" | "/export" | "/settings" | "/traces" | "/jobs/$jobId" | "/jobs";
+  to:
+    | "/"
+    | "/environments"
+    | "/export"
+    | "/lookup-tables"
+    | "/settings"
+    | "/traces"
+    | "/jobs/$jobId"
+    | "/snapshots/diff"
+    | "/jobs"
+    | "/snapshots";
   id:
     | "__root__"
     | "/"
     | "/environments"
     | "/export"
+    | "/lookup-tables"
     | "/settings"
     | "/traces"
     | "/jobs/$jobId"
-    | "/jobs/";
+    | "/snapshots/diff"
+    | "/jobs/"
+    | "/snapshots/";
   fileRoutesById: FileRoutesById;
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute;
   EnvironmentsRoute: typeof EnvironmentsRoute;
   ExportRoute: typeof ExportRoute;
+  LookupTablesRoute: typeof LookupTablesRoute;
   SettingsRoute: typeof SettingsRoute;
   TracesRoute: typeof TracesRoute;
   JobsJobIdRoute: typeof JobsJobIdRoute;
+  SnapshotsDiffRoute: typeof SnapshotsDiffRoute;
   JobsIndexRoute: typeof JobsIndexRoute;
+  SnapshotsIndexRoute: typeof SnapshotsIndexRoute;
 }
 
 declare module "@tanstack/react-router" {
@@ -123,6 +176,13 @@ declare module "@tanstack/react-router" {
       preLoaderRoute: typeof SettingsRouteImport;
       parentRoute: typeof rootRouteImport;
     };
+    "/lookup-tables": {
+      id: "/lookup-tables";
+      path: "/lookup-tables";
+      fullPath: "/lookup-tables";
+      preLoaderRoute: typeof LookupTablesRouteImport;
+      parentRoute: typeof rootRouteImport;
+    };
     "/export": {
       id: "/export";
       path: "/export";
@@ -144,6 +204,13 @@ declare module "@tanstack/react-router" {
       preLoaderRoute: typeof IndexRouteImport;
       parentRoute: typeof rootRouteImport;
     };
+    "/snapshots/": {
+      id: "/snapshots/";
+      path: "/snapshots";
+      fullPath: "/snapshots";
+      preLoaderRoute: typeof SnapshotsIndexRouteImport;
+      parentRoute: typeof rootRouteImport;
+    };
     "/jobs/": {
       id: "/jobs/";
       path: "/jobs";
@@ -151,6 +218,13 @@ declare module "@tanstack/react-router" {
       preLoaderRoute: typeof JobsIndexRouteImport;
       parentRoute: typeof rootRouteImport;
     };
+    "/snapshots/diff": {
+      id: "/snapshots/diff";
+      path: "/snapshots/diff";
+      fullPath: "/snapshots/diff";
+      preLoaderRoute: typeof SnapshotsDiffRouteImport;
+      parentRoute: typeof rootRouteImport;
+    };
     "/jobs/$jobId": {
       id: "/jobs/$jobId";
       path: "/jobs/$jobId";
@@ -165,10 +239,13 @@ const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   EnvironmentsRoute: EnvironmentsRoute,
   ExportRoute: ExportRoute,
+  LookupTablesRoute: LookupTablesRoute,
   SettingsRoute: SettingsRoute,
   TracesRoute: TracesRoute,
   JobsJobIdRoute: JobsJobIdRoute,
+  SnapshotsDiffRoute: SnapshotsDiffRoute,
   JobsIndexRoute: JobsIndexRoute,
+  SnapshotsIndexRoute: SnapshotsIndexRoute,
 };
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -1,10 +1,10 @@
 import { createFileRoute, Link } from "@tanstack/react-router";
-import { Database, FileSearch } from "lucide-react";
+import { Database, FileSearch, FileSpreadsheet } from "lucide-react";
 import { ExportWizard } from "@/components/export";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 
 type ExportSearch = {
-  from?: "datasource" | "query";
+  from?: "datasource" | "query" | "file";
   step?: number;
   sourceEntity?: string;
   destEnv?: string;
@@ -14,7 +14,10 @@ type ExportSearch = {
 export const Route = createFileRoute("/export")({
   validateSearch: (search: Record<string, unknown>): ExportSearch => {
     return {
-      from: search.from === "datasource" || search.from === "query" ? search.from : undefined,
+      from:
+        search.from === "datasource" || search.from === "query" || search.from === "file"
+          ? search.from
+          : undefined,
       step: typeof search.step === "number" ? search.step : undefined,
       sourceEntity: typeof search.sourceEntity === "string" ? search.sourceEntity : undefined,
       destEnv: typeof search.destEnv === "string" ? search.destEnv : undefined,
@@ -32,11 +35,18 @@ function ExportPage() {
     return <ExportSourceSelection />;
   }
 
-  const title = from === "query" ? "Export from Query" : "Export from Data Source";
+  const title =
+    from === "query"
+      ? "Export from Query"
+      : from === "file"
+        ? "Import from File"
+        : "Export from Data Source";
   const description =
     from === "query"
       ? "Select an IQA query to export data and map to a destination."
-      : "Configure and queue a data migration between environments.";
+      : from === "file"
+        ? "Upload a CSV or Excel file and map its columns to a destination."
+        : "Configure and queue a data migration between environments.";
 
   return (
     <div className="flex flex-col gap-6">
@@ -60,7 +70,7 @@ function ExportSourceSelection() {
         </p>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-2">
+      <div className="grid gap-4 md:grid-cols-3">
         <Link to="/export" search={{ from: "datasource" }}>
           <Card className="h-full cursor-pointer transition-all hover:border-primary/50 hover:bg-primary/5">
             <CardHeader>
@@ -104,6 +114,28 @@ function ExportSourceSelection() {
             </CardContent>
           </Card>
         </Link>
+
+        <Link to="/export" search={{ from: "file" }}>
+          <Card className="h-full cursor-pointer transition-all hover:border-primary/50 hover:bg-primary/5">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="flex size-10 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+                  <FileSpreadsheet className="size-5" />
+                </div>
+                <div>
+                  <CardTitle className="text-lg">From File</CardTitle>
+                  <CardDescription>Import legacy data from a spreadsheet</CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Upload a CSV or Excel (.xlsx) file, check the column types read from it, then map
+                its columns to a destination data source.
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
       </div>
     </div>
   );
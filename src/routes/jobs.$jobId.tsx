@@ -6,13 +6,21 @@ import {
   ArrowLeft,
   ArrowRight,
   Calendar,
+  ClipboardCheck,
   Database,
+  Download,
+  FastForward,
   FileSearch,
+  FileSpreadsheet,
   Loader2,
   Pause,
   Play,
   RotateCcw,
+  ShieldCheck,
+  Square,
   Trash2,
+  Undo2,
+  Unplug,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -31,38 +39,67 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { queries } from "@/lib/queries";
-import { runJob, retryFailedRows, cancelJob, deleteJob } from "@/api/client";
+import {
+  runJob,
+  runDelta,
+  retryFailedRows,
+  retryFailedBatches,
+  cancelJob,
+  pauseJob,
+  resumeJob,
+  deleteJob,
+  exportCrosswalk,
+  verifyJob,
+  rollbackJob,
+} from "@/api/client";
 import type { RowStatus } from "@/api/client";
 import {
   StatusIcon,
   StatusBadge,
   formatDuration,
   formatFullDateTime,
+  getMissingRowRanges,
   getProgressPercent,
 } from "@/components/job-status";
 import { JobRowResultsTable } from "@/components/job-row-results-table";
+import { JobRunHistory } from "@/components/job-run-history";
+import { JobVerification } from "@/components/job-verification";
+import { JobRollback, RollbackDialog } from "@/components/job-rollback";
+import { JobFailureGroups } from "@/components/job-failure-groups";
+import { downloadCsv } from "@/lib/csv";
+import { describeRowFilter, type RowFilter } from "@/lib/row-filter";
+import type { QueryParameterValue } from "@/lib/query-parameters";
 import { cn } from "@/lib/utils";
 
 export const Route = createFileRoute("/jobs/$jobId")({
   component: JobDetailsPage,
 });
 
-type StatusFilter = "all" | "success" | "failed";
+// "unmapped" narrows failed rows to those a lookup table had no entry for
+type StatusFilter = "all" | "success" | "failed" | "held" | "skipped" | "unmapped";
 
 function JobDetailsPage() {
   const { jobId } = Route.useParams();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [rollbackDialogOpen, setRollbackDialogOpen] = useState(false);
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
 
   const { data: job, isLoading: isLoadingJob } = useQuery(queries.jobs.byId(jobId));
 
   // Get rows with optional status filter
-  const rowStatus: RowStatus | undefined = statusFilter === "all" ? undefined : statusFilter;
+  const rowStatus: RowStatus | undefined =
+    statusFilter === "all" ? undefined : statusFilter === "unmapped" ? "failed" : statusFilter;
   const { data: rowsData, isLoading: isLoadingRows } = useQuery(
-    queries.jobs.rows(jobId, rowStatus),
+    queries.jobs.rows(jobId, rowStatus, statusFilter === "unmapped" ? "unmapped_value" : undefined),
   );
+  const { data: crosswalkEntries } = useQuery(queries.jobs.crosswalk(jobId));
+  const { data: snapshots } = useQuery({
+    ...queries.snapshots.all(),
+    enabled: !!job?.sourceSnapshotId,
+  });
+  const sourceSnapshot = snapshots?.find((snapshot) => snapshot.id === job?.sourceSnapshotId);
 
   const identityFieldNames = useMemo(() => {
     if (!job?.identityFieldNames) return [] as string[];
@@ -73,6 +110,24 @@ function JobDetailsPage() {
     }
   }, [job?.identityFieldNames]);
 
+  const rowFilter = useMemo(() => {
+    if (!job?.rowFilter) return null;
+    try {
+      return JSON.parse(job.rowFilter) as RowFilter;
+    } catch {
+      return null;
+    }
+  }, [job?.rowFilter]);
+
+  const queryParameters = useMemo(() => {
+    if (!job?.queryParameters) return [];
+    try {
+      return JSON.parse(job.queryParameters) as QueryParameterValue[];
+    } catch {
+      return [];
+    }
+  }, [job?.queryParameters]);
+
   const runJobMutation = useMutation({
     mutationFn: runJob,
     onSuccess: () => {
@@ -80,6 +135,30 @@ function JobDetailsPage() {
     },
   });
 
+  const runDeltaMutation = useMutation({
+    mutationFn: runDelta,
+    onSuccess: async ({ jobId: deltaJobId }) => {
+      await queryClient.invalidateQueries({ queryKey: ["jobs"] });
+      navigate({ to: "/jobs/$jobId", params: { jobId: deltaJobId } });
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: verifyJob,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["jobs", jobId, "verification"] });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: rollbackJob,
+    onSuccess: () => {
+      setRollbackDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["jobs"] });
+    },
+    onError: () => setRollbackDialogOpen(false),
+  });
+
   const retryMutation = useMutation({
     mutationFn: retryFailedRows,
     onSuccess: () => {
@@ -88,6 +167,14 @@ function JobDetailsPage() {
     },
   });
 
+  const retryBatchesMutation = useMutation({
+    mutationFn: retryFailedBatches,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["jobs", jobId, "rows"] });
+    },
+  });
+
   const cancelMutation = useMutation({
     mutationFn: cancelJob,
     onSuccess: () => {
@@ -95,6 +182,20 @@ function JobDetailsPage() {
     },
   });
 
+  const pauseMutation = useMutation({
+    mutationFn: pauseJob,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["jobs"] });
+    },
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: resumeJob,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["jobs"] });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: deleteJob,
     onSuccess: () => {
@@ -103,6 +204,13 @@ function JobDetailsPage() {
     },
   });
 
+  const exportCrosswalkMutation = useMutation({
+    mutationFn: () => exportCrosswalk({ jobId }),
+    onSuccess: (csv) => {
+      downloadCsv(csv, `crosswalk-${jobId}.csv`);
+    },
+  });
+
   const handleConfirmDelete = () => {
     deleteMutation.mutate(jobId);
   };
@@ -130,6 +238,14 @@ function JobDetailsPage() {
   }
 
   const progress = getProgressPercent(job.processedRows, job.totalRows);
+  // Held rows are retried together with failed rows once their parent has migrated
+  const retryableCount = job.failedRowCount + job.heldRowCount;
+  // Source rows that were never fetched because their batch failed after all retries
+  const missingRowRanges = getMissingRowRanges(
+    job.failedQueryOffsets,
+    job.queryBatchSize,
+    job.totalRows,
+  );
 
   return (
     <div className="flex flex-col gap-6">
@@ -162,13 +278,40 @@ function JobDetailsPage() {
             </Button>
           )}
           {job.status === "running" && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => pauseMutation.mutate(job.id)}
+              disabled={pauseMutation.isPending || cancelMutation.isPending}
+            >
+              <Pause className="size-4 mr-1" />
+              Pause
+            </Button>
+          )}
+          {(job.status === "paused" || job.status === "interrupted") && (
+            <Button
+              size="sm"
+              onClick={() => resumeMutation.mutate(job.id)}
+              disabled={resumeMutation.isPending || cancelMutation.isPending}
+            >
+              {resumeMutation.isPending ? (
+                <Loader2 className="size-4 animate-spin mr-1" />
+              ) : (
+                <Play className="size-4 mr-1" />
+              )}
+              Resume
+            </Button>
+          )}
+          {(job.status === "running" ||
+            job.status === "paused" ||
+            job.status === "interrupted") && (
             <Button
               size="sm"
               variant="outline"
               onClick={() => cancelMutation.mutate(job.id)}
               disabled={cancelMutation.isPending}
             >
-              <Pause className="size-4 mr-1" />
+              <Square className="size-4 mr-1" />
               Cancel
             </Button>
           )}
@@ -186,7 +329,42 @@ function JobDetailsPage() {
               Retry Job
             </Button>
           )}
-          {job.failedRowCount > 0 &&
+          {job.status === "validated" && (
+            <Button
+              size="sm"
+              onClick={() => runJobMutation.mutate(job.id)}
+              disabled={runJobMutation.isPending}
+            >
+              {runJobMutation.isPending ? (
+                <Loader2 className="size-4 animate-spin mr-1" />
+              ) : (
+                <RotateCcw className="size-4 mr-1" />
+              )}
+              Re-validate
+            </Button>
+          )}
+          {job.watermarkColumn &&
+            !job.dryRun &&
+            (job.status === "completed" ||
+              job.status === "partial" ||
+              job.status === "failed" ||
+              job.status === "cancelled") && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => runDeltaMutation.mutate(job.id)}
+                disabled={runDeltaMutation.isPending}
+              >
+                {runDeltaMutation.isPending ? (
+                  <Loader2 className="size-4 animate-spin mr-1" />
+                ) : (
+                  <FastForward className="size-4 mr-1" />
+                )}
+                Run Delta
+              </Button>
+            )}
+          {retryableCount > 0 &&
+            !job.dryRun &&
             (job.status === "completed" || job.status === "partial" || job.status === "failed") && (
               <Button
                 size="sm"
@@ -199,9 +377,55 @@ function JobDetailsPage() {
                 ) : (
                   <RotateCcw className="size-4 mr-1" />
                 )}
-                Retry Failed ({job.failedRowCount})
+                Retry Failed ({retryableCount})
+              </Button>
+            )}
+          {!job.dryRun &&
+            job.destType === "bo_entity" &&
+            (job.status === "completed" || job.status === "partial") && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => verifyMutation.mutate(job.id)}
+                disabled={verifyMutation.isPending}
+              >
+                {verifyMutation.isPending ? (
+                  <Loader2 className="size-4 animate-spin mr-1" />
+                ) : (
+                  <ShieldCheck className="size-4 mr-1" />
+                )}
+                Verify
+              </Button>
+            )}
+          {!job.dryRun &&
+            job.destType === "bo_entity" &&
+            (job.status === "completed" || job.status === "partial") && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                onClick={() => setRollbackDialogOpen(true)}
+                disabled={rollbackMutation.isPending}
+              >
+                <Undo2 className="size-4 mr-1" />
+                Roll Back
               </Button>
             )}
+          {(crosswalkEntries?.length ?? 0) > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => exportCrosswalkMutation.mutate()}
+              disabled={exportCrosswalkMutation.isPending}
+            >
+              {exportCrosswalkMutation.isPending ? (
+                <Loader2 className="size-4 animate-spin mr-1" />
+              ) : (
+                <Download className="size-4 mr-1" />
+              )}
+              Export ID Crosswalk
+            </Button>
+          )}
           {job.status !== "running" && (
             <Button
               size="sm"
@@ -223,24 +447,142 @@ function JobDetailsPage() {
           <h1 className="text-xl font-semibold">{job.name}</h1>
         </div>
 
+        {/* Dry Run Banner */}
+        {job.dryRun && (
+          <div className="flex items-start gap-3 p-3 bg-sky-500/10 border border-sky-500/20 rounded-lg">
+            <ClipboardCheck className="size-5 text-sky-600 shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-medium text-sky-600">Dry Run</p>
+              <p className="text-muted-foreground mt-1">
+                Rows are checked against the {job.destEntityType} definition (required fields, max
+                lengths, types and IsPrimary) without writing to the destination. Failed rows list
+                the problems found.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Interrupted Banner */}
+        {job.status === "interrupted" && (
+          <div className="flex items-start gap-3 p-3 bg-orange-500/10 border border-orange-500/20 rounded-lg">
+            <Unplug className="size-5 text-orange-600 shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-medium text-orange-600">Interrupted</p>
+              <p className="text-muted-foreground mt-1">
+                The app closed while this job was running. Resume to continue: rows already stored
+                are skipped and only the batches that never finished are fetched again.
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Error Message Banner */}
-        {job.status === "failed" && job.errorMessage && (
+        {(job.status === "failed" || job.status === "paused" || job.status === "interrupted") &&
+          job.errorMessage && (
+            <div className="flex items-start gap-3 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <AlertTriangle className="size-5 text-destructive shrink-0 mt-0.5" />
+              <div className="text-sm">
+                <p className="font-medium text-destructive">Validation Failed</p>
+                <p className="text-muted-foreground mt-1">{job.errorMessage}</p>
+              </div>
+            </div>
+          )}
+
+        {/* Delta Run Error Banner */}
+        {runDeltaMutation.isError && (
           <div className="flex items-start gap-3 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
             <AlertTriangle className="size-5 text-destructive shrink-0 mt-0.5" />
             <div className="text-sm">
-              <p className="font-medium text-destructive">Validation Failed</p>
-              <p className="text-muted-foreground mt-1">{job.errorMessage}</p>
+              <p className="font-medium text-destructive">Delta Run Not Started</p>
+              <p className="text-muted-foreground mt-1">
+                {runDeltaMutation.error instanceof Error
+                  ? runDeltaMutation.error.message
+                  : "Failed to start a delta run."}
+              </p>
             </div>
           </div>
         )}
 
+        {/* Verification Error Banner */}
+        {verifyMutation.isError && (
+          <div className="flex items-start gap-3 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+            <AlertTriangle className="size-5 text-destructive shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-medium text-destructive">Verification Not Started</p>
+              <p className="text-muted-foreground mt-1">
+                {verifyMutation.error instanceof Error
+                  ? verifyMutation.error.message
+                  : "Failed to start verification."}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Rollback Error Banner */}
+        {rollbackMutation.isError && (
+          <div className="flex items-start gap-3 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+            <AlertTriangle className="size-5 text-destructive shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-medium text-destructive">Rollback Not Started</p>
+              <p className="text-muted-foreground mt-1">
+                {rollbackMutation.error instanceof Error
+                  ? rollbackMutation.error.message
+                  : "Failed to start the rollback."}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Missing Source Rows Banner */}
+        {missingRowRanges.length > 0 && (
+          <div className="flex items-start gap-3 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+            <AlertTriangle className="size-5 text-destructive shrink-0 mt-0.5" />
+            <div className="flex-1 text-sm">
+              <p className="font-medium text-destructive">Missing Source Rows</p>
+              <p className="text-muted-foreground mt-1">
+                {missingRowRanges.length === 1 ? "A source batch" : "Some source batches"} could not
+                be fetched after retrying. These source rows were never{" "}
+                {job.dryRun ? "validated" : "migrated"}:{" "}
+                <span className="font-medium text-foreground">
+                  {missingRowRanges
+                    .map(({ start, end }) =>
+                      end === null
+                        ? `from ${start.toLocaleString()}`
+                        : end > start
+                          ? `${start.toLocaleString()}–${end.toLocaleString()}`
+                          : start.toLocaleString(),
+                    )
+                    .join(", ")}
+                </span>
+              </p>
+            </div>
+            {job.status !== "running" && job.status !== "rolled_back" && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => retryBatchesMutation.mutate(job.id)}
+                disabled={retryBatchesMutation.isPending}
+              >
+                {retryBatchesMutation.isPending ? (
+                  <Loader2 className="size-4 animate-spin mr-1" />
+                ) : (
+                  <RotateCcw className="size-4 mr-1" />
+                )}
+                Retry Failed Batches
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Environment Flow */}
         <div className="flex items-center gap-4 text-sm">
           <span className="px-2 py-1 bg-muted rounded font-medium">
-            {job.sourceEnvironmentName}
+            {job.sourceFileName ?? job.sourceEnvironmentName}
           </span>
           <ArrowRight className="size-4 text-muted-foreground" />
-          <span className="px-2 py-1 bg-muted rounded font-medium">{job.destEnvironmentName}</span>
+          <span className="px-2 py-1 bg-muted rounded font-medium">
+            {job.destType === "file" ? job.destEntityType : job.destEnvironmentName}
+          </span>
           <span className="text-muted-foreground ml-auto">
             Duration: {formatDuration(job.startedAt, job.completedAt)}
           </span>
@@ -259,7 +601,7 @@ function JobDetailsPage() {
               <div
                 className={cn(
                   "h-full transition-all duration-500",
-                  job.failedRowCount > 0 ? "bg-amber-500" : "bg-primary",
+                  retryableCount > 0 ? "bg-amber-500" : "bg-primary",
                 )}
                 style={{ width: `${progress}%` }}
               />
@@ -299,10 +641,25 @@ function JobDetailsPage() {
                 <span className="text-sm flex items-center gap-1.5">
                   {job.mode === "query" ? (
                     <FileSearch className="size-3.5" />
+                  ) : job.mode === "file" ? (
+                    <FileSpreadsheet className="size-3.5" />
                   ) : (
                     <Database className="size-3.5" />
                   )}
-                  {job.mode === "query" ? "Query" : "Data Source"}
+                  {job.mode === "query" ? "Query" : job.mode === "file" ? "File" : "Data Source"}
+                </span>
+              </div>
+              <div className="flex flex-col gap-2">
+                <span className="text-xs text-muted-foreground font-medium">Write Mode</span>
+                <span className="text-sm capitalize">{job.writeMode}</span>
+              </div>
+              <div className="flex flex-col gap-2">
+                <span className="text-xs text-muted-foreground font-medium">ID Crosswalk</span>
+                <span className="text-sm font-mono">
+                  {crosswalkEntries?.length ?? 0} entries
+                  {job.sourceKeyProperty && (
+                    <span className="text-muted-foreground"> ({job.sourceKeyProperty})</span>
+                  )}
                 </span>
               </div>
               <div className="flex flex-col gap-2">
@@ -312,9 +669,13 @@ function JobDetailsPage() {
                     try {
                       const mappings = JSON.parse(job.mappings) as Array<{
                         destinationProperty: string | null;
+                        transforms?: unknown[];
                       }>;
-                      const active = mappings.filter((m) => m.destinationProperty !== null).length;
-                      return `${active} fields`;
+                      const active = mappings.filter((m) => m.destinationProperty !== null);
+                      const transformed = active.filter((m) => m.transforms?.length).length;
+                      return transformed > 0
+                        ? `${active.length} fields (${transformed} transformed)`
+                        : `${active.length} fields`;
                     } catch {
                       return "—";
                     }
@@ -340,12 +701,85 @@ function JobDetailsPage() {
               {/* Source/Dest info */}
               <div className="col-span-2 md:col-span-3 flex items-center gap-2 text-xs text-muted-foreground p-2 bg-muted/30 rounded">
                 <span className="font-mono truncate flex-1">
-                  {job.mode === "query" ? job.sourceQueryPath : job.sourceEntityType}
+                  {job.mode === "query"
+                    ? job.sourceQueryPath
+                    : job.mode === "file"
+                      ? job.sourceFileName
+                      : job.sourceEntityType}
                 </span>
                 <ArrowRight className="size-3 shrink-0" />
-                <span className="font-mono truncate flex-1">{job.destEntityType}</span>
+                <span className="font-mono truncate flex-1" title={job.destFilePath ?? undefined}>
+                  {job.destFilePath ?? job.destEntityType}
+                </span>
               </div>
 
+              {/* Parent job link */}
+              {job.parentJobId && (
+                <div className="col-span-2 md:col-span-3 flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>Child of</span>
+                  <Link
+                    to="/jobs/$jobId"
+                    params={{ jobId: job.parentJobId }}
+                    className="font-mono text-primary hover:underline truncate"
+                  >
+                    {job.parentJobId}
+                  </Link>
+                  <span className="font-mono truncate">
+                    ({job.parentSourceProperty} → {job.parentKeyProperty})
+                  </span>
+                </div>
+              )}
+
+              {/* Snapshot read instead of the source environment */}
+              {job.sourceSnapshotId && (
+                <div className="col-span-2 md:col-span-3 flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className="shrink-0">Source rows</span>
+                  <span className="truncate">
+                    {sourceSnapshot
+                      ? `Snapshot "${sourceSnapshot.name}" (${sourceSnapshot.rowCount.toLocaleString()} rows)`
+                      : "Deleted snapshot"}
+                  </span>
+                </div>
+              )}
+
+              {/* Query parameters */}
+              {queryParameters.length > 0 && (
+                <div className="col-span-2 md:col-span-3 flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className="shrink-0">Query parameters</span>
+                  <span className="font-mono truncate">
+                    {queryParameters
+                      .map((parameter) => `${parameter.propertyName} = "${parameter.value}"`)
+                      .join(", ")}
+                  </span>
+                </div>
+              )}
+
+              {/* Watermark for delta runs */}
+              {job.watermarkColumn && (
+                <div className="col-span-2 md:col-span-3 flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className="shrink-0">Watermark</span>
+                  <span className="font-mono truncate">{job.watermarkColumn}</span>
+                  {job.watermarkFrom && (
+                    <span className="font-mono truncate">(rows from {job.watermarkFrom})</span>
+                  )}
+                  {job.olderRowCount > 0 && (
+                    <span className="shrink-0">{job.olderRowCount} older rows not migrated</span>
+                  )}
+                  <span className="shrink-0 ml-auto font-mono">
+                    highest seen: {job.watermarkValue ?? "—"}
+                  </span>
+                </div>
+              )}
+
+              {/* Row filter */}
+              {rowFilter && (
+                <div className="col-span-2 md:col-span-3 flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className="shrink-0">Row filter</span>
+                  <span className="font-mono truncate">{describeRowFilter(rowFilter)}</span>
+                  <span className="shrink-0 ml-auto">{job.skippedRowCount} skipped</span>
+                </div>
+              )}
+
               {/* Job ID */}
               <div className="col-span-2 md:col-span-3 text-[10px] text-muted-foreground/60 font-mono">
                 ID: {job.id}
@@ -355,6 +789,22 @@ function JobDetailsPage() {
         </AccordionItem>
       </Accordion>
 
+      {job.status !== "rolled_back" && (
+        <JobVerification jobId={jobId} migratedRows={job.successfulRows} />
+      )}
+
+      <JobRollback jobId={jobId} />
+
+      {(job.watermarkColumn || job.deltaOfJobId) && <JobRunHistory jobId={jobId} />}
+
+      {job.status !== "running" && (
+        <JobFailureGroups
+          jobId={jobId}
+          canRetry={!job.dryRun && job.status !== "rolled_back"}
+          canSkip={job.status !== "rolled_back"}
+        />
+      )}
+
       {/* Row Results Table */}
       <div className="flex flex-col gap-4">
         <h2 className="text-lg font-semibold">Row Results</h2>
@@ -364,12 +814,23 @@ function JobDetailsPage() {
           total={rowsData?.total ?? 0}
           identityFieldNames={identityFieldNames}
           jobId={jobId}
+          canRetry={!job.dryRun && job.status !== "rolled_back"}
           isLoading={isLoadingRows}
           statusFilter={statusFilter}
           onStatusFilterChange={setStatusFilter}
         />
       </div>
 
+      <RollbackDialog
+        open={rollbackDialogOpen}
+        onOpenChange={setRollbackDialogOpen}
+        jobName={job.name}
+        destEntityType={job.destEntityType}
+        destEnvironmentName={job.destEnvironmentName}
+        isPending={rollbackMutation.isPending}
+        onConfirm={() => rollbackMutation.mutate(job.id)}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent>
@@ -389,9 +850,22 @@ function JobDetailsPage() {
               <div className="text-sm">
                 <p className="font-medium text-amber-600">Warning: Partial Job</p>
                 <p className="text-muted-foreground mt-1">
-                  This job has {job.failedRowCount} failed records that haven't been retried.
-                  Deleting will permanently remove these records and you won't be able to retry
-                  them.
+                  This job has {retryableCount} failed records that haven't been retried. Deleting
+                  will permanently remove these records and you won't be able to retry them.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {deleteMutation.isError && (
+            <div className="flex items-start gap-3 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+              <AlertTriangle className="size-5 text-destructive shrink-0 mt-0.5" />
+              <div className="text-sm">
+                <p className="font-medium text-destructive">Job Not Deleted</p>
+                <p className="text-muted-foreground mt-1">
+                  {deleteMutation.error instanceof Error
+                    ? deleteMutation.error.message
+                    : "Failed to delete the job."}
                 </p>
               </div>
             </div>
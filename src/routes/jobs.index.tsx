@@ -1,7 +1,16 @@
 import { useMemo } from "react";
 import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
-import { useQuery } from "@tanstack/react-query";
-import { ArrowRight, ChevronRight, Clock, Database, Loader2, RefreshCw } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowRight,
+  ChevronRight,
+  Clock,
+  Database,
+  Loader2,
+  Play,
+  RefreshCw,
+  Unplug,
+} from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -12,6 +21,7 @@ import {
   formatRelativeTime,
   getProgressPercent,
 } from "@/components/job-status";
+import { resumeJob } from "@/api/client";
 import type { JobWithEnvironments, JobStatus } from "@/api/client";
 import { cn } from "@/lib/utils";
 
@@ -30,8 +40,22 @@ function JobsPage() {
   const navigate = useNavigate({ from: "/jobs" });
   const { status: statusFilter } = Route.useSearch();
 
+  const queryClient = useQueryClient();
   const { data: jobs, isLoading, refetch, isFetching } = useQuery(queries.jobs.all());
 
+  // Jobs cut off when the app last exited, offered for resume
+  const interruptedJobs = useMemo(
+    () => (jobs ?? []).filter((job) => job.status === "interrupted"),
+    [jobs],
+  );
+
+  const resumeAllMutation = useMutation({
+    mutationFn: (jobIds: string[]) => Promise.all(jobIds.map(resumeJob)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["jobs"] });
+    },
+  });
+
   // Filter jobs by status
   const filteredJobs = useMemo(() => {
     if (!jobs) return [];
@@ -75,6 +99,39 @@ function JobsPage() {
         </div>
       </div>
 
+      {/* Interrupted Jobs Banner */}
+      {interruptedJobs.length > 0 && (
+        <div className="flex items-center gap-3 p-3 bg-orange-500/10 border border-orange-500/20 rounded-lg">
+          <Unplug className="size-5 text-orange-600 shrink-0" />
+          <div className="flex-1 text-sm">
+            <p className="font-medium text-orange-600">
+              {interruptedJobs.length === 1
+                ? "1 job was interrupted"
+                : `${interruptedJobs.length} jobs were interrupted`}
+            </p>
+            <p className="text-muted-foreground mt-1">
+              The app closed while {interruptedJobs.length === 1 ? "it was" : "they were"} running.
+              Resuming skips rows already stored and fetches only the batches that never finished.
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setStatusFilter("interrupted")}>
+            View
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => resumeAllMutation.mutate(interruptedJobs.map((job) => job.id))}
+            disabled={resumeAllMutation.isPending}
+          >
+            {resumeAllMutation.isPending ? (
+              <Loader2 className="size-4 animate-spin" />
+            ) : (
+              <Play className="size-4" />
+            )}
+            {interruptedJobs.length === 1 ? "Resume" : "Resume All"}
+          </Button>
+        </div>
+      )}
+
       {/* Summary Stats */}
       {jobs && jobs.length > 0 && (
         <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
@@ -115,7 +172,19 @@ function JobsPage() {
         {/* Status Filters */}
         <div className="px-4 pb-3 flex flex-wrap gap-1.5">
           {(
-            ["all", "completed", "partial", "failed", "running", "queued", "cancelled"] as const
+            [
+              "all",
+              "completed",
+              "partial",
+              "failed",
+              "running",
+              "paused",
+              "interrupted",
+              "queued",
+              "cancelled",
+              "validated",
+              "rolled_back",
+            ] as const
           ).map((status) => (
             <button
               key={status}
@@ -133,11 +202,21 @@ function JobsPage() {
                           ? "bg-destructive/20 text-destructive ring-1 ring-destructive/30"
                           : status === "running"
                             ? "bg-primary/20 text-primary ring-1 ring-primary/30"
-                            : "bg-muted text-muted-foreground ring-1 ring-muted-foreground/30"
+                            : status === "paused"
+                              ? "bg-amber-500/20 text-amber-600 ring-1 ring-amber-500/30"
+                              : status === "interrupted"
+                                ? "bg-orange-500/20 text-orange-600 ring-1 ring-orange-500/30"
+                                : status === "validated"
+                                  ? "bg-sky-500/20 text-sky-600 ring-1 ring-sky-500/30"
+                                  : status === "rolled_back"
+                                    ? "bg-violet-500/20 text-violet-600 ring-1 ring-violet-500/30"
+                                    : "bg-muted text-muted-foreground ring-1 ring-muted-foreground/30"
                   : "bg-muted/50 text-muted-foreground hover:bg-muted",
               )}
             >
-              {status === "all" ? "All" : status.charAt(0).toUpperCase() + status.slice(1)}
+              {status === "all"
+                ? "All"
+                : status.charAt(0).toUpperCase() + status.slice(1).replace("_", " ")}
             </button>
           ))}
         </div>
@@ -201,15 +280,20 @@ function JobListItem({ job }: { job: JobWithEnvironments }) {
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-2">
             <span className="font-medium truncate">{job.name}</span>
+            {job.dryRun && (
+              <span className="text-[10px] px-1.5 py-0.5 bg-sky-500/10 text-sky-600 rounded font-medium shrink-0">
+                Dry run
+              </span>
+            )}
           </div>
           {/* Environment badges */}
           <div className="flex items-center gap-1.5 mt-1">
             <span className="text-[10px] px-1.5 py-0.5 bg-muted rounded font-medium truncate max-w-[100px]">
-              {job.sourceEnvironmentName}
+              {job.sourceFileName ?? job.sourceEnvironmentName}
             </span>
             <ArrowRight className="size-3 text-muted-foreground shrink-0" />
             <span className="text-[10px] px-1.5 py-0.5 bg-muted rounded font-medium truncate max-w-[100px]">
-              {job.destEnvironmentName}
+              {job.destType === "file" ? job.destEntityType : job.destEnvironmentName}
             </span>
           </div>
           <div className="flex items-center gap-3 text-xs text-muted-foreground mt-1">
@@ -233,7 +317,14 @@ function JobListItem({ job }: { job: JobWithEnvironments }) {
             </div>
           )}
           {job.failedRowCount > 0 && (
-            <div className="text-xs text-amber-500 mt-1">{job.failedRowCount} failed records</div>
+            <div className="text-xs text-amber-500 mt-1">
+              {job.failedRowCount} {job.dryRun ? "invalid" : "failed"} records
+            </div>
+          )}
+          {job.skippedRowCount > 0 && (
+            <div className="text-xs text-muted-foreground mt-1">
+              {job.skippedRowCount} skipped by the row filter
+            </div>
           )}
         </div>
         <ChevronRight className="size-4 text-muted-foreground shrink-0" />
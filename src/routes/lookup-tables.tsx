@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { createFileRoute } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { MoreHorizontal, Pencil, Plus, Table2, Trash2 } from "lucide-react";
+import { queries } from "@/lib/queries";
+import { useDeleteLookupTable } from "@/lib/mutations";
+import { LOOKUP_FALLBACKS, type LookupEntry } from "@/lib/lookup-tables";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { LookupTableDialog } from "@/components/lookup-table-dialog";
+import type { LookupTable } from "@/api/client";
+
+export const Route = createFileRoute("/lookup-tables")({
+  component: LookupTablesPage,
+});
+
+function LookupTablesPage() {
+  const { data: lookupTables } = useQuery(queries.lookupTables.all());
+  const deleteLookupTable = useDeleteLookupTable();
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingTable, setEditingTable] = useState<LookupTable | null>(null);
+
+  const openDialog = (table: LookupTable | null) => {
+    setEditingTable(table);
+    setShowDialog(true);
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-bold tracking-tight">Lookup Tables</h1>
+          <p className="text-muted-foreground">
+            Reusable code tables that translate source values to destination values, such as legacy
+            member type codes. Pick a lookup table on any property mapping.
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)} className="shrink-0">
+          <Plus className="mr-2 size-4" />
+          Add Lookup Table
+        </Button>
+      </div>
+
+      {!lookupTables || lookupTables.length === 0 ? (
+        <Card className="border-dashed">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <div className="flex size-12 items-center justify-center rounded-full bg-muted">
+              <Table2 className="size-6 text-muted-foreground" />
+            </div>
+            <h3 className="mt-4 text-lg font-semibold">No lookup tables</h3>
+            <p className="mt-2 text-center text-sm text-muted-foreground">
+              Create a lookup table to map source codes to destination codes.
+            </p>
+            <Button onClick={() => openDialog(null)} className="mt-4">
+              <Plus className="mr-2 size-4" />
+              Add Lookup Table
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {lookupTables.map((table) => {
+            const entries = JSON.parse(table.entries) as LookupEntry[];
+            return (
+              <Card key={table.id} className="hover:border-muted-foreground/25 transition-colors">
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                  <div className="flex items-start gap-3 min-w-0">
+                    <div className="flex size-10 shrink-0 items-center justify-center rounded-lg bg-muted text-muted-foreground">
+                      <Table2 className="size-5" />
+                    </div>
+                    <div className="flex flex-col gap-1 min-w-0">
+                      <CardTitle className="text-base truncate">{table.name}</CardTitle>
+                      <CardDescription className="text-xs truncate">
+                        {table.description ?? `${entries.length} entries`}
+                      </CardDescription>
+                    </div>
+                  </div>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="size-8">
+                        <MoreHorizontal className="size-4" />
+                        <span className="sr-only">Open menu</span>
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => openDialog(table)}>
+                        <Pencil className="mr-2 size-4" />
+                        Edit
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        onClick={() => deleteLookupTable.mutate(table.id)}
+                        className="text-destructive focus:text-destructive"
+                      >
+                        <Trash2 className="mr-2 size-4" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-col gap-3 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">Entries</span>
+                      <span className="font-mono text-xs">{entries.length}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">Unmatched values</span>
+                      <span className="text-xs">{LOOKUP_FALLBACKS[table.fallback].label}</span>
+                    </div>
+                    {entries.length > 0 && (
+                      <div className="flex flex-col gap-1 rounded-md bg-muted/50 px-2.5 py-2 font-mono text-xs">
+                        {entries.slice(0, 3).map((entry, index) => (
+                          <span key={index} className="truncate">
+                            {entry.source} → {entry.destination}
+                          </span>
+                        ))}
+                        {entries.length > 3 && (
+                          <span className="text-muted-foreground">
+                            and {entries.length - 3} more
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <LookupTableDialog
+        lookupTable={editingTable}
+        open={showDialog}
+        onOpenChange={setShowDialog}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,399 @@
+import { useEffect, useState } from "react";
+import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, ArrowLeft, Loader2, Save } from "lucide-react";
+import { queries } from "@/lib/queries";
+import { useCreateSnapshotFromDiff } from "@/lib/mutations";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import type { SnapshotDiffEntry, SnapshotDiffKind } from "@/api/client";
+
+type SnapshotDiffSearch = {
+  base?: string;
+  compare?: string;
+  key?: string;
+  kind?: SnapshotDiffKind;
+};
+
+export const Route = createFileRoute("/snapshots/diff")({
+  component: SnapshotDiffPage,
+  validateSearch: (search: Record<string, unknown>): SnapshotDiffSearch => ({
+    base: (search.base as string) || undefined,
+    compare: (search.compare as string) || undefined,
+    key: (search.key as string) || undefined,
+    kind: (search.kind as SnapshotDiffKind) || undefined,
+  }),
+});
+
+const PAGE_SIZE = 100;
+
+const KIND_LABELS: Record<SnapshotDiffKind, { label: string; className: string }> = {
+  added: { label: "Added", className: "bg-emerald-500/10 text-emerald-600" },
+  modified: { label: "Modified", className: "bg-amber-500/10 text-amber-600" },
+  removed: { label: "Removed", className: "bg-destructive/10 text-destructive" },
+};
+
+const formatValue = (value: string | null) => (value === null ? "(empty)" : `"${value}"`);
+
+function EntryDetails({ entry }: { entry: SnapshotDiffEntry }) {
+  switch (entry.kind) {
+    case "added":
+      return <span>Only in the later snapshot.</span>;
+    case "removed":
+      return <span>Only in the earlier snapshot.</span>;
+    case "modified":
+      return (
+        <ul className="flex flex-col gap-0.5">
+          {entry.changes.map((change) => (
+            <li key={change.column} className="font-mono">
+              <span className="text-foreground">{change.column}</span>: {formatValue(change.before)}{" "}
+              → {formatValue(change.after)}
+            </li>
+          ))}
+        </ul>
+      );
+  }
+}
+
+function SnapshotDiffPage() {
+  const navigate = useNavigate({ from: "/snapshots/diff" });
+  const search = Route.useSearch();
+  const { data: snapshots } = useQuery(queries.snapshots.all());
+  const createFromDiff = useCreateSnapshotFromDiff();
+  const [keyDraft, setKeyDraft] = useState(search.key ?? "");
+  const [offset, setOffset] = useState(0);
+  const [snapshotName, setSnapshotName] = useState("");
+
+  const readySnapshots = (snapshots ?? []).filter((snapshot) => snapshot.status === "ready");
+  const base = readySnapshots.find((snapshot) => snapshot.id === search.base);
+  const compare = readySnapshots.find((snapshot) => snapshot.id === search.compare);
+
+  // Later captures of the same source as the earlier snapshot
+  const compareOptions = readySnapshots.filter(
+    (snapshot) =>
+      base !== undefined &&
+      snapshot.id !== base.id &&
+      snapshot.environmentId === base.environmentId &&
+      snapshot.mode === base.mode &&
+      snapshot.sourceQueryPath === base.sourceQueryPath &&
+      snapshot.sourceEntityType === base.sourceEntityType,
+  );
+
+  // Query rows have no identity fields, so they are only compared once a key column is given
+  const canCompare = !!base && !!compare && (base.mode === "datasource" || !!search.key);
+  const {
+    data: diff,
+    error,
+    isFetching,
+  } = useQuery(
+    queries.snapshots.diff(
+      canCompare
+        ? {
+            baseSnapshotId: base.id,
+            compareSnapshotId: compare.id,
+            ...(search.key ? { keyProperty: search.key } : {}),
+            ...(search.kind ? { kind: search.kind } : {}),
+            limit: PAGE_SIZE,
+            offset,
+          }
+        : null,
+    ),
+  );
+
+  // Start from the first page whenever the comparison changes
+  useEffect(() => {
+    setOffset(0);
+  }, [search.base, search.compare, search.key, search.kind]);
+
+  // Name the changed rows after the later snapshot
+  const compareName = compare?.name;
+  useEffect(() => {
+    setSnapshotName(compareName ? `${compareName} (changes)` : "");
+  }, [compareName]);
+
+  const updateSearch = (updates: Partial<SnapshotDiffSearch>) =>
+    navigate({ search: (prev) => ({ ...prev, ...updates }), replace: true });
+
+  const handleSave = () => {
+    if (!base || !compare) return;
+    createFromDiff.mutate(
+      {
+        name: snapshotName.trim(),
+        baseSnapshotId: base.id,
+        compareSnapshotId: compare.id,
+        ...(search.key ? { keyProperty: search.key } : {}),
+      },
+      { onSuccess: () => navigate({ to: "/snapshots" }) },
+    );
+  };
+
+  const changedRows = diff ? diff.added + diff.modified : 0;
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-col gap-2">
+        <Button variant="ghost" size="sm" className="w-fit" asChild>
+          <Link to="/snapshots">
+            <ArrowLeft className="size-4 mr-1" />
+            Snapshots
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold tracking-tight">Compare Snapshots</h1>
+        <p className="text-muted-foreground">
+          Rows added, removed and modified between two captures of the same source, matched on their
+          identity fields or a key column and compared column by column.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="baseSnapshot">Earlier Snapshot</Label>
+          <Select
+            value={base?.id ?? ""}
+            onValueChange={(value) => updateSearch({ base: value, compare: undefined })}
+          >
+            <SelectTrigger id="baseSnapshot" className="bg-background">
+              <SelectValue placeholder="Select a snapshot" />
+            </SelectTrigger>
+            <SelectContent>
+              {readySnapshots.map((snapshot) => (
+                <SelectItem key={snapshot.id} value={snapshot.id}>
+                  {snapshot.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="compareSnapshot">Later Snapshot</Label>
+          <Select
+            value={compare?.id ?? ""}
+            onValueChange={(value) => updateSearch({ compare: value })}
+            disabled={compareOptions.length === 0}
+          >
+            <SelectTrigger id="compareSnapshot" className="bg-background">
+              <SelectValue
+                placeholder={
+                  !base
+                    ? "Select the earlier snapshot first"
+                    : compareOptions.length === 0
+                      ? "No other snapshot of this source"
+                      : "Select a snapshot"
+                }
+              />
+            </SelectTrigger>
+            <SelectContent>
+              {compareOptions.map((snapshot) => (
+                <SelectItem key={snapshot.id} value={snapshot.id}>
+                  {snapshot.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="keyColumn">Key Column</Label>
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              updateSearch({ key: keyDraft.trim() || undefined });
+            }}
+          >
+            <Input
+              id="keyColumn"
+              value={keyDraft}
+              onChange={(e) => setKeyDraft(e.target.value)}
+              placeholder={base?.mode === "query" ? "e.g., ID" : "Identity fields"}
+              className="bg-background"
+            />
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={keyDraft.trim() === (search.key ?? "")}
+            >
+              Apply
+            </Button>
+          </form>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+      {isFetching && !diff && (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <Loader2 className="size-8 animate-spin text-muted-foreground/50 mb-3" />
+          <p className="text-sm text-muted-foreground">Comparing snapshots...</p>
+        </div>
+      )}
+
+      {diff && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">
+              Matched on{" "}
+              <span className="font-mono text-foreground">{diff.keyProperties.join(", ")}</span>
+            </span>
+            <span className="text-muted-foreground">·</span>
+            <span className="text-muted-foreground">
+              {diff.unchanged.toLocaleString()} unchanged
+            </span>
+            <div className="ml-auto flex items-center gap-1 rounded-lg border border-border p-1 bg-muted/30">
+              <button
+                onClick={() => updateSearch({ kind: undefined })}
+                className={cn(
+                  "px-3 py-1 rounded-md text-xs font-medium transition-colors",
+                  !search.kind
+                    ? "bg-background text-foreground shadow-sm"
+                    : "text-muted-foreground hover:text-foreground",
+                )}
+              >
+                All ({(diff.added + diff.modified + diff.removed).toLocaleString()})
+              </button>
+              {(Object.keys(KIND_LABELS) as SnapshotDiffKind[]).map((kind) => (
+                <button
+                  key={kind}
+                  onClick={() => updateSearch({ kind })}
+                  className={cn(
+                    "px-3 py-1 rounded-md text-xs font-medium transition-colors",
+                    search.kind === kind
+                      ? "bg-background text-foreground shadow-sm"
+                      : "text-muted-foreground hover:text-foreground",
+                  )}
+                >
+                  {KIND_LABELS[kind].label} ({diff[kind].toLocaleString()})
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {(diff.unkeyed > 0 || diff.duplicateKeys.length > 0) && (
+            <div className="flex items-start gap-2 rounded-md bg-amber-500/10 px-2.5 py-2 text-xs text-amber-600">
+              <AlertTriangle className="size-3.5 mt-0.5 shrink-0" />
+              <span>
+                {diff.unkeyed > 0 &&
+                  `${diff.unkeyed.toLocaleString()} rows have no value for the key and were not compared. `}
+                {diff.duplicateKeys.length > 0 &&
+                  `Keys held by more than one row (the last row is compared): ${diff.duplicateKeys
+                    .slice(0, 5)
+                    .join(", ")}${diff.duplicateKeys.length > 5 ? ", ..." : ""}`}
+              </span>
+            </div>
+          )}
+
+          {diff.entries.length === 0 ? (
+            <p className="rounded-md border border-dashed py-6 text-center text-sm text-muted-foreground">
+              No changes
+            </p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-48">Key</TableHead>
+                    <TableHead className="w-28">Change</TableHead>
+                    <TableHead>Columns</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff.entries.map((entry) => (
+                    <TableRow key={`${entry.kind}-${entry.key}`}>
+                      <TableCell className="font-mono text-xs">{entry.key}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={KIND_LABELS[entry.kind].className}>
+                          {KIND_LABELS[entry.kind].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground whitespace-normal">
+                        <EntryDetails entry={entry} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {diff.total > PAGE_SIZE && (
+            <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+              <span>
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, diff.total)} of{" "}
+                {diff.total.toLocaleString()}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setOffset((prev) => Math.max(prev - PAGE_SIZE, 0))}
+                disabled={offset === 0}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setOffset((prev) => prev + PAGE_SIZE)}
+                disabled={offset + PAGE_SIZE >= diff.total}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+
+          {changedRows > 0 && (
+            <div className="flex flex-col gap-2 rounded-xl border border-border bg-card/50 p-4">
+              <Label htmlFor="diffSnapshotName" className="text-sm font-medium">
+                Save Changed Rows
+              </Label>
+              <div className="flex items-center gap-2 max-w-xl">
+                <Input
+                  id="diffSnapshotName"
+                  value={snapshotName}
+                  onChange={(e) => setSnapshotName(e.target.value)}
+                  className="bg-background"
+                />
+                <Button
+                  onClick={handleSave}
+                  disabled={!snapshotName.trim() || createFromDiff.isPending}
+                  className="shrink-0"
+                >
+                  {createFromDiff.isPending ? (
+                    <Loader2 className="mr-2 size-4 animate-spin" />
+                  ) : (
+                    <Save className="mr-2 size-4" />
+                  )}
+                  Save {changedRows.toLocaleString()} Rows
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Stores the added and modified rows as a snapshot of the same source. Pick it as a
+                job's Source Rows to migrate only the changes. Removed rows are not deleted from the
+                destination.
+              </p>
+              {createFromDiff.error && (
+                <p className="text-sm text-destructive">{createFromDiff.error.message}</p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "@tanstack/react-query";
+import { Camera, GitCompare, Loader2, MoreHorizontal, Plus, Trash2 } from "lucide-react";
+import { queries } from "@/lib/queries";
+import { useDeleteSnapshot } from "@/lib/mutations";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { SnapshotDialog } from "@/components/snapshot-dialog";
+import type { SnapshotStatus } from "@/api/client";
+
+export const Route = createFileRoute("/snapshots/")({
+  component: SnapshotsPage,
+});
+
+const STATUS_LABELS: Record<SnapshotStatus, string> = {
+  capturing: "Capturing",
+  ready: "Ready",
+  failed: "Failed",
+};
+
+function SnapshotsPage() {
+  const { data: snapshots } = useQuery(queries.snapshots.all());
+  const { data: environments } = useQuery(queries.environments.all());
+  const deleteSnapshot = useDeleteSnapshot();
+  const [showDialog, setShowDialog] = useState(false);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex flex-col gap-2">
+          <h1 className="text-2xl font-bold tracking-tight">Snapshots</h1>
+          <p className="text-muted-foreground">
+            Captured rows of a data source or query, stored encrypted in the app's database. Pick a
+            snapshot as a job's source rows to rehearse a migration without querying the source
+            again.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Button variant="outline" asChild>
+            <Link to="/snapshots/diff">
+              <GitCompare className="mr-2 size-4" />
+              Compare
+            </Link>
+          </Button>
+          <Button onClick={() => setShowDialog(true)}>
+            <Plus className="mr-2 size-4" />
+            Add Snapshot
+          </Button>
+        </div>
+      </div>
+
+      {deleteSnapshot.error && (
+        <p className="text-sm text-destructive">{deleteSnapshot.error.message}</p>
+      )}
+
+      {!snapshots || snapshots.length === 0 ? (
+        <Card className="border-dashed">
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <div className="flex size-12 items-center justify-center rounded-full bg-muted">
+              <Camera className="size-6 text-muted-foreground" />
+            </div>
+            <h3 className="mt-4 text-lg font-semibold">No snapshots</h3>
+            <p className="mt-2 text-center text-sm text-muted-foreground">
+              Capture a snapshot of a source to rerun jobs against the same rows.
+            </p>
+            <Button onClick={() => setShowDialog(true)} className="mt-4">
+              <Plus className="mr-2 size-4" />
+              Add Snapshot
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {snapshots.map((snapshot) => {
+            const environment = environments?.find((env) => env.id === snapshot.environmentId);
+            const source =
+              snapshot.mode === "query" ? snapshot.sourceQueryPath : snapshot.sourceEntityType;
+            const diffBase = snapshots.find((other) => other.id === snapshot.diffBaseSnapshotId);
+            return (
+              <Card
+                key={snapshot.id}
+                className="hover:border-muted-foreground/25 transition-colors"
+              >
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                  <div className="flex items-start gap-3 min-w-0">
+                    <div className="flex size-10 shrink-0 items-center justify-center rounded-lg bg-muted text-muted-foreground">
+                      {snapshot.status === "capturing" ? (
+                        <Loader2 className="size-5 animate-spin" />
+                      ) : (
+                        <Camera className="size-5" />
+                      )}
+                    </div>
+                    <div className="flex flex-col gap-1 min-w-0">
+                      <CardTitle className="text-base truncate">{snapshot.name}</CardTitle>
+                      <CardDescription className="text-xs truncate" title={source ?? undefined}>
+                        {source}
+                      </CardDescription>
+                    </div>
+                  </div>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="icon" className="size-8">
+                        <MoreHorizontal className="size-4" />
+                        <span className="sr-only">Open menu</span>
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {snapshot.status === "ready" && (
+                        <DropdownMenuItem asChild>
+                          <Link to="/snapshots/diff" search={{ base: snapshot.id }}>
+                            <GitCompare className="mr-2 size-4" />
+                            Compare
+                          </Link>
+                        </DropdownMenuItem>
+                      )}
+                      <DropdownMenuItem
+                        onClick={() => deleteSnapshot.mutate(snapshot.id)}
+                        disabled={snapshot.status === "capturing"}
+                        className="text-destructive focus:text-destructive"
+                      >
+                        <Trash2 className="mr-2 size-4" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-col gap-3 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">Status</span>
+                      <Badge variant={snapshot.status === "failed" ? "destructive" : "secondary"}>
+                        {STATUS_LABELS[snapshot.status]}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">Environment</span>
+                      <span className="text-xs truncate">{environment?.name ?? "Deleted"}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">Rows</span>
+                      <span className="font-mono text-xs">
+                        {snapshot.rowCount.toLocaleString()}
+                        {snapshot.status === "capturing" && snapshot.totalRows !== null
+                          ? ` of ${snapshot.totalRows.toLocaleString()}`
+                          : ""}
+                      </span>
+                    </div>
+                    {snapshot.diffBaseSnapshotId && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-muted-foreground">Changed since</span>
+                        <span className="text-xs truncate">
+                          {diffBase?.name ?? "Deleted snapshot"}
+                        </span>
+                      </div>
+                    )}
+                    {snapshot.capturedAt && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-muted-foreground">Captured</span>
+                        <span className="text-xs">
+                          {new Date(snapshot.capturedAt).toLocaleString()}
+                        </span>
+                      </div>
+                    )}
+                    {snapshot.errorMessage && (
+                      <p className="rounded-md bg-destructive/10 px-2.5 py-2 text-xs text-destructive">
+                        {snapshot.errorMessage}
+                      </p>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <SnapshotDialog open={showDialog} onOpenChange={setShowDialog} />
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { Effect, Layer } from "effect";
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "../db/client";
+import { crosswalk, type CrosswalkEntry, type NewCrosswalkEntry } from "../db/schema";
+import { DatabaseError } from "./persistence";
+import { toCsv } from "../lib/csv";
+
+// ---------------------
+// Types
+// ---------------------
+
+export type CrosswalkFilter = {
+  jobId?: string;
+  sourceEnvironmentId?: string;
+  sourceEntity?: string;
+  destEnvironmentId?: string;
+  destEntityType?: string;
+};
+
+// A single source → destination mapping produced by a successful row write
+export type CrosswalkRecord = Omit<NewCrosswalkEntry, "id" | "createdAt" | "updatedAt">;
+
+// ---------------------
+// Helper Functions (Exported for testing)
+// ---------------------
+
+/**
+ * Build the crosswalk source key for a row from its key columns.
+ * Composite keys are joined with "|". Returns null if any key column is missing or empty.
+ */
+export const buildSourceKey = (
+  row: Record<string, unknown>,
+  keyProperties: readonly string[],
+): string | null => {
+  if (keyProperties.length === 0) return null;
+  const parts: string[] = [];
+  for (const property of keyProperties) {
+    const value = row[property];
+    if (value === null || value === undefined || value === "") return null;
+    if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+      return null;
+    }
+    parts.push(String(value).trim());
+  }
+  return parts.join("|");
+};
+
+/**
+ * Render crosswalk entries as an "old ID → new ID" CSV document.
+ */
+export const crosswalkToCsv = (entries: readonly CrosswalkEntry[]): string =>
+  toCsv(
+    [
+      "source_environment_id",
+      "source_entity",
+      "source_key",
+      "dest_environment_id",
+      "dest_entity_type",
+      "dest_identity",
+      "job_id",
+      "updated_at",
+    ],
+    entries.map((entry) => [
+      entry.sourceEnvironmentId,
+      entry.sourceEntity,
+      entry.sourceKey,
+      entry.destEnvironmentId,
+      entry.destEntityType,
+      (JSON.parse(entry.destIdentity) as string[]).join("|"),
+      entry.jobId,
+      entry.updatedAt,
+    ]),
+  );
+
+// ---------------------
+// Service Definition
+// ---------------------
+
+export class CrosswalkService extends Effect.Service<CrosswalkService>()("app/CrosswalkService", {
+  accessors: true,
+
+  sync: () => {
+    // ---------------------
+    // Private helpers
+    // ---------------------
+
+    const buildWhere = (filter: CrosswalkFilter) =>
+      and(
+        filter.jobId ? eq(crosswalk.jobId, filter.jobId) : undefined,
+        filter.sourceEnvironmentId
+          ? eq(crosswalk.sourceEnvironmentId, filter.sourceEnvironmentId)
+          : undefined,
+        filter.sourceEntity ? eq(crosswalk.sourceEntity, filter.sourceEntity) : undefined,
+        filter.destEnvironmentId
+          ? eq(crosswalk.destEnvironmentId, filter.destEnvironmentId)
+          : undefined,
+        filter.destEntityType ? eq(crosswalk.destEntityType, filter.destEntityType) : undefined,
+      );
+
+    const queryEntries = (filter: CrosswalkFilter) =>
+      Effect.try({
+        try: () =>
+          db
+            .select()
+            .from(crosswalk)
+            .where(buildWhere(filter))
+            .orderBy(asc(crosswalk.sourceEntity), asc(crosswalk.sourceKey))
+            .all(),
+        catch: (cause) => new DatabaseError({ message: "Failed to fetch crosswalk", cause }),
+      });
+
+    // ---------------------
+    // Service Implementation
+    // ---------------------
+
+    return {
+      /**
+       * Record source → destination mappings.
+       * An existing mapping for the same source key and destination entity is overwritten.
+       */
+      record: (records: readonly CrosswalkRecord[]) =>
+        Effect.try({
+          try: () => {
+            if (records.length === 0) return;
+            const now = new Date().toISOString();
+            db.insert(crosswalk)
+              .values(
+                records.map((record) => ({
+                  ...record,
+                  id: crypto.randomUUID(),
+                  createdAt: now,
+                  updatedAt: now,
+                })),
+              )
+              .onConflictDoUpdate({
+                target: [
+                  crosswalk.sourceEnvironmentId,
+                  crosswalk.sourceEntity,
+                  crosswalk.sourceKey,
+                  crosswalk.destEnvironmentId,
+                  crosswalk.destEntityType,
+                ],
+                set: {
+                  destIdentity: sql`excluded.dest_identity`,
+                  jobId: sql`excluded.job_id`,
+                  updatedAt: sql`excluded.updated_at`,
+                },
+              })
+              .run();
+          },
+          catch: (cause) => new DatabaseError({ message: "Failed to record crosswalk", cause }),
+        }),
+
+      /**
+       * Forget the mapping to a destination record that no longer exists (e.g. after a rollback).
+       */
+      removeDestination: (
+        destEnvironmentId: string,
+        destEntityType: string,
+        identityElements: readonly string[],
+      ) =>
+        Effect.try({
+          try: () =>
+            db
+              .delete(crosswalk)
+              .where(
+                and(
+                  eq(crosswalk.destEnvironmentId, destEnvironmentId),
+                  eq(crosswalk.destEntityType, destEntityType),
+                  eq(crosswalk.destIdentity, JSON.stringify(identityElements)),
+                ),
+              )
+              .run(),
+          catch: (cause) =>
+            new DatabaseError({ message: "Failed to remove crosswalk entry", cause }),
+        }),
+
+      /**
+       * List crosswalk entries matching a filter (all entries if the filter is empty).
+       */
+      list: (filter: CrosswalkFilter) =>
+        queryEntries(filter).pipe(Effect.withSpan("crosswalk.list", { attributes: { ...filter } })),
+
+      /**
+       * Look up destination identities for a set of source keys.
+       */
+      lookup: (
+        source: { sourceEnvironmentId: string; sourceEntity: string },
+        sourceKeys: readonly string[],
+        destEnvironmentId: string,
+      ) =>
+        Effect.try({
+          try: () =>
+            sourceKeys.length === 0
+              ? []
+              : db
+                  .select()
+                  .from(crosswalk)
+                  .where(
+                    and(
+                      eq(crosswalk.sourceEnvironmentId, source.sourceEnvironmentId),
+                      eq(crosswalk.sourceEntity, source.sourceEntity),
+                      eq(crosswalk.destEnvironmentId, destEnvironmentId),
+                      inArray(crosswalk.sourceKey, [...sourceKeys]),
+                    ),
+                  )
+                  .all(),
+          catch: (cause) => new DatabaseError({ message: "Failed to look up crosswalk", cause }),
+        }),
+
+      /**
+       * Export crosswalk entries matching a filter as CSV.
+       */
+      exportCsv: (filter: CrosswalkFilter) =>
+        queryEntries(filter).pipe(
+          Effect.map(crosswalkToCsv),
+          Effect.withSpan("crosswalk.exportCsv", { attributes: { ...filter } }),
+        ),
+    };
+  },
+}) {
+  // Static Test layer for testing
+  static Test = Layer.succeed(
+    this,
+    new CrosswalkService({
+      record: () => Effect.void,
+      removeDestination: () => Effect.void,
+      list: () => Effect.succeed([]),
+      lookup: () => Effect.succeed([]),
+      exportCsv: () => Effect.succeed(crosswalkToCsv([])),
+    }),
+  );
+}
+
+// ---------------------
+// Convenience Alias
+// ---------------------
+
+export const CrosswalkServiceLive = CrosswalkService.Default;
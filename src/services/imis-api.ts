@@ -58,6 +58,24 @@ export type InsertEntityResult = {
   identityElements: string[];
 };
 
+// One HTTP request sent while writing a record (automatic retries and re-authentication send more)
+export type RequestAttempt = {
+  startedAt: string;
+  durationMs: number;
+  status: number | null; // null when no response was received
+  responseExcerpt: string | null; // Start of the response body
+  error: string | null; // null for 2xx responses
+};
+
+// Receives each request a write sends, in the order they were sent
+export type RequestRecorder = (attempt: RequestAttempt) => void;
+
+// Longest response body excerpt kept for a request attempt
+const RESPONSE_EXCERPT_LENGTH = 500;
+
+// Flattened properties of an existing entity read back from iMIS
+export type EntityProperties = Record<string, unknown>;
+
 export class MissingCredentialsError extends Data.TaggedError("MissingCredentialsError")<{
   readonly environmentId: string;
 }> {
@@ -207,6 +225,120 @@ const normalizeDataSourceResponse = (response: DataSourceResponse): IqaQueryResp
   NextOffset: response.NextOffset,
 });
 
+/**
+ * Build the resource key for a single entity from its identity elements.
+ * Single-element identities are used as-is; composite identities use iMIS's
+ * "~" prefixed, pipe-delimited form (e.g., "~12345|2").
+ */
+export const buildIdentityKey = (identityElements: readonly string[]): string =>
+  identityElements.length === 1
+    ? encodeURIComponent(identityElements[0]!)
+    : `~${identityElements.map(encodeURIComponent).join("|")}`;
+
+/**
+ * Flatten a GenericEntityData response into a Record keyed by property name.
+ * Returns null if the response does not contain a Properties collection.
+ */
+const flattenEntityProperties = (data: unknown): EntityProperties | null => {
+  if (!data || typeof data !== "object" || !("Properties" in data)) return null;
+  const properties = (data as { Properties: unknown }).Properties;
+  if (!properties || typeof properties !== "object" || !("$values" in properties)) return null;
+  const values = (properties as { $values: unknown }).$values;
+  if (!Array.isArray(values)) return null;
+  return Object.fromEntries(
+    values
+      .filter(
+        (p): p is { Name: string; Value?: unknown } =>
+          !!p && typeof p === "object" && typeof (p as { Name?: unknown }).Name === "string",
+      )
+      .map((p) => [p.Name, unwrapValue(p.Value)]),
+  );
+};
+
+/**
+ * Extract identity elements from a GenericEntityData response.
+ * The structure is: { Identity: { IdentityElements: { $values: [...] } } }
+ */
+const extractIdentityElements = (data: unknown): string[] => {
+  const identityElements: string[] = [];
+  if (data && typeof data === "object" && "Identity" in data) {
+    const identity = (data as Record<string, unknown>).Identity;
+    if (identity && typeof identity === "object" && "IdentityElements" in identity) {
+      const identityElems = (identity as Record<string, unknown>).IdentityElements;
+      if (
+        identityElems &&
+        typeof identityElems === "object" &&
+        "$values" in identityElems &&
+        Array.isArray((identityElems as Record<string, unknown>).$values)
+      ) {
+        identityElements.push(
+          ...((identityElems as Record<string, unknown>).$values as unknown[]).map(String),
+        );
+      }
+    }
+  }
+  return identityElements;
+};
+
+/**
+ * Build a GenericEntityData request body for insert (POST) or update (PUT).
+ * When identityElements are provided the entity's Identity is populated so iMIS updates in place.
+ */
+const buildGenericEntityBody = (
+  entityTypeName: string,
+  parentEntityTypeName: string,
+  parentId: string | null,
+  properties: Record<string, string | number | boolean | null | BinaryBlob>,
+  identityElements?: readonly string[],
+) => {
+  // Build properties array
+  const propertyData = Object.entries(properties).map(([name, value]) => ({
+    $type: "Asi.Soa.Core.DataContracts.GenericPropertyData, Asi.Contracts",
+    Name: name,
+    Value: value,
+  }));
+
+  // Build identity structure based on parent type
+  const parentIdentity = parentId
+    ? {
+        $type: "Asi.Soa.Core.DataContracts.IdentityData, Asi.Contracts",
+        EntityTypeName: parentEntityTypeName,
+        IdentityElements: {
+          $type: "System.Collections.ObjectModel.Collection`1[[System.String, mscorlib]], mscorlib",
+          $values: [parentId],
+        },
+      }
+    : {
+        $type: "Asi.Soa.Core.DataContracts.IdentityData, Asi.Contracts",
+        EntityTypeName: parentEntityTypeName,
+      };
+
+  return {
+    $type: "Asi.Soa.Core.DataContracts.GenericEntityData, Asi.Contracts",
+    EntityTypeName: entityTypeName,
+    PrimaryParentEntityTypeName: parentEntityTypeName,
+    Identity: identityElements
+      ? {
+          $type: "Asi.Soa.Core.DataContracts.IdentityData, Asi.Contracts",
+          EntityTypeName: entityTypeName,
+          IdentityElements: {
+            $type:
+              "System.Collections.ObjectModel.Collection`1[[System.String, mscorlib]], mscorlib",
+            $values: [...identityElements],
+          },
+        }
+      : {
+          $type: "Asi.Soa.Core.DataContracts.IdentityData, Asi.Contracts",
+          EntityTypeName: entityTypeName,
+        },
+    PrimaryParentIdentity: parentIdentity,
+    Properties: {
+      $type: "Asi.Soa.Core.DataContracts.GenericPropertyDataCollection, Asi.Contracts",
+      $values: propertyData,
+    },
+  };
+};
+
 // ---------------------
 // Schemas
 // ---------------------
@@ -235,6 +367,47 @@ export class ImisApiService extends Effect.Service<ImisApiService>()("app/ImisAp
     // Internal Helpers
     // ---------------------
 
+    // Execute a request, reporting its status, duration and response excerpt to the recorder.
+    // The response body is cached by the client, so callers can still read it afterwards.
+    const executeRecorded = (
+      request: HttpClientRequest.HttpClientRequest,
+      onRequest?: RequestRecorder,
+    ) => {
+      if (!onRequest) return httpClient.execute(request);
+      const startedAt = Date.now();
+      const finish = (
+        status: number | null,
+        responseExcerpt: string | null,
+        error: string | null,
+      ) =>
+        onRequest({
+          startedAt: new Date(startedAt).toISOString(),
+          durationMs: Date.now() - startedAt,
+          status,
+          responseExcerpt,
+          error,
+        });
+      return httpClient.execute(request).pipe(
+        Effect.tapError((error) =>
+          Effect.sync(() => finish(null, null, `Failed to connect to IMIS: ${error.message}`)),
+        ),
+        Effect.tap((response) =>
+          response.text.pipe(
+            Effect.orElseSucceed(() => ""),
+            Effect.map((body) =>
+              finish(
+                response.status,
+                body === "" ? null : body.slice(0, RESPONSE_EXCERPT_LENGTH),
+                response.status >= 200 && response.status < 300
+                  ? null
+                  : `IMIS request failed with status ${response.status}`,
+              ),
+            ),
+          ),
+        ),
+      );
+    };
+
     // Verbose logging helper - logs requests/responses when enabled
     const logVerbose = (type: "REQ" | "RES", method: string, url: string, body?: unknown) =>
       Effect.gen(function* () {
@@ -1053,8 +1226,15 @@ export class ImisApiService extends Effect.Service<ImisApiService>()("app/ImisAp
        * @param queryPath - Full path to the query (e.g., "$/ContactManagement/DefaultContactQuery")
        * @param limit - Maximum rows to return (max 500)
        * @param offset - Starting offset for pagination
+       * @param parameters - Values for the query's prompted parameters, in definition order
        */
-      executeQuery: (envId: string, queryPath: string, limit: number = 500, offset: number = 0) =>
+      executeQuery: (
+        envId: string,
+        queryPath: string,
+        limit: number = 500,
+        offset: number = 0,
+        parameters: readonly string[] = [],
+      ) =>
         Effect.gen(function* () {
           // Get environment to determine version
           const env = yield* persistence.getEnvironmentById(envId);
@@ -1067,6 +1247,10 @@ export class ImisApiService extends Effect.Service<ImisApiService>()("app/ImisAp
               HttpClientRequest.setUrlParam("queryname", queryPath),
               HttpClientRequest.setUrlParam("limit", String(Math.min(limit, 500))),
               HttpClientRequest.setUrlParam("offset", String(offset)),
+              // Both endpoints take parameter values positionally as repeated "parameter" params
+              HttpClientRequest.appendUrlParams(
+                parameters.map((value) => ["parameter", value] as const),
+              ),
               HttpClientRequest.bearerToken(token),
               HttpClientRequest.setHeader("Accept", "application/json"),
               httpClient.execute,
@@ -1103,6 +1287,7 @@ export class ImisApiService extends Effect.Service<ImisApiService>()("app/ImisAp
               queryPath,
               limit,
               offset,
+              parameterCount: parameters.length,
             },
           }),
         ),
@@ -1114,12 +1299,14 @@ export class ImisApiService extends Effect.Service<ImisApiService>()("app/ImisAp
        * @param entityTypeName - The data source entity type name (e.g., "CsContact")
        * @param limit - Maximum rows to return (max 500)
        * @param offset - Starting offset for pagination
+       * @param filters - Property filters in iMIS filter syntax (e.g., { UpdatedOn: "gt:2024-01-01" })
        */
       fetchDataSource: (
         envId: string,
         entityTypeName: string,
         limit: number = 500,
         offset: number = 0,
+        filters: Readonly<Record<string, string>> = {},
       ) =>
         Effect.gen(function* () {
           // Make the request using executeWithAuth (same pattern as executeQuery)
@@ -1127,6 +1314,7 @@ export class ImisApiService extends Effect.Service<ImisApiService>()("app/ImisAp
             HttpClientRequest.get(`${baseUrl}/api/${entityTypeName}`).pipe(
               HttpClientRequest.setUrlParam("limit", String(Math.min(limit, 500))),
               HttpClientRequest.setUrlParam("offset", String(offset)),
+              HttpClientRequest.appendUrlParams(filters),
               HttpClientRequest.bearerToken(token),
               HttpClientRequest.setHeader("Accept", "application/json"),
               httpClient.execute,
@@ -1157,6 +1345,7 @@ export class ImisApiService extends Effect.Service<ImisApiService>()("app/ImisAp
               entityTypeName,
               limit,
               offset,
+              filterCount: Object.keys(filters).length,
             },
           }),
         ),
@@ -1168,6 +1357,7 @@ export class ImisApiService extends Effect.Service<ImisApiService>()("app/ImisAp
        * @param parentEntityTypeName - Parent entity type (e.g., "Party", "Standalone", "Event")
        * @param parentId - Parent ID for contact/event entities (pass null for Standalone)
        * @param properties - Key-value pairs of properties to insert
+       * @param onRequest - Receives every request sent, including automatic retries
        */
       insertEntity: (
         envId: string,
@@ -1175,44 +1365,14 @@ export class ImisApiService extends Effect.Service<ImisApiService>()("app/ImisAp
         parentEntityTypeName: string,
         parentId: string | null,
         properties: Record<string, string | number | boolean | null | BinaryBlob>,
+        onRequest?: RequestRecorder,
       ) => {
-        // Build properties array
-        const propertyData = Object.entries(properties).map(([name, value]) => ({
-          $type: "Asi.Soa.Core.DataContracts.GenericPropertyData, Asi.Contracts",
-          Name: name,
-          Value: value,
-        }));
-
-        // Build identity structure based on parent type
-        const parentIdentity = parentId
-          ? {
-              $type: "Asi.Soa.Core.DataContracts.IdentityData, Asi.Contracts",
-              EntityTypeName: parentEntityTypeName,
-              IdentityElements: {
-                $type:
-                  "System.Collections.ObjectModel.Collection`1[[System.String, mscorlib]], mscorlib",
-                $values: [parentId],
-              },
-            }
-          : {
-              $type: "Asi.Soa.Core.DataContracts.IdentityData, Asi.Contracts",
-              EntityTypeName: parentEntityTypeName,
-            };
-
-        const body = {
-          $type: "Asi.Soa.Core.DataContracts.GenericEntityData, Asi.Contracts",
-          EntityTypeName: entityTypeName,
-          PrimaryParentEntityTypeName: parentEntityTypeName,
-          Identity: {
-            $type: "Asi.Soa.Core.DataContracts.IdentityData, Asi.Contracts",
-            EntityTypeName: entityTypeName,
-          },
-          PrimaryParentIdentity: parentIdentity,
-          Properties: {
-            $type: "Asi.Soa.Core.DataContracts.GenericPropertyDataCollection, Asi.Contracts",
-            $values: propertyData,
-          },
-        };
+        const body = buildGenericEntityBody(
+          entityTypeName,
+          parentEntityTypeName,
+          parentId,
+          properties,
+        );
 
         return executeWithAuth(
           envId,
@@ -1223,40 +1383,16 @@ export class ImisApiService extends Effect.Service<ImisApiService>()("app/ImisAp
               HttpClientRequest.setHeader("Accept", "application/json"),
               HttpClientRequest.setHeader("Content-Type", "application/json"),
               HttpClientRequest.bodyJson(body),
-              Effect.flatMap((req) => httpClient.execute(req)),
+              Effect.flatMap((req) => executeRecorded(req, onRequest)),
               Effect.flatMap((res) => {
                 if (res.status >= 200 && res.status < 300) {
                   // Parse response body as JSON to extract identity elements
                   return HttpClientResponse.schemaBodyJson(Schema.Unknown)(res).pipe(
-                    Effect.map((data): InsertEntityResult => {
-                      // Try to extract identity elements from the response
-                      // The structure is: { Identity: { IdentityElements: { $values: [...] } } }
-                      const identityElements: string[] = [];
-                      if (data && typeof data === "object" && "Identity" in data) {
-                        const identity = (data as Record<string, unknown>).Identity;
-                        if (
-                          identity &&
-                          typeof identity === "object" &&
-                          "IdentityElements" in identity
-                        ) {
-                          const identityElems = (identity as Record<string, unknown>)
-                            .IdentityElements;
-                          if (
-                            identityElems &&
-                            typeof identityElems === "object" &&
-                            "$values" in identityElems &&
-                            Array.isArray((identityElems as Record<string, unknown>).$values)
-                          ) {
-                            identityElements.push(
-                              ...(
-                                (identityElems as Record<string, unknown>).$values as unknown[]
-                              ).map(String),
-                            );
-                          }
-                        }
-                      }
-                      return { identityElements };
-                    }),
+                    Effect.map(
+                      (data): InsertEntityResult => ({
+                        identityElements: extractIdentityElements(data),
+                      }),
+                    ),
                     // Fallback for edge cases where response body is empty or malformed
                     Effect.catchAll(() =>
                       Effect.succeed({ identityElements: [] } as InsertEntityResult),
@@ -1287,6 +1423,181 @@ export class ImisApiService extends Effect.Service<ImisApiService>()("app/ImisAp
         );
       },
 
+      /**
+       * Fetch a single entity by its identity elements.
+       * Returns the flattened properties, or null if the record does not exist (404).
+       * @param envId - Environment ID
+       * @param entityTypeName - The entity type (e.g., "CsContact")
+       * @param identityElements - Identity element values in identity field order
+       */
+      getEntity: (envId: string, entityTypeName: string, identityElements: readonly string[]) => {
+        const path = `/api/${entityTypeName}/${buildIdentityKey(identityElements)}`;
+        return executeWithAuth(envId, path, (baseUrl, token) =>
+          HttpClientRequest.get(`${baseUrl}${path}`).pipe(
+            HttpClientRequest.bearerToken(token),
+            HttpClientRequest.setHeader("Accept", "application/json"),
+            httpClient.execute,
+            Effect.flatMap((res) => {
+              // Missing records are expected during upsert lookups
+              if (res.status === 404) {
+                return Effect.succeed(null);
+              }
+              if (res.status >= 200 && res.status < 300) {
+                return HttpClientResponse.schemaBodyJson(Schema.Unknown)(res).pipe(
+                  Effect.map(flattenEntityProperties),
+                );
+              }
+              return Effect.fail(
+                new HttpClientError.ResponseError({
+                  request: HttpClientRequest.get(`${baseUrl}${path}`),
+                  response: res,
+                  reason: "StatusCode",
+                }),
+              );
+            }),
+            Effect.scoped,
+          ),
+        ).pipe(
+          Effect.withSpan("imis.getEntity", {
+            attributes: {
+              environmentId: envId,
+              endpoint: path,
+              entityTypeName,
+            },
+          }),
+        );
+      },
+
+      /**
+       * Update an existing entity in place (PUT).
+       * @param envId - Environment ID
+       * @param entityTypeName - The entity type (e.g., "CsContact")
+       * @param parentEntityTypeName - Parent entity type (e.g., "Party", "Standalone", "Event")
+       * @param parentId - Parent ID for contact/event entities (pass null for Standalone)
+       * @param identityElements - Identity element values of the record being updated
+       * @param properties - Key-value pairs of properties to write
+       * @param onRequest - Receives every request sent, including automatic retries
+       */
+      updateEntity: (
+        envId: string,
+        entityTypeName: string,
+        parentEntityTypeName: string,
+        parentId: string | null,
+        identityElements: readonly string[],
+        properties: Record<string, string | number | boolean | null | BinaryBlob>,
+        onRequest?: RequestRecorder,
+      ) => {
+        const path = `/api/${entityTypeName}/${buildIdentityKey(identityElements)}`;
+        const body = buildGenericEntityBody(
+          entityTypeName,
+          parentEntityTypeName,
+          parentId,
+          properties,
+          identityElements,
+        );
+
+        return executeWithAuth(
+          envId,
+          path,
+          (baseUrl, token) =>
+            HttpClientRequest.put(`${baseUrl}${path}`).pipe(
+              HttpClientRequest.bearerToken(token),
+              HttpClientRequest.setHeader("Accept", "application/json"),
+              HttpClientRequest.setHeader("Content-Type", "application/json"),
+              HttpClientRequest.bodyJson(body),
+              Effect.flatMap((req) => executeRecorded(req, onRequest)),
+              Effect.flatMap((res) => {
+                if (res.status >= 200 && res.status < 300) {
+                  return HttpClientResponse.schemaBodyJson(Schema.Unknown)(res).pipe(
+                    Effect.map(
+                      (data): InsertEntityResult => ({
+                        identityElements: extractIdentityElements(data),
+                      }),
+                    ),
+                    // PUT responses may be empty - fall back to the identity we sent
+                    Effect.catchAll(() => Effect.succeed({ identityElements: [] })),
+                    Effect.map(
+                      (result): InsertEntityResult =>
+                        result.identityElements.length > 0
+                          ? result
+                          : { identityElements: [...identityElements] },
+                    ),
+                  );
+                }
+                return Effect.fail(
+                  new HttpClientError.ResponseError({
+                    request: HttpClientRequest.put(`${baseUrl}${path}`),
+                    response: res,
+                    reason: "StatusCode",
+                  }),
+                );
+              }),
+              Effect.scoped,
+            ),
+          { method: "PUT", body },
+        ).pipe(
+          Effect.withSpan("imis.updateEntity", {
+            attributes: {
+              environmentId: envId,
+              endpoint: path,
+              entityTypeName,
+              parentEntityTypeName,
+              hasParentId: parentId !== null,
+            },
+          }),
+        );
+      },
+
+      /**
+       * Delete an entity by its identity elements.
+       * Returns false if the record no longer exists (404), so deletes can be repeated safely.
+       * @param envId - Environment ID
+       * @param entityTypeName - The entity type (e.g., "CsContact")
+       * @param identityElements - Identity element values in identity field order
+       */
+      deleteEntity: (
+        envId: string,
+        entityTypeName: string,
+        identityElements: readonly string[],
+      ) => {
+        const path = `/api/${entityTypeName}/${buildIdentityKey(identityElements)}`;
+        return executeWithAuth(
+          envId,
+          path,
+          (baseUrl, token) =>
+            HttpClientRequest.del(`${baseUrl}${path}`).pipe(
+              HttpClientRequest.bearerToken(token),
+              HttpClientRequest.setHeader("Accept", "application/json"),
+              httpClient.execute,
+              Effect.flatMap((res) => {
+                if (res.status === 404) {
+                  return Effect.succeed(false);
+                }
+                if (res.status >= 200 && res.status < 300) {
+                  return Effect.succeed(true);
+                }
+                return Effect.fail(
+                  new HttpClientError.ResponseError({
+                    request: HttpClientRequest.del(`${baseUrl}${path}`),
+                    response: res,
+                    reason: "StatusCode",
+                  }),
+                );
+              }),
+              Effect.scoped,
+            ),
+          { method: "DELETE" },
+        ).pipe(
+          Effect.withSpan("imis.deleteEntity", {
+            attributes: {
+              environmentId: envId,
+              endpoint: path,
+              entityTypeName,
+            },
+          }),
+        );
+      },
+
       /**
        * Get the names of identity fields for an entity type.
        * @param envId - Environment ID
@@ -1341,6 +1652,7 @@ export class ImisApiService extends Effect.Service<ImisApiService>()("app/ImisAp
        * @param endpointPath - API endpoint path (e.g., "api/PartyImage")
        * @param body - Pre-built request body with $type field
        * @param identityExtractor - Function to extract identity elements from response
+       * @param onRequest - Receives every request sent, including automatic retries
        * @returns Identity elements extracted from response
        */
       insertCustomEndpoint: (
@@ -1348,6 +1660,7 @@ export class ImisApiService extends Effect.Service<ImisApiService>()("app/ImisAp
         endpointPath: string,
         body: unknown,
         identityExtractor: (response: unknown) => string[],
+        onRequest?: RequestRecorder,
       ) =>
         executeWithAuth(
           envId,
@@ -1358,7 +1671,7 @@ export class ImisApiService extends Effect.Service<ImisApiService>()("app/ImisAp
               HttpClientRequest.setHeader("Accept", "application/json"),
               HttpClientRequest.setHeader("Content-Type", "application/json"),
               HttpClientRequest.bodyJson(body),
-              Effect.flatMap((req) => httpClient.execute(req)),
+              Effect.flatMap((req) => executeRecorded(req, onRequest)),
               Effect.flatMap((res) => {
                 if (res.status >= 200 && res.status < 300) {
                   return HttpClientResponse.schemaBodyJson(Schema.Unknown)(res).pipe(
@@ -1474,6 +1787,10 @@ export class ImisApiService extends Effect.Service<ImisApiService>()("app/ImisAp
           NextOffset: 0,
         }),
       insertEntity: () => Effect.succeed({ identityElements: ["12345"] }),
+      getEntity: () => Effect.succeed(null),
+      updateEntity: (_envId, _entity, _parentType, _parentId, identityElements) =>
+        Effect.succeed({ identityElements: [...identityElements] }),
+      deleteEntity: () => Effect.succeed(true),
       getIdentityFieldNames: () => Effect.succeed(["ID"]),
       insertCustomEndpoint: (_envId, _path, _body, extractor) =>
         Effect.succeed({ identityElements: extractor({}) }),
@@ -0,0 +1,214 @@
+import { Effect, Layer, Data } from "effect";
+import { asc, eq, inArray } from "drizzle-orm";
+import { db } from "../db/client";
+import { lookupTables, type LookupFallback, type LookupTable } from "../db/schema";
+import { DatabaseError } from "./persistence";
+import type { LookupEntry, LookupTableDefinition } from "../lib/lookup-tables";
+
+// ---------------------
+// Domain Errors
+// ---------------------
+
+export class LookupTableNotFoundError extends Data.TaggedError("LookupTableNotFoundError")<{
+  readonly id: string;
+}> {
+  override get message() {
+    return `Lookup table not found: ${this.id}`;
+  }
+}
+
+// ---------------------
+// Types
+// ---------------------
+
+export type LookupTableInput = {
+  name: string;
+  description: string | null;
+  fallback: LookupFallback;
+  entries: readonly LookupEntry[];
+};
+
+// ---------------------
+// Helper Functions (Exported for testing)
+// ---------------------
+
+/**
+ * Parse a stored lookup table into the definition used to translate values
+ */
+export const toLookupTableDefinition = (table: LookupTable): LookupTableDefinition => ({
+  id: table.id,
+  name: table.name,
+  fallback: table.fallback,
+  entries: JSON.parse(table.entries) as LookupEntry[],
+});
+
+// ---------------------
+// Service Definition
+// ---------------------
+
+export class LookupTableService extends Effect.Service<LookupTableService>()(
+  "app/LookupTableService",
+  {
+    accessors: true,
+
+    sync: () => {
+      // ---------------------
+      // Private helpers
+      // ---------------------
+
+      const queryTablesById = (id: string) =>
+        Effect.try({
+          try: () => db.select().from(lookupTables).where(eq(lookupTables.id, id)).all(),
+          catch: (cause) => new DatabaseError({ message: "Failed to fetch lookup table", cause }),
+        });
+
+      const queryTableById = (id: string) =>
+        Effect.gen(function* () {
+          const results = yield* queryTablesById(id);
+          const table = results[0];
+          if (!table) {
+            return yield* Effect.fail(new LookupTableNotFoundError({ id }));
+          }
+          return table;
+        });
+
+      // Normalize entries before storing: trimmed source values, blank sources dropped
+      const serializeEntries = (entries: readonly LookupEntry[]) =>
+        JSON.stringify(
+          entries
+            .map((entry) => ({ source: entry.source.trim(), destination: entry.destination }))
+            .filter((entry) => entry.source !== ""),
+        );
+
+      // ---------------------
+      // Service Implementation
+      // ---------------------
+
+      return {
+        list: () =>
+          Effect.try({
+            try: () => db.select().from(lookupTables).orderBy(asc(lookupTables.name)).all(),
+            catch: (cause) =>
+              new DatabaseError({ message: "Failed to fetch lookup tables", cause }),
+          }),
+
+        get: (id: string) => queryTableById(id),
+
+        create: (input: LookupTableInput) =>
+          Effect.gen(function* () {
+            const now = new Date().toISOString();
+            const id = crypto.randomUUID();
+            yield* Effect.try({
+              try: () =>
+                db
+                  .insert(lookupTables)
+                  .values({
+                    id,
+                    name: input.name.trim(),
+                    description: input.description,
+                    fallback: input.fallback,
+                    entries: serializeEntries(input.entries),
+                    createdAt: now,
+                    updatedAt: now,
+                  })
+                  .run(),
+              catch: (cause) =>
+                new DatabaseError({ message: "Failed to create lookup table", cause }),
+            });
+
+            const results = yield* queryTablesById(id);
+            const created = results[0];
+            if (!created) {
+              return yield* Effect.fail(
+                new DatabaseError({
+                  message: "Lookup table was created but could not be retrieved",
+                }),
+              );
+            }
+            return created;
+          }).pipe(Effect.withSpan("lookupTables.create")),
+
+        update: (id: string, input: LookupTableInput) =>
+          Effect.gen(function* () {
+            yield* queryTableById(id);
+            yield* Effect.try({
+              try: () =>
+                db
+                  .update(lookupTables)
+                  .set({
+                    name: input.name.trim(),
+                    description: input.description,
+                    fallback: input.fallback,
+                    entries: serializeEntries(input.entries),
+                    updatedAt: new Date().toISOString(),
+                  })
+                  .where(eq(lookupTables.id, id))
+                  .run(),
+              catch: (cause) =>
+                new DatabaseError({ message: "Failed to update lookup table", cause }),
+            });
+            return yield* queryTableById(id);
+          }).pipe(Effect.withSpan("lookupTables.update", { attributes: { id } })),
+
+        delete: (id: string) =>
+          Effect.gen(function* () {
+            yield* queryTableById(id);
+            yield* Effect.try({
+              try: () => db.delete(lookupTables).where(eq(lookupTables.id, id)).run(),
+              catch: (cause) =>
+                new DatabaseError({ message: "Failed to delete lookup table", cause }),
+            });
+          }).pipe(Effect.withSpan("lookupTables.delete", { attributes: { id } })),
+
+        /**
+         * Load the definitions of the given tables, keyed by ID.
+         * Tables that no longer exist are left out.
+         */
+        getDefinitions: (ids: readonly string[]) =>
+          Effect.try({
+            try: () =>
+              new Map(
+                (ids.length === 0
+                  ? []
+                  : db
+                      .select()
+                      .from(lookupTables)
+                      .where(inArray(lookupTables.id, [...ids]))
+                      .all()
+                ).map((table) => [table.id, toLookupTableDefinition(table)] as const),
+              ) as ReadonlyMap<string, LookupTableDefinition>,
+            catch: (cause) =>
+              new DatabaseError({ message: "Failed to fetch lookup tables", cause }),
+          }),
+      };
+    },
+  },
+) {
+  // Static Test layer for testing
+  static Test = Layer.succeed(
+    this,
+    new LookupTableService({
+      list: () => Effect.succeed([]),
+      get: (id) => Effect.fail(new LookupTableNotFoundError({ id })),
+      create: (input) =>
+        Effect.succeed({
+          id: crypto.randomUUID(),
+          name: input.name,
+          description: input.description,
+          fallback: input.fallback,
+          entries: JSON.stringify(input.entries),
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        }),
+      update: (id) => Effect.fail(new LookupTableNotFoundError({ id })),
+      delete: (id) => Effect.fail(new LookupTableNotFoundError({ id })),
+      getDefinitions: () => Effect.succeed(new Map()),
+    }),
+  );
+}
+
+// ---------------------
+// Convenience Alias
+// ---------------------
+
+export const LookupTableServiceLive = LookupTableService.Default;
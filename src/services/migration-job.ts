@@ -1,13 +1,28 @@
-import { Effect, Layer, Data, Ref, Schedule, Duration } from "effect";
-import { eq, sql, and } from "drizzle-orm";
-import { db } from "../db/client";
+import { Effect, Layer, Data, Ref, Schedule, Duration, Fiber, Exit, Cause } from "effect";
+import { eq, sql, and, or, inArray, notInArray } from "drizzle-orm";
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname, join } from "node:path";
+import { db, dataDir } from "../db/client";
 import {
   jobs,
   rows,
   attempts,
   environments,
+  verifications,
+  verificationResults,
+  rollbacks,
+  rollbackAttempts,
+  sourceFiles,
   type Job,
   type NewJob,
+  type Row,
   type NewRow,
   type NewAttempt,
   type JobStatus,
@@ -15,13 +30,80 @@ import {
   type RowStatus,
   type AttemptReason,
   type DestinationType,
+  type DestinationFileFormat,
+  type WriteMode,
+  type AttemptOutcome,
+  type ErrorCategory,
+  type NewVerificationResult,
+  type NewRollbackAttempt,
 } from "../db/schema";
-import { ImisApiService, MissingCredentialsError, type ImisApiError } from "./imis-api";
+import {
+  ImisApiService,
+  ImisRequestError,
+  ImisResponseError,
+  MissingCredentialsError,
+  type ImisApiError,
+  type RequestAttempt,
+  type RequestRecorder,
+} from "./imis-api";
 import { SessionService } from "./session";
 import { PersistenceService, DatabaseError, EnvironmentNotFoundError } from "./persistence";
 import { encryptJson, decryptJson } from "../lib/encryption";
+import { applyTransforms } from "../lib/transforms";
+import {
+  resolveMappingValue,
+  templateSourceProperties,
+  type RowContext,
+} from "../lib/mapping-values";
+import { applyLookup, type LookupTableDefinition } from "../lib/lookup-tables";
+import { coerceValue } from "../lib/coercion";
+import {
+  isCompleteCondition,
+  matchesRowFilter,
+  rowFilterColumns,
+  type RowFilter,
+} from "../lib/row-filter";
+import { queryParameterArgs, type QueryParameterValue } from "../lib/query-parameters";
+import { isAtOrAfterWatermark, maxWatermark, watermarkValueOf } from "../lib/watermark";
+import { findFieldMismatches } from "../lib/verification";
+import {
+  classifyWriteFailure,
+  describeWriteFailure,
+  normalizeErrorMessage,
+  type WriteFailure,
+} from "../lib/error-classification";
 import type { PropertyMapping } from "../components/export/PropertyMapper";
-import { CUSTOM_ENDPOINTS } from "../api/destinations";
+import {
+  correctSourceRow,
+  correctTransformedValues,
+  failedRowsColumns,
+  failedRowsToCsv,
+  parseRowCorrections,
+} from "../lib/row-corrections";
+import { diffRowEdits } from "../lib/row-edits";
+import { readSourceFile, type SourceFileData, type SourceFileRow } from "../lib/source-file";
+import type { CreateJobRequest, SourceFileUpload } from "../api/schemas";
+import {
+  csvHeaderLine,
+  csvRowLine,
+  fileColumns,
+  ndjsonRowLine,
+  parseNdjsonRows,
+} from "../lib/file-destination";
+import { writeParquet } from "../lib/parquet";
+import {
+  CUSTOM_ENDPOINTS,
+  CUSTOM_ENDPOINT_DEFINITIONS,
+  boEntityToDestination,
+  checkIsPrimaryRequired,
+  destinationPropertyToBoProperty,
+  type DestinationDefinition,
+  type DestinationProperty,
+  type DestinationPropertyTypeName,
+} from "../api/destinations";
+import { CrosswalkService, buildSourceKey, type CrosswalkRecord } from "./crosswalk";
+import { LookupTableService } from "./lookup-tables";
+import { SnapshotService } from "./snapshots";
 
 // ---------------------
 // Domain Errors
@@ -43,6 +125,11 @@ export class JobAlreadyRunningError extends Data.TaggedError("JobAlreadyRunningE
   }
 }
 
+// A job request (from the export wizard or a CLI spec) that cannot be created as given
+export class JobValidationError extends Data.TaggedError("JobValidationError")<{
+  readonly message: string;
+}> {}
+
 export class MigrationError extends Data.TaggedError("MigrationError")<{
   readonly message: string;
   readonly cause?: unknown;
@@ -51,7 +138,10 @@ export class MigrationError extends Data.TaggedError("MigrationError")<{
 export class InsertFailedError extends Data.TaggedError("InsertFailedError")<{
   readonly rowIndex: number;
   readonly message: string;
+  readonly category?: ErrorCategory;
   readonly cause?: unknown;
+  // HTTP requests the failed write sent, in order
+  readonly requests?: readonly RequestAttempt[];
 }> {}
 
 // ---------------------
@@ -63,11 +153,37 @@ export type CreateJobConfig = {
   mode: JobMode;
   sourceEnvironmentId: string;
   sourceQueryPath?: string;
+  queryParameters?: readonly QueryParameterValue[];
   sourceEntityType?: string;
+  // File mode: the uploaded file's name and rows (read with the destination environment's password)
+  sourceFile?: { name: string; data: SourceFileData };
+  // Query and datasource modes: read the rows of this snapshot instead of the source environment
+  sourceSnapshotId?: string;
   destEnvironmentId: string;
   destEntityType: string;
   destType?: DestinationType;
+  // File destinations: format of the file, named destEntityType, written under the data folder
+  destFileFormat?: DestinationFileFormat;
+  writeMode?: WriteMode;
+  dryRun?: boolean;
   mappings: PropertyMapping[];
+  parentLink?: ParentLinkConfig;
+  sourceKeyProperty?: string;
+  rowFilter?: RowFilter;
+  watermarkColumn?: string;
+};
+
+// Links a child job to a parent job: sourceProperty (child column) holds the parent's parentKeyProperty value
+export type ParentLinkConfig = {
+  parentJobId: string;
+  sourceProperty: string;
+  parentKeyProperty: string;
+};
+
+// What the parent job did with a given source row
+export type ParentRowRef = {
+  status: RowStatus;
+  identityElements: string[] | null;
 };
 
 export type JobProgress = {
@@ -75,6 +191,26 @@ export type JobProgress = {
   processedRows: number;
   successfulRows: number;
   failedRowCount: number;
+  heldRowCount: number;
+  skippedRowCount: number;
+};
+
+// Failed rows that share an error category and normalized latest error message
+export type FailureGroup = {
+  category: ErrorCategory | null;
+  message: string; // Normalized message (row-specific values replaced by placeholders)
+  example: string; // Latest error of one of the rows, as recorded
+  rowCount: number;
+};
+
+// Identifies a failure group for bulk retry and skip
+export type FailureGroupKey = Pick<FailureGroup, "category" | "message">;
+
+// A failed row with its category and the error of its latest attempt
+type RowFailure = {
+  row: Row;
+  category: ErrorCategory | null;
+  errorMessage: string | null;
 };
 
 export type JobWithProgress = Job & {
@@ -101,6 +237,225 @@ export const isBinaryBlob = (value: unknown): value is BinaryBlob => {
 // Row data type for transformations (includes binary blobs)
 type RowData = Record<string, string | number | boolean | null | BinaryBlob>;
 
+// Destination settings shared by every row written for a job
+type WriteTarget = {
+  destEnvId: string;
+  destEntityType: string;
+  destType: DestinationType;
+  writeMode: WriteMode;
+  identityFieldNames: string[];
+  // Set for dry runs: rows are validated against this definition instead of being written
+  validateAgainst: DestinationDefinition | null;
+  // Set for file destinations: rows are appended to this file instead of sent to an environment
+  file: FileOutput | null;
+};
+
+// The file a file destination writes, with a column for each mapped destination property.
+// Parquet files are written whole: rows are staged as NDJSON and the file is rebuilt from them
+// once a run or retry finishes.
+type FileOutput = {
+  format: DestinationFileFormat;
+  path: string;
+  columns: string[];
+};
+
+// Result of writing a single row to the destination
+type WriteResult = {
+  rowIndex: number;
+  identityElements: string[];
+  outcome: AttemptOutcome | null; // null for dry-run validation
+  requests: readonly RequestAttempt[]; // HTTP requests the write sent, in order
+};
+
+// How a row write ended, for its attempt records
+type WriteOutcome =
+  | { success: true; identityElements: string | null; outcome: AttemptOutcome | null }
+  | { success: false; errorMessage: string; errorCategory: ErrorCategory | null };
+
+// Parent entity to attach a written row to (defaults to Standalone when absent)
+type ParentRef = {
+  entityTypeName: string;
+  id: string;
+};
+
+// Parent job rows resolved for a child job run
+type ParentLink = {
+  entityTypeName: string;
+  sourceProperty: string;
+  parentRows: ReadonlyMap<string, ParentRowRef>;
+};
+
+// Where crosswalk entries for a job come from and which source columns form the key
+type CrosswalkSource = {
+  sourceEnvironmentId: string;
+  sourceEntity: string;
+  keyProperties: string[];
+};
+
+// A mapped value that could not be produced (the row fails without being sent)
+export type MappingProblem = {
+  category: ErrorCategory;
+  property: string; // Destination property the value was for
+  message: string;
+};
+
+// Manual corrections to a row's transformed values (destination property -> value)
+export type RowEdits = Record<string, string | number | boolean | null>;
+
+// A row's transformed values and the destination properties they are written to, for editing
+export type RowPayload = {
+  properties: DestinationProperty[]; // Mapped destination properties, in mapping order
+  values: RowData; // Transformed values before manual edits
+  edits: RowEdits; // Manual edits applied on retry (empty when the row was never edited)
+  problems: MappingProblem[]; // Values that could not be produced, before manual edits
+  heldReason: string | null; // Set while the row's parent has not migrated
+};
+
+// Outcome of importing an edited failed rows export
+export type RowCorrectionsImport = {
+  updatedCount: number; // Rows whose payload or edits changed
+  unchangedCount: number;
+  unmatchedRowNumbers: number[]; // Rows in the file that are not failed rows of the job
+  problems: { rowNumber: number; message: string }[]; // Rows left as they were
+};
+
+// Lookup tables referenced by a job's mappings, keyed by ID
+export type LookupTables = ReadonlyMap<string, LookupTableDefinition>;
+
+// A source row ready to write, or held back because its parent did not migrate.
+// Rows with mapping problems are failed instead of written.
+type PreparedRow =
+  | { held: true; reason: string }
+  | { held: false; rowData: RowData; parent: ParentRef | null; problems: MappingProblem[] };
+
+// Everything a batch needs from the job run it belongs to
+type BatchContext = {
+  jobId: string;
+  sourceEnvId: string;
+  mappings: PropertyMapping[];
+  rowFilter: RowFilter | null;
+  watermark: WatermarkWindow | null;
+  target: WriteTarget;
+  parentLink: ParentLink | null;
+  lookupTables: LookupTables;
+  crosswalkSource: CrosswalkSource | null;
+  insertConcurrency: number;
+  // Row indexes already stored by the run being resumed (these rows are not sent again)
+  recordedIndexes: ReadonlySet<number>;
+};
+
+// Watermark of a job's run: rows before `from` are only counted, `highest` tracks the highest value seen
+type WatermarkWindow = {
+  column: string;
+  from: string | null;
+  highest: Ref.Ref<string | null>;
+};
+
+// A run in progress in this process
+type ActiveRun = {
+  fiber: Fiber.Fiber<unknown, unknown> | null;
+  stop: "cancel" | "pause" | null; // Once set, no new batches are scheduled
+};
+
+// Parse the identity field names stored on a job (JSON string[])
+const parseIdentityFieldNames = (job: Job): string[] =>
+  job.identityFieldNames ? (JSON.parse(job.identityFieldNames) as string[]) : [];
+
+// Positional query parameter values for a query-mode job (stored as JSON QueryParameterValue[])
+const queryParametersForJob = (job: Job): string[] =>
+  job.queryParameters
+    ? queryParameterArgs(JSON.parse(job.queryParameters) as QueryParameterValue[])
+    : [];
+
+// Parse the row filter stored on a job (JSON RowFilter)
+const parseRowFilter = (job: Job): RowFilter | null =>
+  job.rowFilter ? (JSON.parse(job.rowFilter) as RowFilter) : null;
+
+// Data source filter that fetches only rows at or after a delta run's starting watermark
+// (inclusive, so rows changed in the same second as the saved watermark are not missed)
+const sourceFiltersForJob = (job: Job): Record<string, string> =>
+  job.mode === "datasource" && job.watermarkColumn && job.watermarkFrom
+    ? { [job.watermarkColumn]: `ge:${job.watermarkFrom}` }
+    : {};
+
+// Start tracking a job's watermark (none without a watermark column), continuing from `seen` when resuming
+const startWatermark = (job: Job, seen: string | null) =>
+  job.watermarkColumn
+    ? Ref.make(maxWatermark(job.watermarkFrom, seen)).pipe(
+        Effect.map(
+          (highest): WatermarkWindow => ({
+            column: job.watermarkColumn!,
+            from: job.watermarkFrom,
+            highest,
+          }),
+        ),
+      )
+    : Effect.succeed(null);
+
+// Parse the source offsets whose fetch failed during the job's run (JSON number[])
+const parseFailedQueryOffsets = (job: Job): number[] =>
+  job.failedQueryOffsets ? (JSON.parse(job.failedQueryOffsets) as number[]) : [];
+
+// Output file of a file destination job (each job writes to its own folder under exports)
+const fileDestinationPath = (jobId: string, fileName: string): string =>
+  join(dataDir, "exports", jobId, fileName);
+
+// Staging file of a Parquet output (rows written so far, as NDJSON)
+const stagingPathOf = (output: FileOutput): string => `${output.path}.rows.ndjson`;
+
+// Message of a failed file system call (includes the path and error code)
+const fileErrorMessage = (cause: unknown): string =>
+  cause instanceof Error ? cause.message : String(cause);
+
+// Build the write target for a job
+const writeTargetForJob = (job: Job, identityFieldNames: string[]): WriteTarget => ({
+  destEnvId: job.destEnvironmentId,
+  destEntityType: job.destEntityType,
+  destType: job.destType,
+  writeMode: job.writeMode,
+  identityFieldNames,
+  validateAgainst: null,
+  file:
+    job.destType === "file" && job.destFileFormat && job.destFilePath
+      ? {
+          format: job.destFileFormat,
+          path: job.destFilePath,
+          columns: fileColumns(JSON.parse(job.mappings) as PropertyMapping[]),
+        }
+      : null,
+});
+
+// Dry runs never write, so their rows cannot be retried against the destination
+const dryRunRetryError = (job: Job) =>
+  new MigrationError({
+    message: `"${job.name}" is a dry run. Run it again to re-validate; retries would write to the destination.`,
+  });
+
+// Rolled back jobs no longer have their records, so retrying rows would migrate them again
+const rolledBackRetryError = (job: Job) =>
+  new MigrationError({
+    message: `"${job.name}" has been rolled back. Create a new job to migrate its rows again.`,
+  });
+
+// ---------------------
+// Module-level run registry (lets cancel/pause reach the fiber running a job)
+// ---------------------
+const activeRuns = new Map<string, ActiveRun>();
+
+// A running job's process reports on this interval; a runner silent for longer than RUNNER_STALE_MS
+// is treated as gone
+const RUNNER_HEARTBEAT_INTERVAL = Duration.seconds(10);
+const RUNNER_STALE_MS = 60_000;
+
+// Decrypted rows of the file job read most recently, by job ID (a run reads its file batch after batch)
+const sourceFileCache = new Map<string, SourceFileRow[]>();
+
+// Jobs whose destination records are being verified in this process
+const activeVerifications = new Set<string>();
+
+// Jobs whose created records are being deleted in this process
+const activeRollbacks = new Set<string>();
+
 // ---------------------
 // Retry Configuration
 // ---------------------
@@ -116,17 +471,57 @@ const queryRetrySchedule = Schedule.exponential(Duration.millis(1000), 2).pipe(
 // ---------------------
 
 /**
- * Transform a source row to destination format using property mappings.
- * Filters out non-primitive values (except binary blobs) and only includes mappings with a destination.
+ * Map a source row to destination format using property mappings.
+ * Computed mappings take their constant, template or generated value, mappings with a lookup
+ * table translate the value through it, each mapping's transform steps are then applied, and
+ * the mapping's type coercion converts the result to the destination type.
+ * Values a lookup table could not translate (with the "fail" fallback) or the coercion could not
+ * convert are reported as problems and left out of the row. Filters out non-primitive values (except binary blobs) and only
+ * includes mappings with a destination.
  */
-export const transformRow = (
+export const mapSourceRow = (
   sourceRow: Record<string, unknown>,
   mappings: PropertyMapping[],
-): RowData => {
+  context?: RowContext,
+  lookupTables: LookupTables = new Map(),
+): { rowData: RowData; problems: MappingProblem[] } => {
   const result: RowData = {};
+  const problems: MappingProblem[] = [];
   for (const mapping of mappings) {
     if (mapping.destinationProperty !== null) {
-      const value = sourceRow[mapping.sourceProperty];
+      let sourceValue = mapping.value
+        ? resolveMappingValue(mapping.value, sourceRow, context)
+        : sourceRow[mapping.sourceProperty];
+      const lookupTable = mapping.lookupTableId
+        ? lookupTables.get(mapping.lookupTableId)
+        : undefined;
+      if (lookupTable) {
+        const lookup = applyLookup(sourceValue, lookupTable);
+        if (!lookup.ok) {
+          problems.push({
+            category: "unmapped_value",
+            property: mapping.destinationProperty,
+            message: `${mapping.destinationProperty}: ${lookup.message}`,
+          });
+          continue;
+        }
+        sourceValue = lookup.value;
+      }
+      let value = mapping.transforms?.length
+        ? applyTransforms(sourceValue, mapping.transforms)
+        : sourceValue;
+      if (mapping.coercion) {
+        const coerced = coerceValue(value, mapping.coercion);
+        if (!coerced.ok) {
+          problems.push({
+            category: "invalid_value",
+            property: mapping.destinationProperty,
+            message: `${mapping.destinationProperty}: ${coerced.message}`,
+          });
+          continue;
+        }
+        value = coerced.value;
+      }
       // Include binary blobs (preserving structure for iMIS API)
       if (isBinaryBlob(value)) {
         result[mapping.destinationProperty] = value;
@@ -142,9 +537,29 @@ export const transformRow = (
       }
     }
   }
-  return result;
+  return { rowData: result, problems };
 };
 
+/**
+ * Transform a source row to destination format using property mappings (without lookup tables).
+ */
+export const transformRow = (
+  sourceRow: Record<string, unknown>,
+  mappings: PropertyMapping[],
+  context?: RowContext,
+): RowData => mapSourceRow(sourceRow, mappings, context).rowData;
+
+/**
+ * IDs of the lookup tables a job's mappings refer to
+ */
+export const referencedLookupTableIds = (mappings: readonly PropertyMapping[]): string[] => [
+  ...new Set(
+    mappings.flatMap((m) =>
+      m.destinationProperty !== null && m.lookupTableId ? [m.lookupTableId] : [],
+    ),
+  ),
+];
+
 /**
  * Generate offsets for paginated queries.
  * Returns array of offsets starting from 0 up to totalCount.
@@ -156,19 +571,458 @@ export const generateOffsets = (totalCount: number, batchSize: number = 500): nu
 
 /**
  * Validate that all mapped source properties exist in the source row.
+ * Template mappings are checked for every column they refer to; constants and generated values
+ * need no source column. Columns the row filter reads and the watermark column are checked too.
  * Returns { valid: true } if all properties exist, or { valid: false, missing: [...] } otherwise.
  */
 export const validateSourceProperties = (
   row: Record<string, unknown>,
   mappings: PropertyMapping[],
+  rowFilter: RowFilter | null = null,
+  watermarkColumn: string | null = null,
 ): { valid: true } | { valid: false; missing: string[] } => {
-  const activeMappings = mappings.filter((m) => m.destinationProperty !== null);
-  const missing = activeMappings
-    .filter((m) => !(m.sourceProperty in row))
-    .map((m) => m.sourceProperty);
+  const referenced = mappings
+    .filter((m) => m.destinationProperty !== null)
+    .flatMap((m) =>
+      !m.value
+        ? [m.sourceProperty]
+        : m.value.kind === "template"
+          ? templateSourceProperties(m.value.template)
+          : [],
+    )
+    .concat(rowFilterColumns(rowFilter))
+    .concat(watermarkColumn ? [watermarkColumn] : []);
+  const missing = [...new Set(referenced)].filter((property) => !(property in row));
   return missing.length === 0 ? { valid: true } : { valid: false, missing };
 };
 
+/**
+ * Whether runJob may start a job in its current status.
+ * Queued and failed jobs can run; finished dry runs can run again to re-validate.
+ */
+export const isRunnableStatus = (job: Pick<Job, "status" | "dryRun">): boolean =>
+  job.status === "queued" || job.status === "failed" || (job.dryRun && job.status === "validated");
+
+/**
+ * Whether resumeJob may continue a job in its current status.
+ * Paused jobs and jobs interrupted by the app exiting mid-run can be resumed.
+ */
+export const isResumableStatus = (job: Pick<Job, "status">): boolean =>
+  job.status === "paused" || job.status === "interrupted";
+
+/**
+ * Whether another process (the app or the CLI, sharing the database) is running the job:
+ * it recorded itself as the job's runner, is still alive and reported recently.
+ * Such a job is not recovered, run or resumed by this process.
+ */
+export const isRunByOtherProcess = (
+  job: Pick<Job, "runnerPid" | "runnerHeartbeatAt">,
+  now = Date.now(),
+): boolean => {
+  if (job.runnerPid === null || job.runnerPid === process.pid || !job.runnerHeartbeatAt) {
+    return false;
+  }
+  if (now - Date.parse(job.runnerHeartbeatAt) > RUNNER_STALE_MS) return false;
+  try {
+    // Signal 0 only checks that the process exists
+    process.kill(job.runnerPid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+};
+
+/**
+ * Why a job's destination records cannot be verified, or null if they can.
+ * Only finished jobs that wrote to a BO entity can be read back.
+ */
+export const verificationProblem = (
+  job: Pick<Job, "name" | "status" | "dryRun" | "destType">,
+): string | null => {
+  if (job.dryRun) {
+    return `"${job.name}" is a dry run, so there are no destination records to verify.`;
+  }
+  if (job.destType === "custom_endpoint") {
+    return "Records written to custom endpoints cannot be read back to verify them.";
+  }
+  if (job.destType === "file") {
+    return "Rows written to a file are not read back to verify them.";
+  }
+  if (job.status !== "completed" && job.status !== "partial") {
+    return `Only completed or partial jobs can be verified (status: ${job.status}).`;
+  }
+  return null;
+};
+
+/**
+ * Why the records a job created cannot be rolled back, or null if they can.
+ * Only finished jobs that wrote to a BO entity can be rolled back, and only once no other job
+ * depends on them as its parent (child records would be left pointing at deleted parents).
+ */
+export const rollbackProblem = (
+  job: Pick<Job, "name" | "status" | "dryRun" | "destType">,
+  dependentJobNames: readonly string[],
+): string | null => {
+  if (job.dryRun) {
+    return `"${job.name}" is a dry run, so there are no destination records to roll back.`;
+  }
+  if (job.destType === "custom_endpoint") {
+    return "Records written to custom endpoints cannot be deleted through the API.";
+  }
+  if (job.destType === "file") {
+    return "Rows written to a file cannot be rolled back. Delete the file instead.";
+  }
+  if (job.status !== "completed" && job.status !== "partial") {
+    return `Only completed or partial jobs can be rolled back (status: ${job.status}).`;
+  }
+  if (dependentJobNames.length > 0) {
+    return `Roll back or delete the jobs that depend on "${job.name}" first: ${dependentJobNames.join(", ")}.`;
+  }
+  return null;
+};
+
+// Stands in for the message of failed rows that have no attempt
+const UNKNOWN_ERROR = "Unknown error";
+
+/**
+ * Group failed rows by error category and normalized latest error message, largest group first.
+ */
+export const groupFailures = (
+  failures: readonly Pick<RowFailure, "category" | "errorMessage">[],
+): FailureGroup[] => {
+  const groups = new Map<string, FailureGroup>();
+  for (const { category, errorMessage } of failures) {
+    const example = errorMessage ?? UNKNOWN_ERROR;
+    const message = normalizeErrorMessage(example);
+    const key = `${category ?? ""}|${message}`;
+    const group = groups.get(key);
+    if (group) {
+      group.rowCount++;
+    } else {
+      groups.set(key, { category, message, example, rowCount: 1 });
+    }
+  }
+  return [...groups.values()].sort((a, b) => b.rowCount - a.rowCount);
+};
+
+/**
+ * Whether a failed row belongs to a failure group.
+ */
+export const isInFailureGroup = (
+  failure: Pick<RowFailure, "category" | "errorMessage">,
+  group: FailureGroupKey,
+): boolean =>
+  failure.category === group.category &&
+  normalizeErrorMessage(failure.errorMessage ?? UNKNOWN_ERROR) === group.message;
+
+/**
+ * Attempt records for one write of a row: one per HTTP request it sent, the first with the given
+ * reason and the rest as automatic retries, each with its own status, response excerpt and timing.
+ * A write that sent nothing (mapping problems, dry runs, unchanged records) gets a single attempt.
+ * The last attempt carries the write's result (its identity, or its final error).
+ */
+export const buildAttemptRecords = (
+  rowId: string,
+  reason: AttemptReason,
+  requests: readonly RequestAttempt[],
+  result: WriteOutcome,
+  now: string,
+): NewAttempt[] => {
+  const resultFields = result.success
+    ? {
+        success: true,
+        errorMessage: null,
+        identityElements: result.identityElements,
+        outcome: result.outcome,
+      }
+    : {
+        success: false,
+        errorMessage: result.errorMessage,
+        errorCategory: result.errorCategory,
+        identityElements: null,
+      };
+
+  if (requests.length === 0) {
+    return [{ id: crypto.randomUUID(), rowId, reason, ...resultFields, createdAt: now }];
+  }
+
+  return requests.map((request, index) => ({
+    id: crypto.randomUUID(),
+    rowId,
+    reason: index === 0 ? reason : "auto_retry",
+    ...(index === requests.length - 1
+      ? resultFields
+      : {
+          success: request.error === null,
+          errorMessage: request.error,
+          errorCategory:
+            request.error === null
+              ? null
+              : classifyWriteFailure({
+                  status: request.status,
+                  body: request.responseExcerpt,
+                  message: request.error,
+                }),
+          identityElements: null,
+        }),
+    httpStatus: request.status,
+    responseExcerpt: request.responseExcerpt,
+    durationMs: request.durationMs,
+    createdAt: request.startedAt,
+  }));
+};
+
+/**
+ * Whether every row of the batch starting at offset was stored by an earlier run.
+ * Such batches are not fetched again when a job is resumed.
+ */
+export const isBatchRecorded = (
+  recordedIndexes: ReadonlySet<number>,
+  offset: number,
+  batchSize: number,
+): boolean => {
+  if (batchSize <= 0) return false;
+  for (let index = offset; index < offset + batchSize; index++) {
+    if (!recordedIndexes.has(index)) return false;
+  }
+  return true;
+};
+
+/**
+ * Check whether a value can be sent as the given destination property type.
+ * Null is always accepted (missing required values are reported separately).
+ */
+export const isCoercibleTo = (value: unknown, typeName: DestinationPropertyTypeName): boolean => {
+  if (value === null || value === undefined) return true;
+  if (isBinaryBlob(value)) return typeName === "Binary";
+  if (typeof value === "object") return false;
+  const text = String(value).trim();
+
+  switch (typeName) {
+    case "String":
+      return true;
+    case "Integer":
+      return typeof value === "number" ? Number.isInteger(value) : /^[-+]?\d+$/.test(text);
+    case "Decimal":
+    case "Monetary":
+      return typeof value === "number"
+        ? Number.isFinite(value)
+        : text !== "" && Number.isFinite(Number(text));
+    case "Boolean":
+      return typeof value === "boolean" || ["true", "false", "0", "1"].includes(text.toLowerCase());
+    case "Date":
+      return typeof value === "string" && text !== "" && !Number.isNaN(Date.parse(text));
+    case "Binary":
+      return false;
+  }
+};
+
+/**
+ * Validate a transformed row against the destination definition without sending it.
+ * Checks required properties, string max lengths, type coercibility and the IsPrimary rule.
+ * Returns the list of problems (empty when the row is valid).
+ */
+export const validateRowForDestination = (
+  rowData: RowData,
+  destination: DestinationDefinition,
+  mappings: PropertyMapping[],
+): string[] => {
+  const problems: string[] = [];
+
+  const isPrimary = checkIsPrimaryRequired(
+    destination.primaryParentEntityTypeName,
+    destination.properties.map(destinationPropertyToBoProperty),
+    mappings,
+  );
+  if (isPrimary.error) problems.push(isPrimary.error);
+
+  for (const property of destination.properties) {
+    const value = rowData[property.name];
+    const isEmpty = value === null || value === undefined || value === "";
+
+    // Identity values are assigned by iMIS (or by the parent record) when inserting
+    if (isEmpty) {
+      if (property.required && !property.isIdentity) {
+        problems.push(`${property.name} is required`);
+      }
+      continue;
+    }
+
+    if (!isCoercibleTo(value, property.propertyTypeName)) {
+      problems.push(`${property.name} is not a valid ${property.propertyTypeName} value`);
+      continue;
+    }
+
+    if (
+      property.propertyTypeName === "String" &&
+      property.maxLength !== undefined &&
+      String(value).length > property.maxLength
+    ) {
+      problems.push(
+        `${property.name} exceeds max length ${property.maxLength} (${String(value).length} characters)`,
+      );
+    }
+  }
+
+  // Mapped properties the destination does not define would be rejected by iMIS
+  for (const name of Object.keys(rowData)) {
+    if (!destination.properties.some((property) => property.name === name)) {
+      problems.push(`${name} is not a property of ${destination.entityTypeName}`);
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Extract identity element values from a transformed row, in identity field order.
+ * Returns null if any identity field is missing or empty (the record cannot be looked up).
+ */
+export const extractIdentityValues = (
+  rowData: Record<string, unknown>,
+  identityFieldNames: readonly string[],
+): string[] | null => {
+  if (identityFieldNames.length === 0) return null;
+  const values: string[] = [];
+  for (const fieldName of identityFieldNames) {
+    const value = rowData[fieldName];
+    if (value === null || value === undefined || value === "") return null;
+    if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+      return null;
+    }
+    values.push(String(value));
+  }
+  return values;
+};
+
+/**
+ * Check whether writing rowData would change an existing destination record.
+ * Only the properties being written are compared; values are compared as strings so 1 and "1" match.
+ */
+export const hasRowChanges = (existing: Record<string, unknown>, rowData: RowData): boolean => {
+  const normalize = (value: unknown): string | null => {
+    if (value === null || value === undefined) return null;
+    if (isBinaryBlob(value)) return value.$value;
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+  };
+  return Object.entries(rowData).some(
+    ([key, value]) => normalize(existing[key]) !== normalize(value),
+  );
+};
+
+/**
+ * Normalize a parent reference value so parent keys and child references compare equal.
+ * Returns null for empty or non-primitive values.
+ */
+export const toParentKey = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === "") return null;
+  if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+    return null;
+  }
+  return String(value).trim();
+};
+
+/**
+ * Resolve a child row's parent reference against the rows migrated by the parent job.
+ * On success the reference column is swapped for the parent's destination identity;
+ * otherwise the row must be held back with the returned reason.
+ */
+export const resolveParentReference = (
+  sourceRow: Record<string, unknown>,
+  sourceProperty: string,
+  parentRows: ReadonlyMap<string, ParentRowRef>,
+):
+  | { held: false; parentId: string; row: Record<string, unknown> }
+  | { held: true; reason: string } => {
+  const key = toParentKey(sourceRow[sourceProperty]);
+  if (key === null) {
+    return { held: true, reason: `Row has no parent reference in ${sourceProperty}` };
+  }
+  const parent = parentRows.get(key);
+  if (!parent) {
+    return {
+      held: true,
+      reason: `Parent row ${sourceProperty} = ${key} was not migrated by the parent job`,
+    };
+  }
+  const parentId = parent.identityElements?.[0];
+  if (parent.status !== "success" || !parentId) {
+    return {
+      held: true,
+      reason: `Parent row ${sourceProperty} = ${key} failed to migrate`,
+    };
+  }
+  return { held: false, parentId, row: { ...sourceRow, [sourceProperty]: parentId } };
+};
+
+// Remap the parent reference (if any) and transform a source row for writing
+const prepareRow = (
+  sourceRow: Record<string, unknown>,
+  mappings: PropertyMapping[],
+  parentLink: ParentLink | null,
+  lookupTables: LookupTables,
+  context: RowContext,
+): PreparedRow => {
+  if (!parentLink) {
+    return {
+      held: false,
+      ...mapSourceRow(sourceRow, mappings, context, lookupTables),
+      parent: null,
+    };
+  }
+  const resolved = resolveParentReference(
+    sourceRow,
+    parentLink.sourceProperty,
+    parentLink.parentRows,
+  );
+  if (resolved.held) {
+    return resolved;
+  }
+  return {
+    held: false,
+    ...mapSourceRow(resolved.row, mappings, context, lookupTables),
+    parent: { entityTypeName: parentLink.entityTypeName, id: resolved.parentId },
+  };
+};
+
+/**
+ * Apply manual edits to a row's transformed values. Edited properties take the edited value, and
+ * mapping problems of edited properties are resolved by the edit.
+ */
+export const applyRowEdits = <T extends { rowData: RowData; problems: MappingProblem[] }>(
+  mapped: T,
+  edits: RowEdits | null,
+): T =>
+  edits
+    ? {
+        ...mapped,
+        rowData: { ...mapped.rowData, ...edits },
+        problems: mapped.problems.filter((problem) => !(problem.property in edits)),
+      }
+    : mapped;
+
+// Fail a row whose mapped values could not be produced
+const mappingProblemError = (rowIndex: number, problems: readonly MappingProblem[]) =>
+  new InsertFailedError({
+    rowIndex,
+    message: problems.map((problem) => problem.message).join("; "),
+    category: problems[0]?.category,
+  });
+
+// What is known about a failed write from the error the destination call raised.
+// Connection failures keep the client's reason (e.g. a timeout) as the detail.
+const writeFailureOf = (error: unknown, message: string): WriteFailure => {
+  if (error instanceof ImisResponseError) {
+    return { status: error.status, body: error.body ?? null, message };
+  }
+  if (error instanceof ImisRequestError && error.cause instanceof Error) {
+    return { status: null, body: error.cause.message, message };
+  }
+  return { status: null, body: null, message };
+};
+
 // ---------------------
 // Service Definition
 // ---------------------
@@ -181,6 +1035,9 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
     effect: Effect.gen(function* () {
       const imisApi = yield* ImisApiService;
       const sessionService = yield* SessionService;
+      const crosswalkService = yield* CrosswalkService;
+      const lookupTableService = yield* LookupTableService;
+      const snapshotService = yield* SnapshotService;
       const _persistence = yield* PersistenceService;
 
       // ---------------------
@@ -200,6 +1057,21 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
           return job;
         });
 
+      // The first run of a job and the delta runs that followed it, oldest first
+      const getJobRuns = (job: Job) => {
+        const firstRunId = job.deltaOfJobId ?? job.id;
+        return Effect.try({
+          try: () =>
+            db
+              .select()
+              .from(jobs)
+              .where(or(eq(jobs.id, firstRunId), eq(jobs.deltaOfJobId, firstRunId)))
+              .orderBy(jobs.createdAt)
+              .all(),
+          catch: (cause) => new DatabaseError({ message: "Failed to fetch job runs", cause }),
+        });
+      };
+
       const updateJobStatus = (
         jobId: string,
         updates: Partial<{
@@ -207,16 +1079,43 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
           status: JobStatus;
           startedAt: string | null;
           completedAt: string | null;
-          failedQueryOffsets: string;
+          failedQueryOffsets: string | null;
+          queryBatchSize: number;
           identityFieldNames: string;
           errorMessage: string | null;
+          watermarkValue: string | null;
+          olderRowCount: number;
+          runnerPid: number | null;
+          runnerHeartbeatAt: string | null;
         }>,
       ) =>
         Effect.try({
-          try: () => db.update(jobs).set(updates).where(eq(jobs.id, jobId)).run(),
+          try: () =>
+            db
+              .update(jobs)
+              // A job that stops running no longer has a runner process
+              .set(
+                updates.status && updates.status !== "running"
+                  ? { ...updates, runnerPid: null, runnerHeartbeatAt: null }
+                  : updates,
+              )
+              .where(eq(jobs.id, jobId))
+              .run(),
           catch: (cause) => new DatabaseError({ message: "Failed to update job status", cause }),
         });
 
+      // Count rows a delta run fetched that are older than its starting watermark
+      const addOlderRows = (jobId: string, count: number) =>
+        Effect.try({
+          try: () =>
+            db
+              .update(jobs)
+              .set({ olderRowCount: sql`${jobs.olderRowCount} + ${count}` })
+              .where(eq(jobs.id, jobId))
+              .run(),
+          catch: (cause) => new DatabaseError({ message: "Failed to count older rows", cause }),
+        });
+
       // ---------------------
       // Row/Attempt Database Operations
       // ---------------------
@@ -244,24 +1143,62 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
 
       const updateRow = (
         rowId: string,
-        updates: Partial<{ status: RowStatus; identityElements: string; updatedAt: string }>,
+        updates: Partial<{
+          status: RowStatus;
+          identityElements: string;
+          heldReason: string | null;
+          errorCategory: ErrorCategory | null;
+          encryptedPayload: string;
+          encryptedEdits: string | null;
+          updatedAt: string;
+        }>,
       ) =>
         Effect.try({
           try: () => db.update(rows).set(updates).where(eq(rows.id, rowId)).run(),
           catch: (cause) => new DatabaseError({ message: "Failed to update row", cause }),
         });
 
-      const getFailedRowsForJob = (jobId: string) =>
+      // Failed rows plus rows held back because their parent had not migrated
+      const getRetryableRowsForJob = (jobId: string) =>
         Effect.try({
           try: () =>
             db
               .select()
               .from(rows)
-              .where(and(eq(rows.jobId, jobId), eq(rows.status, "failed")))
+              .where(and(eq(rows.jobId, jobId), inArray(rows.status, ["failed", "held"])))
               .all(),
           catch: (cause) => new DatabaseError({ message: "Failed to fetch failed rows", cause }),
         });
 
+      // Manual edits stored for a row (null when it was never edited)
+      const decryptRowEdits = (row: Row, sourcePassword: string) => {
+        const { encryptedEdits } = row;
+        return encryptedEdits
+          ? Effect.promise(() => decryptJson<RowEdits>(encryptedEdits, sourcePassword))
+          : Effect.succeed(null);
+      };
+
+      // Failed rows of a job with the error of their latest attempt
+      const getFailuresForJob = (jobId: string) =>
+        Effect.try({
+          try: () => {
+            const joined = db
+              .select({ row: rows, errorMessage: attempts.errorMessage })
+              .from(rows)
+              .leftJoin(attempts, eq(attempts.rowId, rows.id))
+              .where(and(eq(rows.jobId, jobId), eq(rows.status, "failed")))
+              .orderBy(rows.rowIndex, attempts.createdAt)
+              .all();
+            // Later attempts of a row replace earlier ones
+            const latest = new Map<string, RowFailure>();
+            for (const { row, errorMessage } of joined) {
+              latest.set(row.id, { row, category: row.errorCategory, errorMessage });
+            }
+            return [...latest.values()];
+          },
+          catch: (cause) => new DatabaseError({ message: "Failed to fetch failed rows", cause }),
+        });
+
       const getAttemptsForRow = (rowId: string) =>
         Effect.try({
           try: () =>
@@ -295,38 +1232,202 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
             try: () => db.delete(rows).where(eq(rows.jobId, jobId)).run(),
             catch: (cause) => new DatabaseError({ message: "Failed to delete rows", cause }),
           });
+
+          // The verification checked rows that no longer exist
+          yield* deleteVerificationForJob(jobId);
+          yield* deleteRollbackForJob(jobId);
         });
 
-      const getJobCounts = (jobId: string) =>
+      // ---------------------
+      // Verification Database Operations
+      // ---------------------
+
+      const getVerificationForJob = (jobId: string) =>
         Effect.try({
-          try: () => {
-            const result = db
-              .select({
-                processedRows: sql<number>`COUNT(*)`,
-                successfulRows: sql<number>`SUM(CASE WHEN ${rows.status} = 'success' THEN 1 ELSE 0 END)`,
-                failedRowCount: sql<number>`SUM(CASE WHEN ${rows.status} = 'failed' THEN 1 ELSE 0 END)`,
-              })
-              .from(rows)
-              .where(eq(rows.jobId, jobId))
-              .get();
-            return {
-              processedRows: result?.processedRows ?? 0,
-              successfulRows: result?.successfulRows ?? 0,
-              failedRowCount: result?.failedRowCount ?? 0,
-            };
-          },
-          catch: (cause) => new DatabaseError({ message: "Failed to get job counts", cause }),
+          try: () => db.select().from(verifications).where(eq(verifications.jobId, jobId)).get(),
+          catch: (cause) => new DatabaseError({ message: "Failed to fetch verification", cause }),
         });
 
-      const getEnvironmentSettings = (envId: string) =>
+      const deleteVerificationForJob = (jobId: string) =>
         Effect.gen(function* () {
-          const results = yield* Effect.try({
-            try: () => db.select().from(environments).where(eq(environments.id, envId)).all(),
-            catch: (cause) => new DatabaseError({ message: "Failed to fetch environment", cause }),
+          const verification = yield* getVerificationForJob(jobId);
+          if (!verification) return;
+          yield* Effect.try({
+            try: () => {
+              db.delete(verificationResults)
+                .where(eq(verificationResults.verificationId, verification.id))
+                .run();
+              db.delete(verifications).where(eq(verifications.id, verification.id)).run();
+            },
+            catch: (cause) =>
+              new DatabaseError({ message: "Failed to delete verification", cause }),
           });
-          const env = results[0];
-          if (!env) {
-            return yield* Effect.fail(new EnvironmentNotFoundError({ id: envId }));
+        });
+
+      const updateVerification = (
+        verificationId: string,
+        updates: Partial<{
+          status: "completed" | "failed";
+          sourceCount: number | null;
+          destinationCount: number | null;
+          checkedRows: number;
+          matchedRows: number;
+          errorMessage: string | null;
+          completedAt: string;
+        }>,
+      ) =>
+        Effect.try({
+          try: () =>
+            db.update(verifications).set(updates).where(eq(verifications.id, verificationId)).run(),
+          catch: (cause) => new DatabaseError({ message: "Failed to update verification", cause }),
+        });
+
+      const insertVerificationResult = (result: NewVerificationResult) =>
+        Effect.try({
+          try: () => db.insert(verificationResults).values(result).run(),
+          catch: (cause) =>
+            new DatabaseError({ message: "Failed to insert verification result", cause }),
+        });
+
+      // ---------------------
+      // Rollback Database Operations
+      // ---------------------
+
+      const getRollbackForJob = (jobId: string) =>
+        Effect.try({
+          try: () => db.select().from(rollbacks).where(eq(rollbacks.jobId, jobId)).get(),
+          catch: (cause) => new DatabaseError({ message: "Failed to fetch rollback", cause }),
+        });
+
+      const deleteRollbackForJob = (jobId: string) =>
+        Effect.gen(function* () {
+          const rollback = yield* getRollbackForJob(jobId);
+          if (!rollback) return;
+          yield* Effect.try({
+            try: () => {
+              db.delete(rollbackAttempts).where(eq(rollbackAttempts.rollbackId, rollback.id)).run();
+              db.delete(rollbacks).where(eq(rollbacks.id, rollback.id)).run();
+            },
+            catch: (cause) => new DatabaseError({ message: "Failed to delete rollback", cause }),
+          });
+        });
+
+      const updateRollback = (
+        rollbackId: string,
+        updates: Partial<{
+          status: "running" | "completed" | "failed";
+          totalRows: number;
+          deletedRows: number;
+          failedRows: number;
+          errorMessage: string | null;
+          startedAt: string;
+          completedAt: string | null;
+        }>,
+      ) =>
+        Effect.try({
+          try: () => db.update(rollbacks).set(updates).where(eq(rollbacks.id, rollbackId)).run(),
+          catch: (cause) => new DatabaseError({ message: "Failed to update rollback", cause }),
+        });
+
+      const insertRollbackAttempt = (attempt: NewRollbackAttempt) =>
+        Effect.try({
+          try: () => db.insert(rollbackAttempts).values(attempt).run(),
+          catch: (cause) =>
+            new DatabaseError({ message: "Failed to insert rollback attempt", cause }),
+        });
+
+      // Rows whose destination record the job created (updated and unchanged records existed before)
+      const getCreatedRowsForJob = (jobId: string) =>
+        Effect.try({
+          try: () =>
+            db
+              .selectDistinct({
+                id: rows.id,
+                rowIndex: rows.rowIndex,
+                identityElements: rows.identityElements,
+              })
+              .from(rows)
+              .innerJoin(attempts, eq(attempts.rowId, rows.id))
+              .where(
+                and(
+                  eq(rows.jobId, jobId),
+                  eq(rows.status, "success"),
+                  eq(attempts.success, true),
+                  or(eq(attempts.outcome, "created"), sql`${attempts.outcome} IS NULL`),
+                ),
+              )
+              .orderBy(rows.rowIndex)
+              .all(),
+          catch: (cause) => new DatabaseError({ message: "Failed to fetch created rows", cause }),
+        });
+
+      // Child jobs whose rows refer to the records a job created (rolled back children no longer do)
+      const getDependentJobs = (jobId: string) =>
+        Effect.try({
+          try: () =>
+            db
+              .select({ id: jobs.id, name: jobs.name })
+              .from(jobs)
+              .where(and(eq(jobs.parentJobId, jobId), sql`${jobs.status} != 'rolled_back'`))
+              .all(),
+          catch: (cause) => new DatabaseError({ message: "Failed to fetch dependent jobs", cause }),
+        });
+
+      // Fail unless the job's created records can be rolled back now
+      const checkRollback = (job: Job) =>
+        Effect.gen(function* () {
+          const dependents = yield* getDependentJobs(job.id);
+          const problem = rollbackProblem(
+            job,
+            dependents.map((dependent) => dependent.name),
+          );
+          if (problem) {
+            return yield* Effect.fail(new MigrationError({ message: problem }));
+          }
+          if (activeRuns.has(job.id)) {
+            return yield* Effect.fail(new JobAlreadyRunningError({ jobId: job.id }));
+          }
+          if (activeRollbacks.has(job.id)) {
+            return yield* Effect.fail(
+              new MigrationError({ message: `"${job.name}" is already being rolled back.` }),
+            );
+          }
+        });
+
+      const getJobCounts = (jobId: string) =>
+        Effect.try({
+          try: () => {
+            const result = db
+              .select({
+                processedRows: sql<number>`COUNT(*)`,
+                successfulRows: sql<number>`SUM(CASE WHEN ${rows.status} = 'success' THEN 1 ELSE 0 END)`,
+                failedRowCount: sql<number>`SUM(CASE WHEN ${rows.status} = 'failed' THEN 1 ELSE 0 END)`,
+                heldRowCount: sql<number>`SUM(CASE WHEN ${rows.status} = 'held' THEN 1 ELSE 0 END)`,
+                skippedRowCount: sql<number>`SUM(CASE WHEN ${rows.status} = 'skipped' THEN 1 ELSE 0 END)`,
+              })
+              .from(rows)
+              .where(eq(rows.jobId, jobId))
+              .get();
+            return {
+              processedRows: result?.processedRows ?? 0,
+              successfulRows: result?.successfulRows ?? 0,
+              failedRowCount: result?.failedRowCount ?? 0,
+              heldRowCount: result?.heldRowCount ?? 0,
+              skippedRowCount: result?.skippedRowCount ?? 0,
+            };
+          },
+          catch: (cause) => new DatabaseError({ message: "Failed to get job counts", cause }),
+        });
+
+      const getEnvironmentSettings = (envId: string) =>
+        Effect.gen(function* () {
+          const results = yield* Effect.try({
+            try: () => db.select().from(environments).where(eq(environments.id, envId)).all(),
+            catch: (cause) => new DatabaseError({ message: "Failed to fetch environment", cause }),
+          });
+          const env = results[0];
+          if (!env) {
+            return yield* Effect.fail(new EnvironmentNotFoundError({ id: envId }));
           }
           return {
             queryConcurrency: env.queryConcurrency,
@@ -335,6 +1436,142 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
           };
         });
 
+      // Build the parent key → destination identity lookup for a child job.
+      // Parent payloads are decrypted with the parent job's source password.
+      const loadParentLink = (job: Job) =>
+        Effect.gen(function* () {
+          if (!job.parentJobId || !job.parentSourceProperty || !job.parentKeyProperty) {
+            return null;
+          }
+          const parentKeyProperty = job.parentKeyProperty;
+          const parentJob = yield* getJobById(job.parentJobId);
+
+          const parentPassword = yield* sessionService.getPassword(parentJob.sourceEnvironmentId);
+          if (!parentPassword) {
+            return yield* Effect.fail(
+              new MissingCredentialsError({ environmentId: parentJob.sourceEnvironmentId }),
+            );
+          }
+
+          const parentRowsList = yield* Effect.try({
+            try: () => db.select().from(rows).where(eq(rows.jobId, parentJob.id)).all(),
+            catch: (cause) => new DatabaseError({ message: "Failed to fetch parent rows", cause }),
+          });
+
+          const parentRows = new Map<string, ParentRowRef>();
+          for (const row of parentRowsList) {
+            const sourceRow = yield* Effect.promise(() =>
+              decryptJson<Record<string, unknown>>(row.encryptedPayload, parentPassword),
+            );
+            const key = toParentKey(sourceRow[parentKeyProperty]);
+            // A successful row wins over failed duplicates with the same key
+            if (key === null || parentRows.get(key)?.status === "success") continue;
+            parentRows.set(key, {
+              status: row.status,
+              identityElements: row.identityElements
+                ? (JSON.parse(row.identityElements) as string[])
+                : null,
+            });
+          }
+
+          return {
+            entityTypeName: parentJob.destEntityType,
+            sourceProperty: job.parentSourceProperty,
+            parentRows,
+          } satisfies ParentLink;
+        }).pipe(
+          Effect.withSpan("migration.loadParentLink", {
+            attributes: { jobId: job.id, parentJobId: job.parentJobId },
+          }),
+        );
+
+      // Resolve the source key columns used for crosswalk entries.
+      // An explicit source key column wins; datasource jobs fall back to the source identity fields.
+      const loadCrosswalkSource = (job: Job) =>
+        Effect.gen(function* () {
+          const sourceEntity =
+            job.mode === "query"
+              ? job.sourceQueryPath
+              : job.mode === "file"
+                ? job.sourceFileName
+                : job.sourceEntityType;
+          if (!sourceEntity) return null;
+
+          const keyProperties = job.sourceKeyProperty
+            ? [job.sourceKeyProperty]
+            : job.mode === "datasource"
+              ? yield* imisApi.getIdentityFieldNames(job.sourceEnvironmentId, sourceEntity)
+              : [];
+          if (keyProperties.length === 0) return null;
+
+          return {
+            sourceEnvironmentId: job.sourceEnvironmentId,
+            sourceEntity,
+            keyProperties,
+          } satisfies CrosswalkSource;
+        });
+
+      // Load the lookup tables a job's mappings refer to.
+      // Fails if a referenced table has been deleted since the mappings were defined.
+      const loadLookupTables = (mappings: readonly PropertyMapping[]) =>
+        Effect.gen(function* () {
+          const ids = referencedLookupTableIds(mappings);
+          const tables = yield* lookupTableService.getDefinitions(ids);
+          const missing = mappings.filter(
+            (m) =>
+              m.destinationProperty !== null && m.lookupTableId && !tables.has(m.lookupTableId),
+          );
+          if (missing.length > 0) {
+            return yield* Effect.fail(
+              new MigrationError({
+                message: `Lookup table no longer exists for mapping(s): ${missing.map((m) => m.destinationProperty).join(", ")}`,
+              }),
+            );
+          }
+          return tables;
+        });
+
+      // Resolve the destination definition a dry run validates rows against (null if not found)
+      const loadDestinationDefinition = (job: Job) =>
+        Effect.gen(function* () {
+          if (job.destType === "custom_endpoint") {
+            return (
+              CUSTOM_ENDPOINT_DEFINITIONS.find((d) => d.entityTypeName === job.destEntityType) ??
+              null
+            );
+          }
+          const definitions = yield* imisApi.getBoEntityDefinitions(job.destEnvironmentId);
+          const definition = definitions.Items.$values.find(
+            (d) => d.EntityTypeName === job.destEntityType,
+          );
+          return definition ? boEntityToDestination(definition) : null;
+        });
+
+      // Record crosswalk entries for successfully written rows (rows without a source key are skipped)
+      const recordCrosswalk = (
+        jobId: string,
+        source: CrosswalkSource | null,
+        target: WriteTarget,
+        written: readonly { sourceRow: Record<string, unknown>; identityElements: string[] }[],
+      ) => {
+        if (!source) return Effect.void;
+        const records: CrosswalkRecord[] = [];
+        for (const { sourceRow, identityElements } of written) {
+          const sourceKey = buildSourceKey(sourceRow, source.keyProperties);
+          if (sourceKey === null || identityElements.length === 0) continue;
+          records.push({
+            sourceEnvironmentId: source.sourceEnvironmentId,
+            sourceEntity: source.sourceEntity,
+            sourceKey,
+            destEnvironmentId: target.destEnvId,
+            destEntityType: target.destEntityType,
+            destIdentity: JSON.stringify(identityElements),
+            jobId,
+          });
+        }
+        return crosswalkService.record(records);
+      };
+
       // ---------------------
       // Migration Logic
       // ---------------------
@@ -344,8 +1581,9 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
         queryPath: string,
         queryBatchSize: number,
         offset: number,
+        parameters: readonly string[],
       ) =>
-        imisApi.executeQuery(envId, queryPath, queryBatchSize, offset).pipe(
+        imisApi.executeQuery(envId, queryPath, queryBatchSize, offset, parameters).pipe(
           Effect.retry({
             schedule: queryRetrySchedule,
             while: (error: ImisApiError) => {
@@ -365,8 +1603,9 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
         entityTypeName: string,
         queryBatchSize: number,
         offset: number,
+        filters: Record<string, string>,
       ) =>
-        imisApi.fetchDataSource(envId, entityTypeName, queryBatchSize, offset).pipe(
+        imisApi.fetchDataSource(envId, entityTypeName, queryBatchSize, offset, filters).pipe(
           Effect.retry({
             schedule: queryRetrySchedule,
             while: (error: ImisApiError) => {
@@ -389,24 +1628,27 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
         parentId: string | null,
         rowData: RowData,
         rowIndex: number,
+        onRequest: RequestRecorder,
       ) =>
-        imisApi.insertEntity(envId, entityTypeName, parentEntityTypeName, parentId, rowData).pipe(
-          Effect.map((result) => ({
-            rowIndex,
-            identityElements: result.identityElements,
-          })),
-          Effect.mapError(
-            (error) =>
-              new InsertFailedError({
-                rowIndex,
-                message: error.message,
-                cause: error,
-              }),
-          ),
-          Effect.withSpan("migration.executeInsert", {
-            attributes: { entityTypeName, rowIndex },
-          }),
-        );
+        imisApi
+          .insertEntity(envId, entityTypeName, parentEntityTypeName, parentId, rowData, onRequest)
+          .pipe(
+            Effect.map((result) => ({
+              rowIndex,
+              identityElements: result.identityElements,
+            })),
+            Effect.mapError(
+              (error) =>
+                new InsertFailedError({
+                  rowIndex,
+                  message: error.message,
+                  cause: error,
+                }),
+            ),
+            Effect.withSpan("migration.executeInsert", {
+              attributes: { entityTypeName, rowIndex },
+            }),
+          );
 
       // Execute insert with destType branching - handles both BO entity and custom endpoint
       const executeRowInsert = (
@@ -415,6 +1657,8 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
         destType: DestinationType,
         rowData: RowData,
         rowIndex: number,
+        parent: ParentRef | null,
+        onRequest: RequestRecorder,
       ) => {
         if (destType === "custom_endpoint") {
           const config = CUSTOM_ENDPOINTS.find((c) => c.entityTypeName === entityTypeName);
@@ -428,7 +1672,13 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
           }
           const body = config.requestBodyBuilder(rowData);
           return imisApi
-            .insertCustomEndpoint(envId, config.endpointPath, body, config.identityExtractor)
+            .insertCustomEndpoint(
+              envId,
+              config.endpointPath,
+              body,
+              config.identityExtractor,
+              onRequest,
+            )
             .pipe(
               Effect.map((result) => ({
                 rowIndex,
@@ -447,97 +1697,336 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
               }),
             );
         }
-        return executeInsert(envId, entityTypeName, "Standalone", null, rowData, rowIndex);
+        return executeInsert(
+          envId,
+          entityTypeName,
+          parent?.entityTypeName ?? "Standalone",
+          parent?.id ?? null,
+          rowData,
+          rowIndex,
+          onRequest,
+        );
+      };
+
+      // Create (or empty) a file destination's output before a run writes to it
+      const startFileOutput = (output: FileOutput) =>
+        Effect.try({
+          try: () => {
+            mkdirSync(dirname(output.path), { recursive: true });
+            if (output.format === "parquet") {
+              writeFileSync(stagingPathOf(output), "");
+              rmSync(output.path, { force: true });
+            } else {
+              writeFileSync(
+                output.path,
+                output.format === "csv" ? csvHeaderLine(output.columns) : "",
+              );
+            }
+          },
+          catch: (cause) =>
+            new MigrationError({
+              message: `Could not create ${output.path}: ${fileErrorMessage(cause)}`,
+              cause,
+            }),
+        });
+
+      // Append a row to a file destination's output (each append is a single synchronous write,
+      // so rows written concurrently never interleave)
+      const writeFileRow = (output: FileOutput, rowData: RowData, rowIndex: number) =>
+        Effect.try({
+          try: () => {
+            if (output.format === "csv") {
+              appendFileSync(output.path, csvRowLine(output.columns, rowData));
+            } else {
+              appendFileSync(
+                output.format === "parquet" ? stagingPathOf(output) : output.path,
+                ndjsonRowLine(output.columns, rowData),
+              );
+            }
+            return { rowIndex, identityElements: [] as string[], outcome: "created" as const };
+          },
+          catch: (cause) =>
+            new InsertFailedError({
+              rowIndex,
+              message: `Could not write to ${output.path}: ${fileErrorMessage(cause)}`,
+              cause,
+            }),
+        });
+
+      // Rebuild a Parquet output from its staged rows (CSV and NDJSON outputs are always complete)
+      const finishFileOutput = (output: FileOutput | null) =>
+        output?.format !== "parquet"
+          ? Effect.void
+          : Effect.try({
+              try: () => {
+                const staging = stagingPathOf(output);
+                const staged = existsSync(staging)
+                  ? parseNdjsonRows(readFileSync(staging, "utf8"))
+                  : [];
+                writeFileSync(output.path, writeParquet(output.columns, staged));
+              },
+              catch: (cause) =>
+                new MigrationError({
+                  message: `Could not write ${output.path}: ${fileErrorMessage(cause)}`,
+                  cause,
+                }),
+            });
+
+      // Write a row according to the job's write mode.
+      // insert always POSTs; update/upsert look up the existing record by its identity fields first.
+      // Every POST/PUT request sent (including automatic retries) is returned with the result.
+      const executeRowWrite = (
+        target: WriteTarget,
+        rowData: RowData,
+        rowIndex: number,
+        parent: ParentRef | null,
+      ): Effect.Effect<WriteResult, InsertFailedError> =>
+        Effect.suspend(() => {
+          const { destEnvId, destEntityType, destType, writeMode, identityFieldNames } = target;
+          const requests: RequestAttempt[] = [];
+          const onRequest: RequestRecorder = (request) => requests.push(request);
+
+          const insert = executeRowInsert(
+            destEnvId,
+            destEntityType,
+            destType,
+            rowData,
+            rowIndex,
+            parent,
+            onRequest,
+          ).pipe(Effect.map((result) => ({ ...result, outcome: "created" as const })));
+
+          const write = target.file
+            ? writeFileRow(target.file, rowData, rowIndex)
+            : writeMode === "insert" || destType === "custom_endpoint"
+              ? insert
+              : Effect.gen(function* () {
+                  const identityValues = extractIdentityValues(rowData, identityFieldNames);
+                  const existing = identityValues
+                    ? yield* imisApi.getEntity(destEnvId, destEntityType, identityValues)
+                    : null;
+
+                  if (!identityValues || !existing) {
+                    if (writeMode === "update") {
+                      return yield* Effect.fail(
+                        new InsertFailedError({
+                          rowIndex,
+                          message: identityValues
+                            ? `No existing ${destEntityType} record found for ${identityFieldNames.join(", ")} = ${identityValues.join(", ")}`
+                            : `Row has no value for identity field(s): ${identityFieldNames.join(", ")}`,
+                        }),
+                      );
+                    }
+                    return yield* insert;
+                  }
+
+                  if (!hasRowChanges(existing, rowData)) {
+                    return {
+                      rowIndex,
+                      identityElements: identityValues,
+                      outcome: "unchanged" as const,
+                    };
+                  }
+
+                  const result = yield* imisApi.updateEntity(
+                    destEnvId,
+                    destEntityType,
+                    parent?.entityTypeName ?? "Standalone",
+                    parent?.id ?? null,
+                    identityValues,
+                    rowData,
+                    onRequest,
+                  );
+                  return {
+                    rowIndex,
+                    identityElements: result.identityElements,
+                    outcome: "updated" as const,
+                  };
+                });
+
+          return write.pipe(
+            Effect.map((result) => ({ ...result, requests })),
+            Effect.mapError((error) => {
+              if (error._tag === "InsertFailedError" && error.category) {
+                return new InsertFailedError({ ...error, requests });
+              }
+              // Classify destination errors and add the messages from the iMIS response
+              const cause = error._tag === "InsertFailedError" ? error.cause : error;
+              const failure = writeFailureOf(cause, error.message);
+              return new InsertFailedError({
+                rowIndex,
+                message: describeWriteFailure(failure),
+                category: classifyWriteFailure(failure) ?? undefined,
+                cause,
+                requests,
+              });
+            }),
+            Effect.withSpan("migration.executeRowWrite", {
+              attributes: { entityTypeName: destEntityType, rowIndex, writeMode },
+            }),
+          );
+        });
+
+      // Dry run: validate a row against the destination definition instead of writing it
+      const executeRowValidation = (
+        destination: DestinationDefinition,
+        mappings: PropertyMapping[],
+        rowData: RowData,
+        rowIndex: number,
+      ): Effect.Effect<WriteResult, InsertFailedError> => {
+        const problems = validateRowForDestination(rowData, destination, mappings);
+        return problems.length > 0
+          ? Effect.fail(new InsertFailedError({ rowIndex, message: problems.join("; ") }))
+          : Effect.succeed({ rowIndex, identityElements: [], outcome: null, requests: [] });
       };
 
+      // A batch that has started writing always finishes and records its rows (it is uninterruptible),
+      // so cancelling a job never loses track of what was already sent.
       const processBatchRows = (
-        jobId: string,
+        context: BatchContext,
         sourceRows: readonly Record<string, unknown>[],
-        mappings: PropertyMapping[],
-        destEnvId: string,
-        destEntityType: string,
-        destType: DestinationType,
-        sourceEnvId: string,
-        insertConcurrency: number,
         batchStartIndex: number,
       ) =>
         Effect.gen(function* () {
+          const {
+            jobId,
+            sourceEnvId,
+            mappings,
+            rowFilter,
+            watermark,
+            target,
+            parentLink,
+            lookupTables,
+            crosswalkSource,
+            insertConcurrency,
+            recordedIndexes,
+          } = context;
+
           // Get source password for encrypting row data
           const sourcePassword = yield* sessionService.getPassword(sourceEnvId);
           if (!sourcePassword) {
             return yield* Effect.fail(new MissingCredentialsError({ environmentId: sourceEnvId }));
           }
 
-          // Transform rows
-          const transformedRows = sourceRows.map((row, index) => ({
-            original: row,
-            transformed: transformRow(row, mappings),
-            index: batchStartIndex + index,
-          }));
-
-          // Branch on destination type
-          let failures: InsertFailedError[];
-          let successes: { rowIndex: number; identityElements: string[] }[];
-
-          if (destType === "custom_endpoint") {
-            // Custom endpoint insertion
-            const config = CUSTOM_ENDPOINTS.find((c) => c.entityTypeName === destEntityType);
-            if (!config) {
-              return yield* Effect.fail(
-                new MigrationError({
-                  message: `No endpoint config found for custom endpoint: ${destEntityType}`,
-                }),
-              );
-            }
-
-            [failures, successes] = yield* Effect.partition(
-              transformedRows,
-              ({ transformed, index }) => {
-                const body = config.requestBodyBuilder(transformed);
-                return imisApi
-                  .insertCustomEndpoint(
-                    destEnvId,
-                    config.endpointPath,
-                    body,
-                    config.identityExtractor,
-                  )
-                  .pipe(
-                    Effect.map((result) => ({
-                      rowIndex: index,
-                      identityElements: result.identityElements,
-                    })),
-                    Effect.mapError(
-                      (error) =>
-                        new InsertFailedError({
-                          rowIndex: index,
-                          message: error.message,
-                          cause: error,
-                        }),
-                    ),
-                  );
-              },
-              { concurrency: insertConcurrency },
+          // Custom endpoints need a known config before any row is sent
+          if (
+            target.destType === "custom_endpoint" &&
+            !CUSTOM_ENDPOINTS.some((c) => c.entityTypeName === target.destEntityType)
+          ) {
+            return yield* Effect.fail(
+              new MigrationError({
+                message: `No endpoint config found for custom endpoint: ${target.destEntityType}`,
+              }),
             );
-          } else {
-            // Standard BO entity insertion
-            // Note: Automatic retries (4 attempts) are handled inside imisApi.insertEntity via executeWithAuth
-            [failures, successes] = yield* Effect.partition(
-              transformedRows,
-              ({ transformed, index }) =>
-                executeInsert(
-                  destEnvId,
-                  destEntityType,
-                  "Standalone", // Default to Standalone for now
-                  null,
-                  transformed,
-                  index,
-                ),
-              { concurrency: insertConcurrency },
+          }
+
+          if (watermark) {
+            yield* Ref.update(watermark.highest, (highest) =>
+              sourceRows.reduce(
+                (max, row) => maxWatermark(max, watermarkValueOf(row, watermark.column)),
+                highest,
+              ),
             );
           }
 
+          // Rows not stored by an earlier run. Delta runs only migrate rows at or after the run's
+          // starting watermark; older rows are counted but not stored.
+          const isNewer = (row: Record<string, unknown>) =>
+            !watermark ||
+            isAtOrAfterWatermark(watermarkValueOf(row, watermark.column), watermark.from);
+          const pendingRows = sourceRows
+            .map((row, index) => ({ original: row, index: batchStartIndex + index }))
+            .filter(({ index }) => !recordedIndexes.has(index));
+          const newerRows = pendingRows.filter(({ original }) => isNewer(original));
+          const olderCount = pendingRows.length - newerRows.length;
+          const skippedRows = newerRows.filter(
+            ({ original }) => !matchesRowFilter(original, rowFilter),
+          );
+
+          // Remap parent references and transform the rows that match the row filter
+          const preparedRows = newerRows
+            .filter(({ original }) => matchesRowFilter(original, rowFilter))
+            .map(({ original, index }) => ({
+              original,
+              prepared: prepareRow(original, mappings, parentLink, lookupTables, {
+                jobId,
+                rowIndex: index,
+              }),
+              index,
+            }));
+          const transformedRows = preparedRows.flatMap(({ original, prepared, index }) =>
+            prepared.held
+              ? []
+              : [
+                  {
+                    original,
+                    transformed: prepared.rowData,
+                    parent: prepared.parent,
+                    problems: prepared.problems,
+                    index,
+                  },
+                ],
+          );
+
+          // Note: Automatic retries (4 attempts) are handled inside the iMIS API service via executeWithAuth.
+          // Rows with mapping problems fail without being sent.
+          const { validateAgainst } = target;
+          const [failures, successes] = yield* Effect.partition(
+            transformedRows,
+            ({ transformed, parent, problems, index }) =>
+              problems.length > 0
+                ? Effect.fail(mappingProblemError(index, problems))
+                : validateAgainst
+                  ? executeRowValidation(validateAgainst, mappings, transformed, index)
+                  : executeRowWrite(target, transformed, index, parent),
+            { concurrency: insertConcurrency },
+          );
+
           const now = new Date().toISOString();
 
+          if (olderCount > 0) {
+            yield* addOlderRows(jobId, olderCount);
+          }
+
+          // Store skipped rows (never sent, so no attempt records)
+          for (const { original, index } of skippedRows) {
+            const encryptedPayload = yield* Effect.promise(() =>
+              encryptJson(original, sourcePassword),
+            );
+
+            yield* insertRow({
+              id: crypto.randomUUID(),
+              jobId,
+              rowIndex: index,
+              encryptedPayload,
+              status: "skipped",
+              identityElements: null,
+              createdAt: now,
+              updatedAt: now,
+            });
+          }
+
+          // Store held rows (never sent, so no attempt records)
+          for (const { original, prepared, index } of preparedRows) {
+            if (!prepared.held) continue;
+
+            const encryptedPayload = yield* Effect.promise(() =>
+              encryptJson(original, sourcePassword),
+            );
+
+            yield* insertRow({
+              id: crypto.randomUUID(),
+              jobId,
+              rowIndex: index,
+              encryptedPayload,
+              status: "held",
+              identityElements: null,
+              heldReason: prepared.reason,
+              createdAt: now,
+              updatedAt: now,
+            });
+          }
+
           // Store success rows with identity elements
           for (const success of successes) {
             const rowData = transformedRows.find((r) => r.index === success.rowIndex);
@@ -557,23 +2046,41 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
               rowIndex: success.rowIndex,
               encryptedPayload,
               status: "success",
-              identityElements: JSON.stringify(success.identityElements),
+              identityElements: validateAgainst ? null : JSON.stringify(success.identityElements),
               createdAt: now,
               updatedAt: now,
             });
 
-            // Create single successful attempt record
-            yield* insertAttempt({
-              id: crypto.randomUUID(),
+            // One attempt per request the write sent (retries that failed before it succeeded)
+            const attemptRecords = buildAttemptRecords(
               rowId,
-              reason: "initial",
-              success: true,
-              errorMessage: null,
-              identityElements: JSON.stringify(success.identityElements),
-              createdAt: now,
-            });
+              "initial",
+              success.requests,
+              {
+                success: true,
+                identityElements: validateAgainst ? null : JSON.stringify(success.identityElements),
+                outcome: success.outcome,
+              },
+              now,
+            );
+            for (const attempt of attemptRecords) {
+              yield* insertAttempt(attempt);
+            }
           }
 
+          // Record old ID → new ID for every written row
+          yield* recordCrosswalk(
+            jobId,
+            crosswalkSource,
+            target,
+            successes.flatMap((success) => {
+              const rowData = transformedRows.find((r) => r.index === success.rowIndex);
+              return rowData
+                ? [{ sourceRow: rowData.original, identityElements: success.identityElements }]
+                : [];
+            }),
+          );
+
           // Store failed rows with attempt records
           for (const failure of failures) {
             const rowData = transformedRows.find((r) => r.index === failure.rowIndex);
@@ -594,75 +2101,769 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
               encryptedPayload,
               status: "failed",
               identityElements: null,
+              errorCategory: failure.category ?? null,
               createdAt: now,
               updatedAt: now,
             });
 
-            // Create attempt records for initial + auto_retries (4 total attempts)
-            // First is "initial", remaining 3 are "auto_retry"
-            const attemptReasons: AttemptReason[] = [
+            // One attempt per request the write sent. Dry runs validate once, and rows with
+            // mapping problems were never sent.
+            const attemptRecords = buildAttemptRecords(
+              rowId,
               "initial",
-              "auto_retry",
-              "auto_retry",
-              "auto_retry",
-            ];
-            for (const reason of attemptReasons) {
-              yield* insertAttempt({
-                id: crypto.randomUUID(),
-                rowId,
-                reason,
+              failure.requests ?? [],
+              {
                 success: false,
                 errorMessage: failure.message,
-                identityElements: null,
-                createdAt: now,
-              });
+                errorCategory: failure.category ?? null,
+              },
+              now,
+            );
+            for (const attempt of attemptRecords) {
+              yield* insertAttempt(attempt);
             }
           }
 
-          return { successCount: successes.length, failCount: failures.length };
-        });
+          return {
+            successCount: successes.length,
+            failCount: failures.length,
+            heldCount: preparedRows.length - transformedRows.length,
+            skippedCount: skippedRows.length,
+            olderCount,
+          };
+        }).pipe(Effect.uninterruptible);
+
+      // Decrypt the rows of a file job's uploaded file
+      const loadSourceFileRows = (job: Job) =>
+        Effect.gen(function* () {
+          const cached = sourceFileCache.get(job.id);
+          if (cached) return cached;
+
+          const file = yield* Effect.try({
+            try: () => db.select().from(sourceFiles).where(eq(sourceFiles.jobId, job.id)).get(),
+            catch: (cause) => new DatabaseError({ message: "Failed to fetch source file", cause }),
+          });
+          if (!file) {
+            return yield* Effect.fail(
+              new MigrationError({ message: `Source file not found for job: ${job.id}` }),
+            );
+          }
+          const password = yield* sessionService.getPassword(job.sourceEnvironmentId);
+          if (!password) {
+            return yield* Effect.fail(
+              new MissingCredentialsError({ environmentId: job.sourceEnvironmentId }),
+            );
+          }
+          const fileRows = yield* Effect.promise(() =>
+            decryptJson<SourceFileRow[]>(file.encryptedRows, password),
+          );
+          sourceFileCache.clear();
+          sourceFileCache.set(job.id, fileRows);
+          return fileRows;
+        });
+
+      // One page of a file job's rows, shaped like a query response
+      const fetchSourceFileBatch = (job: Job, queryBatchSize: number, offset: number) =>
+        Effect.gen(function* () {
+          const fileRows = yield* loadSourceFileRows(job);
+          const page = fileRows.slice(offset, offset + queryBatchSize);
+          const nextOffset = offset + page.length;
+          return {
+            $type: "SourceFile",
+            Items: { $type: "SourceFileRows", $values: page as Record<string, unknown>[] },
+            Offset: offset,
+            Limit: queryBatchSize,
+            Count: page.length,
+            TotalCount: fileRows.length,
+            NextPageLink: null,
+            HasNext: nextOffset < fileRows.length,
+            NextOffset: nextOffset,
+          };
+        });
+
+      // Fetch one page of source rows for a job (snapshot, query, data source or file)
+      const fetchSourceBatch = (job: Job, queryBatchSize: number, offset: number) =>
+        Effect.gen(function* () {
+          if (job.sourceSnapshotId) {
+            return yield* snapshotService.readPage(job.sourceSnapshotId, queryBatchSize, offset);
+          }
+          if (job.mode === "file") {
+            return yield* fetchSourceFileBatch(job, queryBatchSize, offset);
+          }
+          if (job.mode === "query" && job.sourceQueryPath) {
+            return yield* executeQueryWithRetry(
+              job.sourceEnvironmentId,
+              job.sourceQueryPath,
+              queryBatchSize,
+              offset,
+              queryParametersForJob(job),
+            );
+          }
+          if (job.mode === "datasource" && job.sourceEntityType) {
+            return yield* executeDataSourceWithRetry(
+              job.sourceEnvironmentId,
+              job.sourceEntityType,
+              queryBatchSize,
+              offset,
+              sourceFiltersForJob(job),
+            );
+          }
+          // Should not reach here - invalid mode configuration
+          return yield* Effect.fail(
+            new MigrationError({
+              message: `Invalid job configuration: mode=${job.mode}, sourceQueryPath=${job.sourceQueryPath}, sourceEntityType=${job.sourceEntityType}`,
+            }),
+          );
+        });
+
+      const getRecordedRowIndexes = (jobId: string) =>
+        Effect.try({
+          try: () =>
+            new Set(
+              db
+                .select({ rowIndex: rows.rowIndex })
+                .from(rows)
+                .where(eq(rows.jobId, jobId))
+                .all()
+                .map((row) => row.rowIndex),
+            ),
+          catch: (cause) => new DatabaseError({ message: "Failed to fetch row indexes", cause }),
+        });
+
+      /**
+       * Validate a job's configuration and migrate its source rows.
+       * When resuming, rows already stored for the job are skipped and fully stored batches are not fetched.
+       */
+      const executeRun = (job: Job, resume: boolean) =>
+        Effect.gen(function* () {
+          const jobId = job.id;
+
+          // A job that cannot start fails; a resumed job keeps its status so its stored rows are kept
+          const failPreValidation = (errorMessage: string) =>
+            updateJobStatus(jobId, {
+              status: resume ? job.status : "failed",
+              errorMessage,
+              completedAt: resume ? null : new Date().toISOString(),
+            }).pipe(Effect.as({ failedOffsets: [] as number[], totalRows: 0 }));
+
+          // Parse mappings and the row filter
+          const mappings = JSON.parse(job.mappings) as PropertyMapping[];
+          const rowFilter = parseRowFilter(job);
+
+          // Get concurrency settings from destination environment
+          const { queryConcurrency, insertConcurrency } = yield* getEnvironmentSettings(
+            job.destEnvironmentId,
+          );
+
+          // Get query batch size from source environment (source is where queries run)
+          const { queryBatchSize } = yield* getEnvironmentSettings(job.sourceEnvironmentId);
+
+          // Fetch and store identity field names for the destination entity type (files have none)
+          const identityFieldNames =
+            job.destType === "file"
+              ? []
+              : yield* imisApi.getIdentityFieldNames(job.destEnvironmentId, job.destEntityType);
+          yield* updateJobStatus(jobId, {
+            identityFieldNames: JSON.stringify(identityFieldNames),
+          });
+
+          // Dry runs check every row against the destination definition instead of writing
+          const validateAgainst = job.dryRun ? yield* loadDestinationDefinition(job) : null;
+          if (job.dryRun && !validateAgainst) {
+            return yield* failPreValidation(
+              `Destination ${job.destEntityType} was not found in the destination environment.`,
+            );
+          }
+          const target = { ...writeTargetForJob(job, identityFieldNames), validateAgainst };
+
+          // Update mode can only find existing records if every identity field is mapped
+          if (job.writeMode === "update") {
+            const mappedDestinations = new Set(mappings.map((m) => m.destinationProperty));
+            const unmapped = identityFieldNames.filter((name) => !mappedDestinations.has(name));
+            if (identityFieldNames.length === 0 || unmapped.length > 0) {
+              return yield* failPreValidation(
+                identityFieldNames.length === 0
+                  ? `Update mode requires identity fields, but none were found for ${job.destEntityType}.`
+                  : `Update mode requires all identity fields to be mapped. Unmapped: ${unmapped.join(", ")}`,
+              );
+            }
+          }
+
+          // Child jobs can only run once the parent job has finished migrating its rows
+          if (job.parentJobId) {
+            const parentJob = yield* getJobById(job.parentJobId);
+            if (parentJob.status !== "completed" && parentJob.status !== "partial") {
+              return yield* failPreValidation(
+                `Parent job "${parentJob.name}" must finish before this job can run (status: ${parentJob.status}).`,
+              );
+            }
+          }
+          const parentLink = yield* loadParentLink(job);
+          // Dry runs create no destination records, so there is nothing to record in the crosswalk
+          const crosswalkSource = job.dryRun ? null : yield* loadCrosswalkSource(job);
+
+          const lookupTables = yield* loadLookupTables(mappings).pipe(Effect.either);
+          if (lookupTables._tag === "Left") {
+            return yield* failPreValidation(lookupTables.left.message);
+          }
+
+          // A snapshot source must still exist, be ready and decrypt with the source password
+          if (job.sourceSnapshotId) {
+            const snapshotRead = yield* snapshotService
+              .readPage(job.sourceSnapshotId, 1, 0)
+              .pipe(Effect.either);
+            if (snapshotRead._tag === "Left") {
+              return yield* failPreValidation(
+                snapshotRead.left._tag === "SnapshotNotFoundError"
+                  ? "The snapshot this job reads has been deleted."
+                  : snapshotRead.left.message,
+              );
+            }
+          }
+
+          // Pre-insert validation: fetch 1 row to validate source properties
+          const validationResult = yield* Effect.gen(function* () {
+            let sampleRow: Record<string, unknown> | undefined;
+
+            if (job.sourceSnapshotId) {
+              const batch = yield* fetchSourceBatch(job, 1, 0);
+              sampleRow = batch.Items.$values[0];
+            } else if (job.mode === "query" && job.sourceQueryPath) {
+              const batch = yield* imisApi.executeQuery(
+                job.sourceEnvironmentId,
+                job.sourceQueryPath,
+                1,
+                0,
+                queryParametersForJob(job),
+              );
+              sampleRow = batch.Items.$values[0];
+            } else if (job.mode === "datasource" && job.sourceEntityType) {
+              const batch = yield* imisApi.fetchDataSource(
+                job.sourceEnvironmentId,
+                job.sourceEntityType,
+                1,
+                0,
+              );
+              sampleRow = batch.Items.$values[0];
+            } else if (job.mode === "file") {
+              const batch = yield* fetchSourceFileBatch(job, 1, 0);
+              sampleRow = batch.Items.$values[0];
+            }
+
+            // If no rows, validation passes (nothing to validate against)
+            if (!sampleRow) {
+              return { valid: true as const };
+            }
+
+            return validateSourceProperties(sampleRow, mappings, rowFilter, job.watermarkColumn);
+          });
+
+          if (!validationResult.valid) {
+            const missingProps = validationResult.missing.join(", ");
+            return yield* failPreValidation(
+              `Source properties not found: ${missingProps}. The source schema may have changed since mappings were defined.`,
+            );
+          }
+
+          // Row indexes already stored by the run being resumed
+          const recordedIndexes = resume ? yield* getRecordedRowIndexes(jobId) : new Set<number>();
+          const watermark = yield* startWatermark(job, resume ? job.watermarkValue : null);
+          const context: BatchContext = {
+            jobId,
+            sourceEnvId: job.sourceEnvironmentId,
+            mappings,
+            rowFilter,
+            watermark,
+            target,
+            parentLink,
+            lookupTables: lookupTables.right,
+            crosswalkSource,
+            insertConcurrency,
+            recordedIndexes,
+          };
+
+          // A new run of a file destination starts a new file (a resumed run appends to it)
+          if (target.file && !resume) {
+            const started = yield* startFileOutput(target.file).pipe(Effect.either);
+            if (started._tag === "Left") {
+              return yield* failPreValidation(started.left.message);
+            }
+          }
+
+          // Track failed query offsets
+          const failedOffsetsRef = yield* Ref.make<number[]>([]);
+
+          // Mark job as running (a resumed job keeps its original start time).
+          // Older rows are counted again: a resumed run fetches every batch that holds one.
+          const now = new Date().toISOString();
+          yield* updateJobStatus(jobId, {
+            status: "running",
+            startedAt: resume ? (job.startedAt ?? now) : now,
+            completedAt: null,
+            errorMessage: null,
+            queryBatchSize,
+            olderRowCount: 0,
+            runnerPid: process.pid,
+            runnerHeartbeatAt: now,
+          });
+
+          const run: ActiveRun = { fiber: null, stop: null };
+          activeRuns.set(jobId, run);
+
+          // Report that this process still runs the job, so other processes leave it alone
+          const heartbeat = yield* Effect.fork(
+            Effect.suspend(() =>
+              updateJobStatus(jobId, { runnerHeartbeatAt: new Date().toISOString() }),
+            ).pipe(Effect.ignore, Effect.delay(RUNNER_HEARTBEAT_INTERVAL), Effect.forever),
+          );
+          // The runner is cleared with the status the run ends in (see updateJobStatus)
+          const releaseRun = Fiber.interrupt(heartbeat).pipe(
+            Effect.zipRight(Effect.sync(() => activeRuns.delete(jobId))),
+          );
+
+          const processing = Effect.gen(function* () {
+            // First fetch to get total count
+            const firstBatch = yield* fetchSourceBatch(job, queryBatchSize, 0);
+
+            const totalRows = firstBatch.TotalCount;
+            yield* updateJobStatus(jobId, { totalRows });
+
+            // Process first batch
+            if (firstBatch.Items.$values.length > 0) {
+              yield* processBatchRows(context, firstBatch.Items.$values, 0);
+            }
+
+            // Generate remaining offsets
+            const remainingOffsets = generateOffsets(totalRows, queryBatchSize).slice(1);
+
+            // Execute remaining fetches with concurrency control.
+            // Once a stop is requested no new batches start; batches already in flight finish.
+            yield* Effect.forEach(
+              remainingOffsets,
+              (offset) =>
+                Effect.gen(function* () {
+                  if (run.stop !== null) return;
+
+                  const batchSize = Math.min(queryBatchSize, totalRows - offset);
+                  if (isBatchRecorded(recordedIndexes, offset, batchSize)) return;
+
+                  const batch = yield* fetchSourceBatch(job, queryBatchSize, offset).pipe(
+                    // Record failed offset for retry and continue with other batches
+                    Effect.catchAll(() =>
+                      Ref.update(failedOffsetsRef, (offsets) => [...offsets, offset]).pipe(
+                        Effect.as(null),
+                      ),
+                    ),
+                  );
+
+                  // Process the batch
+                  if (batch && batch.Items.$values.length > 0) {
+                    yield* processBatchRows(context, batch.Items.$values, offset);
+                  }
+                }),
+              { concurrency: queryConcurrency },
+            );
+
+            const failedOffsets = yield* Ref.get(failedOffsetsRef);
+            return { failedOffsets, totalRows };
+          });
+
+          const fiber = yield* Effect.fork(processing);
+          run.fiber = fiber;
+          if (run.stop === "cancel") {
+            yield* Fiber.interruptFork(fiber);
+          }
+          const exit = yield* Fiber.await(fiber).pipe(Effect.ensuring(releaseRun));
+
+          // Save the highest watermark seen (delta runs of this job start after it once it completes)
+          if (watermark) {
+            yield* updateJobStatus(jobId, { watermarkValue: yield* Ref.get(watermark.highest) });
+          }
+
+          // Write the Parquet file from the rows staged so far (also when paused or cancelled)
+          const finished = yield* finishFileOutput(target.file).pipe(Effect.either);
+          if (finished._tag === "Left") {
+            yield* updateJobStatus(jobId, {
+              status: "failed",
+              errorMessage: finished.left.message,
+              completedAt: new Date().toISOString(),
+            });
+            return yield* Effect.fail(finished.left);
+          }
+
+          // Cancelled: in-flight batches have drained, keep what was written
+          if (
+            run.stop === "cancel" ||
+            (Exit.isFailure(exit) && Cause.isInterruptedOnly(exit.cause))
+          ) {
+            yield* updateJobStatus(jobId, {
+              status: "cancelled",
+              completedAt: new Date().toISOString(),
+            });
+            return Exit.isSuccess(exit)
+              ? exit.value
+              : { failedOffsets: [], totalRows: job.totalRows ?? 0 };
+          }
+
+          if (Exit.isFailure(exit)) {
+            yield* updateJobStatus(jobId, {
+              status: "failed",
+              completedAt: new Date().toISOString(),
+            });
+            return yield* Effect.failCause(exit.cause);
+          }
+
+          // Paused: unfinished batches are fetched again by resumeJob
+          if (run.stop === "pause") {
+            yield* updateJobStatus(jobId, { status: "paused" });
+            return exit.value;
+          }
+
+          // Get final counts from the rows table
+          const { failedOffsets } = exit.value;
+          const counts = yield* getJobCounts(jobId);
+          const hasFailed =
+            counts.failedRowCount > 0 || counts.heldRowCount > 0 || failedOffsets.length > 0;
+
+          yield* updateJobStatus(jobId, {
+            failedQueryOffsets: failedOffsets.length > 0 ? JSON.stringify(failedOffsets) : null,
+            status: job.dryRun ? "validated" : hasFailed ? "partial" : "completed",
+            completedAt: new Date().toISOString(),
+          });
+
+          return exit.value;
+        }).pipe(
+          Effect.withSpan("migrationJob.executeRun", {
+            attributes: { jobId: job.id, resume },
+          }),
+        );
+
+      // Create a new migration job and queue it for execution
+      const createJob = (config: CreateJobConfig) =>
+        Effect.gen(function* () {
+          const jobId = crypto.randomUUID();
+          const now = new Date().toISOString();
+
+          // File jobs read from the destination environment, whose password encrypts the file's rows
+          const sourceEnvironmentId =
+            config.mode === "file" ? config.destEnvironmentId : config.sourceEnvironmentId;
+
+          const newJob: NewJob = {
+            id: jobId,
+            name: config.name,
+            status: "queued",
+            mode: config.mode,
+            sourceEnvironmentId,
+            sourceQueryPath: config.sourceQueryPath ?? null,
+            queryParameters: config.queryParameters?.length
+              ? JSON.stringify(config.queryParameters)
+              : null,
+            sourceEntityType: config.sourceEntityType ?? null,
+            sourceFileName: config.sourceFile?.name ?? null,
+            sourceSnapshotId: config.mode === "file" ? null : (config.sourceSnapshotId ?? null),
+            destEnvironmentId: config.destEnvironmentId,
+            destEntityType: config.destEntityType,
+            destType: config.destType ?? "bo_entity",
+            writeMode: config.writeMode ?? "insert",
+            dryRun: config.dryRun ?? false,
+            destFileFormat: config.destType === "file" ? (config.destFileFormat ?? null) : null,
+            destFilePath:
+              config.destType === "file" ? fileDestinationPath(jobId, config.destEntityType) : null,
+            parentJobId: config.parentLink?.parentJobId ?? null,
+            parentSourceProperty: config.parentLink?.sourceProperty ?? null,
+            parentKeyProperty: config.parentLink?.parentKeyProperty ?? null,
+            sourceKeyProperty: config.sourceKeyProperty ?? null,
+            rowFilter: config.rowFilter ? JSON.stringify(config.rowFilter) : null,
+            watermarkColumn: config.watermarkColumn ?? null,
+            watermarkFrom: null,
+            watermarkValue: null,
+            deltaOfJobId: null,
+            mappings: JSON.stringify(config.mappings),
+            totalRows: null,
+            failedQueryOffsets: null,
+            startedAt: null,
+            completedAt: null,
+            createdAt: now,
+          };
+
+          const sourceFile = config.mode === "file" ? config.sourceFile : undefined;
+          const encryptedRows = sourceFile
+            ? yield* Effect.gen(function* () {
+                const password = yield* sessionService.getPassword(sourceEnvironmentId);
+                if (!password) {
+                  return yield* Effect.fail(
+                    new MissingCredentialsError({ environmentId: sourceEnvironmentId }),
+                  );
+                }
+                return yield* Effect.promise(() => encryptJson(sourceFile.data.rows, password));
+              })
+            : null;
+
+          yield* Effect.try({
+            try: () => db.insert(jobs).values(newJob).run(),
+            catch: (cause) => new DatabaseError({ message: "Failed to create job", cause }),
+          });
+
+          if (sourceFile && encryptedRows) {
+            yield* Effect.try({
+              try: () =>
+                db
+                  .insert(sourceFiles)
+                  .values({
+                    jobId,
+                    format: sourceFile.data.format,
+                    columns: JSON.stringify(sourceFile.data.columns),
+                    encryptedRows,
+                    rowCount: sourceFile.data.rows.length,
+                    createdAt: now,
+                  })
+                  .run(),
+              catch: (cause) =>
+                new DatabaseError({ message: "Failed to store source file", cause }),
+            });
+          }
+
+          return { jobId };
+        }).pipe(
+          Effect.withSpan("migrationJob.createJob", {
+            attributes: {
+              name: config.name,
+              mode: config.mode,
+              writeMode: config.writeMode,
+              dryRun: config.dryRun,
+            },
+          }),
+        );
+
+      // Read the rows of a file uploaded with a job request
+      const readSourceFileUpload = (upload: SourceFileUpload) =>
+        Effect.gen(function* () {
+          const result = yield* Effect.promise(() =>
+            readSourceFile(upload.name, Buffer.from(upload.content, "base64")),
+          );
+          if (!result.ok) {
+            return yield* Effect.fail(new JobValidationError({ message: result.message }));
+          }
+          return result.data;
+        });
 
       // ---------------------
       // Public API
       // ---------------------
 
       return {
+        createJob,
+
         /**
-         * Create a new migration job and queue it for execution.
+         * Validate a job request (from the export wizard or a CLI spec) and create the job
+         * in "queued" status.
          */
-        createJob: (config: CreateJobConfig) =>
+        createJobFromRequest: (request: CreateJobRequest) =>
           Effect.gen(function* () {
-            const jobId = crypto.randomUUID();
-            const now = new Date().toISOString();
+            // Validate required fields based on mode
+            if (!request.name) {
+              return yield* Effect.fail(
+                new JobValidationError({ message: "Job name is required" }),
+              );
+            }
+            if (request.mode === "query" && !request.sourceQueryPath) {
+              return yield* Effect.fail(
+                new JobValidationError({ message: "Source query path is required for query mode" }),
+              );
+            }
+            if (request.mode === "datasource" && !request.sourceEntityType) {
+              return yield* Effect.fail(
+                new JobValidationError({
+                  message: "Source entity type is required for datasource mode",
+                }),
+              );
+            }
 
-            const newJob: NewJob = {
-              id: jobId,
-              name: config.name,
-              status: "queued",
-              mode: config.mode,
-              sourceEnvironmentId: config.sourceEnvironmentId,
-              sourceQueryPath: config.sourceQueryPath ?? null,
-              sourceEntityType: config.sourceEntityType ?? null,
-              destEnvironmentId: config.destEnvironmentId,
-              destEntityType: config.destEntityType,
-              destType: config.destType ?? "bo_entity",
-              mappings: JSON.stringify(config.mappings),
-              totalRows: null,
-              failedQueryOffsets: null,
-              startedAt: null,
-              completedAt: null,
-              createdAt: now,
-            };
+            if (request.mode === "file" && !request.sourceFile) {
+              return yield* Effect.fail(
+                new JobValidationError({ message: "A source file is required for file mode" }),
+              );
+            }
+            if (request.mode === "file" && request.watermarkColumn) {
+              return yield* Effect.fail(
+                new JobValidationError({
+                  message: "File jobs read a fixed file, so they cannot have delta runs",
+                }),
+              );
+            }
+            if (request.mode === "query" && request.watermarkColumn) {
+              return yield* Effect.fail(
+                new JobValidationError({
+                  message:
+                    "An IQA query cannot be filtered to rows newer than a watermark, so query jobs cannot have delta runs",
+                }),
+              );
+            }
+            const sourceFile =
+              request.mode === "file" && request.sourceFile
+                ? {
+                    name: request.sourceFile.name,
+                    data: yield* readSourceFileUpload(request.sourceFile),
+                  }
+                : undefined;
+
+            // A snapshot replaces the source environment, so it must be a ready capture of the same source
+            const snapshot = request.sourceSnapshotId
+              ? yield* snapshotService.get(request.sourceSnapshotId).pipe(
+                  Effect.catchTag("SnapshotNotFoundError", () =>
+                    Effect.fail(
+                      new JobValidationError({
+                        message: `Snapshot not found: ${request.sourceSnapshotId}`,
+                      }),
+                    ),
+                  ),
+                )
+              : null;
+            if (snapshot && snapshot.status !== "ready") {
+              return yield* Effect.fail(
+                new JobValidationError({
+                  message: `Snapshot "${snapshot.name}" is not ready (status: ${snapshot.status})`,
+                }),
+              );
+            }
+            if (
+              snapshot &&
+              (snapshot.environmentId !== request.sourceEnvironmentId ||
+                snapshot.mode !== request.mode ||
+                (snapshot.mode === "query" &&
+                  snapshot.sourceQueryPath !== request.sourceQueryPath) ||
+                (snapshot.mode === "datasource" &&
+                  snapshot.sourceEntityType !== request.sourceEntityType))
+            ) {
+              return yield* Effect.fail(
+                new JobValidationError({
+                  message: `Snapshot "${snapshot.name}" was captured from a different source`,
+                }),
+              );
+            }
 
-            yield* Effect.try({
-              try: () => db.insert(jobs).values(newJob).run(),
-              catch: (cause) => new DatabaseError({ message: "Failed to create job", cause }),
+            if (
+              request.destType === "custom_endpoint" &&
+              (request.writeMode ?? "insert") !== "insert"
+            ) {
+              return yield* Effect.fail(
+                new JobValidationError({
+                  message: "Custom endpoint destinations only support insert mode",
+                }),
+              );
+            }
+
+            if (request.destType === "file") {
+              if (!request.destFileFormat) {
+                return yield* Effect.fail(
+                  new JobValidationError({
+                    message: "A file format is required for file destinations",
+                  }),
+                );
+              }
+              if (
+                !/^[^\\/:*?"<>|]+$/.test(request.destEntityType) ||
+                request.destEntityType.startsWith(".")
+              ) {
+                return yield* Effect.fail(
+                  new JobValidationError({
+                    message: `"${request.destEntityType}" is not a valid file name`,
+                  }),
+                );
+              }
+              if ((request.writeMode ?? "insert") !== "insert" || request.dryRun) {
+                return yield* Effect.fail(
+                  new JobValidationError({
+                    message: "File destinations only support insert mode and cannot be dry runs",
+                  }),
+                );
+              }
+              if (request.parentLink) {
+                return yield* Effect.fail(
+                  new JobValidationError({
+                    message: "Rows written to a file have no parent records to attach to",
+                  }),
+                );
+              }
+            }
+
+            if (request.parentLink) {
+              const { parentJobId, sourceProperty, parentKeyProperty } = request.parentLink;
+              if (!sourceProperty || !parentKeyProperty) {
+                return yield* Effect.fail(
+                  new JobValidationError({
+                    message: "Parent link requires both a source column and a parent key column",
+                  }),
+                );
+              }
+              const parentJob = yield* getJobById(parentJobId).pipe(
+                Effect.catchTag("JobNotFoundError", () =>
+                  Effect.fail(
+                    new JobValidationError({ message: `Parent job not found: ${parentJobId}` }),
+                  ),
+                ),
+              );
+              if (parentJob.dryRun) {
+                return yield* Effect.fail(
+                  new JobValidationError({
+                    message: "A dry run creates no records, so it cannot be a parent job",
+                  }),
+                );
+              }
+              if (parentJob.destType === "file") {
+                return yield* Effect.fail(
+                  new JobValidationError({
+                    message:
+                      "A job that writes to a file creates no records, so it cannot be a parent job",
+                  }),
+                );
+              }
+            }
+
+            const incompleteCondition = request.rowFilter?.conditions.find(
+              (condition) => !isCompleteCondition(condition),
+            );
+            if (incompleteCondition) {
+              return yield* Effect.fail(
+                new JobValidationError({
+                  message: `Row filter condition on "${incompleteCondition.column || "(no column)"}" is incomplete`,
+                }),
+              );
+            }
+
+            const result = yield* createJob({
+              name: request.name,
+              mode: request.mode,
+              sourceEnvironmentId: request.sourceEnvironmentId,
+              sourceQueryPath: request.sourceQueryPath,
+              // Snapshot jobs read the rows captured with the snapshot's prompt values
+              queryParameters:
+                request.mode !== "query"
+                  ? undefined
+                  : snapshot
+                    ? (JSON.parse(snapshot.queryParameters ?? "[]") as QueryParameterValue[])
+                    : request.queryParameters,
+              sourceEntityType: request.sourceEntityType,
+              sourceFile,
+              sourceSnapshotId: snapshot?.id,
+              destEnvironmentId: request.destEnvironmentId,
+              destEntityType: request.destEntityType,
+              destType: request.destType ?? "bo_entity",
+              destFileFormat: request.destFileFormat,
+              writeMode: request.writeMode ?? "insert",
+              dryRun: request.dryRun ?? false,
+              mappings: [...request.mappings],
+              parentLink: request.parentLink,
+              sourceKeyProperty: request.sourceKeyProperty,
+              rowFilter: request.rowFilter,
+              watermarkColumn: request.watermarkColumn || undefined,
             });
 
-            return { jobId };
+            // Job stays in "queued" status until it is run from the job details page or the CLI
+            return result;
           }).pipe(
-            Effect.withSpan("migrationJob.createJob", {
-              attributes: { name: config.name, mode: config.mode },
+            Effect.withSpan("migrationJob.createJobFromRequest", {
+              attributes: { name: request.name, mode: request.mode },
             }),
           ),
 
@@ -676,14 +2877,15 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
             // Get job
             const job = yield* getJobById(jobId);
 
-            // Verify job is in a runnable state
+            // Verify job is in a runnable state and no other process runs it
             // Note: Only "queued" and "failed" allowed. "partial" jobs should use retryFailedRows to avoid duplicates.
-            if (job.status !== "queued" && job.status !== "failed") {
+            // Finished dry runs can be run again to re-validate.
+            if (!isRunnableStatus(job) || isRunByOtherProcess(job)) {
               return yield* Effect.fail(new JobAlreadyRunningError({ jobId }));
             }
 
-            // Reset job state if retrying a failed job (pre-validation failure)
-            if (job.status === "failed") {
+            // Reset job state if retrying a failed job (pre-validation failure) or re-validating a dry run
+            if (job.status === "failed" || job.status === "validated") {
               // Delete any existing rows (should be none for pre-validation failures, but clean up just in case)
               yield* deleteRowsForJob(jobId);
               yield* updateJobStatus(jobId, {
@@ -692,295 +2894,161 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
                 errorMessage: null,
                 startedAt: null,
                 completedAt: null,
-                failedQueryOffsets: undefined,
+                failedQueryOffsets: null,
+                watermarkValue: null,
               });
             }
 
-            // Parse mappings
-            const mappings = JSON.parse(job.mappings) as PropertyMapping[];
-
-            // Get concurrency settings from destination environment
-            const { queryConcurrency, insertConcurrency } = yield* getEnvironmentSettings(
-              job.destEnvironmentId,
-            );
+            return yield* executeRun(job, false);
+          }).pipe(
+            Effect.withSpan("migrationJob.runJob", {
+              attributes: { jobId },
+            }),
+          ),
 
-            // Get query batch size from source environment (source is where queries run)
-            const { queryBatchSize } = yield* getEnvironmentSettings(job.sourceEnvironmentId);
+        /**
+         * Create a delta run of a job: a queued copy that only migrates rows newer than the watermark
+         * saved by the latest completed run. Every run must have finished before a delta is created.
+         */
+        createDeltaRun: (jobId: string) =>
+          Effect.gen(function* () {
+            const job = yield* getJobById(jobId);
+            if (!job.watermarkColumn) {
+              return yield* Effect.fail(
+                new MigrationError({
+                  message: `"${job.name}" has no watermark column, so it cannot run a delta.`,
+                }),
+              );
+            }
+            if (job.mode !== "datasource") {
+              return yield* Effect.fail(
+                new MigrationError({
+                  message: `"${job.name}" does not read a data source. Delta runs fetch only newer rows, which needs a data source filter.`,
+                }),
+              );
+            }
+            if (job.dryRun) {
+              return yield* Effect.fail(
+                new MigrationError({
+                  message: `"${job.name}" is a dry run. Delta runs only apply to jobs that write to the destination.`,
+                }),
+              );
+            }
 
-            // Fetch and store identity field names for the destination entity type
-            const identityFieldNames = yield* imisApi.getIdentityFieldNames(
-              job.destEnvironmentId,
-              job.destEntityType,
+            const runs = yield* getJobRuns(job);
+            const unfinished = runs.find(
+              (run) =>
+                run.status === "queued" || run.status === "running" || isResumableStatus(run),
             );
-            yield* updateJobStatus(jobId, {
-              identityFieldNames: JSON.stringify(identityFieldNames),
-            });
-
-            // Pre-insert validation: fetch 1 row to validate source properties
-            const validationResult = yield* Effect.gen(function* () {
-              let sampleRow: Record<string, unknown> | undefined;
-
-              if (job.mode === "query" && job.sourceQueryPath) {
-                const batch = yield* imisApi.executeQuery(
-                  job.sourceEnvironmentId,
-                  job.sourceQueryPath,
-                  1,
-                  0,
-                );
-                sampleRow = batch.Items.$values[0];
-              } else if (job.mode === "datasource" && job.sourceEntityType) {
-                const batch = yield* imisApi.fetchDataSource(
-                  job.sourceEnvironmentId,
-                  job.sourceEntityType,
-                  1,
-                  0,
-                );
-                sampleRow = batch.Items.$values[0];
-              }
-
-              // If no rows, validation passes (nothing to validate against)
-              if (!sampleRow) {
-                return { valid: true as const };
-              }
-
-              return validateSourceProperties(sampleRow, mappings);
-            });
-
-            if (!validationResult.valid) {
-              const missingProps = validationResult.missing.join(", ");
-              yield* updateJobStatus(jobId, {
-                status: "failed",
-                errorMessage: `Source properties not found: ${missingProps}. The source schema may have changed since mappings were defined.`,
-                completedAt: new Date().toISOString(),
-              });
-              return { failedOffsets: [], totalRows: 0 };
+            if (unfinished) {
+              return yield* Effect.fail(
+                new MigrationError({
+                  message: `Run "${unfinished.name}" has not finished (status: ${unfinished.status}).`,
+                }),
+              );
             }
 
-            // Track failed query offsets
-            const failedOffsetsRef = yield* Ref.make<number[]>([]);
-
-            // Mark job as running
-            yield* updateJobStatus(jobId, {
-              status: "running",
-              startedAt: new Date().toISOString(),
-            });
-
-            // Execute with status tracking
-            const result = yield* Effect.gen(function* () {
-              // Query mode execution
-              if (job.mode === "query" && job.sourceQueryPath) {
-                // First query to get total count
-                const firstBatch = yield* executeQueryWithRetry(
-                  job.sourceEnvironmentId,
-                  job.sourceQueryPath,
-                  queryBatchSize,
-                  0,
-                );
-
-                const totalRows = firstBatch.TotalCount;
-                yield* updateJobStatus(jobId, { totalRows });
-
-                // Process first batch
-                if (firstBatch.Items.$values.length > 0) {
-                  yield* processBatchRows(
-                    jobId,
-                    firstBatch.Items.$values,
-                    mappings,
-                    job.destEnvironmentId,
-                    job.destEntityType,
-                    job.destType,
-                    job.sourceEnvironmentId,
-                    insertConcurrency,
-                    0, // First batch starts at index 0
-                  );
-                }
-
-                // Generate remaining offsets
-                const remainingOffsets = generateOffsets(totalRows, queryBatchSize).slice(1);
-
-                // Execute remaining queries with concurrency control
-                yield* Effect.forEach(
-                  remainingOffsets,
-                  (offset) =>
-                    Effect.gen(function* () {
-                      const batch = yield* executeQueryWithRetry(
-                        job.sourceEnvironmentId,
-                        job.sourceQueryPath!,
-                        queryBatchSize,
-                        offset,
-                      ).pipe(
-                        Effect.catchAll((_error) => {
-                          // Record failed offset for retry
-                          return Effect.gen(function* () {
-                            yield* Ref.update(failedOffsetsRef, (offsets) => [...offsets, offset]);
-                            // Return empty result to continue with other batches
-                            return {
-                              $type: "",
-                              Items: { $type: "", $values: [] as Record<string, unknown>[] },
-                              Offset: offset,
-                              Limit: queryBatchSize,
-                              Count: 0,
-                              TotalCount: totalRows,
-                              NextPageLink: null,
-                              HasNext: false,
-                              NextOffset: offset + queryBatchSize,
-                            };
-                          });
-                        }),
-                      );
-
-                      // Process the batch
-                      if (batch.Items.$values.length > 0) {
-                        yield* processBatchRows(
-                          jobId,
-                          batch.Items.$values,
-                          mappings,
-                          job.destEnvironmentId,
-                          job.destEntityType,
-                          job.destType,
-                          job.sourceEnvironmentId,
-                          insertConcurrency,
-                          offset,
-                        );
-                      }
-                    }),
-                  { concurrency: queryConcurrency },
-                );
-
-                const failedOffsets = yield* Ref.get(failedOffsetsRef);
-                return { failedOffsets, totalRows };
-              }
-
-              // Datasource mode execution
-              if (job.mode === "datasource" && job.sourceEntityType) {
-                // First fetch to get total count
-                const firstBatch = yield* executeDataSourceWithRetry(
-                  job.sourceEnvironmentId,
-                  job.sourceEntityType,
-                  queryBatchSize,
-                  0,
-                );
-
-                const totalRows = firstBatch.TotalCount;
-                yield* updateJobStatus(jobId, { totalRows });
-
-                // Process first batch
-                if (firstBatch.Items.$values.length > 0) {
-                  yield* processBatchRows(
-                    jobId,
-                    firstBatch.Items.$values,
-                    mappings,
-                    job.destEnvironmentId,
-                    job.destEntityType,
-                    job.destType,
-                    job.sourceEnvironmentId,
-                    insertConcurrency,
-                    0,
-                  );
-                }
-
-                // Generate remaining offsets
-                const remainingOffsets = generateOffsets(totalRows, queryBatchSize).slice(1);
-
-                // Execute remaining fetches with concurrency control
-                yield* Effect.forEach(
-                  remainingOffsets,
-                  (offset) =>
-                    Effect.gen(function* () {
-                      const batch = yield* executeDataSourceWithRetry(
-                        job.sourceEnvironmentId,
-                        job.sourceEntityType!,
-                        queryBatchSize,
-                        offset,
-                      ).pipe(
-                        Effect.catchAll((_error) => {
-                          // Record failed offset for retry
-                          return Effect.gen(function* () {
-                            yield* Ref.update(failedOffsetsRef, (offsets) => [...offsets, offset]);
-                            // Return empty result to continue with other batches
-                            return {
-                              $type: "",
-                              Items: { $type: "", $values: [] as Record<string, unknown>[] },
-                              Offset: offset,
-                              Limit: queryBatchSize,
-                              Count: 0,
-                              TotalCount: totalRows,
-                              NextPageLink: null,
-                              HasNext: false,
-                              NextOffset: offset + queryBatchSize,
-                            };
-                          });
-                        }),
-                      );
-
-                      // Process the batch
-                      if (batch.Items.$values.length > 0) {
-                        yield* processBatchRows(
-                          jobId,
-                          batch.Items.$values,
-                          mappings,
-                          job.destEnvironmentId,
-                          job.destEntityType,
-                          job.destType,
-                          job.sourceEnvironmentId,
-                          insertConcurrency,
-                          offset,
-                        );
-                      }
-                    }),
-                  { concurrency: queryConcurrency },
-                );
-
-                const failedOffsets = yield* Ref.get(failedOffsetsRef);
-                return { failedOffsets, totalRows };
-              }
-
-              // Should not reach here - invalid mode configuration
+            // Start after the latest completed run (later runs that did not complete are fetched again)
+            const lastCompleted = runs.findLast((run) => run.status === "completed");
+            if (!lastCompleted) {
               return yield* Effect.fail(
                 new MigrationError({
-                  message: `Invalid job configuration: mode=${job.mode}, sourceQueryPath=${job.sourceQueryPath}, sourceEntityType=${job.sourceEntityType}`,
+                  message: `"${job.name}" has no completed run yet. Delta runs start from the watermark a completed run saves.`,
                 }),
               );
-            }).pipe(
-              Effect.tap(({ failedOffsets }) =>
-                Effect.gen(function* () {
-                  // Get final counts from the rows table
-                  const counts = yield* getJobCounts(jobId);
-                  const hasFailed = counts.failedRowCount > 0 || failedOffsets.length > 0;
-
-                  yield* updateJobStatus(jobId, {
-                    failedQueryOffsets:
-                      failedOffsets.length > 0 ? JSON.stringify(failedOffsets) : undefined,
-                    status: hasFailed ? "partial" : "completed",
-                    completedAt: new Date().toISOString(),
-                  });
-                }),
-              ),
-              Effect.catchAll((error) =>
-                Effect.gen(function* () {
-                  yield* updateJobStatus(jobId, {
-                    status: "failed",
-                    completedAt: new Date().toISOString(),
-                  });
-                  return yield* Effect.fail(error);
-                }),
-              ),
-            );
+            }
 
-            return result;
+            const firstRun = runs.find((run) => run.deltaOfJobId === null) ?? job;
+            const deltaJobId = crypto.randomUUID();
+            const newJob: NewJob = {
+              ...job,
+              id: deltaJobId,
+              name: `${firstRun.name} (delta ${runs.length})`,
+              status: "queued",
+              watermarkFrom: lastCompleted.watermarkValue,
+              watermarkValue: null,
+              olderRowCount: 0,
+              deltaOfJobId: firstRun.id,
+              // Delta runs read the live source, picking up the rows changed since a snapshot
+              sourceSnapshotId: null,
+              // Each run of a file destination writes its own file
+              destFilePath: job.destFilePath && fileDestinationPath(deltaJobId, job.destEntityType),
+              totalRows: null,
+              failedQueryOffsets: null,
+              queryBatchSize: null,
+              identityFieldNames: null,
+              errorMessage: null,
+              startedAt: null,
+              completedAt: null,
+              createdAt: new Date().toISOString(),
+            };
+
+            yield* Effect.try({
+              try: () => db.insert(jobs).values(newJob).run(),
+              catch: (cause) => new DatabaseError({ message: "Failed to create delta run", cause }),
+            });
+
+            return { jobId: deltaJobId };
           }).pipe(
-            Effect.withSpan("migrationJob.runJob", {
+            Effect.withSpan("migrationJob.createDeltaRun", {
+              attributes: { jobId },
+            }),
+          ),
+
+        /**
+         * Resume a paused or interrupted job.
+         * Rows already stored are skipped, and batches that were fully stored are not fetched again.
+         */
+        resumeJob: (jobId: string) =>
+          Effect.gen(function* () {
+            const job = yield* getJobById(jobId);
+            if (!isResumableStatus(job) || isRunByOtherProcess(job)) {
+              return yield* Effect.fail(new JobAlreadyRunningError({ jobId }));
+            }
+            return yield* executeRun(job, true);
+          }).pipe(
+            Effect.withSpan("migrationJob.resumeJob", {
               attributes: { jobId },
             }),
           ),
 
         /**
-         * Retry failed rows for a job.
+         * Pause a running job.
+         * No new batches are started; batches in flight finish and the job is marked paused.
          */
-        retryFailedRows: (jobId: string) =>
+        pauseJob: (jobId: string) =>
+          getJobById(jobId).pipe(
+            Effect.flatMap(() => {
+              const run = activeRuns.get(jobId);
+              if (!run) {
+                return Effect.fail(new MigrationError({ message: `Job is not running: ${jobId}` }));
+              }
+              run.stop ??= "pause";
+              return Effect.void;
+            }),
+          ),
+
+        /**
+         * Retry failed rows for a job, or only the failed rows of one failure group.
+         * Held rows are re-checked against the parent job and sent if their parent has since migrated.
+         */
+        retryFailedRows: (jobId: string, group?: FailureGroupKey) =>
           Effect.gen(function* () {
             const job = yield* getJobById(jobId);
-            const failedRowsList = yield* getFailedRowsForJob(jobId);
+            if (job.dryRun) {
+              return yield* Effect.fail(dryRunRetryError(job));
+            }
+            if (activeRuns.has(jobId) || job.status === "running" || isRunByOtherProcess(job)) {
+              return yield* Effect.fail(new JobAlreadyRunningError({ jobId }));
+            }
+            if (job.status === "rolled_back" || activeRollbacks.has(jobId)) {
+              return yield* Effect.fail(rolledBackRetryError(job));
+            }
+            const failedRowsList = group
+              ? (yield* getFailuresForJob(jobId))
+                  .filter((failure) => isInFailureGroup(failure, group))
+                  .map((failure) => failure.row)
+              : yield* getRetryableRowsForJob(jobId);
 
             if (failedRowsList.length === 0) {
               return { retriedCount: 0, successCount: 0, failCount: 0 };
@@ -999,6 +3067,10 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
 
             // Get concurrency settings
             const { insertConcurrency } = yield* getEnvironmentSettings(job.destEnvironmentId);
+            const target = writeTargetForJob(job, parseIdentityFieldNames(job));
+            const parentLink = yield* loadParentLink(job);
+            const lookupTables = yield* loadLookupTables(mappings);
+            const crosswalkSource = yield* loadCrosswalkSource(job);
 
             let successCount = 0;
             let failCount = 0;
@@ -1014,15 +3086,29 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
                     decryptJson<Record<string, unknown>>(row.encryptedPayload, sourcePassword),
                   );
 
-                  // Transform and insert
-                  const transformed = transformRow(originalRow, mappings);
-
-                  yield* executeRowInsert(
-                    job.destEnvironmentId,
-                    job.destEntityType,
-                    job.destType,
-                    transformed,
-                    row.rowIndex,
+                  // Remap parent reference, transform, apply manual edits and write
+                  const edits = yield* decryptRowEdits(row, sourcePassword);
+                  const editedProperties = edits ? JSON.stringify(Object.keys(edits)) : null;
+                  const mapped = prepareRow(originalRow, mappings, parentLink, lookupTables, {
+                    jobId,
+                    rowIndex: row.rowIndex,
+                  });
+                  const prepared = mapped.held ? mapped : applyRowEdits(mapped, edits);
+                  if (prepared.held) {
+                    // Parent still not migrated - keep the row held with the latest reason
+                    yield* updateRow(row.id, {
+                      status: "held",
+                      heldReason: prepared.reason,
+                      updatedAt: now,
+                    });
+                    failCount++;
+                    return;
+                  }
+
+                  yield* (
+                    prepared.problems.length > 0
+                      ? Effect.fail(mappingProblemError(row.rowIndex, prepared.problems))
+                      : executeRowWrite(target, prepared.rowData, row.rowIndex, prepared.parent)
                   ).pipe(
                     Effect.tap((result) =>
                       Effect.gen(function* () {
@@ -1030,33 +3116,51 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
                         yield* updateRow(row.id, {
                           status: "success",
                           identityElements: JSON.stringify(result.identityElements),
+                          heldReason: null,
+                          errorCategory: null,
                           updatedAt: now,
                         });
-                        yield* insertAttempt({
-                          id: crypto.randomUUID(),
-                          rowId: row.id,
-                          reason: "manual_retry",
-                          success: true,
-                          errorMessage: null,
-                          identityElements: JSON.stringify(result.identityElements),
-                          createdAt: now,
-                        });
+                        const attemptRecords = buildAttemptRecords(
+                          row.id,
+                          "manual_retry",
+                          result.requests,
+                          {
+                            success: true,
+                            identityElements: JSON.stringify(result.identityElements),
+                            outcome: result.outcome,
+                          },
+                          now,
+                        );
+                        for (const attempt of attemptRecords) {
+                          yield* insertAttempt({ ...attempt, editedProperties });
+                        }
+                        yield* recordCrosswalk(jobId, crosswalkSource, target, [
+                          { sourceRow: originalRow, identityElements: result.identityElements },
+                        ]);
                         successCount++;
                       }),
                     ),
                     Effect.catchAll((error) =>
                       Effect.gen(function* () {
-                        // Still failing - add failed attempt (row status stays "failed")
-                        yield* updateRow(row.id, { updatedAt: now });
-                        yield* insertAttempt({
-                          id: crypto.randomUUID(),
-                          rowId: row.id,
-                          reason: "manual_retry",
-                          success: false,
-                          errorMessage: error.message,
-                          identityElements: null,
-                          createdAt: now,
+                        // Still failing - add failed attempt (held rows that were sent become "failed")
+                        const errorCategory =
+                          error._tag === "InsertFailedError" ? (error.category ?? null) : null;
+                        yield* updateRow(row.id, {
+                          status: "failed",
+                          heldReason: null,
+                          errorCategory,
+                          updatedAt: now,
                         });
+                        const attemptRecords = buildAttemptRecords(
+                          row.id,
+                          "manual_retry",
+                          error._tag === "InsertFailedError" ? (error.requests ?? []) : [],
+                          { success: false, errorMessage: error.message, errorCategory },
+                          now,
+                        );
+                        for (const attempt of attemptRecords) {
+                          yield* insertAttempt({ ...attempt, editedProperties });
+                        }
                         failCount++;
                       }),
                     ),
@@ -1064,14 +3168,16 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
                 }),
               { concurrency: insertConcurrency },
             );
+            yield* finishFileOutput(target.file);
 
             // Check if job should be marked as completed
             const counts = yield* getJobCounts(jobId);
-            const failedOffsets = job.failedQueryOffsets
-              ? (JSON.parse(job.failedQueryOffsets) as number[])
-              : [];
+            const failedOffsets = parseFailedQueryOffsets(job);
             const shouldMarkCompleted =
-              counts.failedRowCount === 0 && failedOffsets.length === 0 && job.status === "partial";
+              counts.failedRowCount === 0 &&
+              counts.heldRowCount === 0 &&
+              failedOffsets.length === 0 &&
+              job.status === "partial";
 
             if (shouldMarkCompleted) {
               yield* updateJobStatus(jobId, { status: "completed" });
@@ -1089,10 +3195,175 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
           ),
 
         /**
-         * Retry a single failed row.
+         * Failed rows of a job grouped by error category and normalized latest error message,
+         * largest group first.
+         */
+        getFailureGroups: (jobId: string) =>
+          Effect.gen(function* () {
+            yield* getJobById(jobId);
+            return groupFailures(yield* getFailuresForJob(jobId));
+          }).pipe(
+            Effect.withSpan("migrationJob.getFailureGroups", {
+              attributes: { jobId },
+            }),
+          ),
+
+        /**
+         * Mark the failed rows of a failure group as skipped. They are not retried again and no
+         * longer keep the job partial; their attempts (and latest error) are kept.
+         */
+        skipFailureGroup: (jobId: string, group: FailureGroupKey) =>
+          Effect.gen(function* () {
+            const job = yield* getJobById(jobId);
+            if (activeRuns.has(jobId) || job.status === "running") {
+              return yield* Effect.fail(new JobAlreadyRunningError({ jobId }));
+            }
+            if (job.status === "rolled_back" || activeRollbacks.has(jobId)) {
+              return yield* Effect.fail(rolledBackRetryError(job));
+            }
+
+            const groupRows = (yield* getFailuresForJob(jobId)).filter((failure) =>
+              isInFailureGroup(failure, group),
+            );
+            const now = new Date().toISOString();
+            for (const { row } of groupRows) {
+              yield* updateRow(row.id, { status: "skipped", updatedAt: now });
+            }
+
+            // The job is complete once nothing is left to retry
+            const counts = yield* getJobCounts(jobId);
+            if (
+              counts.failedRowCount === 0 &&
+              counts.heldRowCount === 0 &&
+              parseFailedQueryOffsets(job).length === 0 &&
+              job.status === "partial"
+            ) {
+              yield* updateJobStatus(jobId, { status: "completed" });
+            }
+
+            return { skippedCount: groupRows.length };
+          }).pipe(
+            Effect.withSpan("migrationJob.skipFailureGroup", {
+              attributes: { jobId },
+            }),
+          ),
+
+        /**
+         * Re-fetch the source batches whose fetch failed during the run (failedQueryOffsets).
+         * Each batch is processed like a normal batch and its offset is cleared once it succeeds.
+         */
+        retryFailedBatches: (jobId: string) =>
+          Effect.gen(function* () {
+            const job = yield* getJobById(jobId);
+            if (activeRuns.has(jobId) || job.status === "running") {
+              return yield* Effect.fail(new JobAlreadyRunningError({ jobId }));
+            }
+            if (job.status === "rolled_back" || activeRollbacks.has(jobId)) {
+              return yield* Effect.fail(rolledBackRetryError(job));
+            }
+
+            const failedOffsets = parseFailedQueryOffsets(job);
+            if (failedOffsets.length === 0) {
+              return { retriedCount: 0, successCount: 0, failCount: 0, remainingOffsets: [] };
+            }
+
+            const mappings = JSON.parse(job.mappings) as PropertyMapping[];
+            const { queryConcurrency, insertConcurrency } = yield* getEnvironmentSettings(
+              job.destEnvironmentId,
+            );
+            const { queryBatchSize } = yield* getEnvironmentSettings(job.sourceEnvironmentId);
+
+            // Dry runs validate the re-fetched rows instead of writing them
+            const validateAgainst = job.dryRun ? yield* loadDestinationDefinition(job) : null;
+            if (job.dryRun && !validateAgainst) {
+              return yield* Effect.fail(
+                new MigrationError({
+                  message: `Destination ${job.destEntityType} was not found in the destination environment.`,
+                }),
+              );
+            }
+
+            const watermark = yield* startWatermark(job, job.watermarkValue);
+            const context: BatchContext = {
+              jobId,
+              sourceEnvId: job.sourceEnvironmentId,
+              mappings,
+              rowFilter: parseRowFilter(job),
+              watermark,
+              target: { ...writeTargetForJob(job, parseIdentityFieldNames(job)), validateAgainst },
+              parentLink: yield* loadParentLink(job),
+              lookupTables: yield* loadLookupTables(mappings),
+              crosswalkSource: job.dryRun ? null : yield* loadCrosswalkSource(job),
+              insertConcurrency,
+              recordedIndexes: yield* getRecordedRowIndexes(jobId),
+            };
+
+            // Offsets only line up with the original pages when fetched with the same page size
+            const batchSize = job.queryBatchSize ?? queryBatchSize;
+            const remainingRef = yield* Ref.make(failedOffsets);
+
+            yield* Effect.forEach(
+              failedOffsets,
+              (offset) =>
+                fetchSourceBatch(job, batchSize, offset).pipe(
+                  Effect.flatMap((batch) =>
+                    batch.Items.$values.length > 0
+                      ? processBatchRows(context, batch.Items.$values, offset)
+                      : Effect.void,
+                  ),
+                  Effect.zipRight(
+                    Ref.updateAndGet(remainingRef, (offsets) =>
+                      offsets.filter((o) => o !== offset),
+                    ),
+                  ),
+                  Effect.flatMap((remaining) =>
+                    updateJobStatus(jobId, {
+                      failedQueryOffsets: remaining.length > 0 ? JSON.stringify(remaining) : null,
+                    }),
+                  ),
+                  // Still failing - leave the offset recorded for a later retry
+                  Effect.catchAll(() => Effect.void),
+                ),
+              { concurrency: queryConcurrency },
+            );
+
+            const remainingOffsets = yield* Ref.get(remainingRef);
+            yield* updateJobStatus(jobId, {
+              failedQueryOffsets:
+                remainingOffsets.length > 0 ? JSON.stringify(remainingOffsets) : null,
+              ...(watermark && { watermarkValue: yield* Ref.get(watermark.highest) }),
+            });
+            yield* finishFileOutput(context.target.file);
+
+            // Check if job should be marked as completed
+            const counts = yield* getJobCounts(jobId);
+            const shouldMarkCompleted =
+              counts.failedRowCount === 0 &&
+              counts.heldRowCount === 0 &&
+              remainingOffsets.length === 0 &&
+              job.status === "partial";
+
+            if (shouldMarkCompleted) {
+              yield* updateJobStatus(jobId, { status: "completed" });
+            }
+
+            return {
+              retriedCount: failedOffsets.length,
+              successCount: failedOffsets.length - remainingOffsets.length,
+              failCount: remainingOffsets.length,
+              remainingOffsets,
+            };
+          }).pipe(
+            Effect.withSpan("migrationJob.retryFailedBatches", {
+              attributes: { jobId },
+            }),
+          ),
+
+        /**
+         * Retry a single failed or held row.
          * Returns the updated row with attempts info on failure, or null on success.
          */
-        retrySingleRow: (rowId: string) =>
+        retrySingleRow: (rowId: string, edits?: RowEdits) =>
           Effect.gen(function* () {
             // Get the row
             const row = yield* getRowById(rowId);
@@ -1100,7 +3371,7 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
               return yield* Effect.fail(new DatabaseError({ message: `Row not found: ${rowId}` }));
             }
 
-            if (row.status !== "failed") {
+            if (row.status !== "failed" && row.status !== "held") {
               return yield* Effect.fail(
                 new DatabaseError({ message: `Row is not in failed status: ${rowId}` }),
               );
@@ -1108,6 +3379,15 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
 
             // Get job for mappings and environment info
             const job = yield* getJobById(row.jobId);
+            if (job.dryRun) {
+              return yield* Effect.fail(dryRunRetryError(job));
+            }
+            if (activeRuns.has(job.id) || job.status === "running" || isRunByOtherProcess(job)) {
+              return yield* Effect.fail(new JobAlreadyRunningError({ jobId: job.id }));
+            }
+            if (job.status === "rolled_back" || activeRollbacks.has(job.id)) {
+              return yield* Effect.fail(rolledBackRetryError(job));
+            }
 
             // Get source password for decrypting
             const sourcePassword = yield* sessionService.getPassword(job.sourceEnvironmentId);
@@ -1125,53 +3405,95 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
               decryptJson<Record<string, unknown>>(row.encryptedPayload, sourcePassword),
             );
 
-            // Transform and insert
-            const transformed = transformRow(originalRow, mappings);
+            // New edits replace the stored ones (an empty set removes them); the source payload
+            // is kept as it was read
+            if (edits) {
+              const editCount = Object.keys(edits).length;
+              yield* updateRow(row.id, {
+                encryptedEdits:
+                  editCount > 0
+                    ? yield* Effect.promise(() => encryptJson(edits, sourcePassword))
+                    : null,
+              });
+            }
+            const rowEdits =
+              edits === undefined
+                ? yield* decryptRowEdits(row, sourcePassword)
+                : Object.keys(edits).length > 0
+                  ? edits
+                  : null;
+            const editedProperties = rowEdits ? JSON.stringify(Object.keys(rowEdits)) : null;
+
+            // Remap parent reference, transform, apply manual edits and write
+            const parentLink = yield* loadParentLink(job);
+            const lookupTables = yield* loadLookupTables(mappings);
+            const mapped = prepareRow(originalRow, mappings, parentLink, lookupTables, {
+              jobId: row.jobId,
+              rowIndex: row.rowIndex,
+            });
+            const prepared = mapped.held ? mapped : applyRowEdits(mapped, rowEdits);
             const now = new Date().toISOString();
 
-            const result = yield* executeRowInsert(
-              job.destEnvironmentId,
-              job.destEntityType,
-              job.destType,
-              transformed,
-              row.rowIndex,
-            ).pipe(
-              Effect.map((insertResult) => ({
-                success: true as const,
-                identityElements: insertResult.identityElements,
-              })),
-              Effect.catchAll((error) =>
-                Effect.succeed({
-                  success: false as const,
-                  error: error.message,
-                }),
-              ),
-            );
+            const target = writeTargetForJob(job, parseIdentityFieldNames(job));
+
+            const result = prepared.held
+              ? { success: false as const, held: true as const, error: prepared.reason }
+              : yield* (
+                  prepared.problems.length > 0
+                    ? Effect.fail(mappingProblemError(row.rowIndex, prepared.problems))
+                    : executeRowWrite(target, prepared.rowData, row.rowIndex, prepared.parent)
+                ).pipe(
+                  Effect.map((writeResult) => ({
+                    success: true as const,
+                    identityElements: writeResult.identityElements,
+                    outcome: writeResult.outcome,
+                    requests: writeResult.requests,
+                  })),
+                  Effect.catchAll((error) =>
+                    Effect.succeed({
+                      success: false as const,
+                      held: false as const,
+                      error: error.message,
+                      category: error.category ?? null,
+                      requests: error.requests ?? [],
+                    }),
+                  ),
+                );
 
             if (result.success) {
               // Update row to success status and add success attempt
               yield* updateRow(row.id, {
                 status: "success",
                 identityElements: JSON.stringify(result.identityElements),
+                heldReason: null,
+                errorCategory: null,
                 updatedAt: now,
               });
-              yield* insertAttempt({
-                id: crypto.randomUUID(),
-                rowId: row.id,
-                reason: "manual_retry",
-                success: true,
-                errorMessage: null,
-                identityElements: JSON.stringify(result.identityElements),
-                createdAt: now,
-              });
+              const attemptRecords = buildAttemptRecords(
+                row.id,
+                "manual_retry",
+                result.requests,
+                {
+                  success: true,
+                  identityElements: JSON.stringify(result.identityElements),
+                  outcome: result.outcome,
+                },
+                now,
+              );
+              for (const attempt of attemptRecords) {
+                yield* insertAttempt({ ...attempt, editedProperties });
+              }
+              yield* recordCrosswalk(row.jobId, yield* loadCrosswalkSource(job), target, [
+                { sourceRow: originalRow, identityElements: result.identityElements },
+              ]);
+              yield* finishFileOutput(target.file);
 
               // Check if job should be marked as completed
               const counts = yield* getJobCounts(row.jobId);
-              const failedOffsets = job.failedQueryOffsets
-                ? (JSON.parse(job.failedQueryOffsets) as number[])
-                : [];
+              const failedOffsets = parseFailedQueryOffsets(job);
               const shouldMarkCompleted =
                 counts.failedRowCount === 0 &&
+                counts.heldRowCount === 0 &&
                 failedOffsets.length === 0 &&
                 job.status === "partial";
 
@@ -1180,37 +3502,50 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
               }
 
               return { success: true, row: null };
+            } else if (result.held) {
+              // Parent still not migrated - keep the row held with the latest reason
+              yield* updateRow(row.id, {
+                status: "held",
+                heldReason: result.error,
+                updatedAt: now,
+              });
             } else {
-              // Add failed attempt (row status stays "failed")
-              yield* updateRow(row.id, { updatedAt: now });
-              yield* insertAttempt({
-                id: crypto.randomUUID(),
-                rowId: row.id,
-                reason: "manual_retry",
-                success: false,
-                errorMessage: result.error,
-                identityElements: null,
-                createdAt: now,
+              // Add failed attempt (held rows that were sent become "failed")
+              yield* updateRow(row.id, {
+                status: "failed",
+                heldReason: null,
+                errorCategory: result.category,
+                updatedAt: now,
               });
+              const attemptRecords = buildAttemptRecords(
+                row.id,
+                "manual_retry",
+                result.requests,
+                { success: false, errorMessage: result.error, errorCategory: result.category },
+                now,
+              );
+              for (const attempt of attemptRecords) {
+                yield* insertAttempt({ ...attempt, editedProperties });
+              }
+            }
 
-              // Get the row with attempts info
-              const rowWithInfo = yield* Effect.gen(function* () {
-                const updatedRow = yield* getRowById(rowId);
-                if (!updatedRow) return null;
+            // Get the row with attempts info
+            const rowWithInfo = yield* Effect.gen(function* () {
+              const updatedRow = yield* getRowById(rowId);
+              if (!updatedRow) return null;
 
-                const rowAttempts = yield* getAttemptsForRow(rowId);
-                const latestAttempt = rowAttempts[rowAttempts.length - 1];
+              const rowAttempts = yield* getAttemptsForRow(rowId);
+              const latestAttempt = rowAttempts[rowAttempts.length - 1];
 
-                return {
-                  ...updatedRow,
-                  attemptCount: rowAttempts.length,
-                  latestAttemptAt: latestAttempt?.createdAt ?? null,
-                  latestError: latestAttempt?.errorMessage ?? null,
-                };
-              });
+              return {
+                ...updatedRow,
+                attemptCount: rowAttempts.length,
+                latestAttemptAt: latestAttempt?.createdAt ?? null,
+                latestError: latestAttempt?.errorMessage ?? null,
+              };
+            });
 
-              return { success: false, row: rowWithInfo };
-            }
+            return { success: false, row: rowWithInfo };
           }).pipe(
             Effect.withSpan("migrationJob.retrySingleRow", {
               attributes: { rowId },
@@ -1232,6 +3567,20 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
             return { ...job, ...counts };
           }),
 
+        /**
+         * List the runs of a job (its first run and every delta run) with derived counts, oldest first.
+         */
+        listJobRuns: (jobId: string) =>
+          Effect.gen(function* () {
+            const job = yield* getJobById(jobId);
+            const runs = yield* getJobRuns(job);
+            return yield* Effect.all(
+              runs.map((run) =>
+                getJobCounts(run.id).pipe(Effect.map((counts) => ({ ...run, ...counts }))),
+              ),
+            );
+          }),
+
         /**
          * List all jobs (base fields only).
          */
@@ -1266,12 +3615,17 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
         /**
          * Get rows for a job with attempt summary info.
          */
-        getJobRows: (jobId: string, options?: { status?: RowStatus }) =>
+        getJobRows: (
+          jobId: string,
+          options?: { status?: RowStatus; errorCategory?: ErrorCategory },
+        ) =>
           Effect.gen(function* () {
             // Build query with optional filters
-            const statusFilter = options?.status
-              ? and(eq(rows.jobId, jobId), eq(rows.status, options.status))
-              : eq(rows.jobId, jobId);
+            const statusFilter = and(
+              eq(rows.jobId, jobId),
+              options?.status ? eq(rows.status, options.status) : undefined,
+              options?.errorCategory ? eq(rows.errorCategory, options.errorCategory) : undefined,
+            );
 
             // Get total count
             const totalResult = yield* Effect.try({
@@ -1326,12 +3680,253 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
           ),
 
         /**
-         * Cancel a running job.
+         * Decrypt a row and transform it with the job's mappings, for editing its values before a
+         * retry. Property types come from the destination definition when it can be loaded;
+         * mapped properties it does not list are edited as text.
+         */
+        getRowPayload: (rowId: string) =>
+          Effect.gen(function* () {
+            const row = yield* getRowById(rowId);
+            if (!row) {
+              return yield* Effect.fail(new DatabaseError({ message: `Row not found: ${rowId}` }));
+            }
+            const job = yield* getJobById(row.jobId);
+            const sourcePassword = yield* sessionService.getPassword(job.sourceEnvironmentId);
+            if (!sourcePassword) {
+              return yield* Effect.fail(
+                new MissingCredentialsError({ environmentId: job.sourceEnvironmentId }),
+              );
+            }
+
+            const mappings = JSON.parse(job.mappings) as PropertyMapping[];
+            const originalRow = yield* Effect.promise(() =>
+              decryptJson<Record<string, unknown>>(row.encryptedPayload, sourcePassword),
+            );
+            const prepared = prepareRow(
+              originalRow,
+              mappings,
+              yield* loadParentLink(job),
+              yield* loadLookupTables(mappings),
+              { jobId: row.jobId, rowIndex: row.rowIndex },
+            );
+            const edits = yield* decryptRowEdits(row, sourcePassword);
+
+            const definition = yield* loadDestinationDefinition(job).pipe(
+              Effect.orElseSucceed(() => null),
+            );
+            const properties = mappings.flatMap((mapping): DestinationProperty[] => {
+              const name = mapping.destinationProperty;
+              if (name === null) return [];
+              return [
+                definition?.properties.find((property) => property.name === name) ?? {
+                  name,
+                  propertyTypeName: "String",
+                },
+              ];
+            });
+
+            const payload: RowPayload = {
+              properties,
+              values: prepared.held ? {} : prepared.rowData,
+              edits: edits ?? {},
+              problems: prepared.held ? [] : prepared.problems,
+              heldReason: prepared.held ? prepared.reason : null,
+            };
+            return payload;
+          }).pipe(
+            Effect.withSpan("migrationJob.getRowPayload", {
+              attributes: { rowId },
+            }),
+          ),
+
+        /**
+         * Export a job's failed rows as CSV for correction outside the app: row number, latest
+         * error, every mapped source column and the transformed values with manual edits applied.
+         */
+        exportFailedRows: (jobId: string) =>
+          Effect.gen(function* () {
+            const job = yield* getJobById(jobId);
+            const mappings = JSON.parse(job.mappings) as PropertyMapping[];
+            const columns = failedRowsColumns(mappings);
+            const failures = yield* getFailuresForJob(jobId);
+            if (failures.length === 0) {
+              return failedRowsToCsv(columns, []);
+            }
+
+            const sourcePassword = yield* sessionService.getPassword(job.sourceEnvironmentId);
+            if (!sourcePassword) {
+              return yield* Effect.fail(
+                new MissingCredentialsError({ environmentId: job.sourceEnvironmentId }),
+              );
+            }
+            const parentLink = yield* loadParentLink(job);
+            const lookupTables = yield* loadLookupTables(mappings);
+
+            const failedRows = yield* Effect.forEach(failures, ({ row, category, errorMessage }) =>
+              Effect.gen(function* () {
+                const source = yield* Effect.promise(() =>
+                  decryptJson<Record<string, unknown>>(row.encryptedPayload, sourcePassword),
+                );
+                const prepared = prepareRow(source, mappings, parentLink, lookupTables, {
+                  jobId,
+                  rowIndex: row.rowIndex,
+                });
+                const edits = yield* decryptRowEdits(row, sourcePassword);
+                return {
+                  rowIndex: row.rowIndex,
+                  errorCategory: category,
+                  errorMessage,
+                  source,
+                  transformed: prepared.held ? {} : applyRowEdits(prepared, edits).rowData,
+                };
+              }),
+            );
+            return failedRowsToCsv(columns, failedRows);
+          }).pipe(
+            Effect.withSpan("migrationJob.exportFailedRows", {
+              attributes: { jobId },
+            }),
+          ),
+
+        /**
+         * Import an edited failed rows export. Rows are matched to the job's failed rows by row
+         * number: changed source columns update the stored (encrypted) source payload and changed
+         * transformed values are stored as manual edits. The rows stay failed, so the next
+         * retry of failed rows sends them with the corrections.
+         */
+        importFailedRowCorrections: (jobId: string, csv: string) =>
+          Effect.gen(function* () {
+            const job = yield* getJobById(jobId);
+            if (job.dryRun) {
+              return yield* Effect.fail(dryRunRetryError(job));
+            }
+            if (activeRuns.has(jobId) || job.status === "running") {
+              return yield* Effect.fail(new JobAlreadyRunningError({ jobId }));
+            }
+            if (job.status === "rolled_back" || activeRollbacks.has(jobId)) {
+              return yield* Effect.fail(rolledBackRetryError(job));
+            }
+            const parsed = parseRowCorrections(csv);
+            if (!parsed.ok) {
+              return yield* Effect.fail(new MigrationError({ message: parsed.message }));
+            }
+
+            const sourcePassword = yield* sessionService.getPassword(job.sourceEnvironmentId);
+            if (!sourcePassword) {
+              return yield* Effect.fail(
+                new MissingCredentialsError({ environmentId: job.sourceEnvironmentId }),
+              );
+            }
+            const mappings = JSON.parse(job.mappings) as PropertyMapping[];
+            const parentLink = yield* loadParentLink(job);
+            const lookupTables = yield* loadLookupTables(mappings);
+            const definition = yield* loadDestinationDefinition(job).pipe(
+              Effect.orElseSucceed(() => null),
+            );
+            const propertyTypes = new Map(
+              (definition?.properties ?? []).map((property) => [
+                property.name,
+                property.propertyTypeName,
+              ]),
+            );
+            const failedRows = new Map(
+              (yield* getFailuresForJob(jobId)).map(({ row }) => [row.rowIndex, row]),
+            );
+
+            const result: RowCorrectionsImport = {
+              updatedCount: 0,
+              unchangedCount: 0,
+              unmatchedRowNumbers: [],
+              problems: [],
+            };
+            const now = new Date().toISOString();
+            for (const correction of parsed.corrections) {
+              const rowNumber = correction.rowIndex + 1;
+              const row = failedRows.get(correction.rowIndex);
+              if (!row) {
+                result.unmatchedRowNumbers.push(rowNumber);
+                continue;
+              }
+              const context = { jobId, rowIndex: row.rowIndex };
+
+              // The transformed values as exported, to tell which ones were changed
+              const source = yield* Effect.promise(() =>
+                decryptJson<Record<string, unknown>>(row.encryptedPayload, sourcePassword),
+              );
+              const storedEdits = yield* decryptRowEdits(row, sourcePassword);
+              const exported = prepareRow(source, mappings, parentLink, lookupTables, context);
+              const exportedValues = exported.held
+                ? {}
+                : applyRowEdits(exported, storedEdits).rowData;
+
+              const corrected = correctTransformedValues(
+                exportedValues,
+                storedEdits ?? {},
+                correction.transformed,
+                propertyTypes,
+              );
+              if (!corrected.ok) {
+                result.problems.push({ rowNumber, message: corrected.message });
+                continue;
+              }
+
+              // Edits that match the values the corrected source produces are no longer needed
+              const correctedSource = correctSourceRow(source, correction.source);
+              const remapped = correctedSource
+                ? prepareRow(correctedSource, mappings, parentLink, lookupTables, context)
+                : exported;
+              const edits = diffRowEdits(remapped.held ? {} : remapped.rowData, corrected.edits);
+              const editsChanged = JSON.stringify(edits) !== JSON.stringify(storedEdits ?? {});
+              if (!correctedSource && !editsChanged) {
+                result.unchangedCount++;
+                continue;
+              }
+
+              yield* updateRow(row.id, {
+                ...(correctedSource && {
+                  encryptedPayload: yield* Effect.promise(() =>
+                    encryptJson(correctedSource, sourcePassword),
+                  ),
+                }),
+                ...(editsChanged && {
+                  encryptedEdits:
+                    Object.keys(edits).length > 0
+                      ? yield* Effect.promise(() => encryptJson(edits, sourcePassword))
+                      : null,
+                }),
+                updatedAt: now,
+              });
+              result.updatedCount++;
+            }
+            return result;
+          }).pipe(
+            Effect.withSpan("migrationJob.importFailedRowCorrections", {
+              attributes: { jobId },
+            }),
+          ),
+
+        /**
+         * Cancel a running or paused job. Rows already written are kept.
          */
         cancelJob: (jobId: string) =>
           Effect.gen(function* () {
             const job = yield* getJobById(jobId);
-            if (job.status === "running") {
+
+            // Interrupt the running fiber; it marks the job cancelled once in-flight batches drain
+            const run = activeRuns.get(jobId);
+            if (run) {
+              run.stop = "cancel";
+              if (run.fiber) {
+                yield* Fiber.interruptFork(run.fiber);
+              }
+              return;
+            }
+
+            if (
+              job.status === "running" ||
+              job.status === "paused" ||
+              job.status === "interrupted"
+            ) {
               yield* updateJobStatus(jobId, {
                 status: "cancelled",
                 completedAt: new Date().toISOString(),
@@ -1339,17 +3934,460 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
             }
           }),
 
+        /**
+         * Verify a finished job against its destination, replacing any earlier verification.
+         * Every successfully written row is read back by its stored identity and each mapped field is
+         * compared with the transformed source value (generated values are skipped as they change
+         * on every run). The source and destination record counts are recorded alongside.
+         */
+        verifyJob: (jobId: string) =>
+          Effect.gen(function* () {
+            const job = yield* getJobById(jobId);
+            const problem = verificationProblem(job);
+            if (problem) {
+              return yield* Effect.fail(new MigrationError({ message: problem }));
+            }
+            if (activeVerifications.has(jobId)) {
+              return yield* Effect.fail(
+                new MigrationError({ message: `"${job.name}" is already being verified.` }),
+              );
+            }
+
+            yield* deleteVerificationForJob(jobId);
+            const verificationId = crypto.randomUUID();
+            yield* Effect.try({
+              try: () =>
+                db
+                  .insert(verifications)
+                  .values({
+                    id: verificationId,
+                    jobId,
+                    status: "running",
+                    startedAt: new Date().toISOString(),
+                  })
+                  .run(),
+              catch: (cause) =>
+                new DatabaseError({ message: "Failed to create verification", cause }),
+            });
+
+            const check = Effect.gen(function* () {
+              const sourcePassword = yield* sessionService.getPassword(job.sourceEnvironmentId);
+              if (!sourcePassword) {
+                return yield* Effect.fail(
+                  new MissingCredentialsError({ environmentId: job.sourceEnvironmentId }),
+                );
+              }
+
+              const mappings = JSON.parse(job.mappings) as PropertyMapping[];
+              const generatedProperties = new Set(
+                mappings
+                  .filter((m) => m.value?.kind === "generated" && m.destinationProperty !== null)
+                  .map((m) => m.destinationProperty!),
+              );
+              const parentLink = yield* loadParentLink(job);
+              const lookupTables = yield* loadLookupTables(mappings);
+              const { insertConcurrency } = yield* getEnvironmentSettings(job.destEnvironmentId);
+
+              // Counts are informational; a count that cannot be fetched is left empty
+              const sourceCount = yield* fetchSourceBatch(job, 1, 0).pipe(
+                Effect.map((batch) => batch.TotalCount),
+                Effect.orElseSucceed(() => null),
+              );
+              const destinationCount = yield* imisApi
+                .fetchDataSource(job.destEnvironmentId, job.destEntityType, 1, 0)
+                .pipe(
+                  Effect.map((batch) => batch.TotalCount),
+                  Effect.orElseSucceed(() => null),
+                );
+              yield* updateVerification(verificationId, { sourceCount, destinationCount });
+
+              const migratedRows = yield* Effect.try({
+                try: () =>
+                  db
+                    .select()
+                    .from(rows)
+                    .where(and(eq(rows.jobId, jobId), eq(rows.status, "success")))
+                    .all(),
+                catch: (cause) => new DatabaseError({ message: "Failed to fetch rows", cause }),
+              });
+
+              let checkedRows = 0;
+              let matchedRows = 0;
+
+              yield* Effect.forEach(
+                migratedRows,
+                (row) =>
+                  Effect.gen(function* () {
+                    const issue = yield* Effect.gen(function* () {
+                      const original = yield* Effect.promise(() =>
+                        decryptJson<Record<string, unknown>>(row.encryptedPayload, sourcePassword),
+                      );
+                      const prepared = prepareRow(original, mappings, parentLink, lookupTables, {
+                        jobId,
+                        rowIndex: row.rowIndex,
+                      });
+                      if (prepared.held || prepared.problems.length > 0) {
+                        return {
+                          issue: "error" as const,
+                          errorMessage: prepared.held
+                            ? prepared.reason
+                            : prepared.problems.map((p) => p.message).join("; "),
+                        };
+                      }
+                      if (!row.identityElements) {
+                        return {
+                          issue: "error" as const,
+                          errorMessage: "No destination identity was recorded for this row",
+                        };
+                      }
+
+                      const existing = yield* imisApi
+                        .getEntity(
+                          job.destEnvironmentId,
+                          job.destEntityType,
+                          JSON.parse(row.identityElements) as string[],
+                        )
+                        .pipe(Effect.either);
+                      if (existing._tag === "Left") {
+                        return {
+                          issue: "error" as const,
+                          errorMessage: existing.left.message || existing.left._tag,
+                        };
+                      }
+                      if (existing.right === null) {
+                        return { issue: "missing" as const };
+                      }
+
+                      const expected = Object.fromEntries(
+                        Object.entries(prepared.rowData).filter(
+                          ([property]) => !generatedProperties.has(property),
+                        ),
+                      );
+                      const mismatches = findFieldMismatches(expected, existing.right);
+                      return mismatches.length > 0
+                        ? { issue: "mismatch" as const, mismatches }
+                        : null;
+                    });
+
+                    checkedRows++;
+                    if (!issue) {
+                      matchedRows++;
+                      return;
+                    }
+                    yield* insertVerificationResult({
+                      id: crypto.randomUUID(),
+                      verificationId,
+                      rowId: row.id,
+                      rowIndex: row.rowIndex,
+                      issue: issue.issue,
+                      mismatches: "mismatches" in issue ? JSON.stringify(issue.mismatches) : null,
+                      errorMessage: "errorMessage" in issue ? issue.errorMessage : null,
+                      createdAt: new Date().toISOString(),
+                    });
+                  }).pipe(
+                    Effect.zipRight(
+                      Effect.suspend(() =>
+                        updateVerification(verificationId, { checkedRows, matchedRows }),
+                      ),
+                    ),
+                  ),
+                { concurrency: insertConcurrency },
+              );
+
+              yield* updateVerification(verificationId, {
+                status: "completed",
+                checkedRows,
+                matchedRows,
+                completedAt: new Date().toISOString(),
+              });
+            });
+
+            activeVerifications.add(jobId);
+            yield* check.pipe(
+              Effect.catchAll((error) =>
+                updateVerification(verificationId, {
+                  status: "failed",
+                  errorMessage: error.message || error._tag,
+                  completedAt: new Date().toISOString(),
+                }),
+              ),
+              Effect.ensuring(Effect.sync(() => activeVerifications.delete(jobId))),
+            );
+
+            return { verificationId };
+          }).pipe(
+            Effect.withSpan("migrationJob.verifyJob", {
+              attributes: { jobId },
+            }),
+          ),
+
+        /**
+         * Get a job's latest verification with the rows that did not match (null if never verified).
+         */
+        getVerification: (jobId: string) =>
+          Effect.gen(function* () {
+            yield* getJobById(jobId);
+            const verification = yield* getVerificationForJob(jobId);
+            if (!verification) return null;
+
+            const results = yield* Effect.try({
+              try: () =>
+                db
+                  .select()
+                  .from(verificationResults)
+                  .where(eq(verificationResults.verificationId, verification.id))
+                  .orderBy(verificationResults.rowIndex)
+                  .all(),
+              catch: (cause) =>
+                new DatabaseError({ message: "Failed to fetch verification results", cause }),
+            });
+
+            // A verification still "running" that no process is running was cut off by an app exit
+            const interrupted =
+              verification.status === "running" && !activeVerifications.has(jobId);
+            return {
+              ...verification,
+              ...(interrupted && {
+                status: "failed" as const,
+                errorMessage: "The app closed before the verification finished.",
+              }),
+              results,
+            };
+          }),
+
+        /**
+         * Check that a job's created records can be rolled back, without starting the rollback.
+         */
+        checkRollback: (jobId: string) =>
+          Effect.gen(function* () {
+            yield* checkRollback(yield* getJobById(jobId));
+          }),
+
+        /**
+         * Delete the destination records a finished job created, ending with the "rolled_back" status.
+         * Only rows whose record the job created are deleted (records it updated existed before it
+         * ran). Each DELETE is recorded as a rollback attempt; running the rollback again retries
+         * only the records that have not been deleted yet. Refused while child jobs depend on it.
+         */
+        rollbackJob: (jobId: string) =>
+          Effect.gen(function* () {
+            const job = yield* getJobById(jobId);
+            yield* checkRollback(job);
+
+            const createdRows = yield* getCreatedRowsForJob(jobId);
+            const now = new Date().toISOString();
+
+            // A rollback that ran before keeps its attempts; rows it deleted are not sent again
+            const existing = yield* getRollbackForJob(jobId);
+            const deletedRowIds = existing
+              ? new Set(
+                  yield* Effect.try({
+                    try: () =>
+                      db
+                        .select({ rowId: rollbackAttempts.rowId })
+                        .from(rollbackAttempts)
+                        .where(
+                          and(
+                            eq(rollbackAttempts.rollbackId, existing.id),
+                            eq(rollbackAttempts.success, true),
+                          ),
+                        )
+                        .all()
+                        .map((attempt) => attempt.rowId),
+                    catch: (cause) =>
+                      new DatabaseError({ message: "Failed to fetch rollback attempts", cause }),
+                  }),
+                )
+              : new Set<string>();
+            const pendingRows = createdRows.filter((row) => !deletedRowIds.has(row.id));
+
+            let deletedRows = createdRows.length - pendingRows.length;
+            let failedRows = 0;
+            const rollbackId = existing?.id ?? crypto.randomUUID();
+            const progress = {
+              status: "running" as const,
+              totalRows: createdRows.length,
+              deletedRows,
+              failedRows,
+              errorMessage: null,
+              startedAt: now,
+              completedAt: null,
+            };
+            yield* existing
+              ? updateRollback(rollbackId, progress)
+              : Effect.try({
+                  try: () =>
+                    db
+                      .insert(rollbacks)
+                      .values({ id: rollbackId, jobId, ...progress })
+                      .run(),
+                  catch: (cause) =>
+                    new DatabaseError({ message: "Failed to create rollback", cause }),
+                });
+
+            const rollBack = Effect.gen(function* () {
+              const { insertConcurrency } = yield* getEnvironmentSettings(job.destEnvironmentId);
+
+              yield* Effect.forEach(
+                pendingRows,
+                (row) =>
+                  Effect.gen(function* () {
+                    const identityElements = row.identityElements
+                      ? (JSON.parse(row.identityElements) as string[])
+                      : [];
+                    const result =
+                      identityElements.length > 0
+                        ? yield* imisApi
+                            .deleteEntity(
+                              job.destEnvironmentId,
+                              job.destEntityType,
+                              identityElements,
+                            )
+                            .pipe(Effect.either)
+                        : null;
+
+                    const deleted = result?._tag === "Right";
+                    yield* insertRollbackAttempt({
+                      id: crypto.randomUUID(),
+                      rollbackId,
+                      rowId: row.id,
+                      rowIndex: row.rowIndex,
+                      success: deleted,
+                      notFound: result?._tag === "Right" && !result.right,
+                      errorMessage:
+                        result === null
+                          ? "No destination identity was recorded for this row"
+                          : result._tag === "Left"
+                            ? result.left.message || result.left._tag
+                            : null,
+                      createdAt: new Date().toISOString(),
+                    });
+
+                    if (!deleted) {
+                      failedRows++;
+                      return;
+                    }
+                    deletedRows++;
+                    yield* crosswalkService.removeDestination(
+                      job.destEnvironmentId,
+                      job.destEntityType,
+                      identityElements,
+                    );
+                  }).pipe(
+                    Effect.zipRight(
+                      Effect.suspend(() => updateRollback(rollbackId, { deletedRows, failedRows })),
+                    ),
+                  ),
+                { concurrency: insertConcurrency },
+              );
+
+              const completedAt = new Date().toISOString();
+              yield* updateRollback(rollbackId, {
+                status: "completed",
+                deletedRows,
+                failedRows,
+                completedAt,
+              });
+              // Records that failed to delete are still in the destination; the job stays as it was
+              if (failedRows === 0) {
+                yield* updateJobStatus(jobId, { status: "rolled_back" });
+                // The verification read back records that no longer exist
+                yield* deleteVerificationForJob(jobId);
+              }
+            });
+
+            activeRollbacks.add(jobId);
+            yield* rollBack.pipe(
+              Effect.catchAll((error) =>
+                updateRollback(rollbackId, {
+                  status: "failed",
+                  deletedRows,
+                  failedRows,
+                  errorMessage: error.message || error._tag,
+                  completedAt: new Date().toISOString(),
+                }),
+              ),
+              Effect.ensuring(Effect.sync(() => activeRollbacks.delete(jobId))),
+            );
+
+            return { rollbackId };
+          }).pipe(
+            Effect.withSpan("migrationJob.rollbackJob", {
+              attributes: { jobId },
+            }),
+          ),
+
+        /**
+         * Get a job's rollback with the rows whose latest DELETE failed (null if never rolled back).
+         */
+        getRollback: (jobId: string) =>
+          Effect.gen(function* () {
+            yield* getJobById(jobId);
+            const rollback = yield* getRollbackForJob(jobId);
+            if (!rollback) return null;
+
+            // Failures of the latest pass (earlier failures were retried by it)
+            const failures = yield* Effect.try({
+              try: () =>
+                db
+                  .select()
+                  .from(rollbackAttempts)
+                  .where(
+                    and(
+                      eq(rollbackAttempts.rollbackId, rollback.id),
+                      eq(rollbackAttempts.success, false),
+                      sql`${rollbackAttempts.createdAt} >= ${rollback.startedAt}`,
+                    ),
+                  )
+                  .orderBy(rollbackAttempts.rowIndex)
+                  .all(),
+              catch: (cause) =>
+                new DatabaseError({ message: "Failed to fetch rollback attempts", cause }),
+            });
+
+            // A rollback still "running" that no process is running was cut off by an app exit
+            const interrupted = rollback.status === "running" && !activeRollbacks.has(jobId);
+            return {
+              ...rollback,
+              ...(interrupted && {
+                status: "failed" as const,
+                errorMessage:
+                  "The app closed before the rollback finished. Roll back again to continue.",
+              }),
+              failures,
+            };
+          }),
+
         /**
          * Delete a job and all its associated rows and attempts.
+         * Jobs that are running, or that child jobs still read parent records from, are kept.
          */
         deleteJob: (jobId: string) =>
           Effect.gen(function* () {
-            // Verify job exists first
-            yield* getJobById(jobId);
+            const job = yield* getJobById(jobId);
+            if (activeRuns.has(jobId) || isRunByOtherProcess(job)) {
+              return yield* Effect.fail(new JobAlreadyRunningError({ jobId }));
+            }
+            const dependents = yield* getDependentJobs(jobId);
+            if (dependents.length > 0) {
+              return yield* Effect.fail(
+                new MigrationError({
+                  message: `Delete the jobs that depend on "${job.name}" first: ${dependents.map((dependent) => dependent.name).join(", ")}.`,
+                }),
+              );
+            }
 
             // Delete all rows and attempts for this job
             yield* deleteRowsForJob(jobId);
 
+            // Delete the uploaded file of a file job
+            yield* Effect.try({
+              try: () => db.delete(sourceFiles).where(eq(sourceFiles.jobId, jobId)).run(),
+              catch: (cause) =>
+                new DatabaseError({ message: "Failed to delete source file", cause }),
+            });
+            sourceFileCache.delete(jobId);
+
             // Delete the job
             yield* Effect.try({
               try: () => db.delete(jobs).where(eq(jobs.id, jobId)).run(),
@@ -1360,10 +4398,57 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
               attributes: { jobId },
             }),
           ),
+
+        /**
+         * Mark jobs left "running" by a previous process (app closed or crashed mid-run) as interrupted.
+         * Jobs running in this process or in another live process (such as the CLI) are left alone.
+         * Returns the interrupted jobs.
+         */
+        recoverInterruptedJobs: () =>
+          Effect.gen(function* () {
+            const running = yield* Effect.try({
+              try: () =>
+                db
+                  .select()
+                  .from(jobs)
+                  .where(
+                    and(eq(jobs.status, "running"), notInArray(jobs.id, [...activeRuns.keys()])),
+                  )
+                  .all(),
+              catch: (cause) =>
+                new DatabaseError({ message: "Failed to fetch running jobs", cause }),
+            });
+            const abandoned = running.filter((job) => !isRunByOtherProcess(job));
+            if (abandoned.length === 0) return [];
+
+            return yield* Effect.try({
+              try: () =>
+                db
+                  .update(jobs)
+                  .set({ status: "interrupted", runnerPid: null, runnerHeartbeatAt: null })
+                  .where(
+                    inArray(
+                      jobs.id,
+                      abandoned.map((job) => job.id),
+                    ),
+                  )
+                  .returning({ id: jobs.id, name: jobs.name })
+                  .all(),
+              catch: (cause) =>
+                new DatabaseError({ message: "Failed to recover interrupted jobs", cause }),
+            });
+          }).pipe(Effect.withSpan("migrationJob.recoverInterruptedJobs")),
       };
     }),
 
-    dependencies: [ImisApiService.Default, SessionService.Default, PersistenceService.Default],
+    dependencies: [
+      ImisApiService.Default,
+      SessionService.Default,
+      PersistenceService.Default,
+      CrosswalkService.Default,
+      LookupTableService.Default,
+      SnapshotService.Default,
+    ],
   },
 ) {
   // Static Test layer for testing
@@ -1371,21 +4456,50 @@ export class MigrationJobService extends Effect.Service<MigrationJobService>()(
     this,
     new MigrationJobService({
       createJob: () => Effect.succeed({ jobId: "00000000-0000-0000-0000-000000000000" }),
+      createJobFromRequest: () => Effect.succeed({ jobId: "00000000-0000-0000-0000-000000000000" }),
       runJob: () =>
         Effect.succeed({
           failedOffsets: [],
           totalRows: 0,
         }),
+      createDeltaRun: () => Effect.succeed({ jobId: "00000000-0000-0000-0000-000000000001" }),
       retryFailedRows: () => Effect.succeed({ retriedCount: 0, successCount: 0, failCount: 0 }),
       retrySingleRow: () => Effect.succeed({ success: true, row: null }),
+      getFailureGroups: () => Effect.succeed([]),
+      skipFailureGroup: () => Effect.succeed({ skippedCount: 0 }),
       getJob: (jobId) => Effect.fail(new JobNotFoundError({ jobId })),
       getJobWithCounts: (jobId) => Effect.fail(new JobNotFoundError({ jobId })),
       listJobs: () => Effect.succeed([]),
       listJobsWithCounts: () => Effect.succeed([]),
+      listJobRuns: (jobId) => Effect.fail(new JobNotFoundError({ jobId })),
       getJobRows: () => Effect.succeed({ rows: [], total: 0 }),
       getRowAttempts: () => Effect.succeed([]),
+      exportFailedRows: () => Effect.succeed(""),
+      importFailedRowCorrections: () =>
+        Effect.succeed({
+          updatedCount: 0,
+          unchangedCount: 0,
+          unmatchedRowNumbers: [],
+          problems: [],
+        }),
+      getRowPayload: (rowId) =>
+        Effect.fail(new DatabaseError({ message: `Row not found: ${rowId}` })),
+      resumeJob: () =>
+        Effect.succeed({
+          failedOffsets: [],
+          totalRows: 0,
+        }),
+      pauseJob: () => Effect.void,
+      retryFailedBatches: () =>
+        Effect.succeed({ retriedCount: 0, successCount: 0, failCount: 0, remainingOffsets: [] }),
       cancelJob: () => Effect.void,
-      deleteJob: () => Effect.void,
+      verifyJob: () => Effect.succeed({ verificationId: "00000000-0000-0000-0000-000000000000" }),
+      getVerification: () => Effect.succeed(null),
+      checkRollback: () => Effect.void,
+      rollbackJob: () => Effect.succeed({ rollbackId: "00000000-0000-0000-0000-000000000000" }),
+      getRollback: () => Effect.succeed(null),
+      deleteJob: () => Effect.succeed(undefined),
+      recoverInterruptedJobs: () => Effect.succeed([]),
     }),
   );
 }
@@ -0,0 +1,771 @@
+import { Effect, Layer, Data, Duration, Schedule } from "effect";
+import { and, asc, desc, eq, lt, sql } from "drizzle-orm";
+import { db } from "../db/client";
+import {
+  snapshotPages,
+  snapshots,
+  type NewSnapshot,
+  type Snapshot,
+  type SnapshotPage,
+} from "../db/schema";
+import { DatabaseError, PersistenceService } from "./persistence";
+import { SessionService } from "./session";
+import { ImisApiService, MissingCredentialsError, type ImisApiError } from "./imis-api";
+import { encryptJson, decryptJson } from "../lib/encryption";
+import { buildSourceKey } from "./crosswalk";
+import { queryParameterArgs, type QueryParameterValue } from "../lib/query-parameters";
+
+// ---------------------
+// Domain Errors
+// ---------------------
+
+export class SnapshotNotFoundError extends Data.TaggedError("SnapshotNotFoundError")<{
+  readonly id: string;
+}> {
+  override get message() {
+    return `Snapshot not found: ${this.id}`;
+  }
+}
+
+export class SnapshotError extends Data.TaggedError("SnapshotError")<{
+  readonly message: string;
+  readonly cause?: unknown;
+}> {}
+
+// ---------------------
+// Types
+// ---------------------
+
+export type SnapshotInput = {
+  name: string;
+  environmentId: string;
+  mode: "query" | "datasource";
+  sourceQueryPath: string | null;
+  queryParameters: readonly QueryParameterValue[];
+  sourceEntityType: string | null;
+};
+
+// A source row as captured
+type SnapshotRow = Record<string, unknown>;
+
+export type SnapshotDiffKind = "added" | "removed" | "modified";
+
+// A column whose value differs between the two captures of a row
+export type SnapshotColumnChange = {
+  column: string;
+  before: string | null;
+  after: string | null;
+};
+
+// A row that was added, removed or modified between two captures
+export type SnapshotDiffEntry = {
+  key: string;
+  kind: SnapshotDiffKind;
+  changes: SnapshotColumnChange[]; // Modified rows only
+};
+
+export type SnapshotRowsDiff = {
+  entries: SnapshotDiffEntry[]; // In the order of the later capture, then removed rows
+  changedRows: SnapshotRow[]; // Added and modified rows as the later capture has them
+  unchanged: number;
+  unkeyed: number; // Rows of either capture without a value for every key column (not compared)
+  duplicateKeys: string[]; // Keys held by more than one row of a capture (the last row is compared)
+};
+
+export type SnapshotDiffInput = {
+  baseSnapshotId: string; // Earlier capture
+  compareSnapshotId: string; // Later capture
+  keyProperty: string | null; // Null for the source's identity fields (data sources only)
+  kind: SnapshotDiffKind | null; // Null for every change
+  limit: number;
+  offset: number;
+};
+
+export type SnapshotFromDiffInput = {
+  name: string;
+  baseSnapshotId: string;
+  compareSnapshotId: string;
+  keyProperty: string | null;
+};
+
+// Rows per stored page of a snapshot of changed rows
+const DIFF_PAGE_SIZE = 500;
+
+// ---------------------
+// Module-level capture registry (a snapshot left "capturing" by an app exit is reported as failed)
+// ---------------------
+const activeCaptures = new Set<string>();
+
+// Retry transient source errors like a job's batch fetches (3 retries with exponential backoff)
+const pageRetrySchedule = Schedule.exponential(Duration.millis(1000), 2).pipe(
+  Schedule.intersect(Schedule.recurs(3)),
+);
+
+// ---------------------
+// Helper Functions (Exported for testing)
+// ---------------------
+
+/**
+ * Report a snapshot still "capturing" that no capture in this process is filling as failed
+ */
+export const withCaptureState = (snapshot: Snapshot): Snapshot =>
+  snapshot.status === "capturing" && !activeCaptures.has(snapshot.id)
+    ? {
+        ...snapshot,
+        status: "failed",
+        errorMessage: "The app closed before the snapshot was captured.",
+      }
+    : snapshot;
+
+/**
+ * Rows of the given pages (each with its source offset) within [offset, offset + limit)
+ */
+export const rowsInRange = (
+  pages: readonly { offset: number; rows: readonly SnapshotRow[] }[],
+  limit: number,
+  offset: number,
+): SnapshotRow[] =>
+  pages.flatMap((page) =>
+    page.rows.filter((_, i) => page.offset + i >= offset && page.offset + i < offset + limit),
+  );
+
+// Text a captured value is compared on (binary blobs compare on their base64 content)
+const comparableValue = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "object") {
+    const content = (value as { $value?: unknown }).$value;
+    return typeof content === "string" ? content : JSON.stringify(value);
+  }
+  return String(value);
+};
+
+/**
+ * Columns whose values differ between two captures of a row, in column order
+ * (the earlier capture's columns first, then columns only the later capture has).
+ */
+export const findColumnChanges = (
+  before: SnapshotRow,
+  after: SnapshotRow,
+): SnapshotColumnChange[] =>
+  [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .map((column) => ({
+      column,
+      before: comparableValue(before[column]),
+      after: comparableValue(after[column]),
+    }))
+    .filter((change) => change.before !== change.after);
+
+// Rows of a capture by key (the last row wins), with the rows that have no key
+const indexRows = (rows: readonly SnapshotRow[], keyProperties: readonly string[]) => {
+  const byKey = new Map<string, SnapshotRow>();
+  const duplicates = new Set<string>();
+  let unkeyed = 0;
+  for (const row of rows) {
+    const key = buildSourceKey(row, keyProperties);
+    if (key === null) {
+      unkeyed++;
+      continue;
+    }
+    if (byKey.has(key)) duplicates.add(key);
+    byKey.set(key, row);
+  }
+  return { byKey, duplicates, unkeyed };
+};
+
+/**
+ * Compare two captures of the same source, matching rows on the key columns (see buildSourceKey).
+ * Rows only the later capture has are added, rows only the earlier one has are removed, and rows
+ * with any column value that differs are modified.
+ */
+export const diffSnapshotRows = (
+  baseRows: readonly SnapshotRow[],
+  compareRows: readonly SnapshotRow[],
+  keyProperties: readonly string[],
+): SnapshotRowsDiff => {
+  const base = indexRows(baseRows, keyProperties);
+  const compare = indexRows(compareRows, keyProperties);
+  const entries: SnapshotDiffEntry[] = [];
+  const changedRows: SnapshotRow[] = [];
+  let unchanged = 0;
+
+  for (const [key, row] of compare.byKey) {
+    const previous = base.byKey.get(key);
+    if (!previous) {
+      entries.push({ key, kind: "added", changes: [] });
+      changedRows.push(row);
+      continue;
+    }
+    const changes = findColumnChanges(previous, row);
+    if (changes.length === 0) {
+      unchanged++;
+      continue;
+    }
+    entries.push({ key, kind: "modified", changes });
+    changedRows.push(row);
+  }
+  for (const key of base.byKey.keys()) {
+    if (!compare.byKey.has(key)) entries.push({ key, kind: "removed", changes: [] });
+  }
+
+  return {
+    entries,
+    changedRows,
+    unchanged,
+    unkeyed: base.unkeyed + compare.unkeyed,
+    duplicateKeys: [...new Set([...base.duplicates, ...compare.duplicates])],
+  };
+};
+
+// ---------------------
+// Service Definition
+// ---------------------
+
+export class SnapshotService extends Effect.Service<SnapshotService>()("app/SnapshotService", {
+  accessors: true,
+
+  effect: Effect.gen(function* () {
+    const imisApi = yield* ImisApiService;
+    const sessionService = yield* SessionService;
+    const persistence = yield* PersistenceService;
+
+    // ---------------------
+    // Private helpers
+    // ---------------------
+
+    const querySnapshotById = (id: string) =>
+      Effect.gen(function* () {
+        const results = yield* Effect.try({
+          try: () => db.select().from(snapshots).where(eq(snapshots.id, id)).all(),
+          catch: (cause) => new DatabaseError({ message: "Failed to fetch snapshot", cause }),
+        });
+        const snapshot = results[0];
+        if (!snapshot) {
+          return yield* Effect.fail(new SnapshotNotFoundError({ id }));
+        }
+        return snapshot;
+      });
+
+    const updateSnapshot = (id: string, values: Partial<NewSnapshot>) =>
+      Effect.try({
+        try: () => db.update(snapshots).set(values).where(eq(snapshots.id, id)).run(),
+        catch: (cause) => new DatabaseError({ message: "Failed to update snapshot", cause }),
+      });
+
+    const deletePages = (id: string) =>
+      Effect.try({
+        try: () => db.delete(snapshotPages).where(eq(snapshotPages.snapshotId, id)).run(),
+        catch: (cause) => new DatabaseError({ message: "Failed to delete snapshot pages", cause }),
+      });
+
+    // Pages are encrypted with the source environment's password, like the rows of a job
+    const getSourcePassword = (snapshot: Snapshot) =>
+      Effect.gen(function* () {
+        const password = yield* sessionService.getPassword(snapshot.environmentId);
+        if (!password) {
+          return yield* Effect.fail(
+            new MissingCredentialsError({ environmentId: snapshot.environmentId }),
+          );
+        }
+        return password;
+      });
+
+    const queryReadySnapshot = (id: string) =>
+      Effect.gen(function* () {
+        const snapshot = yield* querySnapshotById(id);
+        if (snapshot.status !== "ready") {
+          return yield* Effect.fail(
+            new SnapshotError({
+              message: `Snapshot "${snapshot.name}" is not ready (status: ${withCaptureState(snapshot).status}).`,
+            }),
+          );
+        }
+        return snapshot;
+      });
+
+    // Decrypt stored pages of a snapshot, each with its source offset
+    const decryptPages = (snapshot: Snapshot, pages: readonly SnapshotPage[]) =>
+      Effect.gen(function* () {
+        const password = yield* getSourcePassword(snapshot);
+        return yield* Effect.forEach(pages, (page) =>
+          Effect.tryPromise({
+            try: () => decryptJson<SnapshotRow[]>(page.encryptedRows, password),
+            catch: (cause) =>
+              new SnapshotError({
+                message: `Snapshot "${snapshot.name}" could not be decrypted with the source environment's password.`,
+                cause,
+              }),
+          }).pipe(Effect.map((pageRows) => ({ offset: page.offset, rows: pageRows }))),
+        );
+      });
+
+    // Every row of a snapshot, in source order
+    const readAllRows = (snapshot: Snapshot) =>
+      Effect.gen(function* () {
+        const pages = yield* Effect.try({
+          try: () =>
+            db
+              .select()
+              .from(snapshotPages)
+              .where(eq(snapshotPages.snapshotId, snapshot.id))
+              .orderBy(asc(snapshotPages.offset))
+              .all(),
+          catch: (cause) => new DatabaseError({ message: "Failed to fetch snapshot pages", cause }),
+        });
+        const decrypted = yield* decryptPages(snapshot, pages);
+        return decrypted.flatMap((page) => page.rows);
+      });
+
+    // Two ready captures of the same source, compared on the key column or the source's
+    // identity fields (data sources only; a query's rows have no identity)
+    const diffSnapshots = (
+      baseSnapshotId: string,
+      compareSnapshotId: string,
+      keyProperty: string | null,
+    ) =>
+      Effect.gen(function* () {
+        if (baseSnapshotId === compareSnapshotId) {
+          return yield* Effect.fail(
+            new SnapshotError({ message: "Choose two different snapshots to compare." }),
+          );
+        }
+        const base = yield* queryReadySnapshot(baseSnapshotId);
+        const compare = yield* queryReadySnapshot(compareSnapshotId);
+        if (
+          base.environmentId !== compare.environmentId ||
+          base.mode !== compare.mode ||
+          base.sourceQueryPath !== compare.sourceQueryPath ||
+          base.sourceEntityType !== compare.sourceEntityType
+        ) {
+          return yield* Effect.fail(
+            new SnapshotError({
+              message: `"${base.name}" and "${compare.name}" were captured from different sources.`,
+            }),
+          );
+        }
+
+        const keyProperties = keyProperty
+          ? [keyProperty]
+          : compare.mode === "datasource" && compare.sourceEntityType
+            ? yield* imisApi.getIdentityFieldNames(compare.environmentId, compare.sourceEntityType)
+            : [];
+        if (keyProperties.length === 0) {
+          return yield* Effect.fail(
+            new SnapshotError({
+              message: "Choose the key column that identifies the same row in both snapshots.",
+            }),
+          );
+        }
+
+        const baseRows = yield* readAllRows(base);
+        const compareRows = yield* readAllRows(compare);
+        return {
+          base,
+          compare,
+          keyProperties,
+          diff: diffSnapshotRows(baseRows, compareRows, keyProperties),
+        };
+      });
+
+    // Fetch one page of the captured source, retrying transient errors
+    const fetchSourcePage = (snapshot: Snapshot, limit: number, offset: number) =>
+      (snapshot.mode === "query" && snapshot.sourceQueryPath
+        ? imisApi.executeQuery(
+            snapshot.environmentId,
+            snapshot.sourceQueryPath,
+            limit,
+            offset,
+            snapshot.queryParameters
+              ? queryParameterArgs(JSON.parse(snapshot.queryParameters) as QueryParameterValue[])
+              : [],
+          )
+        : imisApi.fetchDataSource(
+            snapshot.environmentId,
+            snapshot.sourceEntityType ?? "",
+            limit,
+            offset,
+          )
+      ).pipe(
+        Effect.retry({
+          schedule: pageRetrySchedule,
+          while: (error: ImisApiError) =>
+            error._tag === "ImisRequestError" ||
+            (error._tag === "ImisResponseError" && error.status >= 500),
+        }),
+        Effect.withSpan("snapshots.fetchPage", { attributes: { snapshotId: snapshot.id, offset } }),
+      );
+
+    // Encrypt and store one fetched page, adding its rows to the snapshot's count
+    const storePage = (
+      snapshot: Snapshot,
+      password: string,
+      offset: number,
+      pageRows: readonly SnapshotRow[],
+    ) =>
+      Effect.gen(function* () {
+        if (pageRows.length === 0) return;
+        const encryptedRows = yield* Effect.promise(() => encryptJson(pageRows, password));
+        yield* Effect.try({
+          try: () =>
+            db
+              .insert(snapshotPages)
+              .values({
+                id: crypto.randomUUID(),
+                snapshotId: snapshot.id,
+                offset,
+                rowCount: pageRows.length,
+                encryptedRows,
+              })
+              .run(),
+          catch: (cause) => new DatabaseError({ message: "Failed to store snapshot page", cause }),
+        });
+        yield* Effect.try({
+          try: () =>
+            db
+              .update(snapshots)
+              .set({ rowCount: sql`${snapshots.rowCount} + ${pageRows.length}` })
+              .where(eq(snapshots.id, snapshot.id))
+              .run(),
+          catch: (cause) => new DatabaseError({ message: "Failed to update snapshot", cause }),
+        });
+      });
+
+    // ---------------------
+    // Service Implementation
+    // ---------------------
+
+    return {
+      /**
+       * List snapshots, newest first (without their rows)
+       */
+      list: () =>
+        Effect.try({
+          try: () =>
+            db
+              .select()
+              .from(snapshots)
+              .orderBy(desc(snapshots.createdAt))
+              .all()
+              .map(withCaptureState),
+          catch: (cause) => new DatabaseError({ message: "Failed to fetch snapshots", cause }),
+        }),
+
+      get: (id: string) => querySnapshotById(id).pipe(Effect.map(withCaptureState)),
+
+      /**
+       * Create a snapshot in the "capturing" status. Its rows are fetched by capture.
+       * The source environment's password must be set, as it encrypts the captured rows.
+       */
+      create: (input: SnapshotInput) =>
+        Effect.gen(function* () {
+          yield* persistence.getEnvironmentById(input.environmentId);
+          const password = yield* sessionService.getPassword(input.environmentId);
+          if (!password) {
+            return yield* Effect.fail(
+              new MissingCredentialsError({ environmentId: input.environmentId }),
+            );
+          }
+
+          const id = crypto.randomUUID();
+          yield* Effect.try({
+            try: () =>
+              db
+                .insert(snapshots)
+                .values({
+                  id,
+                  name: input.name.trim(),
+                  status: "capturing",
+                  environmentId: input.environmentId,
+                  mode: input.mode,
+                  sourceQueryPath: input.mode === "query" ? input.sourceQueryPath : null,
+                  queryParameters:
+                    input.mode === "query" && input.queryParameters.length > 0
+                      ? JSON.stringify(input.queryParameters)
+                      : null,
+                  sourceEntityType: input.mode === "datasource" ? input.sourceEntityType : null,
+                  createdAt: new Date().toISOString(),
+                })
+                .run(),
+            catch: (cause) => new DatabaseError({ message: "Failed to create snapshot", cause }),
+          });
+          return yield* querySnapshotById(id);
+        }).pipe(Effect.withSpan("snapshots.create")),
+
+      /**
+       * Fetch every page of a snapshot's source and store it encrypted, ending with the "ready"
+       * status. Pages are fetched with the source environment's batch size and query concurrency.
+       * A page that still fails after retrying fails the snapshot and its stored pages are removed,
+       * as jobs must read the whole source.
+       */
+      capture: (id: string) =>
+        Effect.gen(function* () {
+          const snapshot = yield* querySnapshotById(id);
+          if (activeCaptures.has(id)) {
+            return yield* Effect.fail(
+              new SnapshotError({ message: `"${snapshot.name}" is already being captured.` }),
+            );
+          }
+
+          const fetchAll = Effect.gen(function* () {
+            const password = yield* getSourcePassword(snapshot);
+            const env = yield* persistence.getEnvironmentById(snapshot.environmentId);
+
+            const firstPage = yield* fetchSourcePage(snapshot, env.queryBatchSize, 0);
+            const totalRows = firstPage.TotalCount;
+            yield* updateSnapshot(id, { totalRows });
+            yield* storePage(snapshot, password, 0, firstPage.Items.$values);
+
+            const remainingOffsets = Array.from(
+              { length: Math.max(Math.ceil(totalRows / env.queryBatchSize) - 1, 0) },
+              (_, i) => (i + 1) * env.queryBatchSize,
+            );
+            yield* Effect.forEach(
+              remainingOffsets,
+              (offset) =>
+                fetchSourcePage(snapshot, env.queryBatchSize, offset).pipe(
+                  Effect.flatMap((page) =>
+                    storePage(snapshot, password, offset, page.Items.$values),
+                  ),
+                ),
+              { concurrency: env.queryConcurrency },
+            );
+
+            yield* updateSnapshot(id, { status: "ready", capturedAt: new Date().toISOString() });
+          });
+
+          activeCaptures.add(id);
+          yield* fetchAll.pipe(
+            Effect.catchAll((error) =>
+              deletePages(id).pipe(
+                Effect.zipRight(
+                  updateSnapshot(id, {
+                    status: "failed",
+                    rowCount: 0,
+                    errorMessage: error.message || error._tag,
+                  }),
+                ),
+              ),
+            ),
+            Effect.ensuring(Effect.sync(() => activeCaptures.delete(id))),
+          );
+        }).pipe(Effect.withSpan("snapshots.capture", { attributes: { id } })),
+
+      /**
+       * One page of a ready snapshot's rows, shaped like a query response so jobs can read it
+       * in place of the source environment. TotalCount is the source's row count when captured.
+       */
+      readPage: (id: string, limit: number, offset: number) =>
+        Effect.gen(function* () {
+          const snapshot = yield* queryReadySnapshot(id);
+
+          // Pages that hold any row of [offset, offset + limit)
+          const pages = yield* Effect.try({
+            try: () =>
+              db
+                .select()
+                .from(snapshotPages)
+                .where(
+                  and(
+                    eq(snapshotPages.snapshotId, id),
+                    lt(snapshotPages.offset, offset + limit),
+                    sql`${snapshotPages.offset} + ${snapshotPages.rowCount} > ${offset}`,
+                  ),
+                )
+                .orderBy(asc(snapshotPages.offset))
+                .all(),
+            catch: (cause) =>
+              new DatabaseError({ message: "Failed to fetch snapshot pages", cause }),
+          });
+          const decrypted = yield* decryptPages(snapshot, pages);
+
+          const items = rowsInRange(decrypted, limit, offset);
+          const totalCount = snapshot.totalRows ?? snapshot.rowCount;
+          const nextOffset = offset + items.length;
+          return {
+            $type: "Snapshot",
+            Items: { $type: "SnapshotRows", $values: items },
+            Offset: offset,
+            Limit: limit,
+            Count: items.length,
+            TotalCount: totalCount,
+            NextPageLink: null,
+            HasNext: nextOffset < totalCount,
+            NextOffset: nextOffset,
+          };
+        }),
+
+      /**
+       * Compare two ready captures of the same source row by row (see diffSnapshotRows).
+       * Returns the counts of each kind of change with a page of the changes of the given kind.
+       */
+      diff: (input: SnapshotDiffInput) =>
+        Effect.gen(function* () {
+          const { base, compare, keyProperties, diff } = yield* diffSnapshots(
+            input.baseSnapshotId,
+            input.compareSnapshotId,
+            input.keyProperty,
+          );
+          const countOf = (kind: SnapshotDiffKind) =>
+            diff.entries.filter((entry) => entry.kind === kind).length;
+          const entries = input.kind
+            ? diff.entries.filter((entry) => entry.kind === input.kind)
+            : diff.entries;
+          return {
+            baseSnapshotId: base.id,
+            compareSnapshotId: compare.id,
+            keyProperties,
+            added: countOf("added"),
+            removed: countOf("removed"),
+            modified: countOf("modified"),
+            unchanged: diff.unchanged,
+            unkeyed: diff.unkeyed,
+            duplicateKeys: diff.duplicateKeys,
+            total: entries.length,
+            entries: entries.slice(input.offset, input.offset + input.limit),
+          };
+        }).pipe(
+          Effect.withSpan("snapshots.diff", {
+            attributes: { base: input.baseSnapshotId, compare: input.compareSnapshotId },
+          }),
+        ),
+
+      /**
+       * Store the rows added or modified between two captures as a new ready snapshot of the
+       * same source, so a job can migrate only the changed rows. Removed rows are left out,
+       * as jobs cannot delete destination records.
+       */
+      createFromDiff: (input: SnapshotFromDiffInput) =>
+        Effect.gen(function* () {
+          const { base, compare, diff } = yield* diffSnapshots(
+            input.baseSnapshotId,
+            input.compareSnapshotId,
+            input.keyProperty,
+          );
+          if (diff.changedRows.length === 0) {
+            return yield* Effect.fail(
+              new SnapshotError({
+                message: `No rows were added or modified between "${base.name}" and "${compare.name}".`,
+              }),
+            );
+          }
+          const password = yield* getSourcePassword(compare);
+
+          const id = crypto.randomUUID();
+          yield* Effect.try({
+            try: () =>
+              db
+                .insert(snapshots)
+                .values({
+                  id,
+                  name: input.name.trim(),
+                  status: "capturing",
+                  environmentId: compare.environmentId,
+                  mode: compare.mode,
+                  sourceQueryPath: compare.sourceQueryPath,
+                  queryParameters: compare.queryParameters,
+                  sourceEntityType: compare.sourceEntityType,
+                  diffBaseSnapshotId: base.id,
+                  diffCompareSnapshotId: compare.id,
+                  totalRows: diff.changedRows.length,
+                  createdAt: new Date().toISOString(),
+                })
+                .run(),
+            catch: (cause) => new DatabaseError({ message: "Failed to create snapshot", cause }),
+          });
+
+          const snapshot = yield* querySnapshotById(id);
+          const offsets = Array.from(
+            { length: Math.ceil(diff.changedRows.length / DIFF_PAGE_SIZE) },
+            (_, i) => i * DIFF_PAGE_SIZE,
+          );
+          activeCaptures.add(id);
+          yield* Effect.forEach(offsets, (offset) =>
+            storePage(
+              snapshot,
+              password,
+              offset,
+              diff.changedRows.slice(offset, offset + DIFF_PAGE_SIZE),
+            ),
+          ).pipe(
+            Effect.zipRight(
+              updateSnapshot(id, { status: "ready", capturedAt: compare.capturedAt }),
+            ),
+            Effect.tapError(() =>
+              deletePages(id).pipe(
+                Effect.zipRight(
+                  Effect.try({
+                    try: () => db.delete(snapshots).where(eq(snapshots.id, id)).run(),
+                    catch: (cause) =>
+                      new DatabaseError({ message: "Failed to delete snapshot", cause }),
+                  }),
+                ),
+                Effect.ignore,
+              ),
+            ),
+            Effect.ensuring(Effect.sync(() => activeCaptures.delete(id))),
+          );
+          return yield* querySnapshotById(id);
+        }).pipe(Effect.withSpan("snapshots.createFromDiff")),
+
+      /**
+       * Delete a snapshot and its rows. Jobs that read it can no longer run or re-fetch batches.
+       */
+      delete: (id: string) =>
+        Effect.gen(function* () {
+          const snapshot = yield* querySnapshotById(id);
+          if (activeCaptures.has(id)) {
+            return yield* Effect.fail(
+              new SnapshotError({
+                message: `"${snapshot.name}" is still being captured. Delete it once it finishes.`,
+              }),
+            );
+          }
+          yield* deletePages(id);
+          yield* Effect.try({
+            try: () => db.delete(snapshots).where(eq(snapshots.id, id)).run(),
+            catch: (cause) => new DatabaseError({ message: "Failed to delete snapshot", cause }),
+          });
+        }).pipe(Effect.withSpan("snapshots.delete", { attributes: { id } })),
+    };
+  }),
+
+  dependencies: [ImisApiService.Default, SessionService.Default, PersistenceService.Default],
+}) {
+  // Static Test layer for testing
+  static Test = Layer.succeed(
+    this,
+    new SnapshotService({
+      list: () => Effect.succeed([]),
+      get: (id) => Effect.fail(new SnapshotNotFoundError({ id })),
+      create: (input) =>
+        Effect.succeed({
+          id: crypto.randomUUID(),
+          name: input.name,
+          status: "capturing" as const,
+          environmentId: input.environmentId,
+          mode: input.mode,
+          sourceQueryPath: input.sourceQueryPath,
+          queryParameters: null,
+          sourceEntityType: input.sourceEntityType,
+          diffBaseSnapshotId: null,
+          diffCompareSnapshotId: null,
+          totalRows: null,
+          rowCount: 0,
+          errorMessage: null,
+          createdAt: new Date().toISOString(),
+          capturedAt: null,
+        }),
+      capture: () => Effect.succeed(undefined),
+      readPage: (id) => Effect.fail(new SnapshotNotFoundError({ id })),
+      diff: (input) => Effect.fail(new SnapshotNotFoundError({ id: input.baseSnapshotId })),
+      createFromDiff: (input) =>
+        Effect.fail(new SnapshotNotFoundError({ id: input.baseSnapshotId })),
+      delete: (id) => Effect.fail(new SnapshotNotFoundError({ id })),
+    }),
+  );
+}
+
+// ---------------------
+// Convenience Alias
+// ---------------------
+
+export const SnapshotServiceLive = SnapshotService.Default;
@@ -0,0 +1,104 @@
+/**
+ * Tests for the attempt records written for a row.
+ * Tests runtime behaviors that types cannot verify:
+ * - One attempt per HTTP request, with retries after the first
+ * - The write's result lands on the last attempt
+ * - Failed requests before the last are classified
+ * - Writes that sent nothing still record one attempt
+ */
+
+import { describe, it, expect } from "bun:test"
+import { buildAttemptRecords } from "../src/services/migration-job"
+import type { RequestAttempt } from "../src/services/imis-api"
+
+const now = "2026-01-01T00:00:10.000Z"
+
+const request = (overrides: Partial<RequestAttempt>): RequestAttempt => ({
+  startedAt: "2026-01-01T00:00:00.000Z",
+  durationMs: 120,
+  status: 201,
+  responseExcerpt: "{}",
+  error: null,
+  ...overrides,
+})
+
+describe("buildAttemptRecords", () => {
+  it("should record one attempt per request with its status, excerpt and timing", () => {
+    const records = buildAttemptRecords(
+      "row-1",
+      "initial",
+      [
+        request({
+          startedAt: "2026-01-01T00:00:00.000Z",
+          status: 503,
+          responseExcerpt: "Service Unavailable",
+          error: "IMIS request failed with status 503",
+        }),
+        request({ startedAt: "2026-01-01T00:00:01.000Z", durationMs: 80 }),
+      ],
+      { success: true, identityElements: '["1"]', outcome: "created" },
+      now,
+    )
+
+    expect(records).toHaveLength(2)
+    expect(records[0]).toMatchObject({
+      reason: "initial",
+      success: false,
+      httpStatus: 503,
+      responseExcerpt: "Service Unavailable",
+      errorMessage: "IMIS request failed with status 503",
+      createdAt: "2026-01-01T00:00:00.000Z",
+    })
+    expect(records[1]).toMatchObject({
+      reason: "auto_retry",
+      success: true,
+      httpStatus: 201,
+      durationMs: 80,
+      identityElements: '["1"]',
+      outcome: "created",
+      createdAt: "2026-01-01T00:00:01.000Z",
+    })
+  })
+
+  it("should put the final error and category on the last attempt of a failed write", () => {
+    const records = buildAttemptRecords(
+      "row-1",
+      "manual_retry",
+      [
+        request({ status: 500, error: "IMIS request failed with status 500" }),
+        request({ status: null, responseExcerpt: null, error: "Failed to connect to IMIS: x" }),
+      ],
+      { success: false, errorMessage: "Insert failed: timeout", errorCategory: "invalid_value" },
+      now,
+    )
+
+    expect(records.map((record) => record.reason)).toEqual(["manual_retry", "auto_retry"])
+    expect(records[0]?.errorMessage).toBe("IMIS request failed with status 500")
+    expect(records[0]?.errorCategory).toBe("server_error")
+    expect(records[1]).toMatchObject({
+      success: false,
+      httpStatus: null,
+      errorMessage: "Insert failed: timeout",
+      errorCategory: "invalid_value",
+    })
+  })
+
+  it("should record a single attempt when the write sent no request", () => {
+    const records = buildAttemptRecords(
+      "row-1",
+      "initial",
+      [],
+      { success: false, errorMessage: "Unmapped value", errorCategory: "unmapped_value" },
+      now,
+    )
+
+    expect(records).toHaveLength(1)
+    expect(records[0]).toMatchObject({
+      reason: "initial",
+      success: false,
+      errorMessage: "Unmapped value",
+      createdAt: now,
+    })
+    expect(records[0]?.httpStatus).toBeUndefined()
+  })
+})
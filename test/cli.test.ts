@@ -0,0 +1,108 @@
+/**
+ * Tests for the headless CLI helpers.
+ * Tests runtime behaviors that types cannot verify:
+ * - Arguments are parsed into commands, and unknown or incomplete commands are reported
+ * - Environment names map to password environment variables
+ * - File jobs unlock the destination environment before they are created
+ * - The final job status maps to the process exit code
+ * - Progress lines show the counts of a running job
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  creationEnvironmentId,
+  exitCodeForStatus,
+  formatJobProgress,
+  formatTable,
+  parseCliArgs,
+  passwordEnvVar,
+} from "../src/lib/cli"
+import type { JobWithCounts } from "../src/api/schemas"
+
+describe("parseCliArgs", () => {
+  it("should parse each command with its argument and options", () => {
+    expect(parseCliArgs(["jobs", "list", "--json"])).toEqual({
+      ok: true,
+      command: { command: "jobs.list", json: true },
+    })
+    expect(parseCliArgs(["jobs", "create", "spec.json", "--run"])).toEqual({
+      ok: true,
+      command: { command: "jobs.create", specPath: "spec.json", run: true },
+    })
+    expect(parseCliArgs(["jobs", "export", "job-1", "--crosswalk", "--out", "ids.csv"])).toEqual({
+      ok: true,
+      command: { command: "jobs.export", jobId: "job-1", crosswalk: true, out: "ids.csv" },
+    })
+    expect(parseCliArgs([])).toEqual({ ok: true, command: { command: "help" } })
+  })
+
+  it("should report unknown commands, missing arguments and unknown options", () => {
+    expect(parseCliArgs(["jobs", "start", "job-1"])).toEqual({
+      ok: false,
+      message: "Unknown command: jobs start",
+    })
+    expect(parseCliArgs(["jobs", "run"])).toEqual({
+      ok: false,
+      message: 'Missing <jobId> for "jobs run"',
+    })
+    expect(parseCliArgs(["jobs", "list", "--verbose"]).ok).toBe(false)
+  })
+})
+
+describe("passwordEnvVar", () => {
+  it("should name the variable after the environment in upper case", () => {
+    expect(passwordEnvVar("Production")).toBe("IMIGRATE_PASSWORD_PRODUCTION")
+    expect(passwordEnvVar("Prod (US) 2")).toBe("IMIGRATE_PASSWORD_PROD_US_2")
+    expect(passwordEnvVar("***")).toBe("IMIGRATE_PASSWORD")
+  })
+})
+
+describe("creationEnvironmentId", () => {
+  const request = { sourceEnvironmentId: "env-source", destEnvironmentId: "env-dest" }
+
+  it("should unlock the destination environment that encrypts a file job's rows", () => {
+    expect(creationEnvironmentId({ ...request, mode: "file" })).toBe("env-dest")
+  })
+
+  it("should unlock nothing for jobs that read an environment", () => {
+    expect(creationEnvironmentId({ ...request, mode: "query" })).toBeNull()
+    expect(creationEnvironmentId({ ...request, mode: "datasource" })).toBeNull()
+  })
+})
+
+describe("exitCodeForStatus", () => {
+  it("should succeed only for completed jobs and finished dry runs", () => {
+    expect(exitCodeForStatus("completed")).toBe(0)
+    expect(exitCodeForStatus("validated")).toBe(0)
+    expect(exitCodeForStatus("partial")).toBe(2)
+    expect(exitCodeForStatus("failed")).toBe(1)
+    expect(exitCodeForStatus("paused")).toBe(1)
+  })
+})
+
+describe("formatJobProgress", () => {
+  const job = {
+    status: "running",
+    totalRows: 5000,
+    processedRows: 1200,
+    successfulRows: 1180,
+    failedRowCount: 20,
+    heldRowCount: 0,
+    skippedRowCount: 3,
+  } as JobWithCounts
+
+  it("should show the processed share of the rows with the non-zero counts", () => {
+    expect(formatJobProgress(job)).toBe(
+      "[running] 1200/5000 rows (24%), 1180 succeeded, 20 failed, 3 skipped"
+    )
+    expect(formatJobProgress({ ...job, totalRows: null })).toStartWith("[running] 1200 rows,")
+  })
+})
+
+describe("formatTable", () => {
+  it("should pad each column to its widest cell", () => {
+    expect(formatTable([["ID", "NAME"], ["1", "Members"], ["22", "Events"]])).toBe(
+      "ID  NAME\n1   Members\n22  Events"
+    )
+  })
+})
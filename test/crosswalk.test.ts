@@ -0,0 +1,96 @@
+/**
+ * Tests for the source → destination ID crosswalk.
+ * Tests runtime behaviors that types cannot verify:
+ * - Source key construction for single and composite key columns
+ * - CSV export formatting and escaping
+ */
+
+import { describe, it, expect } from "bun:test"
+import { buildSourceKey, crosswalkToCsv } from "../src/services/crosswalk"
+import { escapeCsvField, toCsv } from "../src/lib/csv"
+import type { CrosswalkEntry } from "../src/db/schema"
+
+describe("buildSourceKey", () => {
+  it("should use a single key column as the key", () => {
+    expect(buildSourceKey({ ID: 12345, FirstName: "Jane" }, ["ID"])).toBe("12345")
+  })
+
+  it("should join composite keys with a pipe in column order", () => {
+    expect(buildSourceKey({ Ordinal: 2, ID: "12345" }, ["ID", "Ordinal"])).toBe("12345|2")
+  })
+
+  it("should trim key values", () => {
+    expect(buildSourceKey({ ID: " 12345 " }, ["ID"])).toBe("12345")
+  })
+
+  it("should return null when a key column is missing or empty", () => {
+    expect(buildSourceKey({ FirstName: "Jane" }, ["ID"])).toBeNull()
+    expect(buildSourceKey({ ID: "" }, ["ID"])).toBeNull()
+    expect(buildSourceKey({ ID: null }, ["ID"])).toBeNull()
+  })
+
+  it("should return null for non-scalar key values", () => {
+    expect(buildSourceKey({ ID: { $value: "1" } }, ["ID"])).toBeNull()
+  })
+
+  it("should return null when there are no key columns", () => {
+    expect(buildSourceKey({ ID: "1" }, [])).toBeNull()
+  })
+})
+
+describe("escapeCsvField", () => {
+  it("should leave plain values unquoted", () => {
+    expect(escapeCsvField("abc")).toBe("abc")
+    expect(escapeCsvField(42)).toBe("42")
+  })
+
+  it("should render null and undefined as empty fields", () => {
+    expect(escapeCsvField(null)).toBe("")
+    expect(escapeCsvField(undefined)).toBe("")
+  })
+
+  it("should quote fields with commas, quotes or line breaks", () => {
+    expect(escapeCsvField("a,b")).toBe('"a,b"')
+    expect(escapeCsvField('say "hi"')).toBe('"say ""hi"""')
+    expect(escapeCsvField("line\nbreak")).toBe('"line\nbreak"')
+  })
+
+  it("should serialize objects as JSON", () => {
+    expect(escapeCsvField({ a: 1 })).toBe('"{""a"":1}"')
+  })
+})
+
+describe("toCsv", () => {
+  it("should join rows with CRLF line endings", () => {
+    expect(toCsv(["a", "b"], [[1, 2]])).toBe("a,b\r\n1,2\r\n")
+  })
+})
+
+describe("crosswalkToCsv", () => {
+  it("should write one line per entry with the destination identity joined", () => {
+    const entry: CrosswalkEntry = {
+      id: "cw-1",
+      sourceEnvironmentId: "src",
+      sourceEntity: "Party",
+      sourceKey: "100",
+      destEnvironmentId: "dest",
+      destEntityType: "Party",
+      destIdentity: JSON.stringify(["5001", "1"]),
+      jobId: "job-1",
+      createdAt: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-02T00:00:00.000Z",
+    }
+
+    const lines = crosswalkToCsv([entry]).trimEnd().split("\r\n")
+
+    expect(lines).toHaveLength(2)
+    expect(lines[0]).toBe(
+      "source_environment_id,source_entity,source_key,dest_environment_id,dest_entity_type,dest_identity,job_id,updated_at",
+    )
+    expect(lines[1]).toBe("src,Party,100,dest,Party,5001|1,job-1,2024-01-02T00:00:00.000Z")
+  })
+
+  it("should write only the header for no entries", () => {
+    expect(crosswalkToCsv([]).trimEnd().split("\r\n")).toHaveLength(1)
+  })
+})
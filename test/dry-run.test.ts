@@ -0,0 +1,147 @@
+/**
+ * Tests for dry-run row validation.
+ * Tests runtime behaviors that types cannot verify:
+ * - Type coercibility of source values for each destination property type
+ * - Required, max length, unknown property and IsPrimary checks per row
+ * - Which job statuses can be (re-)run
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  isCoercibleTo,
+  isRunnableStatus,
+  validateRowForDestination,
+} from "../src/services/migration-job"
+import type { DestinationDefinition } from "../src/api/destinations"
+
+const destination: DestinationDefinition = {
+  destinationType: "bo_entity",
+  entityTypeName: "CsContact",
+  properties: [
+    { name: "ID", propertyTypeName: "String", isIdentity: true, required: true },
+    { name: "LastName", propertyTypeName: "String", maxLength: 5, required: true },
+    { name: "Age", propertyTypeName: "Integer" },
+    { name: "JoinDate", propertyTypeName: "Date" },
+  ],
+}
+
+const mappings = [
+  { sourceProperty: "Surname", destinationProperty: "LastName" },
+  { sourceProperty: "Age", destinationProperty: "Age" },
+]
+
+describe("isCoercibleTo", () => {
+  it("should accept null for every type", () => {
+    expect(isCoercibleTo(null, "Integer")).toBe(true)
+    expect(isCoercibleTo(null, "Binary")).toBe(true)
+  })
+
+  it("should accept whole numbers and integer strings as Integer", () => {
+    expect(isCoercibleTo(42, "Integer")).toBe(true)
+    expect(isCoercibleTo(" -7 ", "Integer")).toBe(true)
+    expect(isCoercibleTo(4.2, "Integer")).toBe(false)
+    expect(isCoercibleTo("4x", "Integer")).toBe(false)
+  })
+
+  it("should accept numeric strings as Decimal and Monetary", () => {
+    expect(isCoercibleTo("12.50", "Monetary")).toBe(true)
+    expect(isCoercibleTo(0.1, "Decimal")).toBe(true)
+    expect(isCoercibleTo("", "Decimal")).toBe(false)
+    expect(isCoercibleTo("abc", "Decimal")).toBe(false)
+  })
+
+  it("should accept booleans and their common string forms as Boolean", () => {
+    expect(isCoercibleTo(true, "Boolean")).toBe(true)
+    expect(isCoercibleTo("False", "Boolean")).toBe(true)
+    expect(isCoercibleTo(1, "Boolean")).toBe(true)
+    expect(isCoercibleTo("yes", "Boolean")).toBe(false)
+  })
+
+  it("should accept parseable date strings as Date", () => {
+    expect(isCoercibleTo("2024-01-31T00:00:00", "Date")).toBe(true)
+    expect(isCoercibleTo("not a date", "Date")).toBe(false)
+    expect(isCoercibleTo(20240131, "Date")).toBe(false)
+  })
+
+  it("should only accept binary blobs as Binary", () => {
+    const blob = { $type: "System.Byte[], mscorlib" as const, $value: "AAEC" }
+
+    expect(isCoercibleTo(blob, "Binary")).toBe(true)
+    expect(isCoercibleTo(blob, "String")).toBe(false)
+    expect(isCoercibleTo("AAEC", "Binary")).toBe(false)
+  })
+})
+
+describe("validateRowForDestination", () => {
+  it("should return no problems for a valid row", () => {
+    const row = { LastName: "Smith", Age: "30" }
+
+    const problems = validateRowForDestination(row, destination, mappings)
+
+    expect(problems).toEqual([])
+  })
+
+  it("should report missing required properties but not identity fields", () => {
+    const problems = validateRowForDestination({ LastName: null }, destination, mappings)
+
+    expect(problems).toEqual(["LastName is required"])
+  })
+
+  it("should report values over max length", () => {
+    const problems = validateRowForDestination({ LastName: "Johnson" }, destination, mappings)
+
+    expect(problems).toEqual(["LastName exceeds max length 5 (7 characters)"])
+  })
+
+  it("should report values that cannot be coerced to the property type", () => {
+    const problems = validateRowForDestination(
+      { LastName: "Smith", Age: "thirty", JoinDate: "soon" },
+      destination,
+      mappings,
+    )
+
+    expect(problems).toEqual([
+      "Age is not a valid Integer value",
+      "JoinDate is not a valid Date value",
+    ])
+  })
+
+  it("should report properties the destination does not define", () => {
+    const problems = validateRowForDestination(
+      { LastName: "Smith", Nickname: "Jo" },
+      destination,
+      mappings,
+    )
+
+    expect(problems).toEqual(["Nickname is not a property of CsContact"])
+  })
+
+  it("should apply the IsPrimary rule for Party destinations", () => {
+    const partyDestination: DestinationDefinition = {
+      ...destination,
+      primaryParentEntityTypeName: "Party",
+      properties: [...destination.properties, { name: "IsPrimary", propertyTypeName: "Boolean" }],
+    }
+
+    const problems = validateRowForDestination({ LastName: "Smith" }, partyDestination, mappings)
+
+    expect(problems).toEqual(["IsPrimary must be mapped for Party destinations"])
+  })
+})
+
+describe("isRunnableStatus", () => {
+  it("should allow queued and failed jobs to run", () => {
+    expect(isRunnableStatus({ status: "queued", dryRun: false })).toBe(true)
+    expect(isRunnableStatus({ status: "failed", dryRun: false })).toBe(true)
+  })
+
+  it("should not allow finished migrations to run again", () => {
+    expect(isRunnableStatus({ status: "partial", dryRun: false })).toBe(false)
+    expect(isRunnableStatus({ status: "completed", dryRun: false })).toBe(false)
+    expect(isRunnableStatus({ status: "running", dryRun: true })).toBe(false)
+  })
+
+  it("should allow finished dry runs to re-validate", () => {
+    expect(isRunnableStatus({ status: "validated", dryRun: true })).toBe(true)
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Tests for classifying failed writes and grouping failed rows.
+ * Tests runtime behaviors that types cannot verify:
+ * - Messages read from iMIS error bodies
+ * - Categories from HTTP status and message text
+ * - Normalized messages that group rows with the same cause
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  classifyWriteFailure,
+  describeWriteFailure,
+  extractErrorMessages,
+  normalizeErrorMessage,
+} from "../src/lib/error-classification"
+import { groupFailures, isInFailureGroup } from "../src/services/migration-job"
+
+const failed400 = "IMIS request failed with status 400"
+
+describe("extractErrorMessages", () => {
+  it("should read validation messages from iMIS result bodies", () => {
+    const body = JSON.stringify({
+      $type: "Asi.Soa.Core.DataContracts.ValidateResultsData, Asi.Contracts",
+      Errors: {
+        $values: [
+          { Message: "FirstName is required" },
+          { Message: "Email is not valid" },
+          { Message: "FirstName is required" },
+        ],
+      },
+    })
+
+    expect(extractErrorMessages(body)).toEqual(["FirstName is required", "Email is not valid"])
+  })
+
+  it("should ignore HTML pages, empty bodies and truncated JSON", () => {
+    expect(extractErrorMessages("<html><body>Error</body></html>")).toEqual([])
+    expect(extractErrorMessages(null)).toEqual([])
+    expect(extractErrorMessages('{"Message": "cut o')).toEqual([])
+  })
+
+  it("should use short plain-text bodies as they are", () => {
+    expect(extractErrorMessages("Invalid party ID")).toEqual(["Invalid party ID"])
+  })
+})
+
+describe("describeWriteFailure", () => {
+  it("should append the response messages to the error", () => {
+    const body = JSON.stringify({ Message: "Email is not valid" })
+
+    expect(describeWriteFailure({ status: 400, body, message: failed400 })).toBe(
+      `${failed400}: Email is not valid`
+    )
+    expect(describeWriteFailure({ status: 500, body: null, message: "x" })).toBe("x")
+  })
+})
+
+describe("classifyWriteFailure", () => {
+  const classify = (status: number | null, body: string | null, message = failed400) =>
+    classifyWriteFailure({ status, body, message })
+
+  it("should classify by HTTP status", () => {
+    expect(classify(400, null)).toBe("validation")
+    expect(classify(401, null)).toBe("auth")
+    expect(classify(504, null)).toBe("timeout")
+    expect(classify(503, null)).toBe("server_error")
+    expect(classify(404, null)).toBeNull()
+  })
+
+  it("should recognize duplicate keys and missing parents in the messages", () => {
+    const duplicate = JSON.stringify({
+      ExceptionMessage: "Violation of PRIMARY KEY constraint 'PK_Name'",
+    })
+    const parent = JSON.stringify({ Message: "Parent Party 123 does not exist" })
+
+    expect(classify(500, duplicate)).toBe("duplicate_key")
+    expect(classify(400, parent)).toBe("missing_parent")
+  })
+
+  it("should classify failures without a response", () => {
+    expect(classify(null, "Request timed out", "Failed to connect to IMIS")).toBe("timeout")
+    expect(classify(null, null, "Failed to connect to IMIS")).toBe("connection")
+    expect(classify(null, null, "Password not set for environment: x")).toBe("auth")
+    expect(classify(null, null, "No existing Party record found")).toBeNull()
+  })
+})
+
+describe("normalizeErrorMessage", () => {
+  it("should replace row-specific values but keep status codes", () => {
+    expect(normalizeErrorMessage(`${failed400}: ID '12345' already exists`)).toBe(
+      `${failed400}: ID "…" already exists`
+    )
+    expect(normalizeErrorMessage("Party 12 not found")).toBe("Party # not found")
+    expect(
+      normalizeErrorMessage("Record 0f8fad5b-d9cb-469f-a165-70867728950e is locked")
+    ).toBe("Record <id> is locked")
+  })
+})
+
+describe("groupFailures", () => {
+  const failures = [
+    { category: "validation" as const, errorMessage: "Party 1 not found" },
+    { category: "validation" as const, errorMessage: "Party 2 not found" },
+    { category: null, errorMessage: "Party 3 not found" },
+    { category: "duplicate_key" as const, errorMessage: "Duplicate" },
+    { category: "duplicate_key" as const, errorMessage: "Duplicate" },
+    { category: "duplicate_key" as const, errorMessage: "Duplicate" },
+  ]
+
+  it("should group by category and normalized message, largest group first", () => {
+    expect(groupFailures(failures)).toEqual([
+      { category: "duplicate_key", message: "Duplicate", example: "Duplicate", rowCount: 3 },
+      {
+        category: "validation",
+        message: "Party # not found",
+        example: "Party 1 not found",
+        rowCount: 2,
+      },
+      { category: null, message: "Party # not found", example: "Party 3 not found", rowCount: 1 },
+    ])
+  })
+
+  it("should match rows to their group", () => {
+    const group = { category: "validation" as const, message: "Party # not found" }
+
+    expect(failures.filter((failure) => isInFailureGroup(failure, group))).toHaveLength(2)
+  })
+})
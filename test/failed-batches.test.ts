@@ -0,0 +1,40 @@
+/**
+ * Tests for failed source batches.
+ * Tests runtime behaviors that types cannot verify:
+ * - Row ranges shown for the offsets whose fetch failed
+ */
+
+import { describe, it, expect } from "bun:test"
+import { getMissingRowRanges } from "../src/components/job-status"
+
+describe("getMissingRowRanges", () => {
+  it("should return no ranges when no batch failed", () => {
+    expect(getMissingRowRanges(null, 500, 2000)).toEqual([])
+    expect(getMissingRowRanges("[]", 500, 2000)).toEqual([])
+  })
+
+  it("should convert offsets to 1-based inclusive row ranges", () => {
+    expect(getMissingRowRanges("[500]", 500, 2000)).toEqual([{ start: 501, end: 1000 }])
+  })
+
+  it("should merge adjacent batches and sort by offset", () => {
+    expect(getMissingRowRanges("[1500, 500, 1000]", 500, 2000)).toEqual([
+      { start: 501, end: 2000 },
+    ])
+    expect(getMissingRowRanges("[1500, 0]", 500, 2000)).toEqual([
+      { start: 1, end: 500 },
+      { start: 1501, end: 2000 },
+    ])
+  })
+
+  it("should end the last batch at the total row count", () => {
+    expect(getMissingRowRanges("[1000]", 500, 1234)).toEqual([{ start: 1001, end: 1234 }])
+  })
+
+  it("should leave the end open when the batch size is unknown", () => {
+    expect(getMissingRowRanges("[500, 1000]", null, 2000)).toEqual([
+      { start: 501, end: null },
+      { start: 1001, end: null },
+    ])
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * Tests for writing transformed rows to CSV, NDJSON and Parquet files.
+ * Tests runtime behaviors that types cannot verify:
+ * - Columns follow the mapping order; unmapped and repeated destinations are left out
+ * - CSV lines are escaped, binary values are written as base64 text
+ * - NDJSON lines keep every column (missing values are null) and parse back
+ * - Parquet column types are inferred from the values and the file layout is valid
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  csvHeaderLine,
+  csvRowLine,
+  fileColumns,
+  ndjsonRowLine,
+  parseNdjsonRows,
+} from "../src/lib/file-destination"
+import { inferParquetType, writeParquet } from "../src/lib/parquet"
+import { createPropertyMapping } from "./setup"
+
+describe("fileColumns", () => {
+  it("should list each mapped destination property once, in mapping order", () => {
+    const mappings = [
+      createPropertyMapping("Last", "LastName"),
+      createPropertyMapping("Notes", null),
+      createPropertyMapping("First", "FirstName"),
+      createPropertyMapping("Surname", "LastName"),
+    ]
+
+    expect(fileColumns(mappings)).toEqual(["LastName", "FirstName"])
+  })
+})
+
+describe("CSV and NDJSON lines", () => {
+  const columns = ["Name", "Age", "Photo"]
+  const row = {
+    Name: 'Lee, "Ann"',
+    Age: 42,
+    Photo: { $type: "System.Byte[], mscorlib", $value: "AQID" },
+  }
+
+  it("should escape CSV values and write binary values as base64", () => {
+    expect(csvHeaderLine(columns)).toBe("Name,Age,Photo\r\n")
+    expect(csvRowLine(columns, row)).toBe('"Lee, ""Ann""",42,AQID\r\n')
+    expect(csvRowLine(columns, { Name: "Bo" })).toBe("Bo,,\r\n")
+  })
+
+  it("should write a JSON object per line that parses back", () => {
+    const text = ndjsonRowLine(columns, row) + "\n" + ndjsonRowLine(columns, { Age: 7 })
+
+    expect(text.split("\n")[0]).toBe('{"Name":"Lee, \\"Ann\\"","Age":42,"Photo":"AQID"}')
+    expect(parseNdjsonRows(text)).toEqual([
+      { Name: 'Lee, "Ann"', Age: 42, Photo: "AQID" },
+      { Name: null, Age: 7, Photo: null },
+    ])
+  })
+})
+
+describe("inferParquetType", () => {
+  it("should pick the narrowest type that holds every value", () => {
+    expect(inferParquetType([true, null, false])).toBe("BOOLEAN")
+    expect(inferParquetType([1, -2, null])).toBe("INT64")
+    expect(inferParquetType([1, 2.5])).toBe("DOUBLE")
+    expect(inferParquetType([1, "two"])).toBe("BYTE_ARRAY")
+    expect(inferParquetType([null, null])).toBe("BYTE_ARRAY")
+  })
+})
+
+describe("writeParquet", () => {
+  const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes)
+
+  it("should frame the column data and footer with the Parquet magic", () => {
+    const file = writeParquet(["ID", "Name"], [
+      { ID: 1, Name: "Ann" },
+      { ID: 2, Name: null },
+    ])
+    const view = new DataView(file.buffer, file.byteOffset, file.byteLength)
+    const footerLength = view.getUint32(file.length - 8, true)
+    const footer = file.subarray(file.length - 8 - footerLength, file.length - 8)
+
+    expect(text(file.subarray(0, 4))).toBe("PAR1")
+    expect(text(file.subarray(file.length - 4))).toBe("PAR1")
+    expect(text(footer)).toContain("ID")
+    expect(text(footer)).toContain("Name")
+    expect(text(footer)).toContain("i-migrate")
+    expect(text(file.subarray(4, file.length - 8 - footerLength))).toContain("Ann")
+  })
+
+  it("should write integers as 64-bit little-endian values after their definition levels", () => {
+    const file = writeParquet(["ID"], [{ ID: 258 }, { ID: null }, { ID: 3 }])
+    const data = [...file]
+    // Length prefix, then one bit-packed group of 8 definition levels (1, 0, 1)
+    const levels = [2, 0, 0, 0, 0x03, 0b101]
+    const start = data.findIndex((_, i) => levels.every((byte, j) => data[i + j] === byte))
+
+    expect(start).toBeGreaterThan(4)
+    expect(data.slice(start + levels.length, start + levels.length + 16)).toEqual([
+      2, 1, 0, 0, 0, 0, 0, 0, 3, 0, 0, 0, 0, 0, 0, 0,
+    ])
+  })
+})
@@ -12,12 +12,13 @@
 import { describe, it, expect, beforeEach, afterAll } from "bun:test"
 import { Effect, Layer } from "effect"
 import { db } from "../src/db/client"
-import { jobs, rows, environments } from "../src/db/schema"
+import { jobs, rows, attempts, rollbacks, environments, sourceFiles } from "../src/db/schema"
 import { eq } from "drizzle-orm"
 import { MigrationJobService } from "../src/services/migration-job"
 import { SessionService } from "../src/services/session"
 import { PersistenceService } from "../src/services/persistence"
 import { ImisApiService } from "../src/services/imis-api"
+import { decryptJson } from "../src/lib/encryption"
 import { createPropertyMapping } from "./setup"
 
 // Test environment IDs
@@ -49,6 +50,7 @@ const cleanupTestData = async () => {
     .all()
 
   for (const job of testJobs) {
+    db.delete(rollbacks).where(eq(rollbacks.jobId, job.id)).run()
     db.delete(rows).where(eq(rows.jobId, job.id)).run()
     db.delete(jobs).where(eq(jobs.id, job.id)).run()
   }
@@ -154,6 +156,87 @@ describe("Job Lifecycle", () => {
       expect(parsedMappings).toEqual(mappings)
     })
 
+    it("should store the parent job link", async () => {
+      const { jobId: parentJobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name: "Parent Job",
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Parties",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "Party",
+          mappings: [createPropertyMapping("ID", "ID")],
+        })
+      )
+
+      const { jobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name: "Child Job",
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Panels",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "TestPanel",
+          mappings: [createPropertyMapping("PartyId", "ID")],
+          parentLink: { parentJobId, sourceProperty: "PartyId", parentKeyProperty: "ID" },
+        })
+      )
+
+      const job = db.select().from(jobs).where(eq(jobs.id, jobId)).get()
+      expect(job?.parentJobId).toBe(parentJobId)
+      expect(job?.parentSourceProperty).toBe("PartyId")
+      expect(job?.parentKeyProperty).toBe("ID")
+    })
+
+    it("should store the row filter as JSON", async () => {
+      const rowFilter = {
+        combinator: "or" as const,
+        conditions: [
+          { column: "Status", operator: "equals" as const, value: "A" },
+          { column: "JoinDate", operator: "dateRange" as const, from: "2020-01-01" },
+        ],
+      }
+
+      const { jobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name: "Filtered Job",
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Query",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "TestEntity",
+          mappings: [createPropertyMapping("Name", "FullName")],
+          rowFilter,
+        })
+      )
+
+      const job = db.select().from(jobs).where(eq(jobs.id, jobId)).get()
+      expect(JSON.parse(job?.rowFilter ?? "null")).toEqual(rowFilter)
+    })
+
+    it("should store query parameter values as JSON", async () => {
+      const queryParameters = [
+        { propertyName: "Status", value: "A" },
+        { propertyName: "JoinDate", value: "" },
+      ]
+
+      const { jobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name: "Prompted Job",
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Query",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "TestEntity",
+          mappings: [createPropertyMapping("Name", "FullName")],
+          queryParameters,
+        })
+      )
+
+      const job = db.select().from(jobs).where(eq(jobs.id, jobId)).get()
+      expect(JSON.parse(job?.queryParameters ?? "null")).toEqual(queryParameters)
+    })
+
     it("should set initial timestamps", async () => {
       const beforeCreate = new Date().toISOString()
 
@@ -178,6 +261,84 @@ describe("Job Lifecycle", () => {
       expect(job?.startedAt).toBeNull()
       expect(job?.completedAt).toBeNull()
     })
+
+    it("should validate a job request before creating the job", async () => {
+      const request = {
+        name: "Request Test",
+        mode: "query" as const,
+        sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+        sourceQueryPath: "$/Test/Query",
+        destEnvironmentId: TEST_DEST_ENV_ID,
+        destEntityType: "TestEntity",
+        mappings: [],
+      }
+
+      const { jobId } = await runWithServices(MigrationJobService.createJobFromRequest(request))
+      expect(db.select().from(jobs).where(eq(jobs.id, jobId)).get()?.status).toBe("queued")
+
+      const result = await Effect.runPromise(
+        MigrationJobService.createJobFromRequest({ ...request, watermarkColumn: "UpdatedOn" }).pipe(
+          Effect.either,
+          Effect.provide(TestServicesLayer)
+        )
+      )
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") expect(result.left._tag).toBe("JobValidationError")
+    })
+  })
+
+  describe("File jobs", () => {
+    const sourceFile = {
+      name: "members.csv",
+      data: {
+        format: "csv" as const,
+        columns: [{ name: "Name", type: "String" as const }],
+        rows: [{ Name: "Ann" }, { Name: "Bob" }],
+      },
+    }
+    const createFileJob = () =>
+      MigrationJobService.createJob({
+        name: "File Job",
+        mode: "file",
+        sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+        sourceFile,
+        destEnvironmentId: TEST_DEST_ENV_ID,
+        destEntityType: "TestEntity",
+        mappings: [createPropertyMapping("Name", "FullName")],
+      })
+
+    it("should store the file's rows encrypted with the destination password", async () => {
+      await Effect.runPromise(
+        SessionService.setPassword(TEST_DEST_ENV_ID, "dest-secret").pipe(
+          Effect.provide(SessionService.Default)
+        )
+      )
+
+      const { jobId } = await runWithServices(createFileJob())
+
+      const job = db.select().from(jobs).where(eq(jobs.id, jobId)).get()
+      expect(job?.sourceEnvironmentId).toBe(TEST_DEST_ENV_ID)
+      expect(job?.sourceFileName).toBe("members.csv")
+      const file = db.select().from(sourceFiles).where(eq(sourceFiles.jobId, jobId)).get()
+      expect(file?.rowCount).toBe(2)
+      expect(JSON.parse(file!.columns)).toEqual(sourceFile.data.columns)
+      expect(await decryptJson<unknown[]>(file!.encryptedRows, "dest-secret")).toEqual(
+        sourceFile.data.rows
+      )
+
+      // Deleting the job deletes its file
+      await runWithServices(MigrationJobService.deleteJob(jobId))
+      expect(db.select().from(sourceFiles).where(eq(sourceFiles.jobId, jobId)).get())
+        .toBeUndefined()
+    })
+
+    it("should require the destination password", async () => {
+      const result = await Effect.runPromiseExit(
+        createFileJob().pipe(Effect.provide(TestServicesLayer))
+      )
+
+      expect(result._tag).toBe("Failure")
+    })
   })
 
   describe("Job retrieval", () => {
@@ -305,6 +466,47 @@ describe("Job Lifecycle", () => {
 
       expect(result._tag).toBe("Failure")
     })
+
+    it("should keep a parent job while a child job reads its records", async () => {
+      const { jobId: parentJobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name: "Parent Delete Test",
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Parties",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "Party",
+          mappings: [],
+        })
+      )
+      const { jobId: childJobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name: "Child Delete Test",
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Panels",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "TestPanel",
+          mappings: [],
+          parentLink: { parentJobId, sourceProperty: "PartyId", parentKeyProperty: "ID" },
+        })
+      )
+
+      const result = await Effect.runPromise(
+        MigrationJobService.deleteJob(parentJobId).pipe(
+          Effect.either,
+          Effect.provide(TestServicesLayer)
+        )
+      )
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") expect(result.left.message).toContain("Child Delete Test")
+      expect(db.select().from(jobs).where(eq(jobs.id, parentJobId)).get()).toBeDefined()
+
+      // Once the child is gone the parent can be deleted
+      await runWithServices(MigrationJobService.deleteJob(childJobId))
+      await runWithServices(MigrationJobService.deleteJob(parentJobId))
+      expect(db.select().from(jobs).where(eq(jobs.id, parentJobId)).get()).toBeUndefined()
+    })
   })
 
   describe("Job run state machine", () => {
@@ -367,6 +569,291 @@ describe("Job Lifecycle", () => {
     })
   })
 
+  describe("Delta runs", () => {
+    const createWatermarkedJob = () =>
+      runWithServices(
+        MigrationJobService.createJob({
+          name: "Contacts",
+          mode: "datasource",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceEntityType: "CsContact",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "TestEntity",
+          writeMode: "upsert",
+          mappings: [createPropertyMapping("Name", "FullName")],
+          watermarkColumn: "UpdatedOn",
+        })
+      )
+
+    const setRun = (jobId: string, status: "completed" | "partial", watermarkValue: string) =>
+      db.update(jobs)
+        .set({ status, watermarkValue, createdAt: "2026-01-01T00:00:00.000Z" })
+        .where(eq(jobs.id, jobId))
+        .run()
+
+    it("should require a completed run", async () => {
+      const { jobId } = await createWatermarkedJob()
+      setRun(jobId, "partial", "2026-03-01T10:00:00")
+
+      const result = await Effect.runPromiseExit(
+        MigrationJobService.createDeltaRun(jobId).pipe(Effect.provide(TestServicesLayer))
+      )
+
+      expect(result._tag).toBe("Failure")
+    })
+
+    it("should queue a copy that starts after the saved watermark", async () => {
+      const { jobId } = await createWatermarkedJob()
+      setRun(jobId, "completed", "2026-03-01T10:00:00")
+
+      const { jobId: deltaJobId } = await runWithServices(
+        MigrationJobService.createDeltaRun(jobId)
+      )
+
+      const delta = db.select().from(jobs).where(eq(jobs.id, deltaJobId)).get()
+      expect(delta?.status).toBe("queued")
+      expect(delta?.name).toBe("Contacts (delta 1)")
+      expect(delta?.deltaOfJobId).toBe(jobId)
+      expect(delta?.watermarkFrom).toBe("2026-03-01T10:00:00")
+      expect(delta?.watermarkValue).toBeNull()
+      expect(delta?.writeMode).toBe("upsert")
+
+      const runs = await runWithServices(MigrationJobService.listJobRuns(deltaJobId))
+      expect(runs.map((run) => run.id)).toEqual([jobId, deltaJobId])
+    })
+
+    it("should not create a delta while a run has not finished", async () => {
+      const { jobId } = await createWatermarkedJob()
+      setRun(jobId, "completed", "2026-03-01T10:00:00")
+      await runWithServices(MigrationJobService.createDeltaRun(jobId))
+
+      const result = await Effect.runPromiseExit(
+        MigrationJobService.createDeltaRun(jobId).pipe(Effect.provide(TestServicesLayer))
+      )
+
+      expect(result._tag).toBe("Failure")
+    })
+
+    it("should reject query jobs, which cannot fetch only newer rows", async () => {
+      const { jobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name: "Query Contacts",
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Query",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "TestEntity",
+          mappings: [],
+          watermarkColumn: "UpdatedOn",
+        })
+      )
+      setRun(jobId, "completed", "2026-03-01T10:00:00")
+
+      const result = await Effect.runPromise(
+        MigrationJobService.createDeltaRun(jobId).pipe(
+          Effect.either,
+          Effect.provide(TestServicesLayer)
+        )
+      )
+
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") expect(result.left.message).toContain("data source")
+    })
+
+    it("should reject jobs without a watermark column", async () => {
+      const { jobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name: "No Watermark",
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Query",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "TestEntity",
+          mappings: [],
+        })
+      )
+      setRun(jobId, "completed", "1")
+
+      const result = await Effect.runPromiseExit(
+        MigrationJobService.createDeltaRun(jobId).pipe(Effect.provide(TestServicesLayer))
+      )
+
+      expect(result._tag).toBe("Failure")
+    })
+  })
+
+  describe("Rollback", () => {
+    const createCompletedJob = async (name: string, parentJobId?: string) => {
+      const { jobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name,
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Query",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "TestEntity",
+          writeMode: "upsert",
+          mappings: [],
+          parentLink: parentJobId
+            ? { parentJobId, sourceProperty: "ParentId", parentKeyProperty: "Id" }
+            : undefined,
+        })
+      )
+      db.update(jobs).set({ status: "completed" }).where(eq(jobs.id, jobId)).run()
+      return jobId
+    }
+
+    // A migrated row whose successful attempt updated an existing destination record
+    const insertUpdatedRow = (jobId: string) => {
+      const now = new Date().toISOString()
+      const rowId = crypto.randomUUID()
+      db.insert(rows)
+        .values({
+          id: rowId,
+          jobId,
+          rowIndex: 0,
+          encryptedPayload: "encrypted",
+          status: "success",
+          identityElements: JSON.stringify(["100"]),
+          createdAt: now,
+          updatedAt: now,
+        })
+        .run()
+      db.insert(attempts)
+        .values({
+          id: crypto.randomUUID(),
+          rowId,
+          reason: "initial",
+          success: true,
+          identityElements: JSON.stringify(["100"]),
+          outcome: "updated",
+          createdAt: now,
+        })
+        .run()
+      return rowId
+    }
+
+    it("should refuse while a child job depends on the job", async () => {
+      const parentJobId = await createCompletedJob("Parent")
+      await createCompletedJob("Child", parentJobId)
+
+      const check = await Effect.runPromiseExit(
+        MigrationJobService.checkRollback(parentJobId).pipe(Effect.provide(TestServicesLayer))
+      )
+      const result = await Effect.runPromiseExit(
+        MigrationJobService.rollbackJob(parentJobId).pipe(Effect.provide(TestServicesLayer))
+      )
+
+      expect(check._tag).toBe("Failure")
+      expect(result._tag).toBe("Failure")
+      expect(await runWithServices(MigrationJobService.getRollback(parentJobId))).toBeNull()
+    })
+
+    it("should leave records the job updated alone", async () => {
+      const jobId = await createCompletedJob("Updated Records")
+      const rowId = insertUpdatedRow(jobId)
+
+      await runWithServices(MigrationJobService.rollbackJob(jobId))
+
+      const rollback = await runWithServices(MigrationJobService.getRollback(jobId))
+      expect(rollback?.status).toBe("completed")
+      expect(rollback?.totalRows).toBe(0)
+      expect(rollback?.failures).toEqual([])
+
+      const job = await runWithServices(MigrationJobService.getJob(jobId))
+      expect(job.status).toBe("rolled_back")
+
+      db.delete(attempts).where(eq(attempts.rowId, rowId)).run()
+    })
+
+    it("should not retry the rows of a rolled back job", async () => {
+      const jobId = await createCompletedJob("Rolled Back")
+      db.update(jobs).set({ status: "rolled_back" }).where(eq(jobs.id, jobId)).run()
+
+      const result = await Effect.runPromiseExit(
+        MigrationJobService.retryFailedRows(jobId).pipe(Effect.provide(TestServicesLayer))
+      )
+
+      expect(result._tag).toBe("Failure")
+    })
+  })
+
+  describe("Failure groups", () => {
+    // A failed row whose latest attempt ended with the given error
+    const insertFailedRow = (
+      jobId: string,
+      rowIndex: number,
+      errorCategory: "validation" | "duplicate_key",
+      errorMessage: string
+    ) => {
+      const now = new Date().toISOString()
+      const rowId = crypto.randomUUID()
+      db.insert(rows)
+        .values({
+          id: rowId,
+          jobId,
+          rowIndex,
+          encryptedPayload: "encrypted",
+          status: "failed",
+          errorCategory,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .run()
+      db.insert(attempts)
+        .values({
+          id: crypto.randomUUID(),
+          rowId,
+          reason: "initial",
+          success: false,
+          errorMessage,
+          errorCategory,
+          createdAt: now,
+        })
+        .run()
+      return rowId
+    }
+
+    it("should group failures by cause and skip a group", async () => {
+      const { jobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name: "Failure Groups Test",
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Query",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "TestEntity",
+          mappings: [],
+        })
+      )
+      db.update(jobs).set({ status: "partial" }).where(eq(jobs.id, jobId)).run()
+      const rowIds = [
+        insertFailedRow(jobId, 0, "duplicate_key", "Duplicate key: ID 'A1' already exists"),
+        insertFailedRow(jobId, 1, "duplicate_key", "Duplicate key: ID 'B2' already exists"),
+        insertFailedRow(jobId, 2, "validation", "IMIS request failed with status 400"),
+      ]
+
+      const groups = await runWithServices(MigrationJobService.getFailureGroups(jobId))
+      expect(groups.map((group) => [group.category, group.rowCount])).toEqual([
+        ["duplicate_key", 2],
+        ["validation", 1],
+      ])
+
+      for (const group of groups) {
+        await runWithServices(MigrationJobService.skipFailureGroup(jobId, group))
+      }
+
+      const job = await runWithServices(MigrationJobService.getJobWithCounts(jobId))
+      expect(job.skippedRowCount).toBe(3)
+      expect(job.failedRowCount).toBe(0)
+      expect(job.status).toBe("completed")
+
+      for (const rowId of rowIds) {
+        db.delete(attempts).where(eq(attempts.rowId, rowId)).run()
+      }
+    })
+  })
+
   describe("Job cancellation", () => {
     it("should cancel running job", async () => {
       const { jobId } = await runWithServices(
@@ -420,7 +907,183 @@ describe("Job Lifecycle", () => {
     })
   })
 
+  describe("Interrupted job recovery", () => {
+    it("should mark orphaned running jobs as interrupted", async () => {
+      const { jobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name: "Orphaned Run Test",
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Query",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "TestEntity",
+          mappings: [],
+        })
+      )
+
+      // Left running by a previous process
+      db.update(jobs)
+        .set({ status: "running", startedAt: new Date().toISOString() })
+        .where(eq(jobs.id, jobId))
+        .run()
+
+      const interrupted = await runWithServices(MigrationJobService.recoverInterruptedJobs())
+
+      expect(interrupted.map((job) => job.id)).toContain(jobId)
+      const job = db.select().from(jobs).where(eq(jobs.id, jobId)).get()
+      expect(job?.status).toBe("interrupted")
+    })
+
+    it("should not recover, resume or retry a job another live process runs", async () => {
+      const { jobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name: "CLI Run Test",
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Query",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "TestEntity",
+          mappings: [],
+        })
+      )
+
+      // Running in another process (such as the CLI) that reported just now
+      db.update(jobs)
+        .set({
+          status: "running",
+          runnerPid: process.ppid,
+          runnerHeartbeatAt: new Date().toISOString(),
+        })
+        .where(eq(jobs.id, jobId))
+        .run()
+
+      const interrupted = await runWithServices(MigrationJobService.recoverInterruptedJobs())
+
+      expect(interrupted.map((job) => job.id)).not.toContain(jobId)
+      expect(db.select().from(jobs).where(eq(jobs.id, jobId)).get()?.status).toBe("running")
+
+      db.update(jobs).set({ status: "paused" }).where(eq(jobs.id, jobId)).run()
+      const result = await Effect.runPromise(
+        MigrationJobService.resumeJob(jobId).pipe(Effect.either, Effect.provide(TestServicesLayer))
+      )
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") expect(result.left._tag).toBe("JobAlreadyRunningError")
+
+      // Retrying would write the same rows as the other process
+      db.update(jobs).set({ status: "partial" }).where(eq(jobs.id, jobId)).run()
+      const retry = await Effect.runPromise(
+        MigrationJobService.retryFailedRows(jobId).pipe(
+          Effect.either,
+          Effect.provide(TestServicesLayer)
+        )
+      )
+      expect(retry._tag).toBe("Left")
+      if (retry._tag === "Left") expect(retry.left._tag).toBe("JobAlreadyRunningError")
+    })
+
+    it("should leave jobs that are not running alone", async () => {
+      const { jobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name: "Queued Recovery Test",
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Query",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "TestEntity",
+          mappings: [],
+        })
+      )
+
+      const interrupted = await runWithServices(MigrationJobService.recoverInterruptedJobs())
+
+      expect(interrupted.map((job) => job.id)).not.toContain(jobId)
+      const job = db.select().from(jobs).where(eq(jobs.id, jobId)).get()
+      expect(job?.status).toBe("queued")
+    })
+
+    it("should not run interrupted jobs again from the start", async () => {
+      const { jobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name: "Interrupted Run Test",
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Query",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "TestEntity",
+          mappings: [],
+        })
+      )
+
+      db.update(jobs).set({ status: "interrupted" }).where(eq(jobs.id, jobId)).run()
+
+      const result = await Effect.runPromiseExit(
+        MigrationJobService.runJob(jobId).pipe(Effect.provide(TestServicesLayer))
+      )
+
+      expect(result._tag).toBe("Failure")
+    })
+
+    it("should cancel interrupted jobs", async () => {
+      const { jobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name: "Interrupted Cancel Test",
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Query",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "TestEntity",
+          mappings: [],
+        })
+      )
+
+      db.update(jobs).set({ status: "interrupted" }).where(eq(jobs.id, jobId)).run()
+
+      await runWithServices(MigrationJobService.cancelJob(jobId))
+
+      const job = db.select().from(jobs).where(eq(jobs.id, jobId)).get()
+      expect(job?.status).toBe("cancelled")
+    })
+  })
+
   describe("Job rows", () => {
+    it("should count skipped rows separately from successes and failures", async () => {
+      const { jobId } = await runWithServices(
+        MigrationJobService.createJob({
+          name: "Skipped Rows Test",
+          mode: "query",
+          sourceEnvironmentId: TEST_SOURCE_ENV_ID,
+          sourceQueryPath: "$/Test/Query",
+          destEnvironmentId: TEST_DEST_ENV_ID,
+          destEntityType: "TestEntity",
+          mappings: [],
+        })
+      )
+
+      const now = new Date().toISOString()
+      const statuses = ["success", "failed", "skipped", "skipped"] as const
+      statuses.forEach((status, rowIndex) => {
+        db.insert(rows)
+          .values({
+            id: crypto.randomUUID(),
+            jobId,
+            rowIndex,
+            encryptedPayload: "encrypted",
+            status,
+            createdAt: now,
+            updatedAt: now,
+          })
+          .run()
+      })
+
+      const job = await runWithServices(MigrationJobService.getJobWithCounts(jobId))
+
+      expect(job.processedRows).toBe(4)
+      expect(job.successfulRows).toBe(1)
+      expect(job.failedRowCount).toBe(1)
+      expect(job.skippedRowCount).toBe(2)
+    })
+
+
     it("should return empty array when no rows exist", async () => {
       const { jobId } = await runWithServices(
         MigrationJobService.createJob({
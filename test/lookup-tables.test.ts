@@ -0,0 +1,168 @@
+/**
+ * Tests for lookup table value mapping.
+ * Tests runtime behaviors that types cannot verify:
+ * - Case- and whitespace-insensitive matching and each fallback rule
+ * - Pasted entry parsing and duplicate detection
+ * - Lookups applied by the row mapper before transforms, with unmapped values reported
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  applyLookup,
+  findDuplicateLookupSources,
+  parseLookupEntries,
+  type LookupFallback,
+  type LookupTableDefinition,
+} from "../src/lib/lookup-tables"
+import { mapSourceRow, referencedLookupTableIds } from "../src/services/migration-job"
+import { createPropertyMapping } from "./setup"
+
+const createTable = (fallback: LookupFallback = "passThrough"): LookupTableDefinition => ({
+  id: "member-types",
+  name: "Member Types",
+  fallback,
+  entries: [
+    { source: "REG", destination: "Regular" },
+    { source: "stu", destination: "Student" },
+    { source: "1", destination: "One" },
+  ],
+})
+
+describe("applyLookup", () => {
+  it("should translate values with an entry", () => {
+    expect(applyLookup("REG", createTable())).toEqual({ ok: true, value: "Regular" })
+  })
+
+  it("should match ignoring case and surrounding whitespace", () => {
+    expect(applyLookup(" reg ", createTable())).toEqual({ ok: true, value: "Regular" })
+    expect(applyLookup("STU", createTable())).toEqual({ ok: true, value: "Student" })
+  })
+
+  it("should match numbers against their text form", () => {
+    expect(applyLookup(1, createTable())).toEqual({ ok: true, value: "One" })
+  })
+
+  it("should keep unmatched values with the pass through fallback", () => {
+    expect(applyLookup("XYZ", createTable("passThrough"))).toEqual({ ok: true, value: "XYZ" })
+  })
+
+  it("should write null for unmatched values with the null fallback", () => {
+    expect(applyLookup("XYZ", createTable("null"))).toEqual({ ok: true, value: null })
+  })
+
+  it("should report unmatched values with the fail fallback", () => {
+    expect(applyLookup("XYZ", createTable("fail"))).toEqual({
+      ok: false,
+      message: 'No entry for "XYZ" in lookup table "Member Types"',
+    })
+  })
+
+  it("should pass empty values through even with the fail fallback", () => {
+    expect(applyLookup(null, createTable("fail"))).toEqual({ ok: true, value: null })
+    expect(applyLookup("", createTable("fail"))).toEqual({ ok: true, value: "" })
+  })
+
+  it("should use the first entry when source values repeat", () => {
+    const table = {
+      ...createTable(),
+      entries: [
+        { source: "A", destination: "first" },
+        { source: "a", destination: "second" },
+      ],
+    }
+
+    expect(applyLookup("A", table)).toEqual({ ok: true, value: "first" })
+  })
+})
+
+describe("parseLookupEntries", () => {
+  it("should parse tab-separated lines pasted from a spreadsheet", () => {
+    expect(parseLookupEntries("REG\tRegular\r\nSTU\tStudent, Full Time")).toEqual([
+      { source: "REG", destination: "Regular" },
+      { source: "STU", destination: "Student, Full Time" },
+    ])
+  })
+
+  it("should split comma-separated lines on the first comma", () => {
+    expect(parseLookupEntries("REG, Regular\nSTU,Student, Full Time")).toEqual([
+      { source: "REG", destination: "Regular" },
+      { source: "STU", destination: "Student, Full Time" },
+    ])
+  })
+
+  it("should skip blank lines and lines without a separator or source", () => {
+    expect(parseLookupEntries("\nREG\n,Orphan\nSTU,Student\n")).toEqual([
+      { source: "STU", destination: "Student" },
+    ])
+  })
+})
+
+describe("findDuplicateLookupSources", () => {
+  it("should report sources that repeat ignoring case and whitespace", () => {
+    const entries = [
+      { source: "REG", destination: "Regular" },
+      { source: " reg", destination: "Regular Member" },
+      { source: "STU", destination: "Student" },
+    ]
+
+    expect(findDuplicateLookupSources(entries)).toEqual(["reg"])
+  })
+
+  it("should report nothing for unique sources", () => {
+    expect(findDuplicateLookupSources(createTable().entries)).toEqual([])
+  })
+})
+
+describe("mapSourceRow with lookup tables", () => {
+  const mapping = { ...createPropertyMapping("Type", "MemberType"), lookupTableId: "member-types" }
+
+  it("should translate mapped values through the referenced table", () => {
+    const tables = new Map([["member-types", createTable()]])
+
+    expect(mapSourceRow({ Type: "reg" }, [mapping], undefined, tables)).toEqual({
+      rowData: { MemberType: "Regular" },
+      problems: [],
+    })
+  })
+
+  it("should apply transforms to the translated value", () => {
+    const tables = new Map([["member-types", createTable()]])
+    const withTransform = {
+      ...mapping,
+      transforms: [{ type: "changeCase" as const, mode: "upper" as const }],
+    }
+
+    expect(mapSourceRow({ Type: "reg" }, [withTransform], undefined, tables).rowData).toEqual({
+      MemberType: "REGULAR",
+    })
+  })
+
+  it("should report unmapped values and leave the field out", () => {
+    const tables = new Map([["member-types", createTable("fail")]])
+    const mappings = [mapping, createPropertyMapping("Name", "FullName")]
+
+    expect(mapSourceRow({ Type: "XYZ", Name: "Jane" }, mappings, undefined, tables)).toEqual({
+      rowData: { FullName: "Jane" },
+      problems: [
+        {
+          category: "unmapped_value",
+          property: "MemberType",
+          message: 'MemberType: No entry for "XYZ" in lookup table "Member Types"',
+        },
+      ],
+    })
+  })
+})
+
+describe("referencedLookupTableIds", () => {
+  it("should list each table used by a mapped property once", () => {
+    const mappings = [
+      { ...createPropertyMapping("Type", "MemberType"), lookupTableId: "a" },
+      { ...createPropertyMapping("Status", "Status"), lookupTableId: "a" },
+      { ...createPropertyMapping("Region", "Region"), lookupTableId: "b" },
+      { ...createPropertyMapping("Old", null), lookupTableId: "c" },
+    ]
+
+    expect(referencedLookupTableIds(mappings)).toEqual(["a", "b"])
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * Tests for constant, template and generated mapping values.
+ * Tests runtime behaviors that types cannot verify:
+ * - Template placeholders and rendering of null/missing source values
+ * - Generated values resolved from the row context
+ * - Constant text converted to the destination property type
+ * - Source property validation for template mappings
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  parseConstantValue,
+  renderTemplate,
+  resolveMappingValue,
+  templateSourceProperties,
+} from "../src/lib/mapping-values"
+import { transformRow, validateSourceProperties } from "../src/services/migration-job"
+
+const context = { jobId: "job-1", rowIndex: 4 }
+
+describe("templateSourceProperties", () => {
+  it("should list referenced columns once, in order of first use", () => {
+    expect(templateSourceProperties("{City}, { State } {Zip} ({City})")).toEqual([
+      "City",
+      "State",
+      "Zip",
+    ])
+  })
+
+  it("should return no columns for plain text", () => {
+    expect(templateSourceProperties("Imported")).toEqual([])
+  })
+})
+
+describe("renderTemplate", () => {
+  it("should fill placeholders from the row", () => {
+    const row = { Address1: "1 Main St", City: "Springfield" }
+
+    expect(renderTemplate("{Address1}, {City}", row)).toBe("1 Main St, Springfield")
+  })
+
+  it("should render null and missing values as empty text", () => {
+    expect(renderTemplate("[{A}|{B}]", { A: null })).toBe("[|]")
+  })
+
+  it("should render numbers and booleans as text", () => {
+    expect(renderTemplate("{Count}:{Active}", { Count: 3, Active: false })).toBe("3:false")
+  })
+})
+
+describe("resolveMappingValue", () => {
+  it("should return constants unchanged", () => {
+    expect(resolveMappingValue({ kind: "constant", value: 5 }, {}, context)).toBe(5)
+    expect(resolveMappingValue({ kind: "constant", value: null }, {}, context)).toBeNull()
+  })
+
+  it("should resolve the job ID and 1-based row number from the context", () => {
+    const jobId = resolveMappingValue({ kind: "generated", generator: "jobId" }, {}, context)
+    const rowNumber = resolveMappingValue(
+      { kind: "generated", generator: "rowNumber" },
+      {},
+      context,
+    )
+
+    expect(jobId).toBe("job-1")
+    expect(rowNumber).toBe(5)
+  })
+
+  it("should resolve context values to null without a context", () => {
+    expect(resolveMappingValue({ kind: "generated", generator: "jobId" }, {})).toBeNull()
+  })
+
+  it("should generate an ISO timestamp and distinct UUIDs", () => {
+    const timestamp = resolveMappingValue({ kind: "generated", generator: "timestamp" }, {})
+    const first = resolveMappingValue({ kind: "generated", generator: "uuid" }, {})
+    const second = resolveMappingValue({ kind: "generated", generator: "uuid" }, {})
+
+    expect(Number.isNaN(Date.parse(String(timestamp)))).toBe(false)
+    expect(first).not.toBe(second)
+  })
+})
+
+describe("parseConstantValue", () => {
+  it("should treat empty text as null", () => {
+    expect(parseConstantValue("", "String")).toBeNull()
+  })
+
+  it("should convert numeric and boolean text for those property types", () => {
+    expect(parseConstantValue("12.5", "Decimal")).toBe(12.5)
+    expect(parseConstantValue("TRUE", "Boolean")).toBe(true)
+    expect(parseConstantValue("007", "String")).toBe("007")
+  })
+
+  it("should keep text that does not fit the type", () => {
+    expect(parseConstantValue("n/a", "Integer")).toBe("n/a")
+    expect(parseConstantValue("yes", "Boolean")).toBe("yes")
+  })
+})
+
+describe("transformRow with computed mappings", () => {
+  it("should write computed values and apply their transforms", () => {
+    const mappings = [
+      { sourceProperty: "Id", destinationProperty: "ID" },
+      {
+        sourceProperty: "",
+        destinationProperty: "Status",
+        value: { kind: "constant" as const, value: "A" },
+      },
+      {
+        sourceProperty: "",
+        destinationProperty: "FullAddress",
+        value: { kind: "template" as const, template: "{Street}, {City}" },
+        transforms: [{ type: "changeCase" as const, mode: "upper" as const }],
+      },
+      {
+        sourceProperty: "",
+        destinationProperty: "ImportBatch",
+        value: { kind: "generated" as const, generator: "jobId" as const },
+      },
+      {
+        sourceProperty: "",
+        destinationProperty: null,
+        value: { kind: "constant" as const, value: "x" },
+      },
+    ]
+    const row = { Id: "42", Street: "1 Main St", City: "Springfield" }
+
+    const result = transformRow(row, mappings, context)
+
+    expect(result).toEqual({
+      ID: "42",
+      Status: "A",
+      FullAddress: "1 MAIN ST, SPRINGFIELD",
+      ImportBatch: "job-1",
+    })
+  })
+})
+
+describe("validateSourceProperties with computed mappings", () => {
+  it("should require every column a template refers to", () => {
+    const mappings = [
+      { sourceProperty: "Id", destinationProperty: "ID" },
+      {
+        sourceProperty: "",
+        destinationProperty: "FullAddress",
+        value: { kind: "template" as const, template: "{Street}, {City} {Zip}" },
+      },
+    ]
+
+    const result = validateSourceProperties({ Id: 1, Street: "1 Main St" }, mappings)
+
+    expect(result).toEqual({ valid: false, missing: ["City", "Zip"] })
+  })
+
+  it("should not require columns for constant and generated values", () => {
+    const mappings = [
+      {
+        sourceProperty: "",
+        destinationProperty: "Status",
+        value: { kind: "constant" as const, value: "A" },
+      },
+      {
+        sourceProperty: "",
+        destinationProperty: "RowNumber",
+        value: { kind: "generated" as const, generator: "rowNumber" as const },
+      },
+    ]
+
+    expect(validateSourceProperties({}, mappings)).toEqual({ valid: true })
+  })
+})
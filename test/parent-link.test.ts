@@ -0,0 +1,68 @@
+/**
+ * Tests for parent/child job identity remapping.
+ * Tests runtime behaviors that types cannot verify:
+ * - Swapping a child's parent reference for the parent's destination identity
+ * - Holding back rows whose parent failed or was never migrated
+ * - Parent key normalization
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  resolveParentReference,
+  toParentKey,
+  type ParentRowRef,
+} from "../src/services/migration-job"
+
+const parentRows = new Map<string, ParentRowRef>([
+  ["100", { status: "success", identityElements: ["5001"] }],
+  ["101", { status: "failed", identityElements: null }],
+])
+
+describe("resolveParentReference", () => {
+  it("should swap the reference for the parent's destination identity", () => {
+    const result = resolveParentReference({ PartyId: 100, Note: "a" }, "PartyId", parentRows)
+
+    expect(result).toEqual({
+      held: false,
+      parentId: "5001",
+      row: { PartyId: "5001", Note: "a" },
+    })
+  })
+
+  it("should hold rows whose parent failed to migrate", () => {
+    const result = resolveParentReference({ PartyId: "101" }, "PartyId", parentRows)
+
+    expect(result.held).toBe(true)
+    if (result.held) {
+      expect(result.reason).toContain("failed to migrate")
+    }
+  })
+
+  it("should hold rows whose parent was not migrated by the parent job", () => {
+    const result = resolveParentReference({ PartyId: "999" }, "PartyId", parentRows)
+
+    expect(result.held).toBe(true)
+    if (result.held) {
+      expect(result.reason).toContain("was not migrated")
+    }
+  })
+
+  it("should hold rows without a parent reference", () => {
+    const result = resolveParentReference({ PartyId: null }, "PartyId", parentRows)
+
+    expect(result.held).toBe(true)
+  })
+})
+
+describe("toParentKey", () => {
+  it("should normalize numbers and padded strings to the same key", () => {
+    expect(toParentKey(100)).toBe("100")
+    expect(toParentKey(" 100 ")).toBe("100")
+  })
+
+  it("should return null for empty and non-primitive values", () => {
+    expect(toParentKey("")).toBeNull()
+    expect(toParentKey(undefined)).toBeNull()
+    expect(toParentKey({ id: 1 })).toBeNull()
+  })
+})
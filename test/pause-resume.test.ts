@@ -0,0 +1,70 @@
+/**
+ * Tests for pausing and resuming jobs.
+ * Tests runtime behaviors that types cannot verify:
+ * - Which batches a resumed run skips because an earlier run stored every row
+ * - Which job statuses can be resumed
+ * - Which jobs another live process (such as the CLI) is running
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  isBatchRecorded,
+  isResumableStatus,
+  isRunByOtherProcess,
+} from "../src/services/migration-job"
+
+describe("isBatchRecorded", () => {
+  const recorded = new Set([0, 1, 2, 3, 4, 6])
+
+  it("should skip a batch whose rows were all stored", () => {
+    expect(isBatchRecorded(recorded, 0, 5)).toBe(true)
+  })
+
+  it("should fetch a batch with any row missing", () => {
+    expect(isBatchRecorded(recorded, 5, 2)).toBe(false)
+    expect(isBatchRecorded(recorded, 4, 3)).toBe(false)
+  })
+
+  it("should fetch every batch when nothing was stored", () => {
+    expect(isBatchRecorded(new Set(), 0, 100)).toBe(false)
+  })
+
+  it("should never skip an empty batch", () => {
+    expect(isBatchRecorded(recorded, 0, 0)).toBe(false)
+  })
+})
+
+describe("isResumableStatus", () => {
+  it("should allow paused and interrupted jobs to resume", () => {
+    expect(isResumableStatus({ status: "paused" })).toBe(true)
+    expect(isResumableStatus({ status: "interrupted" })).toBe(true)
+  })
+
+  it("should not resume jobs that are running or finished", () => {
+    expect(isResumableStatus({ status: "running" })).toBe(false)
+    expect(isResumableStatus({ status: "cancelled" })).toBe(false)
+    expect(isResumableStatus({ status: "completed" })).toBe(false)
+  })
+})
+
+describe("isRunByOtherProcess", () => {
+  const now = Date.parse("2026-03-01T10:00:30.000Z")
+  const heartbeat = "2026-03-01T10:00:00.000Z"
+
+  it("should detect a live process that reported recently", () => {
+    expect(
+      isRunByOtherProcess({ runnerPid: process.ppid, runnerHeartbeatAt: heartbeat }, now)
+    ).toBe(true)
+  })
+
+  it("should ignore this process, stale heartbeats and jobs without a runner", () => {
+    expect(
+      isRunByOtherProcess({ runnerPid: process.pid, runnerHeartbeatAt: heartbeat }, now)
+    ).toBe(false)
+    const later = now + 5 * 60 * 1000
+    expect(
+      isRunByOtherProcess({ runnerPid: process.ppid, runnerHeartbeatAt: heartbeat }, later)
+    ).toBe(false)
+    expect(isRunByOtherProcess({ runnerPid: null, runnerHeartbeatAt: null }, now)).toBe(false)
+  })
+})
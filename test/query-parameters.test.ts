@@ -0,0 +1,64 @@
+/**
+ * Tests for IQA query parameter values.
+ * Tests runtime behaviors that types cannot verify:
+ * - Labels and defaults read from the query definition
+ * - Positional arguments keep blank gaps but drop trailing blanks
+ */
+
+import { describe, it, expect } from "bun:test"
+import type { CriteriaData } from "../src/api/imis-schemas"
+import {
+  defaultQueryParameters,
+  queryParameterArgs,
+  queryParameterLabel,
+} from "../src/lib/query-parameters"
+
+const criteria = (overrides: Partial<CriteriaData>): CriteriaData =>
+  ({
+    $type: "Asi.Soa.Core.DataContracts.CriteriaData, Asi.Contracts",
+    PropertyName: "Status",
+    Values: null,
+    ...overrides,
+  })
+
+describe("queryParameterLabel", () => {
+  it("should prefer the prompt and fall back to the property name", () => {
+    expect(queryParameterLabel(criteria({ Prompt: "Member status" }))).toBe("Member status")
+    expect(queryParameterLabel(criteria({ Prompt: "  " }))).toBe("Status")
+  })
+})
+
+describe("defaultQueryParameters", () => {
+  it("should fill each parameter with the query's default values", () => {
+    const parameters = [
+      criteria({ Values: { $values: ["A", "I"] } }),
+      criteria({ PropertyName: "JoinDate" }),
+    ]
+
+    expect(defaultQueryParameters(parameters)).toEqual([
+      { propertyName: "Status", value: "A,I" },
+      { propertyName: "JoinDate", value: "" },
+    ])
+  })
+})
+
+describe("queryParameterArgs", () => {
+  it("should trim values and keep blank positions", () => {
+    const args = queryParameterArgs([
+      { propertyName: "Status", value: "" },
+      { propertyName: "JoinDate", value: " 2020-01-01 " },
+    ])
+
+    expect(args).toEqual(["", "2020-01-01"])
+  })
+
+  it("should drop trailing blank values", () => {
+    const args = queryParameterArgs([
+      { propertyName: "Status", value: "A" },
+      { propertyName: "JoinDate", value: " " },
+    ])
+
+    expect(args).toEqual(["A"])
+    expect(queryParameterArgs([{ propertyName: "Status", value: "" }])).toEqual([])
+  })
+})
@@ -0,0 +1,40 @@
+/**
+ * Tests for rolling back a job's created records.
+ * Tests runtime behaviors that types cannot verify:
+ * - Which jobs can be rolled back
+ * - Refusal while dependent child jobs exist
+ */
+
+import { describe, it, expect } from "bun:test"
+import { rollbackProblem } from "../src/services/migration-job"
+
+describe("rollbackProblem", () => {
+  const job = {
+    name: "Contacts",
+    status: "completed" as const,
+    dryRun: false,
+    destType: "bo_entity" as const,
+  }
+
+  it("should allow finished jobs that wrote to a BO entity", () => {
+    expect(rollbackProblem(job, [])).toBeNull()
+    expect(rollbackProblem({ ...job, status: "partial" }, [])).toBeNull()
+  })
+
+  it("should reject dry runs, custom endpoints and files", () => {
+    expect(rollbackProblem({ ...job, dryRun: true }, [])).toContain("dry run")
+    expect(rollbackProblem({ ...job, destType: "custom_endpoint" }, [])).toContain("custom")
+    expect(rollbackProblem({ ...job, destType: "file" }, [])).toContain("file")
+  })
+
+  it("should reject jobs that are unfinished or already rolled back", () => {
+    expect(rollbackProblem({ ...job, status: "running" }, [])).toContain("status: running")
+    expect(rollbackProblem({ ...job, status: "rolled_back" }, [])).toContain("rolled_back")
+  })
+
+  it("should name the dependent jobs that must be rolled back first", () => {
+    const problem = rollbackProblem(job, ["Addresses", "Phones"])
+
+    expect(problem).toContain("Addresses, Phones")
+  })
+})
@@ -0,0 +1,180 @@
+/**
+ * Tests for exporting failed rows as CSV and reading corrections back.
+ * Tests runtime behaviors that types cannot verify:
+ * - CSV fields with quotes, commas and line breaks survive a round trip
+ * - Corrections are matched by row number and read only from source/transformed columns
+ * - Unchanged text keeps the stored value; changed text keeps the original type where it can
+ * - Transformed corrections are parsed as the destination type and added to stored edits
+ */
+
+import { describe, it, expect } from "bun:test"
+import { parseCsv, toCsv } from "../src/lib/csv"
+import {
+  correctSourceRow,
+  correctTransformedValues,
+  failedRowsColumns,
+  failedRowsToCsv,
+  parseRowCorrections,
+} from "../src/lib/row-corrections"
+
+describe("parseCsv", () => {
+  it("should read back what toCsv writes", () => {
+    const rows = [
+      ["name", "note"],
+      ['Ann "Annie" Lee', "line one\r\nline two"],
+      ["Smith, Bob", ""],
+    ]
+
+    expect(parseCsv(toCsv(rows[0]!, rows.slice(1)))).toEqual(rows)
+  })
+
+  it("should accept a byte order mark, LF line endings and blank lines", () => {
+    expect(parseCsv("\uFEFFa,b\n\n1,2\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ])
+  })
+
+  it("should keep a last line without a line ending", () => {
+    expect(parseCsv("a,b\r\n1,")).toEqual([
+      ["a", "b"],
+      ["1", ""],
+    ])
+  })
+})
+
+describe("failedRowsToCsv", () => {
+  const mappings = [
+    { sourceProperty: "First", destinationProperty: "FirstName" },
+    { sourceProperty: "Country", destinationProperty: "CountryCode" },
+    { sourceProperty: "Notes", destinationProperty: null },
+    {
+      sourceProperty: "",
+      destinationProperty: "Source",
+      value: { kind: "constant" as const, value: "import" },
+    },
+  ]
+
+  it("should list mapped source columns and every destination property", () => {
+    expect(failedRowsColumns(mappings)).toEqual({
+      source: ["First", "Country"],
+      transformed: ["FirstName", "CountryCode", "Source"],
+    })
+  })
+
+  it("should write row numbers, errors and values, leaving binary values empty", () => {
+    const csv = failedRowsToCsv(failedRowsColumns(mappings), [
+      {
+        rowIndex: 4,
+        errorCategory: "unmapped_value",
+        errorMessage: "CountryCode: No mapping for 'XX'",
+        source: { First: "Ann", Country: "XX", Notes: "ignored" },
+        transformed: { FirstName: "Ann", Source: { $type: "System.Byte[]", $value: "AAEC" } },
+      },
+    ])
+
+    expect(parseCsv(csv)).toEqual([
+      [
+        "row_number",
+        "error_category",
+        "error_message",
+        "source.First",
+        "source.Country",
+        "transformed.FirstName",
+        "transformed.CountryCode",
+        "transformed.Source",
+      ],
+      ["5", "unmapped_value", "CountryCode: No mapping for 'XX'", "Ann", "XX", "Ann", "", ""],
+    ])
+  })
+})
+
+describe("parseRowCorrections", () => {
+  it("should read source and transformed columns by row number", () => {
+    const result = parseRowCorrections(
+      "error_message,row_number,source.Country,transformed.CountryCode,Comment\r\n" +
+        "failed,5,NZ,,check\r\n",
+    )
+
+    expect(result).toEqual({
+      ok: true,
+      corrections: [{ rowIndex: 4, source: { Country: "NZ" }, transformed: { CountryCode: "" } }],
+    })
+  })
+
+  it("should reject files without row numbers", () => {
+    expect(parseRowCorrections("")).toEqual({ ok: false, message: "The file is empty" })
+    expect(parseRowCorrections("source.Country\r\nNZ\r\n")).toEqual({
+      ok: false,
+      message: "The file has no row_number column",
+    })
+    expect(parseRowCorrections("row_number\r\n0\r\n")).toEqual({
+      ok: false,
+      message: 'Record 1: invalid row number "0"',
+    })
+  })
+
+  it("should reject a row that appears twice", () => {
+    expect(parseRowCorrections("row_number,source.A\r\n2,x\r\n2,y\r\n")).toEqual({
+      ok: false,
+      message: "Row 2 appears more than once",
+    })
+  })
+})
+
+describe("correctSourceRow", () => {
+  const source = { Name: "Ann", Age: 40, Active: true, Photo: { $value: "AAEC" } }
+
+  it("should return null when no value changed", () => {
+    expect(correctSourceRow(source, { Name: "Ann", Age: "40", Active: "true" })).toBeNull()
+  })
+
+  it("should keep the original type of changed numbers and booleans", () => {
+    expect(correctSourceRow(source, { Age: "41", Active: "FALSE", Name: "" })).toEqual({
+      ...source,
+      Name: null,
+      Age: 41,
+      Active: false,
+    })
+  })
+
+  it("should store changed text that no longer parses as its type as text", () => {
+    expect(correctSourceRow(source, { Age: "forty" })?.Age).toBe("forty")
+  })
+
+  it("should not change structured values", () => {
+    expect(correctSourceRow(source, { Photo: "" })).toBeNull()
+  })
+})
+
+describe("correctTransformedValues", () => {
+  const types = new Map([
+    ["Age", "Integer" as const],
+    ["Photo", "Binary" as const],
+  ])
+
+  it("should add changed values to the stored edits, parsed as the destination type", () => {
+    const result = correctTransformedValues(
+      { Name: "Ann", Age: 40 },
+      { Name: "Ann" },
+      { Name: "Ann", Age: "41", Country: "NZ" },
+      types,
+    )
+
+    expect(result).toEqual({ ok: true, edits: { Name: "Ann", Age: 41, Country: "NZ" } })
+  })
+
+  it("should ignore binary properties", () => {
+    expect(correctTransformedValues({}, {}, { Photo: "AAEC" }, types)).toEqual({
+      ok: true,
+      edits: {},
+    })
+  })
+
+  it("should report values that do not parse", () => {
+    expect(correctTransformedValues({ Age: 40 }, {}, { Age: "forty" }, types)).toEqual({
+      ok: false,
+      message: "Age: Must be a whole number",
+    })
+  })
+})
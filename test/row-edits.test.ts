@@ -0,0 +1,87 @@
+/**
+ * Tests for manual edits to a failed row's transformed values.
+ * Tests runtime behaviors that types cannot verify:
+ * - Form text is parsed as the destination property type
+ * - Only values that differ from the transformed values become edits
+ * - Edits override the mapped values and resolve their mapping problems
+ */
+
+import { describe, it, expect } from "bun:test"
+import { diffRowEdits, parseEditValue } from "../src/lib/row-edits"
+import { applyRowEdits } from "../src/services/migration-job"
+
+describe("parseEditValue", () => {
+  it("should read empty text as null for every type", () => {
+    expect(parseEditValue("  ", "Integer")).toEqual({ ok: true, value: null })
+    expect(parseEditValue("", "String")).toEqual({ ok: true, value: null })
+  })
+
+  it("should parse numbers and reject text that is not a number", () => {
+    expect(parseEditValue("42", "Integer")).toEqual({ ok: true, value: 42 })
+    expect(parseEditValue("4.2", "Integer")).toEqual({
+      ok: false,
+      message: "Must be a whole number",
+    })
+    expect(parseEditValue("-12.50", "Monetary")).toEqual({ ok: true, value: -12.5 })
+    expect(parseEditValue("12,50", "Decimal")).toEqual({ ok: false, message: "Must be a number" })
+  })
+
+  it("should parse booleans case-insensitively", () => {
+    expect(parseEditValue("TRUE", "Boolean")).toEqual({ ok: true, value: true })
+    expect(parseEditValue("no", "Boolean")).toEqual({ ok: false, message: "Must be true or false" })
+  })
+
+  it("should keep other types as the text typed", () => {
+    expect(parseEditValue(" Smith ", "String")).toEqual({ ok: true, value: " Smith " })
+    expect(parseEditValue("2026-01-01", "Date")).toEqual({ ok: true, value: "2026-01-01" })
+  })
+})
+
+describe("diffRowEdits", () => {
+  it("should keep only the values that differ from the transformed values", () => {
+    const edits = diffRowEdits(
+      { FirstName: "Ann", Age: 40, Email: null },
+      { FirstName: "Anne", Age: 40, Email: null },
+    )
+
+    expect(edits).toEqual({ FirstName: "Anne" })
+  })
+
+  it("should compare as form text so an unchanged number is not an edit", () => {
+    expect(diffRowEdits({ Amount: "12.5" }, { Amount: 12.5 })).toEqual({})
+  })
+
+  it("should include properties that could not be transformed when a value is given", () => {
+    const edits = diffRowEdits(
+      { FirstName: "Ann" },
+      { FirstName: "Ann", Country: "NZ", Phone: null },
+    )
+
+    expect(edits).toEqual({ Country: "NZ" })
+  })
+
+  it("should record clearing a value as a null edit", () => {
+    expect(diffRowEdits({ Email: "bad@" }, { Email: null })).toEqual({ Email: null })
+  })
+})
+
+describe("applyRowEdits", () => {
+  const mapped = {
+    rowData: { FirstName: "Ann", Country: null } as Record<string, string | null>,
+    problems: [
+      { category: "unmapped_value" as const, property: "Country", message: "No mapping for 'XX'" },
+      { category: "invalid_value" as const, property: "Age", message: "Not a number: 'forty'" },
+    ],
+  }
+
+  it("should override the mapped values and drop the problems of edited properties", () => {
+    const result = applyRowEdits(mapped, { Country: "NZ" })
+
+    expect(result.rowData).toEqual({ FirstName: "Ann", Country: "NZ" })
+    expect(result.problems.map((problem) => problem.property)).toEqual(["Age"])
+  })
+
+  it("should leave the mapped row unchanged without edits", () => {
+    expect(applyRowEdits(mapped, null)).toBe(mapped)
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Tests for source row filters.
+ * Tests runtime behaviors that types cannot verify:
+ * - Matching of each operator, negation, and AND/OR combination
+ * - Which conditions are complete enough to save
+ * - Filter columns checked against the source during pre-validation
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  describeRowFilter,
+  isCompleteCondition,
+  matchesRowFilter,
+  type RowFilter,
+  type RowFilterCondition,
+} from "../src/lib/row-filter"
+import { validateSourceProperties } from "../src/services/migration-job"
+import { createPropertyMapping } from "./setup"
+
+const only = (condition: RowFilterCondition): RowFilter => ({
+  combinator: "and",
+  conditions: [condition],
+})
+
+describe("matchesRowFilter", () => {
+  it("should match every row without a filter or conditions", () => {
+    expect(matchesRowFilter({ Status: "A" }, null)).toBe(true)
+    expect(matchesRowFilter({ Status: "A" }, { combinator: "or", conditions: [] })).toBe(true)
+  })
+
+  describe("equals", () => {
+    const filter = only({ column: "Status", operator: "equals", value: "Active" })
+
+    it("should compare trimmed text ignoring case", () => {
+      expect(matchesRowFilter({ Status: " active " }, filter)).toBe(true)
+      expect(matchesRowFilter({ Status: "Inactive" }, filter)).toBe(false)
+    })
+
+    it("should compare numbers by their text", () => {
+      const byNumber = only({ column: "Year", operator: "equals", value: "2024" })
+
+      expect(matchesRowFilter({ Year: 2024 }, byNumber)).toBe(true)
+    })
+
+    it("should invert the result when negated", () => {
+      const notActive = only({
+        column: "Status",
+        operator: "equals",
+        value: "Active",
+        negate: true,
+      })
+
+      expect(matchesRowFilter({ Status: "Active" }, notActive)).toBe(false)
+      expect(matchesRowFilter({ Status: "Lapsed" }, notActive)).toBe(true)
+    })
+  })
+
+  describe("in", () => {
+    const filter = only({ column: "Type", operator: "in", values: ["REG", " stu"] })
+
+    it("should match any listed value", () => {
+      expect(matchesRowFilter({ Type: "reg" }, filter)).toBe(true)
+      expect(matchesRowFilter({ Type: "STU" }, filter)).toBe(true)
+      expect(matchesRowFilter({ Type: "HON" }, filter)).toBe(false)
+    })
+
+    it("should not match empty values", () => {
+      expect(matchesRowFilter({ Type: null }, filter)).toBe(false)
+    })
+  })
+
+  describe("isNull", () => {
+    const filter = only({ column: "Email", operator: "isNull" })
+
+    it("should match null, missing and blank values", () => {
+      expect(matchesRowFilter({ Email: null }, filter)).toBe(true)
+      expect(matchesRowFilter({}, filter)).toBe(true)
+      expect(matchesRowFilter({ Email: "  " }, filter)).toBe(true)
+      expect(matchesRowFilter({ Email: "a@b.org" }, filter)).toBe(false)
+    })
+  })
+
+  describe("dateRange", () => {
+    const filter = only({
+      column: "JoinDate",
+      operator: "dateRange",
+      from: "2020-01-01",
+      to: "2020-12-31",
+    })
+
+    it("should include both bounds", () => {
+      expect(matchesRowFilter({ JoinDate: "2020-01-01T00:00:00" }, filter)).toBe(true)
+      expect(matchesRowFilter({ JoinDate: "2020-12-31T23:59:59" }, filter)).toBe(true)
+      expect(matchesRowFilter({ JoinDate: "2021-01-01" }, filter)).toBe(false)
+    })
+
+    it("should accept a single bound", () => {
+      const after = only({ column: "JoinDate", operator: "dateRange", from: "2020-06-01" })
+
+      expect(matchesRowFilter({ JoinDate: "2024-02-29" }, after)).toBe(true)
+      expect(matchesRowFilter({ JoinDate: "2019-02-28" }, after)).toBe(false)
+    })
+
+    it("should not match values that are not dates", () => {
+      expect(matchesRowFilter({ JoinDate: "soon" }, filter)).toBe(false)
+      expect(matchesRowFilter({ JoinDate: null }, filter)).toBe(false)
+    })
+  })
+
+  it("should require every condition with AND and any condition with OR", () => {
+    const conditions: RowFilterCondition[] = [
+      { column: "Status", operator: "equals", value: "A" },
+      { column: "Email", operator: "isNull", negate: true },
+    ]
+    const row = { Status: "A", Email: null }
+
+    expect(matchesRowFilter(row, { combinator: "and", conditions })).toBe(false)
+    expect(matchesRowFilter(row, { combinator: "or", conditions })).toBe(true)
+  })
+})
+
+describe("isCompleteCondition", () => {
+  it("should require a column", () => {
+    expect(isCompleteCondition({ column: "", operator: "isNull" })).toBe(false)
+  })
+
+  it("should require a list value and a date bound", () => {
+    expect(isCompleteCondition({ column: "Type", operator: "in", values: [" ", ""] })).toBe(false)
+    expect(isCompleteCondition({ column: "Type", operator: "in", values: ["REG"] })).toBe(true)
+    expect(isCompleteCondition({ column: "JoinDate", operator: "dateRange" })).toBe(false)
+    expect(isCompleteCondition({ column: "JoinDate", operator: "dateRange", to: "2020-01-01" }))
+      .toBe(true)
+  })
+
+  it("should allow matching an empty text value", () => {
+    expect(isCompleteCondition({ column: "Status", operator: "equals", value: "" })).toBe(true)
+  })
+})
+
+describe("describeRowFilter", () => {
+  it("should join conditions with the combinator", () => {
+    const filter: RowFilter = {
+      combinator: "or",
+      conditions: [
+        { column: "Status", operator: "equals", value: "A", negate: true },
+        { column: "Type", operator: "in", values: ["REG", " STU"] },
+        { column: "JoinDate", operator: "dateRange", from: "2020-01-01" },
+      ],
+    }
+
+    expect(describeRowFilter(filter)).toBe(
+      'Status ≠ "A" OR Type in (REG, STU) OR JoinDate on or after 2020-01-01',
+    )
+  })
+})
+
+describe("validateSourceProperties with a row filter", () => {
+  it("should report filter columns missing from the source", () => {
+    const mappings = [createPropertyMapping("Name", "FullName")]
+    const filter = only({ column: "Status", operator: "equals", value: "A" })
+
+    expect(validateSourceProperties({ Name: "Jane" }, mappings, filter)).toEqual({
+      valid: false,
+      missing: ["Status"],
+    })
+    expect(validateSourceProperties({ Name: "Jane", Status: "A" }, mappings, filter)).toEqual({
+      valid: true,
+    })
+  })
+})
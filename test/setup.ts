@@ -122,6 +122,7 @@ export function createJob(overrides?: {
   destEnvironmentId?: string
   destEntityType?: string
   destType?: "bo_entity" | "custom_endpoint"
+  writeMode?: "insert" | "update" | "upsert"
   mappings?: PropertyMapping[]
 }) {
   return {
@@ -131,14 +132,30 @@ export function createJob(overrides?: {
     mode: overrides?.mode ?? "query",
     sourceEnvironmentId: overrides?.sourceEnvironmentId ?? crypto.randomUUID(),
     sourceQueryPath: "$/Test/Query",
+    queryParameters: null,
     sourceEntityType: null,
     destEnvironmentId: overrides?.destEnvironmentId ?? crypto.randomUUID(),
     destEntityType: overrides?.destEntityType ?? "TestEntity",
     destType: overrides?.destType ?? "bo_entity",
+    writeMode: overrides?.writeMode ?? "insert",
+    dryRun: false,
+    parentJobId: null,
+    parentSourceProperty: null,
+    parentKeyProperty: null,
+    sourceKeyProperty: null,
+    rowFilter: null,
+    watermarkColumn: null,
+    watermarkFrom: null,
+    watermarkValue: null,
+    olderRowCount: 0,
+    deltaOfJobId: null,
     mappings: JSON.stringify(overrides?.mappings ?? []),
     totalRows: null,
     failedQueryOffsets: null,
+    queryBatchSize: null,
     identityFieldNames: null,
+    runnerPid: null,
+    runnerHeartbeatAt: null,
     startedAt: null,
     completedAt: null,
     createdAt: new Date().toISOString(),
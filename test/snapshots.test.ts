@@ -0,0 +1,295 @@
+/**
+ * Tests for source snapshots.
+ * Tests runtime behaviors that types cannot verify:
+ * - A page read only returns the stored rows within the requested range, across pages
+ * - Snapshots left "capturing" by a closed app are reported as failed
+ * - Rows are decrypted with the source environment's password
+ * - Deleting a snapshot removes its pages
+ * - Two captures are diffed by key: added, removed and modified rows with their changed columns
+ * - The changed rows of a diff are stored as a snapshot a job can read
+ *
+ * Note: Capturing calls the IMIS API, so these tests store snapshot pages directly.
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from "bun:test"
+import { Effect, Layer } from "effect"
+import { eq } from "drizzle-orm"
+import { db } from "../src/db/client"
+import { environments, snapshotPages, snapshots, type Snapshot } from "../src/db/schema"
+import { encryptJson } from "../src/lib/encryption"
+import {
+  SnapshotService,
+  diffSnapshotRows,
+  rowsInRange,
+  withCaptureState,
+} from "../src/services/snapshots"
+import { SessionService } from "../src/services/session"
+import { PersistenceService } from "../src/services/persistence"
+import { ImisApiService } from "../src/services/imis-api"
+
+const TEST_ENV_ID = "test-snapshot-env-00000000"
+const TEST_SNAPSHOT_ID = "test-snapshot-00000000"
+const TEST_LATER_SNAPSHOT_ID = "test-snapshot-later-00000000"
+const PASSWORD = "source-secret"
+
+const TestServicesLayer = Layer.mergeAll(
+  SnapshotService.Default,
+  SessionService.Default,
+  PersistenceService.Default,
+  ImisApiService.Default
+)
+
+const runWithServices = <A, E>(
+  effect: Effect.Effect<A, E, SnapshotService | SessionService>
+): Promise<A> => Effect.runPromise(effect.pipe(Effect.provide(TestServicesLayer)))
+
+const createSnapshot = (overrides?: Partial<Snapshot>): Snapshot => ({
+  id: TEST_SNAPSHOT_ID,
+  name: "Members",
+  status: "ready",
+  environmentId: TEST_ENV_ID,
+  mode: "datasource",
+  sourceQueryPath: null,
+  queryParameters: null,
+  sourceEntityType: "CsContact",
+  diffBaseSnapshotId: null,
+  diffCompareSnapshotId: null,
+  totalRows: 5,
+  rowCount: 5,
+  errorMessage: null,
+  createdAt: new Date().toISOString(),
+  capturedAt: new Date().toISOString(),
+  ...overrides,
+})
+
+const storePages = async (snapshotId: string, pages: { offset: number; rows: object[] }[]) => {
+  for (const page of pages) {
+    db.insert(snapshotPages)
+      .values({
+        id: crypto.randomUUID(),
+        snapshotId,
+        offset: page.offset,
+        rowCount: page.rows.length,
+        encryptedRows: await encryptJson(page.rows, PASSWORD),
+      })
+      .run()
+  }
+}
+
+const cleanupTestData = async () => {
+  const testSnapshots = db
+    .select({ id: snapshots.id })
+    .from(snapshots)
+    .where(eq(snapshots.environmentId, TEST_ENV_ID))
+    .all()
+  for (const snapshot of testSnapshots) {
+    db.delete(snapshotPages).where(eq(snapshotPages.snapshotId, snapshot.id)).run()
+    db.delete(snapshots).where(eq(snapshots.id, snapshot.id)).run()
+  }
+  db.delete(environments).where(eq(environments.id, TEST_ENV_ID)).run()
+  await Effect.runPromise(
+    SessionService.clearAllSessions().pipe(Effect.provide(SessionService.Default))
+  )
+}
+
+describe("rowsInRange", () => {
+  const pages = [
+    { offset: 0, rows: [{ ID: 1 }, { ID: 2 }, { ID: 3 }] },
+    { offset: 3, rows: [{ ID: 4 }, { ID: 5 }] },
+  ]
+
+  it("should return the rows within the range, across page boundaries", () => {
+    expect(rowsInRange(pages, 3, 1)).toEqual([{ ID: 2 }, { ID: 3 }, { ID: 4 }])
+    expect(rowsInRange(pages, 10, 3)).toEqual([{ ID: 4 }, { ID: 5 }])
+    expect(rowsInRange(pages, 2, 5)).toEqual([])
+  })
+})
+
+describe("withCaptureState", () => {
+  it("should report a capture that no longer runs as failed", () => {
+    const snapshot = withCaptureState(createSnapshot({ status: "capturing", capturedAt: null }))
+
+    expect(snapshot.status).toBe("failed")
+    expect(snapshot.errorMessage).toContain("closed before the snapshot was captured")
+    expect(withCaptureState(createSnapshot()).status).toBe("ready")
+  })
+})
+
+describe("diffSnapshotRows", () => {
+  it("should match rows on the key and report added, removed and modified rows", () => {
+    const diff = diffSnapshotRows(
+      [
+        { ID: 1, Name: "Ann", City: "Oslo" },
+        { ID: 2, Name: "Bo", City: "Rome" },
+        { ID: 3, Name: "Cy", City: null },
+      ],
+      [
+        { ID: 1, Name: "Ann", City: "Oslo" },
+        { ID: 3, Name: "Cy", City: "Lima" },
+        { ID: 4, Name: "Di", City: "Kyiv" },
+      ],
+      ["ID"]
+    )
+
+    expect(diff.entries).toEqual([
+      { key: "3", kind: "modified", changes: [{ column: "City", before: null, after: "Lima" }] },
+      { key: "4", kind: "added", changes: [] },
+      { key: "2", kind: "removed", changes: [] },
+    ])
+    expect(diff.changedRows.map((row) => row.ID)).toEqual([3, 4])
+    expect(diff.unchanged).toBe(1)
+  })
+
+  it("should count rows without a key and report keys held by more than one row", () => {
+    const diff = diffSnapshotRows(
+      [{ ID: 1, Name: "Ann" }],
+      [
+        { ID: 1, Name: "Ann" },
+        { ID: 1, Name: "Anne" },
+        { ID: "", Name: "Nobody" },
+      ],
+      ["ID"]
+    )
+
+    expect(diff.unkeyed).toBe(1)
+    expect(diff.duplicateKeys).toEqual(["1"])
+    expect(diff.entries).toEqual([
+      { key: "1", kind: "modified", changes: [{ column: "Name", before: "Ann", after: "Anne" }] },
+    ])
+  })
+})
+
+describe("SnapshotService", () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+    const now = new Date().toISOString()
+    db.insert(environments)
+      .values({
+        id: TEST_ENV_ID,
+        name: "Test Source",
+        baseUrl: "https://source.imis.com",
+        username: "sourceuser",
+        queryConcurrency: 5,
+        insertConcurrency: 50,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .run()
+    db.insert(snapshots).values(createSnapshot()).run()
+    await storePages(TEST_SNAPSHOT_ID, [
+      { offset: 0, rows: [{ ID: 1 }, { ID: 2 }, { ID: 3 }] },
+      { offset: 3, rows: [{ ID: 4 }, { ID: 5 }] },
+    ])
+  })
+
+  afterAll(async () => {
+    await cleanupTestData()
+  })
+
+  it("should read a page of rows in the shape of a query result", async () => {
+    const page = await runWithServices(
+      Effect.gen(function* () {
+        yield* SessionService.setPassword(TEST_ENV_ID, PASSWORD)
+        return yield* SnapshotService.readPage(TEST_SNAPSHOT_ID, 2, 2)
+      })
+    )
+
+    expect(page.Items.$values).toEqual([{ ID: 3 }, { ID: 4 }])
+    expect(page.TotalCount).toBe(5)
+    expect(page.HasNext).toBe(true)
+    expect(page.NextOffset).toBe(4)
+  })
+
+  it("should fail when the rows cannot be decrypted with the source password", async () => {
+    const result = await runWithServices(
+      Effect.gen(function* () {
+        yield* SessionService.setPassword(TEST_ENV_ID, "wrong-password")
+        return yield* SnapshotService.readPage(TEST_SNAPSHOT_ID, 2, 0).pipe(Effect.either)
+      })
+    )
+
+    expect(result._tag).toBe("Left")
+    if (result._tag === "Left") expect(result.left._tag).toBe("SnapshotError")
+  })
+
+  it("should delete the snapshot with its pages", async () => {
+    await runWithServices(SnapshotService.delete(TEST_SNAPSHOT_ID))
+
+    const pages = db
+      .select()
+      .from(snapshotPages)
+      .where(eq(snapshotPages.snapshotId, TEST_SNAPSHOT_ID))
+      .all()
+    expect(pages).toHaveLength(0)
+    const result = await runWithServices(
+      SnapshotService.get(TEST_SNAPSHOT_ID).pipe(Effect.either)
+    )
+    expect(result._tag).toBe("Left")
+  })
+
+  describe("diffs", () => {
+    beforeEach(async () => {
+      db.insert(snapshots)
+        .values(createSnapshot({ id: TEST_LATER_SNAPSHOT_ID, name: "Members later" }))
+        .run()
+      await storePages(TEST_LATER_SNAPSHOT_ID, [
+        { offset: 0, rows: [{ ID: 1 }, { ID: 2, Name: "Bo" }, { ID: 6 }] },
+      ])
+    })
+
+    const diffInput = {
+      baseSnapshotId: TEST_SNAPSHOT_ID,
+      compareSnapshotId: TEST_LATER_SNAPSHOT_ID,
+      keyProperty: "ID",
+    }
+
+    it("should count each kind of change and page through the changes", async () => {
+      const diff = await runWithServices(
+        Effect.gen(function* () {
+          yield* SessionService.setPassword(TEST_ENV_ID, PASSWORD)
+          return yield* SnapshotService.diff({ ...diffInput, kind: null, limit: 2, offset: 0 })
+        })
+      )
+
+      expect(diff.keyProperties).toEqual(["ID"])
+      expect([diff.added, diff.removed, diff.modified, diff.unchanged]).toEqual([1, 3, 1, 1])
+      expect(diff.total).toBe(5)
+      expect(diff.entries.map((entry) => `${entry.kind} ${entry.key}`)).toEqual([
+        "modified 2",
+        "added 6",
+      ])
+    })
+
+    it("should store the added and modified rows as a ready snapshot of the source", async () => {
+      const snapshot = await runWithServices(
+        Effect.gen(function* () {
+          yield* SessionService.setPassword(TEST_ENV_ID, PASSWORD)
+          return yield* SnapshotService.createFromDiff({ ...diffInput, name: "Changes" })
+        })
+      )
+
+      expect(snapshot.status).toBe("ready")
+      expect(snapshot.sourceEntityType).toBe("CsContact")
+      expect(snapshot.diffBaseSnapshotId).toBe(TEST_SNAPSHOT_ID)
+      expect(snapshot.rowCount).toBe(2)
+      const page = await runWithServices(SnapshotService.readPage(snapshot.id, 10, 0))
+      expect(page.Items.$values).toEqual([{ ID: 2, Name: "Bo" }, { ID: 6 }])
+    })
+
+    it("should refuse to compare snapshots of different sources", async () => {
+      db.update(snapshots)
+        .set({ sourceEntityType: "CsAddress" })
+        .where(eq(snapshots.id, TEST_LATER_SNAPSHOT_ID))
+        .run()
+
+      const result = await runWithServices(
+        SnapshotService.diff({ ...diffInput, kind: null, limit: 10, offset: 0 }).pipe(
+          Effect.either
+        )
+      )
+
+      expect(result._tag).toBe("Left")
+      if (result._tag === "Left") expect(result.left.message).toContain("different sources")
+    })
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * Tests for reading uploaded CSV and XLSX files as job source rows.
+ * Tests runtime behaviors that types cannot verify:
+ * - Column types are inferred from every value (codes with leading zeros stay text)
+ * - Header rows name the columns; blank and repeated names are made unique
+ * - Semicolon separated CSV files (as Excel saves them in some regions) are detected
+ * - XLSX shared strings, inline strings, booleans, date formats and gaps are read
+ */
+
+import { describe, it, expect } from "bun:test"
+import { cellsToSourceRows, inferColumnType, readSourceFile } from "../src/lib/source-file"
+import { excelSerialToIso } from "../src/lib/xlsx"
+
+// Build a ZIP archive with deflated entries (enough of the format for the XLSX reader)
+const zip = async (files: Record<string, string>): Promise<Uint8Array> => {
+  const locals: Uint8Array<ArrayBuffer>[] = []
+  const centrals: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = new TextEncoder().encode(name)
+    const raw = new TextEncoder().encode(text)
+    const stream = new Blob([raw]).stream().pipeThrough(new CompressionStream("deflate-raw"))
+    const data = new Uint8Array(await new Response(stream).arrayBuffer())
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length)
+    const lv = new DataView(local.buffer)
+    lv.setUint32(0, 0x04034b50, true)
+    lv.setUint16(8, 8, true)
+    lv.setUint32(18, data.length, true)
+    lv.setUint32(22, raw.length, true)
+    lv.setUint16(26, nameBytes.length, true)
+    local.set(nameBytes, 30)
+    local.set(data, 30 + nameBytes.length)
+
+    const central = new Uint8Array(46 + nameBytes.length)
+    const cv = new DataView(central.buffer)
+    cv.setUint32(0, 0x02014b50, true)
+    cv.setUint16(10, 8, true)
+    cv.setUint32(20, data.length, true)
+    cv.setUint32(24, raw.length, true)
+    cv.setUint16(28, nameBytes.length, true)
+    cv.setUint32(42, offset, true)
+    central.set(nameBytes, 46)
+
+    locals.push(local)
+    centrals.push(central)
+    offset += local.length
+  }
+  const centralSize = centrals.reduce((size, entry) => size + entry.length, 0)
+  const end = new Uint8Array(22)
+  const ev = new DataView(end.buffer)
+  ev.setUint32(0, 0x06054b50, true)
+  ev.setUint16(8, centrals.length, true)
+  ev.setUint16(10, centrals.length, true)
+  ev.setUint32(12, centralSize, true)
+  ev.setUint32(16, offset, true)
+  return new Uint8Array(await new Blob([...locals, ...centrals, end]).arrayBuffer())
+}
+
+const workbook = (sheetData: string) =>
+  zip({
+    "xl/workbook.xml":
+      '<workbook><sheets><sheet name="People" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    "xl/_rels/workbook.xml.rels":
+      '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+    "xl/worksheets/sheet1.xml": `<worksheet><sheetData>${sheetData}</sheetData></worksheet>`,
+    "xl/sharedStrings.xml":
+      "<sst><si><t>Name</t></si><si><r><t>Ann </t></r><r><t>Lee</t></r></si></sst>",
+    // Style 1 is the built-in short date format
+    "xl/styles.xml":
+      '<styleSheet><cellXfs><xf numFmtId="0"/><xf numFmtId="14"/></cellXfs></styleSheet>',
+  })
+
+describe("inferColumnType", () => {
+  it("should pick the narrowest type that fits every value", () => {
+    expect(inferColumnType(["1", "-20", null, ""])).toBe("Integer")
+    expect(inferColumnType(["1", "2.5"])).toBe("Decimal")
+    expect(inferColumnType(["TRUE", "false"])).toBe("Boolean")
+    expect(inferColumnType(["2024-01-31", "2024-02-01T09:30:00"])).toBe("Date")
+    expect(inferColumnType(["1", "two"])).toBe("String")
+  })
+
+  it("should keep codes with leading zeros and empty columns as text", () => {
+    expect(inferColumnType(["00123", "00456"])).toBe("String")
+    expect(inferColumnType([null, " "])).toBe("String")
+  })
+})
+
+describe("cellsToSourceRows", () => {
+  it("should name blank and repeated columns and skip blank rows", () => {
+    const result = cellsToSourceRows("csv", [
+      ["Name", "", "Name"],
+      ["", null, ""],
+      ["Ann", "x", "Lee", "extra"],
+    ])
+
+    expect(result).toEqual({
+      ok: true,
+      data: {
+        format: "csv",
+        columns: [
+          { name: "Name", type: "String" },
+          { name: "Column2", type: "String" },
+          { name: "Name (2)", type: "String" },
+          { name: "Column4", type: "String" },
+        ],
+        rows: [{ Name: "Ann", Column2: "x", "Name (2)": "Lee", Column4: "extra" }],
+      },
+    })
+  })
+
+  it("should reject a file without a header row", () => {
+    expect(cellsToSourceRows("csv", [])).toEqual({
+      ok: false,
+      message: "The file has no header row",
+    })
+  })
+})
+
+describe("readSourceFile", () => {
+  const bytes = (text: string) => new TextEncoder().encode(text)
+
+  it("should read a CSV file with typed values", async () => {
+    const result = await readSourceFile(
+      "members.csv",
+      bytes("ID,Joined,Active,Notes\r\n7,2024-01-31,true,\r\n8,2024-02-01,false,VIP\r\n"),
+    )
+
+    expect(result.ok && result.data.columns.map((column) => column.type)).toEqual([
+      "Integer",
+      "Date",
+      "Boolean",
+      "String",
+    ])
+    expect(result.ok && result.data.rows).toEqual([
+      { ID: 7, Joined: "2024-01-31", Active: true, Notes: null },
+      { ID: 8, Joined: "2024-02-01", Active: false, Notes: "VIP" },
+    ])
+  })
+
+  it("should detect semicolon separated CSV files", async () => {
+    const result = await readSourceFile("members.CSV", bytes("ID;Name\n1;Ann, Lee\n"))
+
+    expect(result.ok && result.data.rows).toEqual([{ ID: 1, Name: "Ann, Lee" }])
+  })
+
+  it("should reject files that are not CSV or XLSX", async () => {
+    expect(await readSourceFile("members.xls", bytes(""))).toEqual({
+      ok: false,
+      message: "members.xls is not a CSV or XLSX file",
+    })
+  })
+
+  it("should read the first worksheet of an XLSX workbook", async () => {
+    const file = await workbook(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="inlineStr"><is><t>Joined</t></is></c>' +
+        '<c r="D1" t="str"><v>Active</v></c></row>' +
+        '<row r="2"><c r="A2" t="s"><v>1</v></c><c r="B2" s="1"><v>45322</v></c>' +
+        '<c r="D2" t="b"><v>1</v></c></row>',
+    )
+
+    const result = await readSourceFile("people.xlsx", file)
+
+    expect(result).toEqual({
+      ok: true,
+      data: {
+        format: "xlsx",
+        columns: [
+          { name: "Name", type: "String" },
+          { name: "Joined", type: "Date" },
+          { name: "Column3", type: "String" },
+          { name: "Active", type: "Boolean" },
+        ],
+        rows: [{ Name: "Ann Lee", Joined: "2024-01-31", Column3: null, Active: true }],
+      },
+    })
+  })
+
+  it("should report a damaged workbook", async () => {
+    expect(await readSourceFile("people.xlsx", bytes("not a zip file at all, really"))).toEqual({
+      ok: false,
+      message: "The file is not a valid XLSX workbook",
+    })
+  })
+})
+
+describe("excelSerialToIso", () => {
+  it("should convert date serials with and without a time of day", () => {
+    expect(excelSerialToIso(45322)).toBe("2024-01-31")
+    expect(excelSerialToIso(45322.5)).toBe("2024-01-31T12:00:00")
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * Tests for per-mapping value transform steps.
+ * Tests runtime behaviors that types cannot verify:
+ * - Each step's conversion and its handling of values it does not apply to
+ * - Step ordering and application inside transformRow
+ */
+
+import { describe, it, expect } from "bun:test"
+import { applyTransformStep, applyTransforms, parseDateParts } from "../src/lib/transforms"
+import { transformRow } from "../src/services/migration-job"
+import { createPropertyMapping } from "./setup"
+
+describe("applyTransformStep", () => {
+  describe("trim", () => {
+    it("should remove surrounding whitespace", () => {
+      expect(applyTransformStep("  Jane \t", { type: "trim" })).toBe("Jane")
+    })
+
+    it("should leave non-string values unchanged", () => {
+      expect(applyTransformStep(42, { type: "trim" })).toBe(42)
+      expect(applyTransformStep(null, { type: "trim" })).toBeNull()
+    })
+  })
+
+  describe("changeCase", () => {
+    it("should convert to upper and lower case", () => {
+      expect(applyTransformStep("MiXed", { type: "changeCase", mode: "upper" })).toBe("MIXED")
+      expect(applyTransformStep("MiXed", { type: "changeCase", mode: "lower" })).toBe("mixed")
+    })
+
+    it("should capitalize each word in title case", () => {
+      const step = { type: "changeCase", mode: "title" } as const
+
+      expect(applyTransformStep("mary-jane o'NEIL", step)).toBe("Mary-Jane O'Neil")
+      expect(applyTransformStep("élodie dupont", step)).toBe("Élodie Dupont")
+    })
+  })
+
+  describe("formatDate", () => {
+    it("should reformat ISO dates", () => {
+      const step = { type: "formatDate", outputFormat: "MM/dd/yyyy" } as const
+
+      expect(applyTransformStep("2024-01-31T13:45:00", step)).toBe("01/31/2024")
+    })
+
+    it("should read dates with an input format", () => {
+      const step = {
+        type: "formatDate",
+        inputFormat: "dd.MM.yyyy",
+        outputFormat: "yyyy-MM-ddTHH:mm:ss",
+      } as const
+
+      expect(applyTransformStep("5.3.2023", step)).toBe("2023-03-05T00:00:00")
+    })
+
+    it("should leave values that are not dates unchanged", () => {
+      const step = { type: "formatDate", inputFormat: "MM/dd/yyyy", outputFormat: "yyyy" } as const
+
+      expect(applyTransformStep("13/01/2024", step)).toBe("13/01/2024")
+      expect(applyTransformStep("soon", { ...step, inputFormat: "yyyy" })).toBe("soon")
+    })
+  })
+
+  describe("parseNumber", () => {
+    it("should strip currency symbols and thousands separators", () => {
+      const step = { type: "parseNumber", decimalSeparator: "." } as const
+
+      expect(applyTransformStep("$1,234.50", step)).toBe(1234.5)
+      expect(applyTransformStep("-42", step)).toBe(-42)
+    })
+
+    it("should read decimal commas", () => {
+      const step = { type: "parseNumber", decimalSeparator: "," } as const
+
+      expect(applyTransformStep("1.234,5 €", step)).toBe(1234.5)
+    })
+
+    it("should leave unparseable values unchanged", () => {
+      const step = { type: "parseNumber", decimalSeparator: "." } as const
+
+      expect(applyTransformStep("n/a", step)).toBe("n/a")
+      expect(applyTransformStep("1-2-3", step)).toBe("1-2-3")
+      expect(applyTransformStep(7, step)).toBe(7)
+    })
+  })
+
+  describe("defaultIfNull", () => {
+    const step = { type: "defaultIfNull", value: "Unknown" } as const
+
+    it("should replace null, missing and empty values", () => {
+      expect(applyTransformStep(null, step)).toBe("Unknown")
+      expect(applyTransformStep(undefined, step)).toBe("Unknown")
+      expect(applyTransformStep("", step)).toBe("Unknown")
+    })
+
+    it("should keep present values", () => {
+      expect(applyTransformStep("Jane", step)).toBe("Jane")
+      expect(applyTransformStep(0, step)).toBe(0)
+      expect(applyTransformStep(false, step)).toBe(false)
+    })
+  })
+
+  describe("truncate", () => {
+    it("should cut strings longer than the max length", () => {
+      expect(applyTransformStep("Johnson", { type: "truncate", maxLength: 5 })).toBe("Johns")
+    })
+
+    it("should keep strings within the max length", () => {
+      expect(applyTransformStep("Smith", { type: "truncate", maxLength: 5 })).toBe("Smith")
+    })
+  })
+
+  describe("regexReplace", () => {
+    it("should replace every match with group references", () => {
+      const step = {
+        type: "regexReplace",
+        pattern: "(\\d{3})(\\d{4})",
+        replacement: "$1-$2",
+      } as const
+
+      expect(applyTransformStep("5551234 / 5559876", step)).toBe("555-1234 / 555-9876")
+    })
+
+    it("should honor flags", () => {
+      const step = {
+        type: "regexReplace",
+        pattern: "mr\\.?\\s*",
+        replacement: "",
+        flags: "i",
+      } as const
+
+      expect(applyTransformStep("MR. Smith", step)).toBe("Smith")
+    })
+
+    it("should leave values unchanged for an empty or invalid pattern", () => {
+      const step = { type: "regexReplace", pattern: "", replacement: "x" } as const
+
+      expect(applyTransformStep("abc", step)).toBe("abc")
+      expect(applyTransformStep("abc", { ...step, pattern: "(" })).toBe("abc")
+    })
+  })
+})
+
+describe("applyTransforms", () => {
+  it("should apply steps in order", () => {
+    const result = applyTransforms("  jane doe  ", [
+      { type: "trim" },
+      { type: "changeCase", mode: "title" },
+      { type: "truncate", maxLength: 6 },
+    ])
+
+    expect(result).toBe("Jane D")
+  })
+
+  it("should return the value unchanged with no steps", () => {
+    expect(applyTransforms(" x ", [])).toBe(" x ")
+  })
+})
+
+describe("parseDateParts", () => {
+  it("should reject impossible months and days", () => {
+    expect(parseDateParts("2024-13-01")).toBeNull()
+    expect(parseDateParts("00/10/2024", "dd/MM/yyyy")).toBeNull()
+  })
+})
+
+describe("transformRow with transforms", () => {
+  it("should apply each mapping's steps before writing", () => {
+    const mappings = [
+      { ...createPropertyMapping("name", "LastName"), transforms: [{ type: "trim" as const }] },
+      createPropertyMapping("city", "City"),
+    ]
+
+    const result = transformRow({ name: " Doe ", city: " Paris " }, mappings)
+
+    expect(result).toEqual({ LastName: "Doe", City: " Paris " })
+  })
+
+  it("should include defaults for missing source values", () => {
+    const mappings = [
+      {
+        ...createPropertyMapping("status", "Status"),
+        transforms: [{ type: "defaultIfNull" as const, value: "A" }],
+      },
+    ]
+
+    expect(transformRow({}, mappings)).toEqual({ Status: "A" })
+  })
+})
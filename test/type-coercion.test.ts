@@ -0,0 +1,190 @@
+/**
+ * Tests for type coercion of mapped values.
+ * Tests runtime behaviors that types cannot verify:
+ * - Which conversions are offered for each pair of source and destination types
+ * - Date, number and boolean parsing, and the messages for values that can't be converted
+ * - Coercion applied by the row mapper after transforms, with failures reported per field
+ */
+
+import { describe, it, expect } from "bun:test"
+import { availableCoercion, coerceValue, describeCoercion } from "../src/lib/coercion"
+import { checkCompatibility } from "../src/components/export/PropertyMapper"
+import { mapSourceRow } from "../src/services/migration-job"
+import { createIntegerProperty, createPropertyMapping, createStringProperty } from "./setup"
+
+describe("availableCoercion", () => {
+  it("should offer conversions from text to other types", () => {
+    expect(availableCoercion("String", "Date")).toEqual({ to: "Date" })
+    expect(availableCoercion("String", "Decimal")).toEqual({ to: "Decimal", decimalSeparator: "." })
+    expect(availableCoercion("String", "Boolean")).toEqual({ to: "Boolean" })
+  })
+
+  it("should offer conversions between numeric types and to text", () => {
+    expect(availableCoercion("Decimal", "Integer")).toEqual({
+      to: "Integer",
+      decimalSeparator: ".",
+    })
+    expect(availableCoercion("Date", "String")).toEqual({ to: "String" })
+  })
+
+  it("should offer nothing for matching types or unsupported pairs", () => {
+    expect(availableCoercion("String", "String")).toBeNull()
+    expect(availableCoercion("Date", "Integer")).toBeNull()
+    expect(availableCoercion("Binary", "String")).toBeNull()
+  })
+})
+
+describe("coerceValue", () => {
+  describe("dates", () => {
+    it("should read dates with an input format and write ISO", () => {
+      expect(coerceValue("31/01/2024", { to: "Date", inputFormat: "dd/MM/yyyy" })).toEqual({
+        ok: true,
+        value: "2024-01-31T00:00:00",
+      })
+    })
+
+    it("should read ISO dates without a format", () => {
+      expect(coerceValue("2024-01-31 14:05", { to: "Date" })).toEqual({
+        ok: true,
+        value: "2024-01-31T14:05:00",
+      })
+    })
+
+    it("should name the format a value does not match", () => {
+      expect(coerceValue("2024-01-31", { to: "Date", inputFormat: "dd/MM/yyyy" })).toEqual({
+        ok: false,
+        message: 'Cannot convert "2024-01-31" to Date: does not match format dd/MM/yyyy',
+      })
+    })
+
+    it("should reject text that is not a date", () => {
+      expect(coerceValue("soon", { to: "Date" })).toEqual({
+        ok: false,
+        message: 'Cannot convert "soon" to Date: not a recognizable date',
+      })
+    })
+  })
+
+  describe("numbers", () => {
+    it("should read decimal point numbers with thousands separators and currency", () => {
+      expect(coerceValue("$1,234.50", { to: "Monetary", decimalSeparator: "." })).toEqual({
+        ok: true,
+        value: 1234.5,
+      })
+    })
+
+    it("should read decimal comma numbers", () => {
+      expect(coerceValue("1.234,5", { to: "Decimal", decimalSeparator: "," })).toEqual({
+        ok: true,
+        value: 1234.5,
+      })
+    })
+
+    it("should reject fractions for integers", () => {
+      expect(coerceValue("12.5", { to: "Integer", decimalSeparator: "." })).toEqual({
+        ok: false,
+        message: 'Cannot convert "12.5" to Integer: not a whole number',
+      })
+    })
+
+    it("should reject text that is not a number", () => {
+      expect(coerceValue("12 apples", { to: "Decimal", decimalSeparator: "." })).toEqual({
+        ok: false,
+        message: 'Cannot convert "12 apples" to Decimal',
+      })
+    })
+  })
+
+  describe("booleans", () => {
+    it("should read common true and false spellings", () => {
+      expect(coerceValue("Yes", { to: "Boolean" })).toEqual({ ok: true, value: true })
+      expect(coerceValue(" n ", { to: "Boolean" })).toEqual({ ok: true, value: false })
+      expect(coerceValue(1, { to: "Boolean" })).toEqual({ ok: true, value: true })
+    })
+
+    it("should reject other values", () => {
+      expect(coerceValue("maybe", { to: "Boolean" })).toEqual({
+        ok: false,
+        message: 'Cannot convert "maybe" to Boolean',
+      })
+    })
+  })
+
+  it("should write other types as text", () => {
+    expect(coerceValue(42, { to: "String" })).toEqual({ ok: true, value: "42" })
+    expect(coerceValue(false, { to: "String" })).toEqual({ ok: true, value: "false" })
+  })
+
+  it("should turn blank text into null except for text destinations", () => {
+    expect(coerceValue("  ", { to: "Date" })).toEqual({ ok: true, value: null })
+    expect(coerceValue("", { to: "String" })).toEqual({ ok: true, value: "" })
+    expect(coerceValue(null, { to: "Integer", decimalSeparator: "." })).toEqual({
+      ok: true,
+      value: null,
+    })
+  })
+})
+
+describe("describeCoercion", () => {
+  it("should summarize the conversion settings", () => {
+    expect(describeCoercion({ to: "Date", inputFormat: "dd/MM/yyyy" })).toBe("Date (dd/MM/yyyy)")
+    expect(describeCoercion({ to: "Decimal", decimalSeparator: "," })).toBe("Decimal (1.234,5)")
+  })
+})
+
+describe("checkCompatibility with a coercion", () => {
+  it("should accept mismatched types converted to the destination type", () => {
+    const result = checkCompatibility(
+      createStringProperty("Age"),
+      createIntegerProperty("Age"),
+      { to: "Integer", decimalSeparator: "." },
+    )
+
+    expect(result).toEqual({ compatible: true, warnings: [] })
+  })
+
+  it("should still flag a conversion to a different type", () => {
+    const result = checkCompatibility(createStringProperty("Age"), createIntegerProperty("Age"), {
+      to: "Boolean",
+    })
+
+    expect(result.compatible).toBe(false)
+    expect(result.warnings[0]!.message).toContain("Add a conversion")
+  })
+})
+
+describe("mapSourceRow with coercions", () => {
+  it("should convert values after transforms", () => {
+    const mapping = {
+      ...createPropertyMapping("Joined", "JoinDate"),
+      transforms: [{ type: "trim" as const }],
+      coercion: { to: "Date" as const, inputFormat: "MM/dd/yyyy" },
+    }
+
+    expect(mapSourceRow({ Joined: " 02/29/2024 " }, [mapping])).toEqual({
+      rowData: { JoinDate: "2024-02-29T00:00:00" },
+      problems: [],
+    })
+  })
+
+  it("should report values that can't be converted and leave the field out", () => {
+    const mappings = [
+      {
+        ...createPropertyMapping("Dues", "DuesAmount"),
+        coercion: { to: "Monetary" as const, decimalSeparator: "." as const },
+      },
+      createPropertyMapping("Name", "FullName"),
+    ]
+
+    expect(mapSourceRow({ Dues: "N/A", Name: "Jane" }, mappings)).toEqual({
+      rowData: { FullName: "Jane" },
+      problems: [
+        {
+          category: "invalid_value",
+          property: "DuesAmount",
+          message: 'DuesAmount: Cannot convert "N/A" to Monetary',
+        },
+      ],
+    })
+  })
+})
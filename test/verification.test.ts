@@ -0,0 +1,79 @@
+/**
+ * Tests for post-migration verification.
+ * Tests runtime behaviors that types cannot verify:
+ * - Which destination values count as matching the written values
+ * - Fields reported as mismatches
+ * - Which jobs can be verified
+ */
+
+import { describe, it, expect } from "bun:test"
+import { findFieldMismatches, valuesMatch } from "../src/lib/verification"
+import { verificationProblem } from "../src/services/migration-job"
+
+describe("valuesMatch", () => {
+  it("should treat null, missing and blank values as empty", () => {
+    expect(valuesMatch(null, undefined)).toBe(true)
+    expect(valuesMatch("", null)).toBe(true)
+    expect(valuesMatch("A", null)).toBe(false)
+  })
+
+  it("should compare numbers by value", () => {
+    expect(valuesMatch(1, "1.0")).toBe(true)
+    expect(valuesMatch("12", 13)).toBe(false)
+  })
+
+  it("should ignore the case of booleans but not of text", () => {
+    expect(valuesMatch(true, "True")).toBe(true)
+    expect(valuesMatch("Smith", "SMITH")).toBe(false)
+  })
+
+  it("should compare dates by instant", () => {
+    expect(valuesMatch("2024-01-31", "2024-01-31T00:00:00")).toBe(true)
+    expect(valuesMatch("2024-01-31T08:30:00", "2024-01-31T08:30:00.000")).toBe(true)
+    expect(valuesMatch("2024-01-31", "2024-02-01T00:00:00")).toBe(false)
+  })
+
+  it("should compare binary blobs by content", () => {
+    const blob = { $type: "System.Byte[], mscorlib", $value: "AQID" }
+
+    expect(valuesMatch(blob, { ...blob })).toBe(true)
+    expect(valuesMatch(blob, { ...blob, $value: "BAUG" })).toBe(false)
+  })
+})
+
+describe("findFieldMismatches", () => {
+  it("should report each differing field with both values", () => {
+    const expected = { FirstName: "Jane", LastName: "Doe", Status: "A" }
+    const actual = { FirstName: "Jane", LastName: "Smith", Extra: "ignored" }
+
+    expect(findFieldMismatches(expected, actual)).toEqual([
+      { property: "LastName", expected: "Doe", actual: "Smith" },
+      { property: "Status", expected: "A", actual: null },
+    ])
+  })
+
+  it("should return nothing when every written field matches", () => {
+    expect(findFieldMismatches({ Count: 3 }, { Count: "3", Other: "x" })).toEqual([])
+  })
+})
+
+describe("verificationProblem", () => {
+  const job = {
+    name: "Contacts",
+    status: "completed" as const,
+    dryRun: false,
+    destType: "bo_entity" as const,
+  }
+
+  it("should allow finished jobs that wrote to a BO entity", () => {
+    expect(verificationProblem(job)).toBeNull()
+    expect(verificationProblem({ ...job, status: "partial" })).toBeNull()
+  })
+
+  it("should reject dry runs, custom endpoints, files and unfinished jobs", () => {
+    expect(verificationProblem({ ...job, dryRun: true })).toContain("dry run")
+    expect(verificationProblem({ ...job, destType: "custom_endpoint" })).toContain("custom")
+    expect(verificationProblem({ ...job, destType: "file" })).toContain("file")
+    expect(verificationProblem({ ...job, status: "running" })).toContain("status: running")
+  })
+})
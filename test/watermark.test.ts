@@ -0,0 +1,85 @@
+/**
+ * Tests for delta run watermarks.
+ * Tests runtime behaviors that types cannot verify:
+ * - Watermark values read from source rows
+ * - Ordering of numeric, date and text watermarks
+ * - Which rows a delta run migrates
+ */
+
+import { describe, it, expect } from "bun:test"
+import {
+  compareWatermarks,
+  isAtOrAfterWatermark,
+  maxWatermark,
+  watermarkValueOf,
+} from "../src/lib/watermark"
+import { validateSourceProperties } from "../src/services/migration-job"
+import { createPropertyMapping } from "./setup"
+
+describe("watermarkValueOf", () => {
+  it("should read strings and numbers as trimmed text", () => {
+    expect(watermarkValueOf({ UpdatedOn: " 2026-03-01T10:00:00 " }, "UpdatedOn")).toBe(
+      "2026-03-01T10:00:00"
+    )
+    expect(watermarkValueOf({ Seq: 42 }, "Seq")).toBe("42")
+  })
+
+  it("should return null for missing, blank and non-primitive values", () => {
+    expect(watermarkValueOf({}, "UpdatedOn")).toBeNull()
+    expect(watermarkValueOf({ UpdatedOn: "" }, "UpdatedOn")).toBeNull()
+    expect(watermarkValueOf({ UpdatedOn: { $value: "x" } }, "UpdatedOn")).toBeNull()
+  })
+})
+
+describe("compareWatermarks", () => {
+  it("should compare numbers numerically", () => {
+    expect(compareWatermarks("9", "10")).toBeLessThan(0)
+  })
+
+  it("should compare dates chronologically", () => {
+    expect(compareWatermarks("2026-03-01T10:00:00.5", "2026-03-01T10:00:00.25")).toBeGreaterThan(0)
+    expect(compareWatermarks("3/2/2026", "2026-03-01")).toBeGreaterThan(0)
+  })
+
+  it("should fall back to text order", () => {
+    expect(compareWatermarks("B-100", "A-200")).toBeGreaterThan(0)
+  })
+})
+
+describe("maxWatermark", () => {
+  it("should keep the later value and ignore nulls", () => {
+    expect(maxWatermark(null, "5")).toBe("5")
+    expect(maxWatermark("12", null)).toBe("12")
+    expect(maxWatermark("12", "5")).toBe("12")
+  })
+})
+
+describe("isAtOrAfterWatermark", () => {
+  it("should accept every row on a full run", () => {
+    expect(isAtOrAfterWatermark(null, null)).toBe(true)
+  })
+
+  it("should accept rows from the starting watermark on", () => {
+    const from = "2026-03-01T10:00:00"
+
+    expect(isAtOrAfterWatermark("2026-03-01T10:00:01", from)).toBe(true)
+    expect(isAtOrAfterWatermark("2026-03-01T09:59:59", from)).toBe(false)
+    expect(isAtOrAfterWatermark(null, from)).toBe(false)
+  })
+
+  it("should accept rows sharing the starting watermark, such as changes in the same second", () => {
+    expect(isAtOrAfterWatermark("2026-03-01T10:00:00", "2026-03-01T10:00:00")).toBe(true)
+    expect(isAtOrAfterWatermark("42", "42")).toBe(true)
+  })
+})
+
+describe("validateSourceProperties with a watermark column", () => {
+  it("should report a watermark column missing from the source", () => {
+    const mappings = [createPropertyMapping("Name", "FullName")]
+
+    expect(validateSourceProperties({ Name: "Jane" }, mappings, null, "UpdatedOn")).toEqual({
+      valid: false,
+      missing: ["UpdatedOn"],
+    })
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * Tests for update/upsert write mode helpers.
+ * Tests runtime behaviors that types cannot verify:
+ * - Identity value extraction from transformed rows (ordering, missing values)
+ * - Change detection against existing destination records
+ * - Identity key encoding for single and composite identities
+ */
+
+import { describe, it, expect } from "bun:test"
+import { extractIdentityValues, hasRowChanges } from "../src/services/migration-job"
+import { buildIdentityKey } from "../src/services/imis-api"
+
+describe("extractIdentityValues", () => {
+  it("should return values in identity field order", () => {
+    const row = { Ordinal: 2, ID: "12345", FirstName: "Jane" }
+
+    expect(extractIdentityValues(row, ["ID", "Ordinal"])).toEqual(["12345", "2"])
+  })
+
+  it("should return null when an identity field is missing", () => {
+    expect(extractIdentityValues({ FirstName: "Jane" }, ["ID"])).toBeNull()
+  })
+
+  it("should return null when an identity field is null or empty", () => {
+    expect(extractIdentityValues({ ID: null }, ["ID"])).toBeNull()
+    expect(extractIdentityValues({ ID: "" }, ["ID"])).toBeNull()
+  })
+
+  it("should return null when there are no identity fields", () => {
+    expect(extractIdentityValues({ ID: "1" }, [])).toBeNull()
+  })
+})
+
+describe("hasRowChanges", () => {
+  it("should report no changes when written values match", () => {
+    const existing = { ID: "1", FirstName: "Jane", Age: 30, Extra: "ignored" }
+
+    expect(hasRowChanges(existing, { ID: "1", FirstName: "Jane", Age: 30 })).toBe(false)
+  })
+
+  it("should compare numbers and strings by value", () => {
+    expect(hasRowChanges({ Age: "30" }, { Age: 30 })).toBe(false)
+  })
+
+  it("should treat missing and null as equal", () => {
+    expect(hasRowChanges({}, { MiddleName: null })).toBe(false)
+  })
+
+  it("should report changes when a written value differs", () => {
+    expect(hasRowChanges({ FirstName: "Jane" }, { FirstName: "Janet" })).toBe(true)
+  })
+
+  it("should compare binary blobs by their encoded value", () => {
+    const blob = { $type: "System.Byte[], mscorlib" as const, $value: "AAEC" }
+
+    expect(hasRowChanges({ Photo: { ...blob } }, { Photo: blob })).toBe(false)
+    expect(hasRowChanges({ Photo: { ...blob, $value: "AAED" } }, { Photo: blob })).toBe(true)
+  })
+})
+
+describe("buildIdentityKey", () => {
+  it("should use the single identity value as the key", () => {
+    expect(buildIdentityKey(["12345"])).toBe("12345")
+  })
+
+  it("should encode composite identities with a leading tilde", () => {
+    expect(buildIdentityKey(["12345", "2"])).toBe("~12345|2")
+  })
+})